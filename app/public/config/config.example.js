@@ -147,6 +147,9 @@ var config = {
 	// If set to true Local Recording feature will be enabled.
  	localRecordingEnabled: false,
 
+	// How the files are shared by default, over WebTorrent or uploaded to the server when the server file sharing is enabled.
+ 	fileSharingMode: "webtorrent",
+
 	// White listing browsers that support audio output device selection.
  	audioOutputSupportedBrowsers: [
     "chrome",
@@ -44,6 +44,7 @@ export const App: React.FC<AppProps> = React.memo((props) => {
     const parameters = urlParser.searchParams;
 
     const accessCode = parameters.get('code');
+    const joinToken = parameters.get('token');
     const produce = parameters.get('produce') !== 'false';
     const forceTcp = parameters.get('forceTcp') === 'true';
     const displayName = parameters.get('displayName');
@@ -72,6 +73,7 @@ export const App: React.FC<AppProps> = React.memo((props) => {
     const roomClient = new RoomClient({
       peerId,
       accessCode,
+      joinToken,
       device,
       produce,
       headless,
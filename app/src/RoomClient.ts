@@ -1,7 +1,7 @@
 import Logger from './features/Logger';
 import hark from 'hark';
-import { getSignalingUrl } from './urlFactory';
-import { SocketTimeoutError } from './utils';
+import { getServerUrl, getSignalingUrl } from './urlFactory';
+import { SocketTimeoutError, getRoleDisplayName } from './utils';
 import Spotlights from './features/Spotlights';
 import * as locales from './intl/locales';
 import {
@@ -19,16 +19,25 @@ import { meActions } from './store/slices/me';
 import isElectron from 'is-electron';
 import { updateIntl } from './lib/react-intl-redux/index';
 import { chatActions, ChatMessage } from './store/slices/chat';
+import { pollsActions } from './store/slices/polls';
+import { whiteboardActions } from './store/slices/whiteboard';
+import {
+  reactAction,
+  reactionBurstAction,
+  REACTIONS,
+} from './store/slices/reactions';
+import { captionAction } from './store/slices/captions';
 import { peersActions } from './store/slices/peers';
 import { filesActions } from './store/slices/files';
 import { intl, updateGlobalIntl } from './intl';
 import { FileShare } from './features/FileShare';
+import { Whiteboard, BOARD_WIDTH, BOARD_HEIGHT } from './features/Whiteboard';
 import { peerVolumesActions } from './store/slices/peerVolumes';
 import { recorderActions } from './store/slices/recorder';
 import { lobbyPeersActions } from './store/slices/lobbyPeers';
 import { settingsActions } from './store/slices/settings';
 import { transportsActions } from './store/slices/transports';
-import { roomActions } from './store/slices/room';
+import { roomActions, LiveStreamOutput } from './store/slices/room';
 import {
   notificationsActions,
   notifyAction,
@@ -118,6 +127,9 @@ const VIDEO_KSVC_ENCODINGS = [{ scalabilityMode: 'S3T3_KEY' }];
 // Used for VP9 desktop sharing.
 const VIDEO_SVC_ENCODINGS = [{ scalabilityMode: 'S3T3', dtx: true }];
 
+// Minimum interval (ms) between two rate limit warnings.
+const RATE_LIMIT_NOTIFY_INTERVAL = 5000;
+
 /**
  * Validates the simulcast `encodings` array extracting the resolution scalings
  * array.
@@ -184,6 +196,12 @@ export class RoomClient {
   // Whether we should produce.
   _produce: any;
 
+  // Joined the webinar as a receive-only audience
+  _webinarAudience = false;
+
+  // Last time the user was told a request was rate limited
+  _rateLimitNotifiedAt = 0;
+
   // Whether we force TCP
   _forceTcp: any;
 
@@ -208,6 +226,10 @@ export class RoomClient {
 
   // Access code
   _accessCode: any;
+  _joinToken: string;
+
+  // Room to switch to after the server moved us (breakout rooms)
+  _switchRoomId: string = null;
 
   // Alert sounds
   _soundAlerts: any;
@@ -224,6 +246,8 @@ export class RoomClient {
 
   fileShare: FileShare;
 
+  whiteboard: Whiteboard;
+
   // Manager of spotlight
   _spotlights: any;
   // Transport for sending.
@@ -285,6 +309,7 @@ export class RoomClient {
     {
       peerId,
       accessCode,
+      joinToken,
       device,
       produce,
       headless,
@@ -350,6 +375,9 @@ export class RoomClient {
     // Access code
     this._accessCode = accessCode;
 
+    // Signed join token of an embedding app
+    this._joinToken = joinToken;
+
     // Alert sounds
     this._soundAlerts = { default: { audio: new Audio('/sounds/notify.mp3') } };
 
@@ -631,6 +659,13 @@ export class RoomClient {
             break;
           }
 
+          case 'R': {
+            // Send a thumbs up
+            this.sendReaction(REACTIONS[0]);
+
+            break;
+          }
+
           default: {
             break;
           }
@@ -907,11 +942,33 @@ export class RoomClient {
             'sendRequest() | timeout, retrying [attempt:"%s"]',
             tries
           );
-        else throw error;
+        else {
+          if (error && error.rateLimited) this._notifyRateLimited();
+
+          throw error;
+        }
       }
     }
   }
 
+  _notifyRateLimited() {
+    // One warning for a burst of rejected requests
+    if (Date.now() - this._rateLimitNotifiedAt < RATE_LIMIT_NOTIFY_INTERVAL)
+      return;
+
+    this._rateLimitNotifiedAt = Date.now();
+
+    store.dispatch(
+      notifyAction({
+        type: 'warning',
+        text: intl.formatMessage({
+          id: 'room.rateLimited',
+          defaultMessage: 'You are doing this too often, please slow down',
+        }),
+      })
+    );
+  }
+
   async changeDisplayName(displayName: string) {
     displayName = displayName.trim();
 
@@ -972,7 +1029,10 @@ export class RoomClient {
     }
   }
 
-  async sendChatMessage(chatMessage: ChatMessage) {
+  /**
+   * Sends a chat message to the room, or privately to `toPeerIds`.
+   */
+  async sendChatMessage(chatMessage: ChatMessage, toPeerIds?: string[]) {
     logger.debug('sendChatMessage() [chatMessage:"%s"]', chatMessage);
 
     try {
@@ -983,12 +1043,18 @@ export class RoomClient {
           sender: 'client',
           picture: undefined,
           isRead: true,
+          conversation: toPeerIds ? [...toPeerIds].sort().join(',') : undefined,
         })
       );
 
       store.dispatch(chatActions.setIsScrollEnd(true));
 
-      await this.sendRequest('chatMessage', { chatMessage });
+      const { id } = await this.sendRequest<{ id: string }>('chatMessage', {
+        chatMessage,
+        toPeerIds,
+      });
+
+      store.dispatch(chatActions.setMessageId({ time: chatMessage.time, id }));
     } catch (error) {
       logger.error('sendChatMessage() [error:"%o"]', error);
 
@@ -1004,6 +1070,61 @@ export class RoomClient {
     }
   }
 
+  async editChatMessage(id: string, text: string) {
+    logger.debug('editChatMessage() [id:"%s"]', id);
+
+    try {
+      await this.sendRequest('editChatMessage', { id, text });
+    } catch (error) {
+      logger.error('editChatMessage() [error:"%o"]', error);
+
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.chatEditError',
+            defaultMessage: 'Unable to edit the chat message',
+          }),
+        })
+      );
+    }
+  }
+
+  async deleteChatMessage(id: string) {
+    logger.debug('deleteChatMessage() [id:"%s"]', id);
+
+    try {
+      await this.sendRequest('deleteChatMessage', { id });
+    } catch (error) {
+      logger.error('deleteChatMessage() [error:"%o"]', error);
+
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.chatDeleteError',
+            defaultMessage: 'Unable to delete the chat message',
+          }),
+        })
+      );
+    }
+  }
+
+  async reactChatMessage(id: string, emoji: string, reacted: boolean) {
+    logger.debug(
+      'reactChatMessage() [id:"%s", emoji:"%s", reacted:%s]',
+      id,
+      emoji,
+      reacted
+    );
+
+    try {
+      await this.sendRequest('chatReaction', { id, emoji, reacted });
+    } catch (error) {
+      logger.error('reactChatMessage() [error:"%o"]', error);
+    }
+  }
+
   saveFile(file) {
     file.getBlob((err, blob) => {
       if (err) {
@@ -1068,6 +1189,172 @@ export class RoomClient {
     saveAs(blob, fileName);
   }
 
+  async createPoll(settings: {
+    question: string;
+    options: string[];
+    multiple: boolean;
+    anonymous: boolean;
+    duration: number;
+  }) {
+    logger.debug('createPoll() [question:"%s"]', settings.question);
+
+    try {
+      await this.sendRequest('moderator:createPoll', settings);
+    } catch (error) {
+      logger.error('createPoll() [error:"%o"]', error);
+
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'polls.createError',
+            defaultMessage: 'Unable to create the poll',
+          }),
+        })
+      );
+    }
+  }
+
+  async votePoll(pollId: string, choices: number[]) {
+    logger.debug('votePoll() [pollId:"%s", choices:"%o"]', pollId, choices);
+
+    try {
+      await this.sendRequest('votePoll', { pollId, choices });
+
+      store.dispatch(pollsActions.setMyChoices({ pollId, choices }));
+    } catch (error) {
+      logger.error('votePoll() [error:"%o"]', error);
+
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'polls.voteError',
+            defaultMessage: 'Unable to vote',
+          }),
+        })
+      );
+    }
+  }
+
+  async closePoll(pollId: string) {
+    logger.debug('closePoll() [pollId:"%s"]', pollId);
+
+    try {
+      await this.sendRequest('moderator:closePoll', { pollId });
+    } catch (error) {
+      logger.error('closePoll() [error:"%o"]', error);
+    }
+  }
+
+  async deletePoll(pollId: string) {
+    logger.debug('deletePoll() [pollId:"%s"]', pollId);
+
+    try {
+      await this.sendRequest('moderator:deletePoll', { pollId });
+    } catch (error) {
+      logger.error('deletePoll() [error:"%o"]', error);
+    }
+  }
+
+  /**
+   * Saves the results of a poll as CSV.
+   */
+  exportPoll(pollId: string) {
+    const poll = store
+      .getState()
+      .polls.polls.find((statePoll) => statePoll.id === pollId);
+
+    if (!poll) return;
+
+    const escapeCsv = (value: string | number) =>
+      `"${String(value).replace(/"/g, '""')}"`;
+
+    const rows = [
+      ['Question', 'Option', 'Votes', 'Voters'],
+      ...poll.options.map((option, index) => [
+        poll.question,
+        option,
+        poll.counts[index],
+        poll.voters ? poll.voters[index].join(', ') : '',
+      ]),
+    ];
+
+    const blob = new Blob(
+      // The byte order mark makes spreadsheets read it as UTF-8
+      ['\ufeff', rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n')],
+      { type: 'text/csv;charset=utf-8' }
+    );
+
+    saveAs(blob, `poll-${poll.createdAt}.csv`);
+  }
+
+  async clearWhiteboard() {
+    logger.debug('clearWhiteboard()');
+
+    try {
+      await this.sendRequest('moderator:clearWhiteboard');
+    } catch (error) {
+      logger.error('clearWhiteboard() [error:"%o"]', error);
+    }
+  }
+
+  async lockWhiteboard(locked: boolean) {
+    logger.debug('lockWhiteboard() [locked:%s]', locked);
+
+    try {
+      await this.sendRequest('moderator:lockWhiteboard', { locked });
+    } catch (error) {
+      logger.error('lockWhiteboard() [error:"%o"]', error);
+    }
+  }
+
+  /**
+   * Saves the board rendered in `svg` as a SVG or PNG file.
+   */
+  async exportWhiteboard(svg: SVGSVGElement, format: 'svg' | 'png') {
+    const copy = svg.cloneNode(true) as SVGSVGElement;
+
+    copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    copy.setAttribute('width', String(BOARD_WIDTH));
+    copy.setAttribute('height', String(BOARD_HEIGHT));
+
+    const svgBlob = new Blob([new XMLSerializer().serializeToString(copy)], {
+      type: 'image/svg+xml;charset=utf-8',
+    });
+    const fileName = `whiteboard-${Date.now()}.${format}`;
+
+    if (format === 'svg') {
+      saveAs(svgBlob, fileName);
+
+      return;
+    }
+
+    const url = URL.createObjectURL(svgBlob);
+
+    try {
+      const image = new Image();
+
+      await new Promise((resolve, reject) => {
+        image.onload = resolve;
+        image.onerror = reject;
+        image.src = url;
+      });
+
+      const canvas = document.createElement('canvas');
+
+      canvas.width = BOARD_WIDTH;
+      canvas.height = BOARD_HEIGHT;
+      canvas.getContext('2d').drawImage(image, 0, 0);
+
+      canvas.toBlob((pngBlob) => saveAs(pngBlob, fileName), 'image/png');
+    } catch (error) {
+      logger.error('exportWhiteboard() [error:"%o"]', error);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
   sortChat(order: 'asc' | 'desc') {
     store.dispatch(chatActions.sortChat(order));
   }
@@ -1172,6 +1459,21 @@ export class RoomClient {
     }
   }
 
+  // Server side last-N, the server picks our spotlights
+  async updateLastN(lastN: {
+    size: number;
+    pinnedPeerIds: string[];
+    videoOnly: boolean;
+  }) {
+    logger.debug('updateLastN() [lastN:"%o"]', lastN);
+
+    try {
+      await this.sendRequest('setLastN', lastN);
+    } catch (error) {
+      logger.error('updateLastN() [error:"%o"]', error);
+    }
+  }
+
   disconnectLocalHark() {
     logger.debug('disconnectLocalHark()');
 
@@ -1770,29 +2072,21 @@ export class RoomClient {
     store.dispatch(roomActions.set('clearChatInProgress', false));
   }
 
-  /*
-	async clearFileSharing()
-	{
-		logger.debug('clearFileSharing()');
+  async clearFileSharing() {
+    logger.debug('clearFileSharing()');
 
-		store.dispatch(
-			roomActions.setClearFileSharingInProgress(true));
+    store.dispatch(roomActions.set('clearFileSharingInProgress', true));
 
-		try
-		{
-			await this.sendRequest('moderator:clearFileSharing');
+    try {
+      await this.sendRequest('moderator:clearFileSharing');
 
-			store.dispatch(filesActions.clearFiles());
-		}
-		catch (error)
-		{
-			logger.error('clearFileSharing() [error:"%o"]', error);
-		}
+      store.dispatch(filesActions.clearFiles());
+    } catch (error) {
+      logger.error('clearFileSharing() [error:"%o"]', error);
+    }
 
-		store.dispatch(
-			roomActions.setClearFileSharingInProgress(false));
-	}
-	*/
+    store.dispatch(roomActions.set('clearFileSharingInProgress', false));
+  }
 
   async givePeerRole(peerId, roleId) {
     logger.debug('givePeerRole() [peerId:"%s", roleId:"%s"]', peerId, roleId);
@@ -1950,118 +2244,364 @@ export class RoomClient {
     store.dispatch(roomActions.set('closeMeetingInProgress', false));
   }
 
-  // type: mic/webcam/screen
-  // mute: true/false
-  async modifyPeerConsumer(peerId, type, mute) {
-    logger.debug('modifyPeerConsumer() [peerId:"%s", type:"%s"]', peerId, type);
+  async startServerRecording() {
+    logger.debug('startServerRecording()');
 
-    if (type === 'mic')
-      store.dispatch(
-        peersActions.setPeerAudioInProgress({ peerId, flag: true })
-      );
-    else if (type === 'webcam')
-      store.dispatch(
-        peersActions.setPeerVideoInProgress({ peerId, flag: true })
-      );
-    else if (type === 'screen')
-      store.dispatch(
-        peersActions.setPeerScreenInProgress({ peerId, flag: true })
-      );
+    store.dispatch(roomActions.set('serverRecordingInProgress', true));
 
     try {
-      for (const consumer of this._consumers.values()) {
-        if (
-          consumer.appData.peerId === peerId &&
-          consumer.appData.source === type
-        ) {
-          if (mute) await this._pauseConsumer(consumer);
-          else await this._resumeConsumer(consumer);
-        }
-      }
+      await this.sendRequest('moderator:startRecording');
     } catch (error) {
-      logger.error('modifyPeerConsumer() [error:"%o"]', error);
-    }
-
-    if (type === 'mic')
-      store.dispatch(
-        peersActions.setPeerAudioInProgress({ peerId, flag: false })
-      );
-    else if (type === 'webcam')
-      store.dispatch(
-        peersActions.setPeerVideoInProgress({ peerId, flag: false })
-      );
-    else if (type === 'screen')
       store.dispatch(
-        peersActions.setPeerScreenInProgress({ peerId, flag: false })
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.cantStartServerRecording',
+            defaultMessage: 'Unable to start the server recording',
+          }),
+        })
       );
-  }
-
-  async setAudioGain(micConsumer, peerId, audioGain) {
-    logger.debug(
-      'setAudioGain() [micConsumer:"%o", peerId:"%s", type:"%s"]',
-      micConsumer,
-      peerId,
-      audioGain
-    );
 
-    if (!micConsumer) {
-      return;
+      logger.error('startServerRecording() [error:"%o"]', error);
     }
 
-    micConsumer.audioGain = audioGain;
-
-    try {
-      for (const consumer of this._consumers.values()) {
-        if (consumer.appData.peerId === peerId) {
-          store.dispatch(
-            consumersActions.setConsumerAudioGain({
-              consumerId: consumer.id,
-              audioGain,
-            })
-          );
-        }
-      }
-    } catch (error) {
-      logger.error('setAudioGain() [error:"%o"]', error);
-    }
+    store.dispatch(roomActions.set('serverRecordingInProgress', false));
   }
 
-  async _pauseConsumer(consumer) {
-    logger.debug('_pauseConsumer() [consumer:"%o"]', consumer);
+  async stopServerRecording() {
+    logger.debug('stopServerRecording()');
 
-    if (consumer.paused || consumer.closed) return;
+    store.dispatch(roomActions.set('serverRecordingInProgress', true));
 
     try {
-      await this.sendRequest('pauseConsumer', { consumerId: consumer.id });
-
-      consumer.pause();
-
+      await this.sendRequest('moderator:stopRecording');
+    } catch (error) {
       store.dispatch(
-        consumersActions.setConsumerPaused({
-          consumerId: consumer.id,
-          originator: 'local',
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.cantStopServerRecording',
+            defaultMessage: 'Unable to stop the server recording',
+          }),
         })
       );
-    } catch (error) {
-      logger.error(
-        '_pauseConsumer() [consumerId: %s; error:"%o"]',
-        consumer.id,
-        error
-      );
-      if (error.notFoundInMediasoupError) {
-        this._closeConsumer(consumer.id);
-      }
+
+      logger.error('stopServerRecording() [error:"%o"]', error);
     }
+
+    store.dispatch(roomActions.set('serverRecordingInProgress', false));
   }
 
-  async _resumeConsumer(consumer, { initial = false } = {}) {
-    logger.debug('_resumeConsumer() [consumer:"%o"]', consumer);
+  async startLiveStream(output: LiveStreamOutput) {
+    logger.debug('startLiveStream() [output:"%s"]', output);
 
-    if ((!initial && !consumer.paused) || consumer.closed) return;
+    store.dispatch(roomActions.set('liveStreamInProgress', true));
 
     try {
-      consumer.resume();
-      await this.sendRequest('resumeConsumer', { consumerId: consumer.id });
+      await this.sendRequest('moderator:startLiveStream', { output });
+    } catch (error) {
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.cantStartLiveStream',
+            defaultMessage: 'Unable to start the live stream',
+          }),
+        })
+      );
+
+      logger.error('startLiveStream() [error:"%o"]', error);
+    }
+
+    store.dispatch(roomActions.set('liveStreamInProgress', false));
+  }
+
+  async stopLiveStream() {
+    logger.debug('stopLiveStream()');
+
+    store.dispatch(roomActions.set('liveStreamInProgress', true));
+
+    try {
+      await this.sendRequest('moderator:stopLiveStream');
+    } catch (error) {
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.cantStopLiveStream',
+            defaultMessage: 'Unable to stop the live stream',
+          }),
+        })
+      );
+
+      logger.error('stopLiveStream() [error:"%o"]', error);
+    }
+
+    store.dispatch(roomActions.set('liveStreamInProgress', false));
+  }
+
+  /**
+   * HLS playlist of the live stream, on the server of the room.
+   */
+  getLiveStreamUrl(hlsUrl: string) {
+    return getServerUrl(this._signalingUrl, hlsUrl);
+  }
+
+  async setRoomPermission(permission: PermissionList, roles: number[]) {
+    logger.debug(
+      'setRoomPermission() [permission:"%s", roles:"%o"]',
+      permission,
+      roles
+    );
+
+    try {
+      await this.sendRequest('moderator:setPermission', { permission, roles });
+    } catch (error) {
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.permissionsError',
+            defaultMessage: 'Unable to change the room permissions',
+          }),
+        })
+      );
+
+      logger.error('setRoomPermission() [error:"%o"]', error);
+    }
+  }
+
+  async resetRoomPermissions() {
+    logger.debug('resetRoomPermissions()');
+
+    try {
+      await this.sendRequest('moderator:resetPermissions');
+    } catch (error) {
+      logger.error('resetRoomPermissions() [error:"%o"]', error);
+    }
+  }
+
+  async createBreakoutRooms(count: number, random: boolean) {
+    logger.debug(
+      'createBreakoutRooms() [count:"%s", random:"%s"]',
+      count,
+      random
+    );
+
+    store.dispatch(roomActions.set('breakoutInProgress', true));
+
+    try {
+      await this.sendRequest('moderator:breakoutCreate', { count, random });
+    } catch (error) {
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'breakout.createError',
+            defaultMessage: 'Unable to create the breakout rooms',
+          }),
+        })
+      );
+
+      logger.error('createBreakoutRooms() [error:"%o"]', error);
+    }
+
+    store.dispatch(roomActions.set('breakoutInProgress', false));
+  }
+
+  async moveBreakoutPeer(peerId: string, roomId: string) {
+    logger.debug(
+      'moveBreakoutPeer() [peerId:"%s", roomId:"%s"]',
+      peerId,
+      roomId
+    );
+
+    try {
+      await this.sendRequest('moderator:breakoutMovePeer', { peerId, roomId });
+    } catch (error) {
+      logger.error('moveBreakoutPeer() [error:"%o"]', error);
+    }
+  }
+
+  async broadcastToBreakoutRooms(text: string) {
+    logger.debug('broadcastToBreakoutRooms() [text:"%s"]', text);
+
+    try {
+      await this.sendRequest('moderator:breakoutBroadcast', { text });
+    } catch (error) {
+      logger.error('broadcastToBreakoutRooms() [error:"%o"]', error);
+    }
+  }
+
+  async closeBreakoutRooms(countdown: number) {
+    logger.debug('closeBreakoutRooms() [countdown:"%s"]', countdown);
+
+    store.dispatch(roomActions.set('breakoutInProgress', true));
+
+    try {
+      await this.sendRequest('moderator:breakoutClose', { countdown });
+    } catch (error) {
+      logger.error('closeBreakoutRooms() [error:"%o"]', error);
+    }
+
+    store.dispatch(roomActions.set('breakoutInProgress', false));
+  }
+
+  async returnToMainRoom() {
+    logger.debug('returnToMainRoom()');
+
+    try {
+      await this.sendRequest('breakout:return');
+    } catch (error) {
+      logger.error('returnToMainRoom() [error:"%o"]', error);
+    }
+  }
+
+  /**
+   * Reconnects the signaling socket to another room of the meeting, the
+   * media state was already cleaned up by the disconnect handler.
+   */
+  _switchRoom(roomId: string) {
+    logger.debug('_switchRoom() [roomId:"%s"]', roomId);
+
+    this._roomId = roomId;
+
+    store.dispatch(chatActions.clearChat());
+    store.dispatch(filesActions.clearFiles());
+
+    for (const peerId of Object.keys(store.getState().lobbyPeers)) {
+      store.dispatch(lobbyPeersActions.removeLobbyPeer(peerId));
+    }
+
+    for (const roleId of store.getState().me.roles) {
+      store.dispatch(meActions.removeRole(roleId));
+    }
+
+    store.dispatch(roomActions.set('breakoutRooms', []));
+
+    this._signalingUrl = getSignalingUrl(
+      this._peerId,
+      roomId,
+      undefined,
+      this._joinToken
+    );
+
+    this._signalingSocket.io.uri = this._signalingUrl;
+    this._signalingSocket.connect();
+  }
+
+  // type: mic/webcam/screen
+  // mute: true/false
+  async modifyPeerConsumer(peerId, type, mute) {
+    logger.debug('modifyPeerConsumer() [peerId:"%s", type:"%s"]', peerId, type);
+
+    if (type === 'mic')
+      store.dispatch(
+        peersActions.setPeerAudioInProgress({ peerId, flag: true })
+      );
+    else if (type === 'webcam')
+      store.dispatch(
+        peersActions.setPeerVideoInProgress({ peerId, flag: true })
+      );
+    else if (type === 'screen')
+      store.dispatch(
+        peersActions.setPeerScreenInProgress({ peerId, flag: true })
+      );
+
+    try {
+      for (const consumer of this._consumers.values()) {
+        if (
+          consumer.appData.peerId === peerId &&
+          consumer.appData.source === type
+        ) {
+          if (mute) await this._pauseConsumer(consumer);
+          else await this._resumeConsumer(consumer);
+        }
+      }
+    } catch (error) {
+      logger.error('modifyPeerConsumer() [error:"%o"]', error);
+    }
+
+    if (type === 'mic')
+      store.dispatch(
+        peersActions.setPeerAudioInProgress({ peerId, flag: false })
+      );
+    else if (type === 'webcam')
+      store.dispatch(
+        peersActions.setPeerVideoInProgress({ peerId, flag: false })
+      );
+    else if (type === 'screen')
+      store.dispatch(
+        peersActions.setPeerScreenInProgress({ peerId, flag: false })
+      );
+  }
+
+  async setAudioGain(micConsumer, peerId, audioGain) {
+    logger.debug(
+      'setAudioGain() [micConsumer:"%o", peerId:"%s", type:"%s"]',
+      micConsumer,
+      peerId,
+      audioGain
+    );
+
+    if (!micConsumer) {
+      return;
+    }
+
+    micConsumer.audioGain = audioGain;
+
+    try {
+      for (const consumer of this._consumers.values()) {
+        if (consumer.appData.peerId === peerId) {
+          store.dispatch(
+            consumersActions.setConsumerAudioGain({
+              consumerId: consumer.id,
+              audioGain,
+            })
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('setAudioGain() [error:"%o"]', error);
+    }
+  }
+
+  async _pauseConsumer(consumer) {
+    logger.debug('_pauseConsumer() [consumer:"%o"]', consumer);
+
+    if (consumer.paused || consumer.closed) return;
+
+    try {
+      await this.sendRequest('pauseConsumer', { consumerId: consumer.id });
+
+      consumer.pause();
+
+      store.dispatch(
+        consumersActions.setConsumerPaused({
+          consumerId: consumer.id,
+          originator: 'local',
+        })
+      );
+    } catch (error) {
+      logger.error(
+        '_pauseConsumer() [consumerId: %s; error:"%o"]',
+        consumer.id,
+        error
+      );
+      if (error.notFoundInMediasoupError) {
+        this._closeConsumer(consumer.id);
+      }
+    }
+  }
+
+  async _resumeConsumer(consumer, { initial = false } = {}) {
+    logger.debug('_resumeConsumer() [consumer:"%o"]', consumer);
+
+    if ((!initial && !consumer.paused) || consumer.closed) return;
+
+    try {
+      consumer.resume();
+      await this.sendRequest('resumeConsumer', { consumerId: consumer.id });
       store.dispatch(
         consumersActions.setConsumerResumed({
           consumerId: consumer.id,
@@ -2102,6 +2642,26 @@ export class RoomClient {
     );
   }
 
+  async promoteWebinarSpeaker(peerId: string) {
+    logger.debug('promoteWebinarSpeaker() [peerId:"%s"]', peerId);
+
+    try {
+      await this.sendRequest('moderator:webinarPromote', { peerId });
+    } catch (error) {
+      logger.error('promoteWebinarSpeaker() [error:"%o"]', error);
+    }
+  }
+
+  async demoteWebinarSpeaker(peerId: string) {
+    logger.debug('demoteWebinarSpeaker() [peerId:"%s"]', peerId);
+
+    try {
+      await this.sendRequest('moderator:webinarDemote', { peerId });
+    } catch (error) {
+      logger.error('demoteWebinarSpeaker() [error:"%o"]', error);
+    }
+  }
+
   async setRaisedHand(raisedHand) {
     logger.debug('setRaisedHand: ', raisedHand);
 
@@ -2121,6 +2681,18 @@ export class RoomClient {
     store.dispatch(meActions.setRaiseHandInProgress(false));
   }
 
+  async sendReaction(reaction: string) {
+    logger.debug('sendReaction() [reaction:"%s"]', reaction);
+
+    try {
+      await this.sendRequest('sendReaction', { reaction });
+
+      store.dispatch(reactAction({ peerId: store.getState().me.id, reaction }));
+    } catch (error) {
+      logger.error('sendReaction() [error:"%o"]', error);
+    }
+  }
+
   async setMaxSendingSpatialLayer(spatialLayer) {
     logger.debug(
       'setMaxSendingSpatialLayer() [spatialLayer:"%s"]',
@@ -2401,7 +2973,12 @@ export class RoomClient {
 
     store.dispatch(roomActions.set('name', roomId));
 
-    this._signalingUrl = getSignalingUrl(this._peerId, roomId);
+    this._signalingUrl = getSignalingUrl(
+      this._peerId,
+      roomId,
+      undefined,
+      this._joinToken
+    );
 
     this._screenSharing = ScreenShare.create(this._device);
 
@@ -2418,7 +2995,10 @@ export class RoomClient {
 
       if (this._closed) return;
 
-      if (reason === 'io server disconnect') {
+      // Redirected to another node of the cluster
+      if (reason === 'io client disconnect') return;
+
+      if (reason === 'io server disconnect' && !this._switchRoomId) {
         store.dispatch(
           notifyAction({
             text: intl.formatMessage({
@@ -2493,6 +3073,15 @@ export class RoomClient {
       store.dispatch(consumersActions.clearConsumers());
       store.dispatch(roomActions.clearSpotlights());
       store.dispatch(roomActions.setRoomState('connecting'));
+
+      // Moved to a breakout room or back to the main room
+      if (this._switchRoomId) {
+        const roomId = this._switchRoomId;
+
+        this._switchRoomId = null;
+
+        this._switchRoom(roomId);
+      }
     });
 
     this._signalingSocket.on('reconnect_failed', () => {
@@ -2564,6 +3153,252 @@ export class RoomClient {
             break;
           }
 
+          case 'redirect': {
+            const { url } = notification.data;
+
+            logger.debug(
+              'room is on another node, redirecting [url:"%s"]',
+              url
+            );
+
+            this._signalingUrl = getSignalingUrl(
+              this._peerId,
+              this._roomId,
+              url,
+              this._joinToken
+            );
+
+            this._signalingSocket.io.uri = this._signalingUrl;
+            this._signalingSocket.disconnect().connect();
+
+            break;
+          }
+
+          case 'breakout:rooms': {
+            const { rooms } = notification.data;
+
+            store.dispatch(roomActions.set('breakoutRooms', rooms));
+
+            break;
+          }
+
+          case 'breakout:move': {
+            const { roomId, name } = notification.data;
+
+            // The server disconnects us right after
+            this._switchRoomId = roomId;
+
+            store.dispatch(
+              notifyAction({
+                text: name
+                  ? intl.formatMessage(
+                      {
+                        id: 'breakout.movedToRoom',
+                        defaultMessage: 'Moving to breakout room {name}',
+                      },
+                      { name }
+                    )
+                  : intl.formatMessage({
+                      id: 'breakout.movedToMainRoom',
+                      defaultMessage: 'Moving back to the main room',
+                    }),
+              })
+            );
+
+            break;
+          }
+
+          case 'breakout:broadcast': {
+            const { displayName, text } = notification.data;
+
+            store.dispatch(
+              notifyAction({
+                type: 'info',
+                timeout: 15000,
+                text: `${displayName}: ${text}`,
+              })
+            );
+
+            break;
+          }
+
+          case 'breakout:closing': {
+            const { countdown } = notification.data;
+
+            store.dispatch(
+              notifyAction({
+                type: 'warning',
+                text: intl.formatMessage(
+                  {
+                    id: 'breakout.closing',
+                    defaultMessage:
+                      'The breakout rooms close in {countdown} seconds',
+                  },
+                  { countdown }
+                ),
+              })
+            );
+
+            break;
+          }
+
+          case 'joinTokenAccepted': {
+            const { displayName, picture } = notification.data;
+
+            if (displayName) {
+              store.dispatch(settingsActions.set('displayName', displayName));
+
+              this._displayName = displayName;
+            }
+
+            if (picture && !store.getState().settings.localPicture) {
+              store.dispatch(meActions.setPicture(picture));
+            }
+
+            store.dispatch(meActions.setLoggedIn(true));
+
+            break;
+          }
+
+          case 'meetingNotStarted': {
+            const { title, startAt } = notification.data;
+
+            store.dispatch(
+              roomActions.set('scheduledMeeting', { title, startAt })
+            );
+
+            break;
+          }
+
+          case 'meetingStarted': {
+            store.dispatch(roomActions.set('scheduledMeeting', null));
+
+            break;
+          }
+
+          case 'meetingEndingSoon': {
+            const { endAt } = notification.data;
+
+            store.dispatch(
+              notifyAction({
+                type: 'warning',
+                text: intl.formatMessage(
+                  {
+                    id: 'room.meetingEndingSoon',
+                    defaultMessage: 'The meeting ends in {minutes} minutes',
+                  },
+                  {
+                    minutes: Math.max(
+                      1,
+                      Math.round((endAt - Date.now()) / 60000)
+                    ),
+                  }
+                ),
+              })
+            );
+
+            break;
+          }
+
+          case 'spotlights': {
+            const { peerIds } = notification.data;
+
+            store.dispatch(roomActions.set('spotlights', peerIds));
+
+            for (const peerId of store.getState().room.selectedPeers) {
+              if (!peerIds.includes(peerId))
+                store.dispatch(roomActions.removeSelectedPeer(peerId));
+            }
+
+            break;
+          }
+
+          case 'rateLimitMuted': {
+            const { duration } = notification.data;
+
+            store.dispatch(
+              notifyAction({
+                type: 'error',
+                text: intl.formatMessage(
+                  {
+                    id: 'room.rateLimitMuted',
+                    defaultMessage:
+                      'You sent too many requests and are blocked for {seconds} seconds',
+                  },
+                  { seconds: Math.ceil(duration / 1000) }
+                ),
+              })
+            );
+
+            break;
+          }
+
+          case 'serverDraining': {
+            const { timeLeft } = notification.data;
+
+            store.dispatch(
+              roomActions.set('drainDeadline', Date.now() + timeLeft)
+            );
+
+            break;
+          }
+
+          case 'webinar:state': {
+            store.dispatch(roomActions.set('webinar', notification.data));
+
+            break;
+          }
+
+          case 'webinar:stage': {
+            const { onStage } = notification.data;
+
+            await this._updateWebinarStage(onStage);
+
+            break;
+          }
+
+          case 'roomRejected': {
+            const { reason } = notification.data;
+
+            store.dispatch(
+              notifyAction({
+                type: 'error',
+                text: {
+                  meetingEnded: intl.formatMessage({
+                    id: 'room.meetingEnded',
+                    defaultMessage: 'This meeting has ended',
+                  }),
+                  unknownRoom: intl.formatMessage({
+                    id: 'room.unknownRoom',
+                    defaultMessage: 'This meeting does not exist',
+                  }),
+                  invalidJoinToken: intl.formatMessage({
+                    id: 'room.invalidJoinToken',
+                    defaultMessage:
+                      'Your invitation to this meeting is invalid',
+                  }),
+                  expiredJoinToken: intl.formatMessage({
+                    id: 'room.expiredJoinToken',
+                    defaultMessage:
+                      'Your invitation to this meeting has expired',
+                  }),
+                  serverDraining: intl.formatMessage({
+                    id: 'room.serverDraining',
+                    defaultMessage:
+                      'The server is under maintenance, please try again',
+                  }),
+                  breakoutNotAdmitted: intl.formatMessage({
+                    id: 'room.breakoutNotAdmitted',
+                    defaultMessage:
+                      'Breakout rooms are entered when a moderator sends you there',
+                  }),
+                }[reason],
+              })
+            );
+
+            break;
+          }
+
           case 'signInRequired': {
             store.dispatch(meActions.setLoggedIn(false));
             store.dispatch(roomActions.set('signInRequired', true));
@@ -2578,9 +3413,10 @@ export class RoomClient {
           }
 
           case 'roomReady': {
-            const { turnServers } = notification.data;
+            const { turnServers, webinarAudience } = notification.data;
 
             this._turnServers = turnServers;
+            this._webinarAudience = Boolean(webinarAudience);
 
             store.dispatch(roomActions.set('joined', true));
             store.dispatch(roomActions.set('inLobby', false));
@@ -2591,6 +3427,10 @@ export class RoomClient {
           }
 
           case 'roomBack': {
+            const { webinarAudience } = notification.data;
+
+            this._webinarAudience = Boolean(webinarAudience);
+
             await this._joinRoom({
               joinVideo: !store.getState().settings.videoMuted,
               joinAudio: !store.getState().settings.audioMuted,
@@ -2600,6 +3440,23 @@ export class RoomClient {
             break;
           }
 
+          case 'roomPermissions': {
+            const { roomPermissions } = notification.data;
+
+            store.dispatch(roomActions.set('roomPermissions', roomPermissions));
+
+            store.dispatch(
+              notifyAction({
+                text: intl.formatMessage({
+                  id: 'room.permissionsChanged',
+                  defaultMessage: 'The room permissions changed',
+                }),
+              })
+            );
+
+            break;
+          }
+
           case 'lockRoom': {
             store.dispatch(roomActions.set('locked', true));
 
@@ -2853,6 +3710,36 @@ export class RoomClient {
             break;
           }
 
+          case 'whiteboard:locked': {
+            const { locked } = notification.data;
+
+            store.dispatch(whiteboardActions.setLocked(locked));
+
+            break;
+          }
+
+          case 'reaction': {
+            const { peerId, reaction } = notification.data;
+
+            store.dispatch(reactAction({ peerId, reaction }));
+
+            break;
+          }
+
+          case 'caption': {
+            store.dispatch(captionAction(notification.data));
+
+            break;
+          }
+
+          case 'reactionBurst': {
+            const { reactions } = notification.data;
+
+            store.dispatch(reactionBurstAction(reactions));
+
+            break;
+          }
+
           case 'raisedHand': {
             const { peerId, raisedHand, raisedHandTimestamp } =
               notification.data;
@@ -2891,36 +3778,122 @@ export class RoomClient {
               );
             }
 
-            if (displayName) {
-              store.dispatch(
-                notifyAction({
-                  text,
-                })
-              );
-            }
+            if (displayName) {
+              store.dispatch(
+                notifyAction({
+                  text,
+                })
+              );
+            }
+
+            this._soundNotification(notification.method);
+
+            break;
+          }
+
+          case 'chatMessage': {
+            const { peerId, chatMessage, toPeerIds } = notification.data;
+
+            // The private messages are answered to their sender
+            const conversation = toPeerIds ? peerId : undefined;
+
+            store.dispatch(
+              chatActions.addMessage({
+                ...chatMessage,
+                peerId,
+                isRead: false,
+                conversation,
+              })
+            );
+
+            if (
+              conversation &&
+              store.getState().chat.conversation !== conversation
+            )
+              store.dispatch(
+                notifyAction({
+                  text: intl.formatMessage(
+                    {
+                      id: 'room.newPrivateMessage',
+                      defaultMessage: 'New private message from {displayName}',
+                    },
+                    { displayName: chatMessage.name }
+                  ),
+                })
+              );
+
+            if (
+              !store.getState().toolarea.toolAreaOpen ||
+              (store.getState().toolarea.toolAreaOpen &&
+                store.getState().toolarea.currentToolTab !== 'chat')
+            ) {
+              // Make sound
+              store.dispatch(roomActions.set('toolbarsVisible', true));
+              this._soundNotification(notification.method);
+            }
+
+            break;
+          }
+
+          case 'poll:created': {
+            const { poll } = notification.data;
+
+            store.dispatch(pollsActions.addPoll(poll));
+
+            store.dispatch(
+              notifyAction({
+                text: intl.formatMessage(
+                  {
+                    id: 'polls.created',
+                    defaultMessage: 'New poll: {question}',
+                  },
+                  { question: poll.question }
+                ),
+              })
+            );
+
+            break;
+          }
+
+          case 'poll:updated': {
+            const { poll } = notification.data;
+
+            store.dispatch(pollsActions.updatePoll(poll));
+
+            break;
+          }
+
+          case 'poll:deleted': {
+            const { pollId } = notification.data;
 
-            this._soundNotification(notification.method);
+            store.dispatch(pollsActions.removePoll(pollId));
 
             break;
           }
 
-          case 'chatMessage': {
-            const { peerId, chatMessage } = notification.data;
+          case 'chatMessageEdited': {
+            const { id, text, editedAt } = notification.data;
+
+            store.dispatch(chatActions.editMessage({ id, text, editedAt }));
+
+            break;
+          }
+
+          case 'chatMessageDeleted': {
+            const { id } = notification.data;
+
+            store.dispatch(chatActions.deleteMessage(id));
+
+            break;
+          }
+
+          case 'chatReaction': {
+            const { id, emoji, peerId, reacted } = notification.data;
 
             store.dispatch(
-              chatActions.addMessage({ ...chatMessage, peerId, isRead: false })
+              chatActions.setReaction({ id, emoji, peerId, reacted })
             );
 
-            if (
-              !store.getState().toolarea.toolAreaOpen ||
-              (store.getState().toolarea.toolAreaOpen &&
-                store.getState().toolarea.currentToolTab !== 'chat')
-            ) {
-              // Make sound
-              store.dispatch(roomActions.set('toolbarsVisible', true));
-              this._soundNotification(notification.method);
-            }
-
             break;
           }
 
@@ -2968,22 +3941,20 @@ export class RoomClient {
             break;
           }
 
-          /*
-					case 'moderator:clearFileSharing':
-					{
-						store.dispatch(filesActions.clearFiles());
+          case 'moderator:clearFileSharing': {
+            store.dispatch(filesActions.clearFiles());
 
-						store.dispatch(notifyAction(
-							{
-								text : intl.formatMessage({
-									id             : 'moderator.clearFiles',
-									defaultMessage : 'Moderator cleared the files'
-								})
-							}));
+            store.dispatch(
+              notifyAction({
+                text: intl.formatMessage({
+                  id: 'moderator.clearFiles',
+                  defaultMessage: 'Moderator cleared the files',
+                }),
+              })
+            );
 
-						break;
-					}
-					*/
+            break;
+          }
 
           case 'producerScore': {
             const { producerId, score } = notification.data;
@@ -2996,7 +3967,7 @@ export class RoomClient {
           }
 
           case 'newPeer': {
-            const { id, displayName, picture, roles, returning } =
+            const { id, displayName, picture, roles, ingest, returning } =
               notification.data;
 
             store.dispatch(
@@ -3005,6 +3976,7 @@ export class RoomClient {
                 displayName,
                 picture,
                 roles,
+                ingest,
                 consumers: [],
               })
             );
@@ -3154,6 +4126,12 @@ export class RoomClient {
             break;
           }
 
+          case 'recreateTransports': {
+            this._recreateTransports();
+
+            break;
+          }
+
           case 'consumerClosed': {
             const { consumerId } = notification.data;
 
@@ -3302,7 +4280,10 @@ export class RoomClient {
                       defaultMessage: 'You got the role: {role}',
                     },
                     {
-                      role: userRoles.get(roleId).label,
+                      role: getRoleDisplayName(
+                        userRoles.get(roleId),
+                        store.getState().intl.locale
+                      ),
                     }
                   ),
                 })
@@ -3328,7 +4309,10 @@ export class RoomClient {
                       defaultMessage: 'You lost the role: {role}',
                     },
                     {
-                      role: userRoles.get(roleId).label,
+                      role: getRoleDisplayName(
+                        userRoles.get(roleId),
+                        store.getState().intl.locale
+                      ),
                     }
                   ),
                 })
@@ -3437,6 +4421,59 @@ export class RoomClient {
             break;
           }
 
+          case 'serverRecording': {
+            const { recording } = notification.data;
+
+            store.dispatch(roomActions.set('serverRecording', recording));
+
+            store.dispatch(
+              notifyAction({
+                text: recording
+                  ? intl.formatMessage({
+                      id: 'room.serverRecordingStarted',
+                      defaultMessage: 'The meeting is being recorded',
+                    })
+                  : intl.formatMessage({
+                      id: 'room.serverRecordingStopped',
+                      defaultMessage: 'The meeting recording stopped',
+                    }),
+              })
+            );
+
+            break;
+          }
+
+          case 'liveStream': {
+            const { liveStream, failed } = notification.data;
+
+            store.dispatch(roomActions.set('liveStream', liveStream));
+
+            let text: string;
+
+            if (liveStream) {
+              text = intl.formatMessage({
+                id: 'room.liveStreamStarted',
+                defaultMessage: 'The meeting is being streamed live',
+              });
+            } else if (failed) {
+              text = intl.formatMessage({
+                id: 'room.liveStreamFailed',
+                defaultMessage: 'The live stream failed and was stopped',
+              });
+            } else {
+              text = intl.formatMessage({
+                id: 'room.liveStreamStopped',
+                defaultMessage: 'The live stream stopped',
+              });
+            }
+
+            store.dispatch(
+              notifyAction({ type: failed ? 'error' : 'info', text })
+            );
+
+            break;
+          }
+
           default: {
             logger.error(
               'unknown notification.method "%s"',
@@ -3463,6 +4500,320 @@ export class RoomClient {
     });
   }
 
+  _setMediaCapabilities() {
+    const canProduce = (kind) =>
+      !this._webinarAudience && this._mediasoupDevice.canProduce(kind);
+
+    store.dispatch(
+      meActions.setMediaCapabilities({
+        canSendMic: canProduce('audio'),
+        canSendWebcam: canProduce('video'),
+        canShareScreen:
+          canProduce('video') && this._screenSharing.isScreenShareAvailable(),
+        canShareFiles: this.fileShare.canShareFiles,
+      })
+    );
+  }
+
+  /**
+   * Moves between the audience and the stage of the webinar, the send
+   * transport only exists on stage.
+   */
+  async _updateWebinarStage(onStage: boolean) {
+    logger.debug('_updateWebinarStage() [onStage:%s]', onStage);
+
+    this._webinarAudience = !onStage;
+
+    if (onStage) {
+      store.dispatch(meActions.setRaisedHand(false));
+
+      try {
+        if (this._produce && !this._sendTransport)
+          await this._createSendTransport();
+
+        await this.whiteboard.produce();
+      } catch (error) {
+        logger.error('_updateWebinarStage() [error:"%o"]', error);
+      }
+    } else {
+      await this.disableMic();
+      await this.disableWebcam();
+      await this.disableScreenSharing();
+
+      for (const producerId of [...this._extraVideoProducers.keys()])
+        await this.disableExtraVideo(producerId);
+
+      if (this._sendTransport) {
+        this._sendTransport.close();
+
+        this._sendTransport = null;
+      }
+    }
+
+    this._setMediaCapabilities();
+
+    store.dispatch(
+      notifyAction({
+        text: onStage
+          ? intl.formatMessage({
+              id: 'room.webinarOnStage',
+              defaultMessage: 'You are now on stage and can speak',
+            })
+          : intl.formatMessage({
+              id: 'room.webinarInAudience',
+              defaultMessage: 'You are back in the audience',
+            }),
+      })
+    );
+  }
+
+  async _createSendTransport() {
+    const transportInfo = await this.sendRequest('createWebRtcTransport', {
+      forceTcp: this._forceTcp,
+      producing: true,
+      consuming: false,
+      sctpCapabilities: this._mediasoupDevice.sctpCapabilities,
+    });
+
+    const { id, iceParameters, iceCandidates, dtlsParameters, sctpParameters } =
+      transportInfo as any;
+
+    this._sendTransport = this._mediasoupDevice.createSendTransport({
+      id,
+      iceParameters,
+      iceCandidates,
+      dtlsParameters,
+      sctpParameters,
+      iceServers: this._turnServers,
+      // TODO: Fix for issue #72
+      iceTransportPolicy:
+        this._device.flag === 'firefox' && this._turnServers
+          ? 'relay'
+          : undefined,
+      proprietaryConstraints: PC_PROPRIETARY_CONSTRAINTS,
+    });
+
+    this._sendTransport.on(
+      'connect',
+      (
+        { dtlsParameters },
+        callback,
+        errback // eslint-disable-line no-shadow
+      ) => {
+        this.sendRequest('connectWebRtcTransport', {
+          transportId: this._sendTransport.id,
+          dtlsParameters,
+        })
+          .then(callback)
+          .catch(errback);
+      }
+    );
+
+    this._sendTransport.on('connectionstatechange', (connectState) => {
+      switch (connectState) {
+        case 'disconnected':
+        case 'failed':
+          this.restartIce(this._sendTransport, this._sendRestartIce, 2000);
+          break;
+
+        default:
+          clearTimeout(this._sendRestartIce.timer);
+          break;
+      }
+    });
+
+    this._sendTransport.on(
+      'produce',
+      async ({ kind, rtpParameters, appData }, callback, errback) => {
+        try {
+          // eslint-disable-next-line no-shadow
+          const { id } = (await this.sendRequest('produce', {
+            transportId: this._sendTransport.id,
+            kind,
+            rtpParameters,
+            appData,
+          })) as any;
+
+          callback({ id });
+        } catch (error) {
+          errback(error);
+        }
+      }
+    );
+
+    this._sendTransport.on(
+      'producedata',
+      async (
+        { sctpStreamParameters, label, protocol, appData },
+        callback,
+        errback
+      ) => {
+        try {
+          // eslint-disable-next-line no-shadow
+          const { id } = (await this.sendRequest('produceData', {
+            transportId: this._sendTransport.id,
+            sctpStreamParameters,
+            label,
+            protocol,
+            appData,
+          })) as any;
+
+          callback({ id });
+        } catch (error) {
+          errback(error);
+        }
+      }
+    );
+  }
+
+  async _createRecvTransport() {
+    const { enableOpusDetails } = store.getState().settings;
+
+    const transportInfo = await this.sendRequest('createWebRtcTransport', {
+      forceTcp: this._forceTcp,
+      producing: false,
+      consuming: true,
+      sctpCapabilities: this._mediasoupDevice.sctpCapabilities,
+    });
+
+    const { id, iceParameters, iceCandidates, dtlsParameters, sctpParameters } =
+      transportInfo as any;
+
+    this._recvTransport = this._mediasoupDevice.createRecvTransport({
+      id,
+      iceParameters,
+      iceCandidates,
+      dtlsParameters,
+      sctpParameters,
+      iceServers: this._turnServers,
+      // TODO: Fix for issue #72
+      iceTransportPolicy:
+        this._device.flag === 'firefox' && this._turnServers
+          ? 'relay'
+          : undefined,
+      additionalSettings: {
+        encodedInsertableStreams:
+          insertableStreamsSupported && enableOpusDetails,
+      },
+      appData: {
+        encodedInsertableStreams:
+          insertableStreamsSupported && enableOpusDetails,
+      },
+    });
+
+    this._recvTransport.on(
+      'connect',
+      (
+        { dtlsParameters },
+        callback,
+        errback // eslint-disable-line no-shadow
+      ) => {
+        this.sendRequest('connectWebRtcTransport', {
+          transportId: this._recvTransport.id,
+          dtlsParameters,
+        })
+          .then(callback)
+          .catch(errback);
+      }
+    );
+
+    this._recvTransport.on('connectionstatechange', (connectState) => {
+      switch (connectState) {
+        case 'disconnected':
+        case 'failed':
+          this.restartIce(this._recvTransport, this._recvRestartIce, 2000);
+          break;
+
+        default:
+          clearTimeout(this._recvRestartIce.timer);
+          break;
+      }
+    });
+  }
+
+  /**
+   * The mediasoup worker of our router died, our transports and producers
+   * are gone with it. Recreate them on the new router, consume the other
+   * peers again and restart the mic and webcam.
+   */
+  async _recreateTransports() {
+    logger.debug('_recreateTransports()');
+
+    const restartMic = Boolean(this._micProducer);
+    const micMuted = restartMic && this._micProducer.paused;
+    const restartWebcam = Boolean(this._webcamProducer);
+    const sharingStopped =
+      Boolean(this._screenSharingProducer) ||
+      this._extraVideoProducers.size > 0;
+
+    await this.disableMic();
+    await this.disableWebcam();
+    await this.disableScreenSharing();
+
+    for (const producerId of [...this._extraVideoProducers.keys()])
+      await this.disableExtraVideo(producerId);
+
+    for (const consumerId of [...this._consumers.keys()])
+      this._closeConsumer(consumerId);
+
+    if (this._sendTransport) {
+      this._sendTransport.close();
+
+      this._sendTransport = null;
+    }
+
+    if (this._recvTransport) {
+      this._recvTransport.close();
+
+      this._recvTransport = null;
+    }
+
+    try {
+      if (this._produce && !this._webinarAudience)
+        await this._createSendTransport();
+
+      await this._createRecvTransport();
+
+      await this.sendRequest('restoreConsumers');
+
+      await this.whiteboard.start();
+
+      if (restartWebcam) await this.updateWebcam({ start: true });
+
+      if (restartMic) {
+        await this.updateMic({ start: true });
+
+        if (micMuted) await this.muteMic();
+      }
+    } catch (error) {
+      logger.error('_recreateTransports() [error:"%o"]', error);
+
+      store.dispatch(
+        notifyAction({
+          type: 'error',
+          text: intl.formatMessage({
+            id: 'room.mediaRestartFailed',
+            defaultMessage: 'Unable to restore the media connection',
+          }),
+        })
+      );
+
+      return;
+    }
+
+    if (sharingStopped)
+      store.dispatch(
+        notifyAction({
+          type: 'warning',
+          text: intl.formatMessage({
+            id: 'room.sharingStopped',
+            defaultMessage:
+              'Your screen sharing was interrupted, please share again',
+          }),
+        })
+      );
+  }
+
   async _joinRoom({
     joinVideo,
     joinAudio,
@@ -3474,12 +4825,16 @@ export class RoomClient {
   }) {
     logger.debug('_joinRoom()');
 
-    const { displayName, enableOpusDetails } = store.getState().settings;
+    const { displayName } = store.getState().settings;
     const { picture, from } = store.getState().me;
 
     try {
       this.fileShare = new FileShare(this);
 
+      if (this.whiteboard) this.whiteboard.close();
+
+      this.whiteboard = new Whiteboard(this);
+
       this._mediasoupDevice = new mediasoupClient.Device();
 
       const routerRtpCapabilities: any = await this.sendRequest(
@@ -3493,149 +4848,13 @@ export class RoomClient {
 
       await this._mediasoupDevice.load({ routerRtpCapabilities });
 
-      if (this._produce) {
-        const transportInfo = await this.sendRequest('createWebRtcTransport', {
-          forceTcp: this._forceTcp,
-          producing: true,
-          consuming: false,
-        });
-
-        const { id, iceParameters, iceCandidates, dtlsParameters } =
-          transportInfo as any;
-
-        this._sendTransport = this._mediasoupDevice.createSendTransport({
-          id,
-          iceParameters,
-          iceCandidates,
-          dtlsParameters,
-          iceServers: this._turnServers,
-          // TODO: Fix for issue #72
-          iceTransportPolicy:
-            this._device.flag === 'firefox' && this._turnServers
-              ? 'relay'
-              : undefined,
-          proprietaryConstraints: PC_PROPRIETARY_CONSTRAINTS,
-        });
-
-        this._sendTransport.on(
-          'connect',
-          (
-            { dtlsParameters },
-            callback,
-            errback // eslint-disable-line no-shadow
-          ) => {
-            this.sendRequest('connectWebRtcTransport', {
-              transportId: this._sendTransport.id,
-              dtlsParameters,
-            })
-              .then(callback)
-              .catch(errback);
-          }
-        );
-
-        this._sendTransport.on('connectionstatechange', (connectState) => {
-          switch (connectState) {
-            case 'disconnected':
-            case 'failed':
-              this.restartIce(this._sendTransport, this._sendRestartIce, 2000);
-              break;
-
-            default:
-              clearTimeout(this._sendRestartIce.timer);
-              break;
-          }
-        });
-
-        this._sendTransport.on(
-          'produce',
-          async ({ kind, rtpParameters, appData }, callback, errback) => {
-            try {
-              // eslint-disable-next-line no-shadow
-              const { id } = (await this.sendRequest('produce', {
-                transportId: this._sendTransport.id,
-                kind,
-                rtpParameters,
-                appData,
-              })) as any;
-
-              callback({ id });
-            } catch (error) {
-              errback(error);
-            }
-          }
-        );
-      }
-
-      const transportInfo = await this.sendRequest('createWebRtcTransport', {
-        forceTcp: this._forceTcp,
-        producing: false,
-        consuming: true,
-      });
-
-      const { id, iceParameters, iceCandidates, dtlsParameters } =
-        transportInfo as any;
-
-      this._recvTransport = this._mediasoupDevice.createRecvTransport({
-        id,
-        iceParameters,
-        iceCandidates,
-        dtlsParameters,
-        iceServers: this._turnServers,
-        // TODO: Fix for issue #72
-        iceTransportPolicy:
-          this._device.flag === 'firefox' && this._turnServers
-            ? 'relay'
-            : undefined,
-        additionalSettings: {
-          encodedInsertableStreams:
-            insertableStreamsSupported && enableOpusDetails,
-        },
-        appData: {
-          encodedInsertableStreams:
-            insertableStreamsSupported && enableOpusDetails,
-        },
-      });
-
-      this._recvTransport.on(
-        'connect',
-        (
-          { dtlsParameters },
-          callback,
-          errback // eslint-disable-line no-shadow
-        ) => {
-          this.sendRequest('connectWebRtcTransport', {
-            transportId: this._recvTransport.id,
-            dtlsParameters,
-          })
-            .then(callback)
-            .catch(errback);
-        }
-      );
-
-      this._recvTransport.on('connectionstatechange', (connectState) => {
-        switch (connectState) {
-          case 'disconnected':
-          case 'failed':
-            this.restartIce(this._recvTransport, this._recvRestartIce, 2000);
-            break;
+      if (this._produce && !this._webinarAudience)
+        await this._createSendTransport();
 
-          default:
-            clearTimeout(this._recvRestartIce.timer);
-            break;
-        }
-      });
+      await this._createRecvTransport();
 
       // Set our media capabilities.
-      store.dispatch(
-        meActions.setMediaCapabilities({
-          canSendMic: this._mediasoupDevice.canProduce('audio'),
-          canSendWebcam: this._mediasoupDevice.canProduce('video'),
-          canShareScreen:
-            this._mediasoupDevice.canProduce('video') &&
-            this._screenSharing.isScreenShareAvailable(),
-          canShareFiles: this.fileShare.torrentSupport,
-        })
-      );
+      this._setMediaCapabilities();
 
       const {
         authenticated,
@@ -3651,6 +4870,18 @@ export class RoomClient {
         locked,
         lobbyPeers,
         accessCode,
+        serverRecordingEnabled,
+        serverRecording,
+        breakoutRooms,
+        parentRoomId,
+        breakoutName,
+        serverLastN,
+        webinar,
+        polls,
+        fileSharing,
+        liveStreamOutputs,
+        liveStream,
+        captions,
       } = (await this.sendRequest('join', {
         displayName,
         picture,
@@ -3700,7 +4931,10 @@ export class RoomClient {
                   defaultMessage: 'You got the role: {role}',
                 },
                 {
-                  role: roomUserRoles.get(roleId).label,
+                  role: getRoleDisplayName(
+                    roomUserRoles.get(roleId),
+                    store.getState().intl.locale
+                  ),
                 }
               ),
             })
@@ -3720,6 +4954,43 @@ export class RoomClient {
 
       store.dispatch(roomActions.set('locked', locked));
 
+      store.dispatch(
+        roomActions.set(
+          'serverRecordingEnabled',
+          Boolean(serverRecordingEnabled)
+        )
+      );
+
+      store.dispatch(
+        roomActions.set('serverRecording', Boolean(serverRecording))
+      );
+
+      store.dispatch(roomActions.set('breakoutRooms', breakoutRooms || []));
+
+      store.dispatch(roomActions.set('parentRoomId', parentRoomId || null));
+
+      store.dispatch(roomActions.set('breakoutName', breakoutName || ''));
+
+      store.dispatch(roomActions.set('webinar', webinar || null));
+
+      store.dispatch(pollsActions.setPolls(polls || []));
+
+      store.dispatch(roomActions.set('serverFileSharing', fileSharing || null));
+
+      store.dispatch(
+        roomActions.set('liveStreamOutputs', liveStreamOutputs || [])
+      );
+
+      store.dispatch(roomActions.set('liveStream', liveStream || null));
+
+      store.dispatch(roomActions.set('captions', Boolean(captions)));
+
+      store.dispatch(
+        meActions.setMediaCapabilities({
+          canShareFiles: this.fileShare.canShareFiles,
+        })
+      );
+
       lobbyPeers.length > 0 &&
         lobbyPeers.forEach((peer) => {
           store.dispatch(lobbyPeersActions.addLobbyPeer(peer.id));
@@ -3741,7 +5012,7 @@ export class RoomClient {
         store.dispatch(roomActions.set('accessCode', accessCode));
 
       // Don't produce if explicitly requested to not to do it.
-      if (this._produce) {
+      if (this._produce && !this._webinarAudience) {
         if (joinVideo && this._havePermission(PermissionList.SHARE_VIDEO)) {
           this.updateWebcam({ init: true, start: true });
         }
@@ -3790,6 +5061,8 @@ export class RoomClient {
         })
       );
 
+      this._spotlights.serverDriven = Boolean(serverLastN);
+
       this._spotlights.addPeers(peers);
 
       if (lastNHistory.length > 0) {
@@ -3799,6 +5072,8 @@ export class RoomClient {
           lastNHistory.filter((peerId) => peerId !== this._peerId)
         );
       }
+
+      this.whiteboard.start();
     } catch (error) {
       logger.error('_joinRoom() [error:"%o"]', error);
 
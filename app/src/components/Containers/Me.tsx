@@ -13,6 +13,7 @@ import * as appPropTypes from '../appPropTypes';
 import { useIntl, FormattedMessage } from 'react-intl';
 import VideoView from '../VideoContainers/VideoView';
 import Volume from './Volume';
+import { TileReactions } from '../Reactions/TileReactions';
 import Fab from '@material-ui/core/Fab';
 import Tooltip from '@material-ui/core/Tooltip';
 import MicIcon from '@material-ui/icons/Mic';
@@ -746,6 +747,8 @@ const Me = (props) => {
           )}
           {/* /CONTROLS BUTTONS (inside) */}
 
+          <TileReactions peerId={me.id} />
+
           <VideoView
             localRecordingState={localRecordingState}
             recordingConsents={recordingConsents}
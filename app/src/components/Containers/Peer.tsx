@@ -22,6 +22,7 @@ import MoreHorizIcon from '@material-ui/icons/MoreHoriz';
 import Menu from '@material-ui/core/Menu';
 import MenuItem from '@material-ui/core/MenuItem';
 import Volume from './Volume';
+import { TileReactions } from '../Reactions/TileReactions';
 import { roomActions } from '../../store/slices/room';
 
 const useStyles = makeStyles((theme) => ({
@@ -631,6 +632,8 @@ export const Peer: React.FC<PeerProps> = (props) => {
             )}
           </div>
 
+          <TileReactions peerId={peer.id} />
+
           <VideoView
             localRecordingState={localRecordingState}
             recordingConsents={recordingConsents}
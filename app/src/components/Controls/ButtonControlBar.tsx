@@ -20,6 +20,7 @@ import VideoOffIcon from '@material-ui/icons/VideocamOff';
 import SettingsVoiceIcon from '@material-ui/icons/SettingsVoice';
 import ScreenIcon from '@material-ui/icons/ScreenShare';
 import { PermissionList } from 'tailchat-meeting-sdk';
+import { ReactionBar } from './ReactionBar';
 
 const styles = (theme) => ({
   root: {
@@ -307,6 +308,7 @@ const ButtonControlBar = (props) => {
           </Fab>
         </Tooltip>
       )}
+      <ReactionBar className={classes.fab} smallScreen={smallScreen} />
     </div>
   );
 };
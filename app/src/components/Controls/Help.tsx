@@ -125,6 +125,14 @@ export const Help = React.memo(() => {
         />
       </div>
 
+      <div className={classes.shortcuts}>
+        <Paper className={classes.paper}>r</Paper>
+        <FormattedMessage
+          id="reactions.thumbsUp"
+          defaultMessage="Send a thumbs up"
+        />
+      </div>
+
       <div className={classes.shortcuts}>
         <Paper className={classes.paper}>space</Paper>
         <FormattedMessage
@@ -0,0 +1,144 @@
+import React, { useCallback } from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { useRoomClient } from '../../RoomContext';
+import {
+  makePermissionSelector,
+  useAppDispatch,
+  useAppSelector,
+} from '../../store/selectors';
+import { FormattedMessage } from 'react-intl';
+import Dialog from '@material-ui/core/Dialog';
+import DialogTitle from '@material-ui/core/DialogTitle';
+import DialogActions from '@material-ui/core/DialogActions';
+import DialogContent from '@material-ui/core/DialogContent';
+import Button from '@material-ui/core/Button';
+import Checkbox from '@material-ui/core/Checkbox';
+import Table from '@material-ui/core/Table';
+import TableBody from '@material-ui/core/TableBody';
+import TableCell from '@material-ui/core/TableCell';
+import TableHead from '@material-ui/core/TableHead';
+import TableRow from '@material-ui/core/TableRow';
+import { roomActions } from '../../store/slices/room';
+import { PermissionList } from 'tailchat-meeting-sdk';
+import { getRoleDisplayName } from '../../utils';
+
+const canModerateRoomSelector = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
+
+const useStyles = makeStyles((theme) => ({
+  dialogPaper: {
+    width: '50vw',
+    [theme.breakpoints.down('md')]: {
+      width: '70vw',
+    },
+    [theme.breakpoints.down('xs')]: {
+      width: '90vw',
+    },
+  },
+}));
+
+/**
+ * 房间权限管理, 修改本房间内各角色拥有的权限
+ */
+export const PermissionsManager: React.FC = React.memo(() => {
+  const roomClient = useRoomClient();
+  const { roomPermissions, userRoles, canModerateRoom, open, locale } =
+    useAppSelector((state) => ({
+      roomPermissions: state.room.roomPermissions as Record<
+        string,
+        { id: number }[]
+      >,
+      userRoles: state.room.userRoles,
+      canModerateRoom: canModerateRoomSelector(state),
+      open: state.room.permissionsManagerOpen,
+      locale: state.intl.locale,
+    }));
+  const dispatch = useAppDispatch();
+
+  const classes = useStyles();
+
+  const handleClose = useCallback(() => {
+    dispatch(roomActions.set('permissionsManagerOpen', false));
+  }, []);
+
+  const roles = userRoles ? [...userRoles.values()] : [];
+
+  const togglePermission = (permission: PermissionList, roleId: number) => {
+    const roleIds = roomPermissions[permission].map(({ id }) => id);
+
+    roomClient.setRoomPermission(
+      permission,
+      roleIds.includes(roleId)
+        ? roleIds.filter((id) => id !== roleId)
+        : [...roleIds, roleId]
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      classes={{
+        paper: classes.dialogPaper,
+      }}
+    >
+      <DialogTitle>
+        <FormattedMessage
+          id="room.permissionsManager"
+          defaultMessage="Room permissions"
+        />
+      </DialogTitle>
+      <DialogContent>
+        {roomPermissions && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                {roles.map((role) => (
+                  <TableCell key={role.id} align="center">
+                    {getRoleDisplayName(role, locale)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {Object.values(PermissionList)
+                .filter((permission) => roomPermissions[permission])
+                .map((permission) => (
+                  <TableRow key={permission}>
+                    <TableCell>{permission}</TableCell>
+                    {roles.map((role) => (
+                      <TableCell key={role.id} align="center">
+                        <Checkbox
+                          size="small"
+                          disabled={!canModerateRoom}
+                          checked={roomPermissions[permission].some(
+                            ({ id }) => id === role.id
+                          )}
+                          onChange={() => togglePermission(permission, role.id)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          disabled={!canModerateRoom}
+          onClick={() => roomClient.resetRoomPermissions()}
+        >
+          <FormattedMessage id="label.reset" defaultMessage="Reset" />
+        </Button>
+        <Button onClick={handleClose} color="primary">
+          <FormattedMessage id="label.close" defaultMessage="Close" />
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+});
+PermissionsManager.displayName = 'PermissionsManager';
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useIntl } from 'react-intl';
+import Fab from '@material-ui/core/Fab';
+import IconButton from '@material-ui/core/IconButton';
+import Popover from '@material-ui/core/Popover';
+import Tooltip from '@material-ui/core/Tooltip';
+import EmojiIcon from '@material-ui/icons/InsertEmoticon';
+import { useRoomClient } from '../../RoomContext';
+import { REACTIONS } from '../../store/slices/reactions';
+
+interface Props {
+  className?: string;
+  smallScreen: boolean;
+}
+
+/**
+ * 表情反应按钮, 展开后可以连续发送表情
+ */
+export const ReactionBar: React.FC<Props> = React.memo(
+  ({ className, smallScreen }) => {
+    const intl = useIntl();
+    const roomClient = useRoomClient();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+    const label = intl.formatMessage({
+      id: 'reactions.send',
+      defaultMessage: 'Send a reaction',
+    });
+
+    return (
+      <React.Fragment>
+        <Tooltip title={label} placement={smallScreen ? 'top' : 'right'}>
+          <Fab
+            aria-label={label}
+            className={className}
+            size={smallScreen ? 'large' : 'medium'}
+            onClick={(event) => setAnchorEl(event.currentTarget)}
+          >
+            <EmojiIcon />
+          </Fab>
+        </Tooltip>
+        <Popover
+          open={Boolean(anchorEl)}
+          anchorEl={anchorEl}
+          onClose={() => setAnchorEl(null)}
+          anchorOrigin={
+            smallScreen
+              ? { vertical: 'top', horizontal: 'center' }
+              : { vertical: 'center', horizontal: 'right' }
+          }
+          transformOrigin={
+            smallScreen
+              ? { vertical: 'bottom', horizontal: 'center' }
+              : { vertical: 'center', horizontal: 'left' }
+          }
+        >
+          {REACTIONS.map((reaction) => (
+            <IconButton
+              key={reaction}
+              onClick={() => roomClient.sendReaction(reaction)}
+            >
+              {reaction}
+            </IconButton>
+          ))}
+        </Popover>
+      </React.Fragment>
+    );
+  }
+);
+ReactionBar.displayName = 'ReactionBar';
@@ -19,6 +19,7 @@ import ListItem from '@material-ui/core/ListItem';
 import ListItemText from '@material-ui/core/ListItemText';
 import { roomActions } from '../../store/slices/room';
 import { PermissionList } from 'tailchat-meeting-sdk';
+import { getRoleDisplayName } from '../../utils';
 
 const canModifyRolesSelector = makePermissionSelector(
   PermissionList.MODIFY_ROLE
@@ -56,14 +57,21 @@ const useStyles = makeStyles((theme) => ({
 
 export const RolesManager: React.FC = React.memo(() => {
   const roomClient = useRoomClient();
-  const { peer, userRoles, canModifyRoles, highestLevel, rolesManagerOpen } =
-    useAppSelector((state) => ({
-      peer: state.peers[state.room.rolesManagerPeer],
-      userRoles: state.room.userRoles,
-      canModifyRoles: canModifyRolesSelector(state),
-      highestLevel: highestRoleLevelSelector(state),
-      rolesManagerOpen: state.room.rolesManagerOpen,
-    }));
+  const {
+    peer,
+    userRoles,
+    canModifyRoles,
+    highestLevel,
+    rolesManagerOpen,
+    locale,
+  } = useAppSelector((state) => ({
+    peer: state.peers[state.room.rolesManagerPeer],
+    userRoles: state.room.userRoles,
+    canModifyRoles: canModifyRolesSelector(state),
+    highestLevel: highestRoleLevelSelector(state),
+    rolesManagerOpen: state.room.rolesManagerOpen,
+    locale: state.intl.locale,
+  }));
   const dispatch = useAppDispatch();
 
   const classes = useStyles();
@@ -106,7 +114,7 @@ export const RolesManager: React.FC = React.memo(() => {
                     }
                   >
                     <ListItemText
-                      primary={role.label}
+                      primary={getRoleDisplayName(role, locale)}
                       // secondary={role.level}
                     />
                     <Button
@@ -29,10 +29,12 @@ import FullScreenIcon from '@material-ui/icons/Fullscreen';
 import FullScreenExitIcon from '@material-ui/icons/FullscreenExit';
 import SettingsIcon from '@material-ui/icons/Settings';
 import SecurityIcon from '@material-ui/icons/Security';
+import VpnKeyIcon from '@material-ui/icons/VpnKey';
 import PeopleIcon from '@material-ui/icons/People';
 import LockIcon from '@material-ui/icons/Lock';
 import LockOpenIcon from '@material-ui/icons/LockOpen';
 import VideoCallIcon from '@material-ui/icons/VideoCall';
+import GestureIcon from '@material-ui/icons/Gesture';
 import SelfViewOnIcon from '@material-ui/icons/Videocam';
 import SelfViewOffIcon from '@material-ui/icons/VideocamOff';
 import Button from '@material-ui/core/Button';
@@ -45,6 +47,7 @@ import FiberManualRecordIcon from '@material-ui/icons/FiberManualRecord';
 import PauseCircleOutlineIcon from '@material-ui/icons/PauseCircleOutline';
 import PauseCircleFilledIcon from '@material-ui/icons/PauseCircleFilled';
 import StopIcon from '@material-ui/icons/Stop';
+import LiveTvIcon from '@material-ui/icons/LiveTv';
 import { recorder } from '../../features/BrowserRecorder';
 import Logger from '../../features/Logger';
 import { config } from '../../config';
@@ -82,9 +85,18 @@ const hasLockPermission = makePermissionSelector(
 const hasRecordPermission = makePermissionSelector(
   PermissionList.LOCAL_RECORD_ROOM
 );
+const hasServerRecordPermission = makePermissionSelector(
+  PermissionList.SERVER_RECORD_ROOM
+);
+const hasLiveStreamPermission = makePermissionSelector(
+  PermissionList.SERVER_LIVE_STREAM
+);
 const hasPromotionPermission = makePermissionSelector(
   PermissionList.PROMOTE_PEER
 );
+const hasModerateRoomPermission = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
 
 const PulsingBadge = withStyles((theme) => ({
   badge: {
@@ -152,6 +164,15 @@ const useStyles = makeStyles((theme) => ({
     margin: 0,
     padding: 0,
   },
+  liveBadge: {
+    alignSelf: 'center',
+    marginLeft: theme.spacing(1),
+    padding: theme.spacing(0, 0.75),
+    borderRadius: 4,
+    fontWeight: 'bold',
+    color: theme.palette.secondary.contrastText,
+    backgroundColor: theme.palette.secondary.main,
+  },
   logo: {
     display: 'none',
     marginLeft: 20,
@@ -272,7 +293,10 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
     canProduceExtraVideo,
     canLock,
     canRecord,
+    canServerRecord,
+    canLiveStream,
     canPromote,
+    canModerateRoom,
     locale,
     recordingMimeType,
     producers,
@@ -300,7 +324,10 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
     canProduceExtraVideo: hasExtraVideoPermission(state),
     canLock: hasLockPermission(state),
     canRecord: hasRecordPermission(state),
+    canServerRecord: hasServerRecordPermission(state),
+    canLiveStream: hasLiveStreamPermission(state),
     canPromote: hasPromotionPermission(state),
+    canModerateRoom: hasModerateRoomPermission(state),
     locale: state.intl.locale,
     recordingMimeType: state.settings.recorderPreferredMimeType,
     producers: state.producers,
@@ -539,6 +566,18 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
                 <RecIcon color="secondary" />
               </IconButton>
             )}
+            {room.liveStream && (
+              <Tooltip
+                title={intl.formatMessage({
+                  id: 'label.liveStreamInProgress',
+                  defaultMessage: 'The meeting is being streamed live',
+                })}
+              >
+                <Typography variant="caption" className={classes.liveBadge}>
+                  LIVE
+                </Typography>
+              </Tooltip>
+            )}
             <div className={classes.divider} />
             {/* 更多 */}
             <Tooltip
@@ -891,6 +930,100 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
                 )}
               </MenuItem>
             )}
+            {room.serverRecordingEnabled && canServerRecord && (
+              <MenuItem
+                disabled={room.serverRecordingInProgress}
+                onClick={() => {
+                  handleMenuClose();
+                  if (room.serverRecording) {
+                    roomClient.stopServerRecording();
+                  } else {
+                    roomClient.startServerRecording();
+                  }
+                }}
+              >
+                <Badge color="primary">
+                  {room.serverRecording ? (
+                    <StopIcon />
+                  ) : (
+                    <FiberManualRecordIcon />
+                  )}
+                </Badge>
+                <p className={classes.moreAction}>
+                  {room.serverRecording ? (
+                    <FormattedMessage
+                      id="tooltip.stopServerRecording"
+                      defaultMessage="Stop server recording"
+                    />
+                  ) : (
+                    <FormattedMessage
+                      id="tooltip.startServerRecording"
+                      defaultMessage="Start server recording"
+                    />
+                  )}
+                </p>
+              </MenuItem>
+            )}
+            {canLiveStream && room.liveStream && (
+              <MenuItem
+                disabled={room.liveStreamInProgress}
+                onClick={() => {
+                  handleMenuClose();
+                  roomClient.stopLiveStream();
+                }}
+              >
+                <StopIcon />
+                <p className={classes.moreAction}>
+                  <FormattedMessage
+                    id="tooltip.stopLiveStream"
+                    defaultMessage="Stop live stream"
+                  />
+                </p>
+              </MenuItem>
+            )}
+            {canLiveStream &&
+              !room.liveStream &&
+              room.liveStreamOutputs.map((output) => (
+                <MenuItem
+                  key={output}
+                  disabled={room.liveStreamInProgress}
+                  onClick={() => {
+                    handleMenuClose();
+                    roomClient.startLiveStream(output);
+                  }}
+                >
+                  <LiveTvIcon />
+                  <p className={classes.moreAction}>
+                    {output === 'rtmp' ? (
+                      <FormattedMessage
+                        id="tooltip.startRtmpLiveStream"
+                        defaultMessage="Start live stream (RTMP)"
+                      />
+                    ) : (
+                      <FormattedMessage
+                        id="tooltip.startHlsLiveStream"
+                        defaultMessage="Start live stream (HLS)"
+                      />
+                    )}
+                  </p>
+                </MenuItem>
+              ))}
+            {canModerateRoom && (
+              <MenuItem
+                onClick={() => {
+                  handleMenuClose();
+                  dispatch(roomActions.set('permissionsManagerOpen', true));
+                }}
+              >
+                <VpnKeyIcon />
+                <p className={classes.moreAction}>
+                  <FormattedMessage
+                    id="room.permissionsManager"
+                    defaultMessage="Room permissions"
+                  />
+                </p>
+              </MenuItem>
+            )}
             <MenuItem
               disabled={!canProduceExtraVideo}
               onClick={() => {
@@ -911,6 +1044,25 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
                 />
               </p>
             </MenuItem>
+            <MenuItem
+              onClick={() => {
+                handleMenuClose();
+                dispatch(roomActions.openWhiteboard());
+              }}
+            >
+              <GestureIcon
+                aria-label={intl.formatMessage({
+                  id: 'label.whiteboard',
+                  defaultMessage: 'Whiteboard',
+                })}
+              />
+              <p className={classes.moreAction}>
+                <FormattedMessage
+                  id="label.whiteboard"
+                  defaultMessage="Whiteboard"
+                />
+              </p>
+            </MenuItem>
             <MenuItem
               onClick={() => {
                 handleMenuClose();
@@ -1010,6 +1162,20 @@ export const TopBar: React.FC<TopBarProps> = React.memo((props) => {
                       {window.location.pathname}
                     </TableCell>
                   </TableRow>
+
+                  {room.liveStream && room.liveStream.hlsUrl && (
+                    <TableRow>
+                      <TableCell>
+                        <FormattedMessage
+                          id="label.liveStreamLink"
+                          defaultMessage="Live Stream"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {roomClient.getLiveStreamUrl(room.liveStream.hlsUrl)}
+                      </TableCell>
+                    </TableRow>
+                  )}
                 </TableBody>
               </Table>
             </CardContent>
@@ -344,15 +344,15 @@ const JoinDialog: React.FC<{
                       <PopupState variant="popover" popupId="demo-popup-menu">
                         {(popupState) => (
                           <React.Fragment>
-							<Button
-							  aria-label={locale ? locale.split(/[-_]/)[0] : ''}
-							  color="secondary"
-							  disableRipple
-							  style={{ backgroundColor: 'transparent' }}
-							  {...bindTrigger(popupState)}
-							>
-							  {locale ? locale.split(/[-_]/)[0] : ''}
-							</Button>
+                            <Button
+                              aria-label={locale ? locale.split(/[-_]/)[0] : ''}
+                              color="secondary"
+                              disableRipple
+                              style={{ backgroundColor: 'transparent' }}
+                              {...bindTrigger(popupState)}
+                            >
+                              {locale ? locale.split(/[-_]/)[0] : ''}
+                            </Button>
                             <Menu {...bindMenu(popupState)}>
                               {(localesList ?? []).map((item, index) => (
                                 <MenuItem
@@ -713,7 +713,25 @@ const JoinDialog: React.FC<{
                 defaultMessage="Everything is ready"
               />
             </DialogContentText>
-            {room.signInRequired ? (
+            {room.scheduledMeeting ? (
+              <DialogContentText
+                gutterBottom
+                variant="h5"
+                style={{ fontWeight: '600' }}
+              >
+                <FormattedMessage
+                  id="room.meetingNotStarted"
+                  defaultMessage="The meeting {title} starts at {startAt} - hang on until it begins ..."
+                  values={{
+                    title: room.scheduledMeeting.title,
+                    startAt: intl.formatTime(room.scheduledMeeting.startAt, {
+                      dateStyle: 'medium',
+                      timeStyle: 'short',
+                    } as any),
+                  }}
+                />
+              </DialogContentText>
+            ) : room.signInRequired ? (
               <DialogContentText
                 gutterBottom
                 variant="h5"
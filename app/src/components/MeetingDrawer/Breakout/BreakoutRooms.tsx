@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import {
+  makePermissionSelector,
+  participantListSelector,
+  useAppSelector,
+} from '../../../store/selectors';
+import { makeStyles } from '@material-ui/core/styles';
+import { useRoomClient } from '../../../RoomContext';
+import { useIntl, FormattedMessage } from 'react-intl';
+import Paper from '@material-ui/core/Paper';
+import Button from '@material-ui/core/Button';
+import TextField from '@material-ui/core/TextField';
+import Checkbox from '@material-ui/core/Checkbox';
+import FormControlLabel from '@material-ui/core/FormControlLabel';
+import Select from '@material-ui/core/Select';
+import MenuItem from '@material-ui/core/MenuItem';
+import Typography from '@material-ui/core/Typography';
+import { PermissionList } from 'tailchat-meeting-sdk';
+
+const hasModerateRoomPermission = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    height: '100%',
+    overflowY: 'auto',
+    padding: theme.spacing(1),
+  },
+  section: {
+    padding: theme.spacing(1),
+    marginBottom: theme.spacing(1),
+    boxShadow: '0 2px 5px 2px rgba(0, 0, 0, 0.2)',
+  },
+  header: {
+    fontWeight: 'bolder',
+    marginBottom: theme.spacing(1),
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    '& > *:not(:last-child)': {
+      marginRight: theme.spacing(1),
+    },
+  },
+  peer: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  peerName: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+}));
+
+/**
+ * 分组讨论管理面板
+ */
+export const BreakoutRooms: React.FC = React.memo(() => {
+  const intl = useIntl();
+  const classes = useStyles();
+  const roomClient = useRoomClient();
+
+  const [count, setCount] = useState(2);
+  const [random, setRandom] = useState(true);
+  const [broadcastText, setBroadcastText] = useState('');
+  const [countdown, setCountdown] = useState(60);
+
+  const {
+    roomId,
+    breakoutRooms,
+    parentRoomId,
+    breakoutName,
+    breakoutInProgress,
+    participants,
+    isModerator,
+  } = useAppSelector((state) => ({
+    roomId: state.room.name,
+    breakoutRooms: state.room.breakoutRooms,
+    parentRoomId: state.room.parentRoomId,
+    breakoutName: state.room.breakoutName,
+    breakoutInProgress: state.room.breakoutInProgress,
+    participants: participantListSelector(state),
+    isModerator: hasModerateRoomPermission(state),
+  }));
+
+  // The main room id, where the breakout rooms are managed
+  const mainRoomId = parentRoomId || roomId;
+
+  return (
+    <Paper className={classes.root}>
+      {parentRoomId && (
+        <div className={classes.section}>
+          <Typography className={classes.header}>
+            <FormattedMessage
+              id="breakout.inRoom"
+              defaultMessage="You are in breakout room {name}"
+              values={{ name: breakoutName }}
+            />
+          </Typography>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={() => roomClient.returnToMainRoom()}
+          >
+            <FormattedMessage
+              id="breakout.returnToMainRoom"
+              defaultMessage="Return to main room"
+            />
+          </Button>
+        </div>
+      )}
+
+      {isModerator && !parentRoomId && (
+        <div className={classes.section}>
+          <Typography className={classes.header}>
+            <FormattedMessage
+              id="breakout.create"
+              defaultMessage="Create breakout rooms"
+            />
+          </Typography>
+          <div className={classes.row}>
+            <TextField
+              type="number"
+              label={intl.formatMessage({
+                id: 'breakout.count',
+                defaultMessage: 'Rooms',
+              })}
+              value={count}
+              inputProps={{ min: 1, max: 50 }}
+              onChange={(event) => setCount(Number(event.target.value))}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={random}
+                  onChange={(event) => setRandom(event.target.checked)}
+                />
+              }
+              label={intl.formatMessage({
+                id: 'breakout.random',
+                defaultMessage: 'Assign randomly',
+              })}
+            />
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={breakoutInProgress || count < 1}
+              onClick={() => roomClient.createBreakoutRooms(count, random)}
+            >
+              <FormattedMessage
+                id="breakout.createButton"
+                defaultMessage="Create"
+              />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isModerator && !parentRoomId && participants.length > 0 && (
+        <div className={classes.section}>
+          <Typography className={classes.header}>
+            <FormattedMessage
+              id="breakout.mainRoom"
+              defaultMessage="Main room"
+            />
+          </Typography>
+          {participants.map((peer) => (
+            <div key={peer.id} className={classes.peer}>
+              <span className={classes.peerName}>{peer.displayName}</span>
+              <Select
+                value=""
+                displayEmpty
+                disabled={breakoutRooms.length === 0}
+                onChange={(event) =>
+                  roomClient.moveBreakoutPeer(
+                    peer.id,
+                    event.target.value as string
+                  )
+                }
+              >
+                <MenuItem value="" disabled>
+                  <FormattedMessage
+                    id="breakout.assign"
+                    defaultMessage="Assign to"
+                  />
+                </MenuItem>
+                {breakoutRooms.map((breakoutRoom) => (
+                  <MenuItem key={breakoutRoom.id} value={breakoutRoom.id}>
+                    {breakoutRoom.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isModerator &&
+        breakoutRooms.map((breakoutRoom) => (
+          <div key={breakoutRoom.id} className={classes.section}>
+            <Typography className={classes.header}>
+              <FormattedMessage
+                id="breakout.roomName"
+                defaultMessage="Breakout room {name}"
+                values={{ name: breakoutRoom.name }}
+              />
+            </Typography>
+            {breakoutRoom.peers.map((peer) => (
+              <div key={peer.id} className={classes.peer}>
+                <span className={classes.peerName}>{peer.displayName}</span>
+                <Button
+                  size="small"
+                  onClick={() =>
+                    roomClient.moveBreakoutPeer(peer.id, mainRoomId)
+                  }
+                >
+                  <FormattedMessage
+                    id="breakout.moveToMainRoom"
+                    defaultMessage="To main room"
+                  />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ))}
+
+      {isModerator && breakoutRooms.length > 0 && (
+        <div className={classes.section}>
+          <div className={classes.row}>
+            <TextField
+              fullWidth
+              label={intl.formatMessage({
+                id: 'breakout.broadcast',
+                defaultMessage: 'Message to all breakout rooms',
+              })}
+              value={broadcastText}
+              onChange={(event) => setBroadcastText(event.target.value)}
+            />
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={!broadcastText}
+              onClick={() => {
+                roomClient.broadcastToBreakoutRooms(broadcastText);
+                setBroadcastText('');
+              }}
+            >
+              <FormattedMessage id="label.send" defaultMessage="Send" />
+            </Button>
+          </div>
+          <div className={classes.row}>
+            <TextField
+              type="number"
+              label={intl.formatMessage({
+                id: 'breakout.countdown',
+                defaultMessage: 'Countdown (seconds)',
+              })}
+              value={countdown}
+              inputProps={{ min: 0 }}
+              onChange={(event) => setCountdown(Number(event.target.value))}
+            />
+            <Button
+              variant="contained"
+              color="secondary"
+              disabled={breakoutInProgress}
+              onClick={() => roomClient.closeBreakoutRooms(countdown)}
+            >
+              <FormattedMessage
+                id="breakout.closeAll"
+                defaultMessage="Close all breakout rooms"
+              />
+            </Button>
+          </div>
+        </div>
+      )}
+    </Paper>
+  );
+});
+BreakoutRooms.displayName = 'BreakoutRooms';
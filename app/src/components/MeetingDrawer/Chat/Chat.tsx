@@ -4,6 +4,7 @@ import Paper from '@material-ui/core/Paper';
 import Moderator from './Menu/Moderator';
 import List from './List/List';
 import Input from './Menu/Input';
+import { Conversation } from './Menu/Conversation';
 
 const useStyles = makeStyles((theme) => ({
   root: {
@@ -21,6 +22,7 @@ export const Chat: React.FC = React.memo((props) => {
   return (
     <Paper className={classes.root}>
       <Moderator />
+      <Conversation />
       <List />
       <Input />
     </Paper>
@@ -101,6 +101,10 @@ const styles = (theme) => ({
     padding: theme.spacing(0),
     cursor: 'pointer',
   },
+  fileLink: {
+    color: 'inherit',
+    textDecoration: 'none',
+  },
 });
 
 const File: React.FC<{
@@ -210,9 +214,45 @@ const File: React.FC<{
         )}
         {/* /Save File */}
 
+        {/* Server File */}
+        {file.serverFile && (
+          <a
+            className={classnames(classes.fileInfo, classes.fileLink)}
+            href={roomClient.fileShare.getDownloadUrl(file.serverFile)}
+            download={file.serverFile.name}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <DescriptionIcon />
+            <Typography className={classes.text}>
+              {file.serverFile.name}
+            </Typography>
+            <Tooltip
+              title={intl.formatMessage({
+                id: 'filesharing.download',
+                defaultMessage: 'Download',
+              })}
+              placement="top"
+              enterDelay={700}
+              enterNextDelay={700}
+            >
+              <IconButton
+                component="span"
+                aria-label={intl.formatMessage({
+                  id: 'filesharing.download',
+                  defaultMessage: 'Download',
+                })}
+              >
+                <GetAppIcon />
+              </IconButton>
+            </Tooltip>
+          </a>
+        )}
+        {/* /Server File */}
+
         {/* Download File */}
         {/* { (!file.active && !file.files) && */}
-        {!file.files && (
+        {!file.files && magnetUri && (
           <Fragment>
             <div
               className={classes.fileInfo}
@@ -282,7 +322,7 @@ const File: React.FC<{
 
 (File as any).propTypes = {
   roomClient: PropTypes.object.isRequired,
-  magnetUri: PropTypes.string.isRequired,
+  magnetUri: PropTypes.string,
   time: PropTypes.string.isRequired,
   name: PropTypes.string.isRequired,
   picture: PropTypes.string,
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import PropTypes from 'prop-types';
 import classnames from 'classnames';
 import { withStyles } from '@material-ui/core/styles';
@@ -6,7 +6,39 @@ import DOMPurify from 'dompurify';
 import marked from 'marked';
 import Paper from '@material-ui/core/Paper';
 import Typography from '@material-ui/core/Typography';
-import { useIntl, FormattedTime } from 'react-intl';
+import IconButton from '@material-ui/core/IconButton';
+import Tooltip from '@material-ui/core/Tooltip';
+import Popover from '@material-ui/core/Popover';
+import Chip from '@material-ui/core/Chip';
+import InputBase from '@material-ui/core/InputBase';
+import ReplyIcon from '@material-ui/icons/Reply';
+import InsertEmoticonIcon from '@material-ui/icons/InsertEmoticon';
+import EditIcon from '@material-ui/icons/Edit';
+import DeleteIcon from '@material-ui/icons/Delete';
+import { useIntl, FormattedTime, FormattedMessage } from 'react-intl';
+import { useRoomClient } from '../../../../../RoomContext';
+import { useAppDispatch } from '../../../../../store/selectors';
+import { chatActions } from '../../../../../store/slices/chat';
+
+// Emojis offered for the reactions.
+const REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+// Maximum length of the quote of a replied message.
+const QUOTE_LENGTH = 80;
+
+/**
+ * Text of a message without its formatting.
+ */
+function toPlainText(html: string) {
+  return DOMPurify.sanitize(html, { ALLOWED_TAGS: [] });
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
 
 const styles = (theme) => ({
   root: {
@@ -75,6 +107,38 @@ const styles = (theme) => ({
     backgroundColor: '#e0e0e085',
     transition: 'background-color 1s',
   },
+  quote: {
+    borderLeft: '3px solid #999999',
+    paddingLeft: theme.spacing(1),
+    color: '#666666',
+    fontSize: '13px',
+  },
+  edited: {
+    color: '#999999',
+    fontSize: '12px',
+  },
+  reactions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    '& > *': {
+      marginRight: theme.spacing(0.5),
+      marginTop: theme.spacing(0.5),
+    },
+  },
+  actions: {
+    display: 'none',
+    alignSelf: 'flex-start',
+    '$root:hover &': {
+      display: 'flex',
+    },
+  },
+  action: {
+    padding: theme.spacing(0.5),
+  },
+  editInput: {
+    backgroundColor: 'white',
+    padding: theme.spacing(0, 0.5),
+  },
 });
 
 const Message = (props) => {
@@ -104,8 +168,40 @@ const Message = (props) => {
     sender,
     refMessage,
     format,
+    id,
+    myId,
+    editedAt,
+    reactions,
+    replyTo,
+    canEdit,
+    canDelete,
+    canReact,
   } = props;
 
+  const roomClient = useRoomClient();
+  const dispatch = useAppDispatch();
+
+  const [reactionsAnchorEl, setReactionsAnchorEl] = useState(null);
+  const [editText, setEditText] = useState<string | null>(null);
+
+  const toggleReaction = (emoji: string) => {
+    const reacted = !(reactions && (reactions[emoji] || []).includes(myId));
+
+    roomClient.reactChatMessage(id, emoji, reacted);
+  };
+
+  const handleEditKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && editText.trim()) {
+      roomClient.editChatMessage(id, escapeHtml(editText.trim()));
+
+      setEditText(null);
+    } else if (event.key === 'Escape') {
+      setEditText(null);
+    }
+  };
+
+  const quote = replyTo && toPlainText(replyTo.text);
+
   return (
     <Paper
       className={classnames(
@@ -152,20 +248,157 @@ const Message = (props) => {
         )}
         {/* /Name & Time */}
 
+        {/* Reply */}
+        {replyTo && (
+          <div className={classes.quote}>
+            <b>{replyTo.name}</b>:{' '}
+            {quote.length > QUOTE_LENGTH
+              ? `${quote.slice(0, QUOTE_LENGTH)}…`
+              : quote}
+          </div>
+        )}
+        {/* /Reply */}
+
         {/* Text */}
-        <Typography
-          variant="subtitle1"
-          // eslint-disable-next-line react/no-danger
-          dangerouslySetInnerHTML={{
-            __html: DOMPurify.sanitize(
-              marked.parse(text, { renderer: linkRenderer }),
-              allowedHTMLNodes
-            ),
-          }}
-        />
+        {editText !== null ? (
+          <InputBase
+            className={classes.editInput}
+            autoFocus
+            fullWidth
+            value={editText}
+            onChange={(event) => setEditText(event.target.value)}
+            onKeyDown={handleEditKeyDown}
+            onBlur={() => setEditText(null)}
+          />
+        ) : (
+          <Typography
+            variant="subtitle1"
+            // eslint-disable-next-line react/no-danger
+            dangerouslySetInnerHTML={{
+              __html: DOMPurify.sanitize(
+                marked.parse(text, { renderer: linkRenderer }),
+                allowedHTMLNodes
+              ),
+            }}
+          />
+        )}
+        {editedAt && (
+          <span className={classes.edited}>
+            <FormattedMessage id="label.chatEdited" defaultMessage="(edited)" />
+          </span>
+        )}
         {/* /Text */}
+
+        {/* Reactions */}
+        {reactions && Object.keys(reactions).length > 0 && (
+          <div className={classes.reactions}>
+            {Object.entries(reactions).map(([emoji, peerIds]) => (
+              <Chip
+                key={emoji}
+                size="small"
+                label={`${emoji} ${(peerIds as string[]).length}`}
+                color={
+                  (peerIds as string[]).includes(myId) ? 'primary' : 'default'
+                }
+                disabled={!canReact}
+                onClick={() => toggleReaction(emoji)}
+              />
+            ))}
+          </div>
+        )}
+        {/* /Reactions */}
       </div>
       {/* Content */}
+
+      {/* Actions */}
+      {id && (
+        <div className={classes.actions}>
+          <Tooltip
+            title={intl.formatMessage({
+              id: 'label.chatReply',
+              defaultMessage: 'Reply',
+            })}
+          >
+            <IconButton
+              className={classes.action}
+              size="small"
+              onClick={() => dispatch(chatActions.setReplyTo(id))}
+            >
+              <ReplyIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          {canReact && (
+            <Tooltip
+              title={intl.formatMessage({
+                id: 'label.chatReact',
+                defaultMessage: 'React',
+              })}
+            >
+              <IconButton
+                className={classes.action}
+                size="small"
+                onClick={(event) => setReactionsAnchorEl(event.currentTarget)}
+              >
+                <InsertEmoticonIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canEdit && (
+            <Tooltip
+              title={intl.formatMessage({
+                id: 'label.chatEdit',
+                defaultMessage: 'Edit',
+              })}
+            >
+              <IconButton
+                className={classes.action}
+                size="small"
+                onClick={() => setEditText(toPlainText(text))}
+              >
+                <EditIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canDelete && (
+            <Tooltip
+              title={intl.formatMessage({
+                id: 'label.chatDelete',
+                defaultMessage: 'Delete',
+              })}
+            >
+              <IconButton
+                className={classes.action}
+                size="small"
+                onClick={() => roomClient.deleteChatMessage(id)}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Popover
+            open={Boolean(reactionsAnchorEl)}
+            anchorEl={reactionsAnchorEl}
+            onClose={() => setReactionsAnchorEl(null)}
+            anchorOrigin={{ vertical: 'top', horizontal: 'left' }}
+            transformOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+          >
+            {REACTIONS.map((emoji) => (
+              <IconButton
+                key={emoji}
+                size="small"
+                onClick={() => {
+                  setReactionsAnchorEl(null);
+
+                  toggleReaction(emoji);
+                }}
+              >
+                {emoji}
+              </IconButton>
+            ))}
+          </Popover>
+        </div>
+      )}
+      {/* /Actions */}
     </Paper>
   );
 };
@@ -181,6 +414,14 @@ Message.propTypes = {
   refMessage: PropTypes.object.isRequired,
   width: PropTypes.number.isRequired,
   format: PropTypes.string.isRequired,
+  id: PropTypes.string,
+  myId: PropTypes.string,
+  editedAt: PropTypes.number,
+  reactions: PropTypes.object,
+  replyTo: PropTypes.object,
+  canEdit: PropTypes.bool,
+  canDelete: PropTypes.bool,
+  canReact: PropTypes.bool,
 };
 
 export default withStyles(styles as any)(Message);
@@ -11,6 +11,12 @@ import EmptyAvatar from '../../../../images/avatar-empty.jpeg';
 import Button from '@material-ui/core/Button';
 import ChevronLeftIcon from '@material-ui/icons/ChevronLeft';
 import { chatActions } from '../../../../store/slices/chat';
+import { makePermissionSelector } from '../../../../store/selectors';
+import { PermissionList } from 'tailchat-meeting-sdk';
+
+const canModerateChatSelector = makePermissionSelector(
+  PermissionList.MODERATE_CHAT
+);
 
 const styles = (theme) => ({
   root: {
@@ -169,9 +175,24 @@ class MessageList extends React.Component<any> {
   };
 
   render() {
-    const { chat, myPicture, classes, files, me, peers, intl } = this.props;
-
-    const items = [...chat.messages, ...files.files];
+    const {
+      chat,
+      myPicture,
+      classes,
+      files,
+      me,
+      peers,
+      canModerateChat,
+      intl,
+    } = this.props;
+
+    // Files are only shared with the whole room
+    const items = [
+      ...chat.messages.filter(
+        (message) => (message.conversation || null) === chat.conversation
+      ),
+      ...(chat.conversation ? [] : files.files),
+    ];
 
     items.sort((a, b) => (a.time < b.time ? -1 : 1));
 
@@ -248,6 +269,13 @@ class MessageList extends React.Component<any> {
               else if (curr === prev && curr !== next) format = 'combinedEnd';
 
               if (item.type === 'message') {
+                const mine = me.id === item.peerId;
+                // The private messages are not kept by the server
+                const shared = Boolean(item.id) && !item.conversation;
+                const replied =
+                  item.replyTo &&
+                  chat.messages.find((message) => message.id === item.replyTo);
+
                 const message = (
                   <Message
                     refMessage={(el) => el && this.setWidth(el)}
@@ -263,6 +291,14 @@ class MessageList extends React.Component<any> {
                     sender={me.id === item.peerId ? 'client' : item.sender}
                     // self={item.sender === 'client'}
                     format={format}
+                    id={item.id}
+                    myId={me.id}
+                    editedAt={item.editedAt}
+                    reactions={item.reactions}
+                    replyTo={replied || null}
+                    canEdit={shared && mine}
+                    canDelete={shared && (mine || canModerateChat)}
+                    canReact={shared}
                   />
                 );
 
@@ -327,6 +363,7 @@ class MessageList extends React.Component<any> {
   files: PropTypes.object.isRequired,
   me: appPropTypes.Me.isRequired,
   peers: PropTypes.object.isRequired,
+  canModerateChat: PropTypes.bool.isRequired,
   intl: PropTypes.object.isRequired,
   setIsScrollEnd: PropTypes.func.isRequired,
   setIsMessageRead: PropTypes.func.isRequired,
@@ -338,6 +375,7 @@ const mapStateToProps = (state) => ({
   me: state.me,
   peers: state.peers,
   files: state.files,
+  canModerateChat: canModerateChatSelector(state),
 });
 
 const mapDispatchToProps = (dispatch) => ({
@@ -356,6 +394,7 @@ export default connect(mapStateToProps, mapDispatchToProps, null, {
       prev.files === next.files &&
       prev.me.picture === next.me.picture &&
       prev.me === next.me &&
+      prev.room.roomPermissions === next.room.roomPermissions &&
       prev.peers === next.peers
     );
   },
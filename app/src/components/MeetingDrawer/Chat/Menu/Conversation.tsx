@@ -0,0 +1,96 @@
+import React from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { useIntl } from 'react-intl';
+import Select from '@material-ui/core/Select';
+import MenuItem from '@material-ui/core/MenuItem';
+import {
+  makePermissionSelector,
+  useAppDispatch,
+  useAppSelector,
+} from '../../../../store/selectors';
+import { chatActions } from '../../../../store/slices/chat';
+import { PermissionList } from 'tailchat-meeting-sdk';
+
+const canModerateChatSelector = makePermissionSelector(
+  PermissionList.MODERATE_CHAT
+);
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    padding: theme.spacing(0, 1),
+    boxShadow: '0 2px 5px 2px rgba(0, 0, 0, 0.2)',
+    backgroundColor: 'rgba(255, 255, 255, 1)',
+  },
+  select: {
+    width: '100%',
+  },
+}));
+
+/**
+ * 切换公开聊天和私聊, 主持人可以同时私聊多人
+ */
+export const Conversation: React.FC = React.memo(() => {
+  const intl = useIntl();
+  const classes = useStyles();
+  const dispatch = useAppDispatch();
+  const { conversation, peers, canModerateChat } = useAppSelector((state) => ({
+    conversation: state.chat.conversation,
+    peers: state.peers,
+    canModerateChat: canModerateChatSelector(state),
+  }));
+
+  const selected = conversation ? conversation.split(',') : [];
+
+  const everyone = intl.formatMessage({
+    id: 'label.chatEveryone',
+    defaultMessage: 'Everyone',
+  });
+
+  const getDisplayName = (peerId: string) =>
+    peers[peerId]
+      ? peers[peerId].displayName
+      : intl.formatMessage({ id: 'label.unknown', defaultMessage: 'Unknown' });
+
+  const handleChange = (event: React.ChangeEvent<{ value: unknown }>) => {
+    const value = event.target.value as string | string[];
+    const peerIds = Array.isArray(value) ? value : [value];
+
+    // "Everyone" goes back to the public chat
+    if (peerIds.length === 0 || peerIds.includes('')) {
+      dispatch(chatActions.setConversation(null));
+    } else {
+      dispatch(chatActions.setConversation([...peerIds].sort().join(',')));
+    }
+  };
+
+  return (
+    <div className={classes.root}>
+      <Select
+        className={classes.select}
+        multiple={canModerateChat}
+        displayEmpty
+        value={canModerateChat ? selected : selected[0] || ''}
+        onChange={handleChange}
+        renderValue={() =>
+          selected.length > 0
+            ? intl.formatMessage(
+                {
+                  id: 'label.chatPrivateWith',
+                  defaultMessage: 'Privately with {displayNames}',
+                },
+                { displayNames: selected.map(getDisplayName).join(', ') }
+              )
+            : everyone
+        }
+      >
+        <MenuItem value="">{everyone}</MenuItem>
+        {Object.values(peers).map((peer) => (
+          <MenuItem key={peer.id} value={peer.id}>
+            {peer.displayName}
+          </MenuItem>
+        ))}
+      </Select>
+    </div>
+  );
+});
+Conversation.displayName = 'Conversation';
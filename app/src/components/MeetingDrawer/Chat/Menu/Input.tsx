@@ -4,7 +4,11 @@ import PropTypes from 'prop-types';
 import { withStyles } from '@material-ui/core/styles';
 import { useRoomClient, withRoomContext } from '../../../../RoomContext';
 import { useIntl } from 'react-intl';
-import { makePermissionSelector } from '../../../../store/selectors';
+import {
+  makePermissionSelector,
+  useAppDispatch,
+} from '../../../../store/selectors';
+import { chatActions } from '../../../../store/slices/chat';
 import Paper from '@material-ui/core/Paper';
 import { Grid } from '@material-ui/core';
 import { EditorState, RichUtils, ContentState } from 'draft-js';
@@ -23,6 +27,7 @@ import FormatBoldIcon from '@material-ui/icons/FormatBold';
 import FormatItalicIcon from '@material-ui/icons/FormatItalic';
 import FormatUnderlinedIcon from '@material-ui/icons/FormatUnderlined';
 import SortIcon from '@material-ui/icons/Sort';
+import CloseIcon from '@material-ui/icons/Close';
 import { PermissionList } from 'tailchat-meeting-sdk';
 
 const styles = (theme) => ({
@@ -49,6 +54,14 @@ const styles = (theme) => ({
   icon: {
     padding: theme.spacing(1),
   },
+  replyTo: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing(0, 1),
+    fontSize: '13px',
+    color: '#666666',
+  },
 });
 
 const ChatInput = (props) => {
@@ -67,8 +80,14 @@ const ChatInput = (props) => {
   } = props;
   const roomClient = useRoomClient();
 
+  const dispatch = useAppDispatch();
+
   const intl = useIntl();
 
+  const repliedMessage =
+    chat.replyTo &&
+    chat.messages.find((chatMessage) => chatMessage.id === chat.replyTo);
+
   const [editorState, setEditorState] = React.useState(() =>
     EditorState.createEmpty()
   );
@@ -97,16 +116,22 @@ const ChatInput = (props) => {
 
   const sendMessage = () => {
     if (!isMessageEmpty()) {
-      roomClient.sendChatMessage({
-        type: 'message',
-        time: Date.now(),
-        sender: 'response',
-        isRead: null,
-        name: displayName,
-        peerId: peerId,
-        picture: picture,
-        text: message,
-      });
+      roomClient.sendChatMessage(
+        {
+          type: 'message',
+          time: Date.now(),
+          sender: 'response',
+          isRead: null,
+          name: displayName,
+          peerId: peerId,
+          picture: picture,
+          text: message,
+          replyTo: chat.replyTo,
+        },
+        chat.conversation ? chat.conversation.split(',') : undefined
+      );
+
+      dispatch(chatActions.setReplyTo(null));
 
       clearInput();
     }
@@ -176,6 +201,27 @@ const ChatInput = (props) => {
   return (
     <Paper className={classes.root}>
       <Grid container direction="column">
+        {repliedMessage && (
+          <Grid item className={classes.replyTo}>
+            {intl.formatMessage(
+              {
+                id: 'label.chatReplyingTo',
+                defaultMessage: 'Replying to {displayName}',
+              },
+              { displayName: repliedMessage.name }
+            )}
+            <IconButton
+              size="small"
+              aria-label={intl.formatMessage({
+                id: 'label.cancel',
+                defaultMessage: 'Cancel',
+              })}
+              onClick={() => dispatch(chatActions.setReplyTo(null))}
+            >
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          </Grid>
+        )}
         <Grid
           className={classes.inputContainer}
           item
@@ -38,6 +38,10 @@ const ChatModerator = (props) => {
     roomClient.clearChat();
   };
 
+  const handleClearFileSharing = () => {
+    roomClient.clearFileSharing();
+  };
+
   return (
     <ul className={classes.root}>
       <li className={classes.listheader}>
@@ -59,6 +63,22 @@ const ChatModerator = (props) => {
       >
         <FormattedMessage id="room.clearChat" defaultMessage="Clear chat" />
       </Button>
+      <Button
+        aria-label={intl.formatMessage({
+          id: 'room.clearFileSharing',
+          defaultMessage: 'Clear files',
+        })}
+        className={classes.actionButton}
+        variant="contained"
+        color="secondary"
+        disabled={room.clearFileSharingInProgress}
+        onClick={handleClearFileSharing}
+      >
+        <FormattedMessage
+          id="room.clearFileSharing"
+          defaultMessage="Clear files"
+        />
+      </Button>
     </ul>
   );
 };
@@ -73,10 +93,13 @@ ChatModerator.propTypes = {
 
 const makeMapStateToProps = () => {
   const hasPermission = makePermissionSelector(PermissionList.MODERATE_CHAT);
+  const hasFilesPermission = makePermissionSelector(
+    PermissionList.MODERATE_FILES
+  );
 
   const mapStateToProps = (state) => ({
     isChatModerator: hasPermission(state),
-    isFileSharingModerator: hasPermission(state),
+    isFileSharingModerator: hasFilesPermission(state),
     room: state.room,
   });
 
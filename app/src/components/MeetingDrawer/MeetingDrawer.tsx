@@ -1,5 +1,6 @@
 import React from 'react';
 import {
+  makePermissionSelector,
   raisedHandsSelector,
   useAppDispatch,
   useAppSelector,
@@ -12,18 +13,30 @@ import Tab from '@material-ui/core/Tab';
 import Badge from '@material-ui/core/Badge';
 import { Chat } from './Chat/Chat';
 import ParticipantList from './ParticipantList/ParticipantList';
+import { BreakoutRooms } from './Breakout/BreakoutRooms';
+import { Polls } from './Polls/Polls';
 import ChevronLeftIcon from '@material-ui/icons/ChevronLeft';
 import ChevronRightIcon from '@material-ui/icons/ChevronRight';
 import IconButton from '@material-ui/core/IconButton';
 import ChatIcon from '@material-ui/icons/Chat';
 import GroupIcon from '@material-ui/icons/Group';
+import GroupWorkIcon from '@material-ui/icons/GroupWork';
+import PollIcon from '@material-ui/icons/Poll';
+import { PermissionList } from 'tailchat-meeting-sdk';
 
 import pinIcon from '../../images/pin-icon-baseline.svg';
 import unpinIcon from '../../images/pin-icon-outline.svg';
 import { settingsActions } from '../../store/slices/settings';
-import { toolareaActions } from '../../store/slices/toolarea';
+import { toolareaActions, ToolareaState } from '../../store/slices/toolarea';
 
-const tabs = ['users', 'chat'] as const;
+const tabs = ['users', 'chat', 'polls'] as const;
+
+// 分组讨论: 主持人或分组中的成员可见
+const breakoutTabs = [...tabs, 'breakout'] as const;
+
+const hasModerateRoomPermission = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
 
 interface Props {
   closeDrawer: () => void;
@@ -58,6 +71,8 @@ export const MeetingDrawer: React.FC<Props> = React.memo((props) => {
     raisedHands,
     drawerOverlayed,
     browser,
+    showBreakout,
+    openPolls,
   } = useAppSelector((state) => ({
     currentToolTab: state.toolarea.currentToolTab,
     unreadMessages: state.toolarea.unreadMessages,
@@ -65,19 +80,28 @@ export const MeetingDrawer: React.FC<Props> = React.memo((props) => {
     raisedHands: raisedHandsSelector(state),
     drawerOverlayed: state.settings.drawerOverlayed,
     browser: state.me.browser,
+    showBreakout:
+      hasModerateRoomPermission(state) || Boolean(state.room.parentRoomId),
+    openPolls: state.polls.polls.filter(
+      (poll) => !poll.closed && poll.myChoices.length === 0
+    ).length,
   }));
   const dispatch = useAppDispatch();
 
   const { closeDrawer } = props;
 
+  const visibleTabs: readonly ToolareaState['currentToolTab'][] = showBreakout
+    ? breakoutTabs
+    : tabs;
+
   return (
     <div className={classes.root}>
       <AppBar position="static" color="default" className={classes.appBar}>
         <Tabs
           className={classes.tabsHeader}
-          value={tabs.indexOf(currentToolTab)}
+          value={Math.max(visibleTabs.indexOf(currentToolTab), 0)}
           onChange={(event, value) =>
-            dispatch(toolareaActions.setToolTab(tabs[value]))
+            dispatch(toolareaActions.setToolTab(visibleTabs[value]))
           }
           indicatorColor="primary"
           textColor="primary"
@@ -112,6 +136,34 @@ export const MeetingDrawer: React.FC<Props> = React.memo((props) => {
               </Badge>
             }
           />
+          <Tab
+            label={
+              <Badge color="secondary" badgeContent={openPolls}>
+                <PollIcon />
+                &nbsp;
+                {browser.platform !== 'mobile' &&
+                  intl.formatMessage({
+                    id: 'label.polls',
+                    defaultMessage: 'Polls',
+                  })}
+              </Badge>
+            }
+          />
+          {showBreakout && (
+            <Tab
+              label={
+                <React.Fragment>
+                  <GroupWorkIcon />
+                  &nbsp;
+                  {browser.platform !== 'mobile' &&
+                    intl.formatMessage({
+                      id: 'label.breakout',
+                      defaultMessage: 'Breakout',
+                    })}
+                </React.Fragment>
+              }
+            />
+          )}
         </Tabs>
         {browser.platform !== 'mobile' && (
           <React.Fragment>
@@ -138,6 +190,8 @@ export const MeetingDrawer: React.FC<Props> = React.memo((props) => {
       </AppBar>
       {currentToolTab === 'chat' && <Chat />}
       {currentToolTab === 'users' && <ParticipantList />}
+      {currentToolTab === 'polls' && <Polls />}
+      {currentToolTab === 'breakout' && showBreakout && <BreakoutRooms />}
     </div>
   );
 });
@@ -31,11 +31,16 @@ import AddToQueueIcon from '@material-ui/icons/AddToQueue';
 import RecordVoiceOverIcon from '@material-ui/icons/RecordVoiceOver';
 import AccountTreeIcon from '@material-ui/icons/AccountTree';
 import MoreIcon from '@material-ui/icons/MoreVert';
+import ChatIcon from '@material-ui/icons/Chat';
 import Typography from '@material-ui/core/Typography';
 import Divider from '@material-ui/core/Divider';
 import ListItem from '@material-ui/core/ListItem';
 import Slider from '@material-ui/core/Slider';
+import Chip from '@material-ui/core/Chip';
+import { getRoleDisplayName } from '../../../utils';
 import { roomActions } from '../../../store/slices/room';
+import { chatActions } from '../../../store/slices/chat';
+import { toolareaActions } from '../../../store/slices/toolarea';
 
 const VolumeSlider = withStyles({
   root: {
@@ -101,6 +106,9 @@ const useStyles = makeStyles((theme) => ({
   moderator: {
     color: 'rgba(220, 0, 78, 1)',
   },
+  roleBadge: {
+    marginLeft: theme.spacing(0.5),
+  },
 }));
 
 interface ListPeerProps extends React.PropsWithChildren {
@@ -132,12 +140,21 @@ export const ListPeer: React.FC<ListPeerProps> = (props) => {
 
   const { id, isModerator, spotlight, isSelected, children } = props;
 
-  const { peer, mode, micConsumer, webcamConsumer, screenConsumer } =
-    useAppSelector((state) => ({
-      peer: state.peers[id],
-      mode: state.room.layout,
-      ...peerConsumerSelector(state, id),
-    }));
+  const {
+    peer,
+    mode,
+    userRoles,
+    locale,
+    micConsumer,
+    webcamConsumer,
+    screenConsumer,
+  } = useAppSelector((state) => ({
+    peer: state.peers[id],
+    mode: state.room.layout,
+    userRoles: state.room.userRoles,
+    locale: state.intl.locale,
+    ...peerConsumerSelector(state, id),
+  }));
 
   const dispatch = useAppDispatch();
   const openRolesManager = (peerId: string) => {
@@ -170,7 +187,31 @@ export const ListPeer: React.FC<ListPeerProps> = (props) => {
     <div className={classes.root}>
       <img alt="Peer avatar" className={classes.avatar} src={picture} />
 
-      <div className={classes.peerInfo}>{peer.displayName}</div>
+      <div className={classes.peerInfo}>
+        {peer.displayName}
+        {userRoles &&
+          peer.roles
+            .map((roleId) => userRoles.get(roleId))
+            .filter((role) => role && role.promotable)
+            .map((role) => (
+              <Chip
+                key={role.id}
+                size="small"
+                className={classes.roleBadge}
+                label={getRoleDisplayName(role, locale)}
+              />
+            ))}
+        {peer.ingest && (
+          <Chip
+            size="small"
+            className={classes.roleBadge}
+            label={intl.formatMessage({
+              id: 'label.ingestSource',
+              defaultMessage: 'External source',
+            })}
+          />
+        )}
+      </div>
       {peer.raisedHand && (
         <IconButton
           className={classes.buttons}
@@ -369,6 +410,25 @@ export const ListPeer: React.FC<ListPeerProps> = (props) => {
                 )}
               </p>
             </MenuItem>
+            {!peer.ingest && (
+              <MenuItem
+                onClick={() => {
+                  handleMenuClose();
+
+                  dispatch(chatActions.setConversation(peer.id));
+                  dispatch(toolareaActions.setToolTab('chat'));
+                  dispatch(toolareaActions.openToolArea());
+                }}
+              >
+                <ChatIcon />
+                <p className={classes.moreAction}>
+                  <FormattedMessage
+                    id="tooltip.messagePrivately"
+                    defaultMessage="Message privately"
+                  />
+                </p>
+              </MenuItem>
+            )}
             {isModerator && (
               <React.Fragment>
                 <Divider />
@@ -393,12 +453,24 @@ export const ListPeer: React.FC<ListPeerProps> = (props) => {
                 >
                   <ExitIcon />
                   <p className={classes.moreAction}>
-                    <FormattedMessage
-                      id="tooltip.kickParticipant"
-                      defaultMessage="Kick out"
-                    />
+                    {peer.ingest ? (
+                      <FormattedMessage
+                        id="tooltip.removeIngestSource"
+                        defaultMessage="Remove source"
+                      />
+                    ) : (
+                      <FormattedMessage
+                        id="tooltip.kickParticipant"
+                        defaultMessage="Kick out"
+                      />
+                    )}
                   </p>
                 </MenuItem>
+              </React.Fragment>
+            )}
+            {/* 外部推流源没有客户端, 只能移除 */}
+            {isModerator && !peer.ingest && (
+              <React.Fragment>
                 <MenuItem
                   disabled={!micConsumer || peer.stopPeerAudioInProgress}
                   onClick={() => {
@@ -12,6 +12,7 @@ import { FormattedMessage } from 'react-intl';
 import { ListPeer } from './ListPeer';
 import ListMe from './ListMe';
 import ListModerator from './ListModerator';
+import { WebinarAudience } from './WebinarAudience';
 import Volume from '../../Containers/Volume';
 import { PermissionList } from 'tailchat-meeting-sdk';
 
@@ -60,8 +61,14 @@ class ParticipantList extends React.PureComponent {
   }
 
   render() {
-    const { isModerator, participants, spotlights, selectedPeers, classes } =
-      this.props as any;
+    const {
+      isModerator,
+      participants,
+      spotlights,
+      selectedPeers,
+      webinar,
+      classes,
+    } = this.props as any;
 
     return (
       <div
@@ -111,6 +118,17 @@ class ParticipantList extends React.PureComponent {
             ))}
           </Flipper>
         </ul>
+        {webinar && (
+          <ul className={classes.list}>
+            <li className={classes.listheader}>
+              <FormattedMessage
+                id="room.webinarAudience"
+                defaultMessage="Audience"
+              />
+            </li>
+            <WebinarAudience />
+          </ul>
+        )}
       </div>
     );
   }
@@ -122,6 +140,7 @@ class ParticipantList extends React.PureComponent {
   participants: PropTypes.array.isRequired,
   spotlights: PropTypes.array.isRequired,
   selectedPeers: PropTypes.array.isRequired,
+  webinar: PropTypes.object,
   classes: PropTypes.object.isRequired,
 };
 
@@ -134,6 +153,7 @@ const makeMapStateToProps = () => {
       participants: participantListSelector(state),
       spotlights: state.room.spotlights,
       selectedPeers: state.room.selectedPeers,
+      webinar: state.room.webinar,
     };
   };
 
@@ -145,6 +165,7 @@ const ParticipantListContainer = connect(makeMapStateToProps, null, null, {
     return (
       prev.room.spotlights === next.room.spotlights &&
       prev.room.selectedPeers === next.room.selectedPeers &&
+      prev.room.webinar === next.room.webinar &&
       prev.me.roles === next.me.roles &&
       prev.peers === next.peers
     );
@@ -0,0 +1,98 @@
+import React from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { FormattedMessage } from 'react-intl';
+import Avatar from '@material-ui/core/Avatar';
+import Button from '@material-ui/core/Button';
+import { useRoomClient } from '../../../RoomContext';
+import {
+  makePermissionSelector,
+  useAppSelector,
+} from '../../../store/selectors';
+import { PermissionList } from 'tailchat-meeting-sdk';
+
+const canModerateRoomSelector = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
+
+const useStyles = makeStyles((theme) => ({
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    padding: theme.spacing(0.5, 0),
+  },
+  avatar: {
+    width: theme.spacing(4),
+    height: theme.spacing(4),
+    marginRight: theme.spacing(1),
+  },
+  name: {
+    flexGrow: 1,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+}));
+
+/**
+ * 网络研讨会观众, 主持人可以邀请举手的观众上台发言
+ */
+export const WebinarAudience: React.FC = React.memo(() => {
+  const classes = useStyles();
+  const roomClient = useRoomClient();
+  const { webinar, peers, canModerateRoom } = useAppSelector((state) => ({
+    webinar: state.room.webinar,
+    peers: state.peers,
+    canModerateRoom: canModerateRoomSelector(state),
+  }));
+
+  if (!webinar) return null;
+
+  return (
+    <>
+      <li className={classes.item}>
+        <FormattedMessage
+          id="room.webinarAudienceCount"
+          defaultMessage="{count} people in the audience"
+          values={{ count: webinar.audienceCount }}
+        />
+      </li>
+      {canModerateRoom &&
+        webinar.raisedHands.map((peer) => (
+          <li key={peer.id} className={classes.item}>
+            <Avatar className={classes.avatar} src={peer.picture} />
+            <span className={classes.name}>{peer.displayName}</span>
+            <Button
+              size="small"
+              color="primary"
+              onClick={() => roomClient.promoteWebinarSpeaker(peer.id)}
+            >
+              <FormattedMessage
+                id="room.webinarPromote"
+                defaultMessage="Invite on stage"
+              />
+            </Button>
+          </li>
+        ))}
+      {canModerateRoom &&
+        webinar.speakers
+          .filter((peerId) => peers[peerId])
+          .map((peerId) => (
+            <li key={peerId} className={classes.item}>
+              <Avatar className={classes.avatar} src={peers[peerId].picture} />
+              <span className={classes.name}>{peers[peerId].displayName}</span>
+              <Button
+                size="small"
+                color="secondary"
+                onClick={() => roomClient.demoteWebinarSpeaker(peerId)}
+              >
+                <FormattedMessage
+                  id="room.webinarDemote"
+                  defaultMessage="Move to audience"
+                />
+              </Button>
+            </li>
+          ))}
+    </>
+  );
+});
+WebinarAudience.displayName = 'WebinarAudience';
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { FormattedMessage } from 'react-intl';
+import Button from '@material-ui/core/Button';
+import Checkbox from '@material-ui/core/Checkbox';
+import Radio from '@material-ui/core/Radio';
+import LinearProgress from '@material-ui/core/LinearProgress';
+import Typography from '@material-ui/core/Typography';
+import Tooltip from '@material-ui/core/Tooltip';
+import { useRoomClient } from '../../../RoomContext';
+import type { PollInfo } from '../../../store/slices/polls';
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    padding: theme.spacing(1),
+    marginBottom: theme.spacing(1),
+    boxShadow: '0 2px 5px 2px rgba(0, 0, 0, 0.2)',
+  },
+  question: {
+    fontWeight: 'bolder',
+  },
+  details: {
+    color: '#999999',
+    fontSize: '13px',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+  },
+  optionText: {
+    flexGrow: 1,
+    overflow: 'hidden',
+  },
+  progress: {
+    marginTop: theme.spacing(0.5),
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    marginTop: theme.spacing(1),
+    '& > *': {
+      marginRight: theme.spacing(1),
+    },
+  },
+}));
+
+interface Props {
+  poll: PollInfo;
+  isModerator: boolean;
+}
+
+/**
+ * 一个投票, 投票后显示实时结果
+ */
+export const PollItem: React.FC<Props> = React.memo(({ poll, isModerator }) => {
+  const classes = useStyles();
+  const roomClient = useRoomClient();
+
+  const [choices, setChoices] = useState<number[]>(poll.myChoices);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => setChoices(poll.myChoices), [poll.myChoices]);
+
+  // Countdown of the timed polls
+  useEffect(() => {
+    if (!poll.endsAt || poll.closed) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(timer);
+  }, [poll.endsAt, poll.closed]);
+
+  const voted = poll.myChoices.length > 0;
+  const showResults = voted || poll.closed || isModerator;
+
+  const toggleChoice = (index: number) => {
+    if (!poll.multiple) setChoices([index]);
+    else if (choices.includes(index))
+      setChoices(choices.filter((choice) => choice !== index));
+    else setChoices([...choices, index]);
+  };
+
+  return (
+    <div className={classes.root}>
+      <Typography className={classes.question}>{poll.question}</Typography>
+      <Typography className={classes.details}>
+        {poll.anonymous && (
+          <FormattedMessage id="polls.anonymous" defaultMessage="Anonymous" />
+        )}{' '}
+        <FormattedMessage
+          id="polls.voterCount"
+          defaultMessage="{count} votes"
+          values={{ count: poll.voterCount }}
+        />{' '}
+        {poll.closed ? (
+          <FormattedMessage id="polls.closed" defaultMessage="Closed" />
+        ) : (
+          poll.endsAt && (
+            <FormattedMessage
+              id="polls.endsIn"
+              defaultMessage="Ends in {seconds}s"
+              values={{
+                seconds: Math.max(0, Math.ceil((poll.endsAt - now) / 1000)),
+              }}
+            />
+          )
+        )}
+      </Typography>
+
+      {poll.options.map((option, index) => {
+        const Control = poll.multiple ? Checkbox : Radio;
+        const percent = poll.voterCount
+          ? Math.round((poll.counts[index] / poll.voterCount) * 100)
+          : 0;
+
+        return (
+          <div key={index}>
+            <div className={classes.option}>
+              <Control
+                size="small"
+                disabled={poll.closed}
+                checked={choices.includes(index)}
+                onChange={() => toggleChoice(index)}
+              />
+              <Tooltip
+                title={
+                  showResults && poll.voters
+                    ? poll.voters[index].join(', ')
+                    : ''
+                }
+              >
+                <Typography className={classes.optionText}>{option}</Typography>
+              </Tooltip>
+              {showResults && (
+                <Typography className={classes.details}>
+                  {poll.counts[index]} ({percent}%)
+                </Typography>
+              )}
+            </div>
+            {showResults && (
+              <LinearProgress
+                className={classes.progress}
+                variant="determinate"
+                value={percent}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <div className={classes.actions}>
+        {!poll.closed && (
+          <Button
+            size="small"
+            variant="contained"
+            color="primary"
+            disabled={choices.length === 0}
+            onClick={() => roomClient.votePoll(poll.id, choices)}
+          >
+            {voted ? (
+              <FormattedMessage
+                id="polls.changeVote"
+                defaultMessage="Change vote"
+              />
+            ) : (
+              <FormattedMessage id="polls.vote" defaultMessage="Vote" />
+            )}
+          </Button>
+        )}
+        {isModerator && !poll.closed && (
+          <Button size="small" onClick={() => roomClient.closePoll(poll.id)}>
+            <FormattedMessage id="polls.close" defaultMessage="Close poll" />
+          </Button>
+        )}
+        {poll.closed && (
+          <Button size="small" onClick={() => roomClient.exportPoll(poll.id)}>
+            <FormattedMessage id="polls.export" defaultMessage="Export CSV" />
+          </Button>
+        )}
+        {isModerator && (
+          <Button
+            size="small"
+            color="secondary"
+            onClick={() => roomClient.deletePoll(poll.id)}
+          >
+            <FormattedMessage id="polls.delete" defaultMessage="Delete" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+});
+PollItem.displayName = 'PollItem';
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { useIntl, FormattedMessage } from 'react-intl';
+import Paper from '@material-ui/core/Paper';
+import Button from '@material-ui/core/Button';
+import TextField from '@material-ui/core/TextField';
+import Checkbox from '@material-ui/core/Checkbox';
+import FormControlLabel from '@material-ui/core/FormControlLabel';
+import Typography from '@material-ui/core/Typography';
+import { PermissionList } from 'tailchat-meeting-sdk';
+import { useRoomClient } from '../../../RoomContext';
+import {
+  makePermissionSelector,
+  useAppSelector,
+} from '../../../store/selectors';
+import { PollItem } from './PollItem';
+
+const hasModerateRoomPermission = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
+
+// Options of a poll, as validated by the server.
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    height: '100%',
+    overflowY: 'auto',
+    padding: theme.spacing(1),
+  },
+  section: {
+    padding: theme.spacing(1),
+    marginBottom: theme.spacing(1),
+    boxShadow: '0 2px 5px 2px rgba(0, 0, 0, 0.2)',
+  },
+  header: {
+    fontWeight: 'bolder',
+    marginBottom: theme.spacing(1),
+  },
+  row: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    '& > *:not(:last-child)': {
+      marginRight: theme.spacing(1),
+    },
+  },
+}));
+
+/**
+ * 投票面板, 主持人可以发起投票
+ */
+export const Polls: React.FC = React.memo(() => {
+  const intl = useIntl();
+  const classes = useStyles();
+  const roomClient = useRoomClient();
+
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [multiple, setMultiple] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [duration, setDuration] = useState(0);
+
+  const { polls, isModerator } = useAppSelector((state) => ({
+    polls: state.polls.polls,
+    isModerator: hasModerateRoomPermission(state),
+  }));
+
+  const filledOptions = options.filter((option) => option.trim());
+
+  const handleCreate = () => {
+    roomClient.createPoll({
+      question,
+      options: filledOptions,
+      multiple,
+      anonymous,
+      duration,
+    });
+
+    setQuestion('');
+    setOptions(['', '']);
+  };
+
+  return (
+    <Paper className={classes.root}>
+      {isModerator && (
+        <div className={classes.section}>
+          <Typography className={classes.header}>
+            <FormattedMessage id="polls.new" defaultMessage="New poll" />
+          </Typography>
+          <TextField
+            fullWidth
+            margin="dense"
+            label={intl.formatMessage({
+              id: 'polls.question',
+              defaultMessage: 'Question',
+            })}
+            value={question}
+            onChange={(event) => setQuestion(event.target.value)}
+          />
+          {options.map((option, index) => (
+            <TextField
+              key={index}
+              fullWidth
+              margin="dense"
+              label={intl.formatMessage(
+                {
+                  id: 'polls.option',
+                  defaultMessage: 'Option {number}',
+                },
+                { number: index + 1 }
+              )}
+              value={option}
+              onChange={(event) =>
+                setOptions(
+                  options.map((value, i) =>
+                    i === index ? event.target.value : value
+                  )
+                )
+              }
+            />
+          ))}
+          <div className={classes.row}>
+            <Button
+              size="small"
+              disabled={options.length >= MAX_OPTIONS}
+              onClick={() => setOptions([...options, ''])}
+            >
+              <FormattedMessage
+                id="polls.addOption"
+                defaultMessage="Add option"
+              />
+            </Button>
+            <Button
+              size="small"
+              disabled={options.length <= MIN_OPTIONS}
+              onClick={() => setOptions(options.slice(0, -1))}
+            >
+              <FormattedMessage
+                id="polls.removeOption"
+                defaultMessage="Remove option"
+              />
+            </Button>
+          </div>
+          <div className={classes.row}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={multiple}
+                  onChange={(event) => setMultiple(event.target.checked)}
+                />
+              }
+              label={intl.formatMessage({
+                id: 'polls.multiple',
+                defaultMessage: 'Multiple choice',
+              })}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={anonymous}
+                  onChange={(event) => setAnonymous(event.target.checked)}
+                />
+              }
+              label={intl.formatMessage({
+                id: 'polls.anonymous',
+                defaultMessage: 'Anonymous',
+              })}
+            />
+          </div>
+          <div className={classes.row}>
+            <TextField
+              type="number"
+              margin="dense"
+              label={intl.formatMessage({
+                id: 'polls.duration',
+                defaultMessage: 'Time limit (seconds, 0 for none)',
+              })}
+              inputProps={{ min: 0 }}
+              value={duration}
+              onChange={(event) =>
+                setDuration(Math.max(0, parseInt(event.target.value) || 0))
+              }
+            />
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={!question.trim() || filledOptions.length < MIN_OPTIONS}
+              onClick={handleCreate}
+            >
+              <FormattedMessage id="polls.create" defaultMessage="Start poll" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {polls.length === 0 ? (
+        <Typography>
+          <FormattedMessage id="polls.none" defaultMessage="No polls yet" />
+        </Typography>
+      ) : (
+        [...polls]
+          .reverse()
+          .map((poll) => (
+            <PollItem key={poll.id} poll={poll} isModerator={isModerator} />
+          ))
+      )}
+    </Paper>
+  );
+});
+Polls.displayName = 'Polls';
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { FormattedMessage } from 'react-intl';
+import Alert from '@material-ui/lab/Alert';
+import { useAppSelector } from '../../store/selectors';
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    position: 'fixed',
+    top: theme.spacing(9),
+    left: '50%',
+    transform: 'translateX(-50%)',
+    zIndex: theme.zIndex.snackbar,
+  },
+}));
+
+function formatTimeLeft(ms: number) {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 服务器维护倒计时横幅
+ */
+export const DrainBanner: React.FC = React.memo(() => {
+  const classes = useStyles();
+  const drainDeadline = useAppSelector((state) => state.room.drainDeadline);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <Alert className={classes.root} severity="warning">
+      <FormattedMessage
+        id="room.drainBanner"
+        defaultMessage="The server is restarting for maintenance, this meeting ends in {time}"
+        values={{ time: formatTimeLeft(drainDeadline - now) }}
+      />
+    </Alert>
+  );
+});
+DrainBanner.displayName = 'DrainBanner';
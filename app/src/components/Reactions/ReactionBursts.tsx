@@ -0,0 +1,68 @@
+import React from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { useAppSelector } from '../../store/selectors';
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    position: 'fixed',
+    right: theme.spacing(2),
+    bottom: theme.spacing(10),
+    width: 120,
+    height: '50vh',
+    overflow: 'hidden',
+    pointerEvents: 'none',
+    zIndex: theme.zIndex.snackbar,
+  },
+  burst: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    opacity: 0,
+    animation: '$rise 4s ease-out',
+  },
+  reaction: {
+    display: 'flex',
+    alignItems: 'center',
+    fontSize: '2rem',
+    '& > span': {
+      marginLeft: theme.spacing(0.5),
+      padding: theme.spacing(0, 1),
+      borderRadius: 10,
+      fontSize: '0.9rem',
+      color: '#fff',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+  },
+  '@keyframes rise': {
+    '0%': { transform: 'translateY(0)', opacity: 0 },
+    '10%': { opacity: 1 },
+    '75%': { opacity: 1 },
+    '100%': { transform: 'translateY(-40vh)', opacity: 0 },
+  },
+}));
+
+/**
+ * 大型房间中聚合后的表情反应
+ */
+export const ReactionBursts: React.FC = React.memo(() => {
+  const classes = useStyles();
+  const bursts = useAppSelector((state) => state.reactions.bursts);
+
+  return (
+    <div className={classes.root}>
+      {bursts.map(({ id, reactions }) => (
+        <div key={id} className={classes.burst}>
+          {Object.entries(reactions).map(([reaction, count]) => (
+            <div key={reaction} className={classes.reaction}>
+              {reaction}
+              {count > 1 && <span>×{count}</span>}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+});
+ReactionBursts.displayName = 'ReactionBursts';
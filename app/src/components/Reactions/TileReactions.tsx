@@ -0,0 +1,62 @@
+import React from 'react';
+import { shallowEqual } from 'react-redux';
+import { makeStyles } from '@material-ui/core/styles';
+import { useAppSelector } from '../../store/selectors';
+
+const useStyles = makeStyles({
+  root: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: '100%',
+    overflow: 'hidden',
+    pointerEvents: 'none',
+    zIndex: 22,
+  },
+  reaction: {
+    position: 'absolute',
+    bottom: 0,
+    fontSize: '2.5rem',
+    opacity: 0,
+    animation: '$float 4s ease-out',
+  },
+  '@keyframes float': {
+    '0%': { transform: 'translateY(0)', opacity: 0 },
+    '10%': { opacity: 1 },
+    '75%': { opacity: 1 },
+    '100%': { transform: 'translateY(-80%)', opacity: 0 },
+  },
+});
+
+/**
+ * 浮动在成员画面上的表情反应
+ */
+export const TileReactions: React.FC<{ peerId: string }> = React.memo(
+  ({ peerId }) => {
+    const classes = useStyles();
+    const reactions = useAppSelector(
+      (state) =>
+        state.reactions.reactions.filter(
+          (reaction) => reaction.peerId === peerId
+        ),
+      shallowEqual
+    );
+
+    return (
+      <div className={classes.root}>
+        {reactions.map(({ id, reaction }) => (
+          <span
+            key={id}
+            className={classes.reaction}
+            // Spread the reactions so that several can be seen at once
+            style={{ left: `${10 + (parseInt(id, 36) % 70)}%` }}
+          >
+            {reaction}
+          </span>
+        ))}
+      </div>
+    );
+  }
+);
+TileReactions.displayName = 'TileReactions';
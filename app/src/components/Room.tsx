@@ -13,6 +13,8 @@ import SwipeableDrawer from '@material-ui/core/SwipeableDrawer';
 import Drawer from '@material-ui/core/Drawer';
 import Hidden from '@material-ui/core/Hidden';
 import { Notifications } from './Notifications/Notifications';
+import { DrainBanner } from './Notifications/DrainBanner';
+import { ReactionBursts } from './Reactions/ReactionBursts';
 import { MeetingDrawer } from './MeetingDrawer/MeetingDrawer';
 import AudioPeers from './PeerAudio/AudioPeers';
 import { FullScreenView } from './VideoContainers/FullScreenView';
@@ -26,6 +28,7 @@ import ButtonControlBar from './Controls/ButtonControlBar';
 import { Help } from './Controls/Help';
 import { About } from './Controls/About';
 import { RolesManager } from './Controls/RolesManager';
+import { PermissionsManager } from './Controls/PermissionsManager';
 import { LeaveDialog } from './LeaveDialog';
 import { config } from '../config';
 import type { AppState } from '../store/slices';
@@ -200,6 +203,10 @@ class Room extends React.PureComponent<RoomProps> {
 
         {showNotifications && <Notifications />}
 
+        {room.drainDeadline && <DrainBanner />}
+
+        <ReactionBursts />
+
         <CssBaseline />
 
         <TopBar
@@ -262,6 +269,7 @@ class Room extends React.PureComponent<RoomProps> {
         {room.helpOpen && <Help />}
         {room.aboutOpen && <About />}
         {room.rolesManagerOpen && <RolesManager />}
+        {room.permissionsManagerOpen && <PermissionsManager />}
         {room.leaveOpen && <LeaveDialog />}
       </div>
     );
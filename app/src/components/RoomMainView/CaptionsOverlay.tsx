@@ -0,0 +1,66 @@
+import React from 'react';
+import clsx from 'clsx';
+import { makeStyles } from '@material-ui/core/styles';
+import { useAppSelector } from '../../store/selectors';
+
+// Captions shown at the same time, the most recent ones.
+const MAX_CAPTIONS = 3;
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    position: 'absolute',
+    left: '50%',
+    bottom: theme.spacing(10),
+    transform: 'translateX(-50%)',
+    width: '80%',
+    maxWidth: 900,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    pointerEvents: 'none',
+    zIndex: theme.zIndex.snackbar,
+  },
+  caption: {
+    marginTop: theme.spacing(0.5),
+    padding: theme.spacing(0.5, 1.5),
+    borderRadius: 4,
+    fontSize: '1.1rem',
+    color: '#fff',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  partial: {
+    opacity: 0.8,
+  },
+  name: {
+    fontWeight: 'bold',
+    marginRight: theme.spacing(1),
+  },
+}));
+
+/**
+ * 服务端识别出的实时字幕
+ */
+export const CaptionsOverlay: React.FC = React.memo(() => {
+  const classes = useStyles();
+  const enabled = useAppSelector(
+    (state) => state.room.captions && state.settings.showCaptions
+  );
+  const captions = useAppSelector((state) => state.captions.captions);
+
+  if (!enabled || captions.length === 0) return null;
+
+  return (
+    <div className={classes.root}>
+      {captions.slice(-MAX_CAPTIONS).map(({ id, displayName, text, final }) => (
+        <div
+          key={id}
+          className={clsx(classes.caption, { [classes.partial]: !final })}
+        >
+          <span className={classes.name}>{displayName}:</span>
+          {text}
+        </div>
+      ))}
+    </div>
+  );
+});
+CaptionsOverlay.displayName = 'CaptionsOverlay';
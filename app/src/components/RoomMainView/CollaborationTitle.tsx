@@ -1,4 +1,5 @@
 import React from 'react';
+import { FormattedMessage } from 'react-intl';
 import type { CollaborationInfo } from '../../store/slices/room';
 
 interface CollaborationTitleProps {
@@ -12,6 +13,14 @@ export const CollaborationTitle: React.FC<CollaborationTitleProps> = React.memo(
       return <div>Excalidraw</div>;
     }
 
+    if (info.type === 'whiteboard') {
+      return (
+        <div>
+          <FormattedMessage id="label.whiteboard" defaultMessage="Whiteboard" />
+        </div>
+      );
+    }
+
     return <div />;
   }
 );
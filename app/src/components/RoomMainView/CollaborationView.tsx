@@ -1,6 +1,7 @@
 import { Empty } from '@arco-design/web-react';
 import React from 'react';
 import type { CollaborationInfo } from '../../store/slices/room';
+import { Whiteboard } from '../Whiteboard/Whiteboard';
 
 interface CollaborationViewProps {
   info: CollaborationInfo;
@@ -13,6 +14,10 @@ export const CollaborationView: React.FC<CollaborationViewProps> = React.memo(
       return <iframe className="w-full h-full" src={info.url} />;
     }
 
+    if (info.type === 'whiteboard') {
+      return <Whiteboard />;
+    }
+
     return <Empty />;
   }
 );
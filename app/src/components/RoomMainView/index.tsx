@@ -5,13 +5,15 @@ import clsx from 'clsx';
 import { last } from 'lodash-es';
 import React, { useState } from 'react';
 import { useWatch } from '../../hooks/useWatch';
-import { useAppSelector } from '../../store/selectors';
+import { useAppDispatch, useAppSelector } from '../../store/selectors';
+import { roomActions } from '../../store/slices/room';
 import { AutoMeetingView } from '../MeetingViews/Auto';
 import { Democratic } from '../MeetingViews/Democratic';
 import Filmstrip from '../MeetingViews/Filmstrip';
 import { openCreateCollaborationModal } from '../modal/CreateCollaboration';
 import { CollaborationTitle } from './CollaborationTitle';
 import { CollaborationView } from './CollaborationView';
+import { CaptionsOverlay } from './CaptionsOverlay';
 
 const PADDING_V = 64;
 
@@ -44,6 +46,7 @@ export const RoomMainView: React.FC = React.memo(() => {
     (state) => state.room.toolbarsVisible || state.settings.permanentTopBar
   );
   const collaboration = useAppSelector((state) => state.room.collaboration);
+  const dispatch = useAppDispatch();
 
   const [moving, setMoving] = useState(false);
   const [activeTab, setActiveTab] = useState('');
@@ -73,11 +76,19 @@ export const RoomMainView: React.FC = React.memo(() => {
     openCreateCollaborationModal();
   });
 
+  const handleDeleteTab = useMemoizedFn((tabId: string) => {
+    dispatch(
+      roomActions.stopCollaboration({
+        index: collaboration.findIndex((info) => info.tabId === tabId),
+      })
+    );
+  });
+
   return (
     <div
       className={clsx(
         showToolbar ? classes.showingToolBar : classes.hiddenToolBar,
-        'w-full h-full flex'
+        'w-full h-full flex relative'
       )}
     >
       {Array.isArray(collaboration) && collaboration.length > 0 ? (
@@ -101,7 +112,7 @@ export const RoomMainView: React.FC = React.memo(() => {
               })}
               activeTab={activeTab}
               onAddTab={handleAddTab}
-              // onDeleteTab={handleDeleteTab}
+              onDeleteTab={handleDeleteTab}
               onChange={setActiveTab}
             >
               {collaboration.map((info, i) => (
@@ -121,6 +132,8 @@ export const RoomMainView: React.FC = React.memo(() => {
         // 纯视频模式
         <View />
       )}
+
+      <CaptionsOverlay />
     </div>
   );
 });
@@ -11,7 +11,7 @@ import Select from '@material-ui/core/Select';
 import Switch from '@material-ui/core/Switch';
 import { config } from '../../config';
 import { useAppDispatch, useAppSelector } from '../../store/selectors';
-import { settingsActions } from '../../store/slices/settings';
+import { settingsActions, SettingsState } from '../../store/slices/settings';
 
 const useStyles = makeStyles((theme) => ({
   setting: {
@@ -34,6 +34,9 @@ export const AdvancedSettings: React.FC = React.memo(() => {
   const intl = useIntl();
   const roomClient = useRoomClient();
   const settings = useAppSelector((state) => state.settings);
+  const serverFileSharing = useAppSelector(
+    (state) => state.room.serverFileSharing
+  );
   const dispatch = useAppDispatch();
   const onToggleAdvancedMode = () =>
     dispatch(settingsActions.toggle('advancedMode'));
@@ -104,6 +107,44 @@ export const AdvancedSettings: React.FC = React.memo(() => {
           </FormControl>
         </form>
       )}
+      {serverFileSharing && roomClient.fileShare.torrentSupport && (
+        <form className={classes.setting} autoComplete="off">
+          <FormControl className={classes.formControl}>
+            <Select
+              value={settings.fileSharingMode}
+              onChange={(event) =>
+                dispatch(
+                  settingsActions.set(
+                    'fileSharingMode',
+                    event.target.value as SettingsState['fileSharingMode']
+                  )
+                )
+              }
+              name="File sharing"
+              autoWidth
+            >
+              <MenuItem value="webtorrent">
+                <FormattedMessage
+                  id="settings.fileSharingWebTorrent"
+                  defaultMessage="Peer to peer (WebTorrent)"
+                />
+              </MenuItem>
+              <MenuItem value="server">
+                <FormattedMessage
+                  id="settings.fileSharingServer"
+                  defaultMessage="Upload to the server"
+                />
+              </MenuItem>
+            </Select>
+            <FormHelperText>
+              <FormattedMessage
+                id="settings.fileSharingMode"
+                defaultMessage="How files are shared"
+              />
+            </FormHelperText>
+          </FormControl>
+        </form>
+      )}
     </React.Fragment>
   );
 });
@@ -58,6 +58,8 @@ export const AppearanceSettings: React.FC = React.memo(() => {
     dispatch(settingsActions.toggle('mirrorOwnVideo'));
   const onToggleHideNoVideoParticipants = () =>
     dispatch(settingsActions.toggle('hideNoVideoParticipants'));
+  const onToggleShowCaptions = () =>
+    dispatch(settingsActions.toggle('showCaptions'));
   const handleChangeMode = (layout: ViewLayoutType) =>
     dispatch(roomActions.set('layout', layout));
   const handleChangeAspectRatio = (aspectRatio: number) =>
@@ -213,6 +215,23 @@ export const AppearanceSettings: React.FC = React.memo(() => {
           defaultMessage: 'Hide participants with no video',
         })}
       />
+      {room.captions && (
+        <FormControlLabel
+          className={classnames(classes.setting, classes.switchLabel)}
+          control={
+            <Switch
+              checked={settings.showCaptions}
+              onChange={onToggleShowCaptions}
+              value="showCaptions"
+            />
+          }
+          labelPlacement="start"
+          label={intl.formatMessage({
+            id: 'settings.showCaptions',
+            defaultMessage: 'Show live captions',
+          })}
+        />
+      )}
       <FormControlLabel
         className={classnames(classes.setting, classes.switchLabel)}
         control={
@@ -0,0 +1,364 @@
+import React, { useRef, useState } from 'react';
+import { makeStyles } from '@material-ui/core/styles';
+import { useMemoizedFn } from 'ahooks';
+import classnames from 'classnames';
+import { useIntl } from 'react-intl';
+import IconButton from '@material-ui/core/IconButton';
+import Button from '@material-ui/core/Button';
+import Tooltip from '@material-ui/core/Tooltip';
+import CreateIcon from '@material-ui/icons/Create';
+import EraserIcon from '@material-ui/icons/FormatColorReset';
+import DeleteIcon from '@material-ui/icons/DeleteSweep';
+import LockIcon from '@material-ui/icons/Lock';
+import LockOpenIcon from '@material-ui/icons/LockOpen';
+import { PermissionList } from 'tailchat-meeting-sdk';
+import { useRoomClient } from '../../RoomContext';
+import { makePermissionSelector, useAppSelector } from '../../store/selectors';
+import type { WhiteboardStroke } from '../../store/slices/whiteboard';
+import { BOARD_HEIGHT, BOARD_WIDTH } from '../../features/Whiteboard';
+import { generateRandomString } from '../../utils';
+
+const hasModerateRoomPermission = makePermissionSelector(
+  PermissionList.MODERATE_ROOM
+);
+
+const COLORS = ['#000000', '#e53935', '#1e88e5', '#43a047', '#fdd835'];
+
+const WIDTHS = [2, 6, 12];
+
+// Points of a stroke, as validated by the server.
+const MAX_STROKE_POINTS = 2000;
+
+const useStyles = makeStyles((theme) => ({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#eeeeee',
+  },
+  toolbar: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    padding: theme.spacing(0.5, 1),
+    backgroundColor: '#ffffff',
+    borderBottom: '1px solid #dddddd',
+  },
+  separator: {
+    flexGrow: 1,
+  },
+  color: {
+    width: 20,
+    height: 20,
+    borderRadius: '50%',
+    border: '2px solid transparent',
+    '&.selected': {
+      borderColor: '#999999',
+    },
+  },
+  width: {
+    borderRadius: '50%',
+    backgroundColor: '#000000',
+  },
+  selected: {
+    backgroundColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  board: {
+    flexGrow: 1,
+    minHeight: 0,
+    width: '100%',
+    touchAction: 'none',
+    '&.eraser': {
+      cursor: 'cell',
+    },
+    '&.pen': {
+      cursor: 'crosshair',
+    },
+  },
+}));
+
+function toPolylinePoints(points: number[]) {
+  const pairs = [];
+
+  for (let i = 0; i < points.length; i += 2)
+    pairs.push(`${points[i]},${points[i + 1]}`);
+
+  // A single point is drawn as a dot
+  if (pairs.length === 1) pairs.push(pairs[0]);
+
+  return pairs.join(' ');
+}
+
+const StrokeLine: React.FC<{
+  stroke: Pick<WhiteboardStroke, 'color' | 'width' | 'points'> & {
+    id?: string;
+  };
+  onErase?: (strokeId: string, event: React.PointerEvent) => void;
+}> = React.memo(({ stroke, onErase }) => {
+  const handleErase = onErase
+    ? (event: React.PointerEvent) => onErase(stroke.id, event)
+    : undefined;
+
+  return (
+    <polyline
+      fill="none"
+      stroke={stroke.color}
+      strokeWidth={stroke.width}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      points={toPolylinePoints(stroke.points)}
+      onPointerDown={handleErase}
+      onPointerEnter={handleErase}
+    />
+  );
+});
+StrokeLine.displayName = 'StrokeLine';
+
+/**
+ * 共享白板, 可以固定在会议画面旁边
+ */
+export const Whiteboard: React.FC = React.memo(() => {
+  const intl = useIntl();
+  const classes = useStyles();
+  const roomClient = useRoomClient();
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
+  const [color, setColor] = useState(COLORS[0]);
+  const [width, setWidth] = useState(WIDTHS[1]);
+  // Points of the stroke being drawn
+  const [points, setPoints] = useState<number[]>(null);
+  const [erasing, setErasing] = useState(false);
+
+  const { myId, strokes, locked, isModerator, audience } = useAppSelector(
+    (state) => ({
+      myId: state.me.id,
+      strokes: state.whiteboard.strokes,
+      locked: state.whiteboard.locked,
+      isModerator: hasModerateRoomPermission(state),
+      audience: Boolean(state.room.webinar && state.room.webinar.audience),
+    })
+  );
+
+  const canDraw = !audience && (!locked || isModerator);
+
+  const toBoardPoint = (event: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const point = svg.createSVGPoint();
+
+    point.x = event.clientX;
+    point.y = event.clientY;
+
+    const { x, y } = point.matrixTransform(svg.getScreenCTM().inverse());
+
+    return [
+      Math.min(BOARD_WIDTH, Math.max(0, Math.round(x))),
+      Math.min(BOARD_HEIGHT, Math.max(0, Math.round(y))),
+    ];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!canDraw) return;
+
+    if (tool === 'eraser') {
+      setErasing(true);
+
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    setPoints(toBoardPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!points || points.length >= MAX_STROKE_POINTS * 2) return;
+
+    const [x, y] = toBoardPoint(event);
+    const [lastX, lastY] = points.slice(-2);
+
+    if (Math.abs(x - lastX) + Math.abs(y - lastY) >= 2)
+      setPoints([...points, x, y]);
+  };
+
+  const handlePointerUp = () => {
+    setErasing(false);
+
+    if (!points) return;
+
+    roomClient.whiteboard.draw({
+      id: generateRandomString(12),
+      color,
+      width,
+      points,
+    });
+
+    setPoints(null);
+  };
+
+  // Stable for the memoized strokes
+  const handleErase = useMemoizedFn(
+    (strokeId: string, event: React.PointerEvent) => {
+      if (tool !== 'eraser' || (event.type === 'pointerenter' && !erasing))
+        return;
+
+      roomClient.whiteboard.erase(strokeId);
+    }
+  );
+
+  return (
+    <div className={classes.root}>
+      <div className={classes.toolbar}>
+        <Tooltip
+          title={intl.formatMessage({
+            id: 'whiteboard.pen',
+            defaultMessage: 'Pen',
+          })}
+        >
+          <span>
+            <IconButton
+              size="small"
+              disabled={!canDraw}
+              className={tool === 'pen' ? classes.selected : null}
+              onClick={() => setTool('pen')}
+            >
+              <CreateIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip
+          title={intl.formatMessage({
+            id: 'whiteboard.eraser',
+            defaultMessage: 'Eraser',
+          })}
+        >
+          <span>
+            <IconButton
+              size="small"
+              disabled={!canDraw}
+              className={tool === 'eraser' ? classes.selected : null}
+              onClick={() => setTool('eraser')}
+            >
+              <EraserIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {COLORS.map((value) => (
+          <IconButton
+            key={value}
+            size="small"
+            disabled={!canDraw}
+            onClick={() => {
+              setColor(value);
+              setTool('pen');
+            }}
+          >
+            <span
+              className={classnames(
+                classes.color,
+                color === value ? 'selected' : null
+              )}
+              style={{ backgroundColor: value }}
+            />
+          </IconButton>
+        ))}
+        {WIDTHS.map((value) => (
+          <IconButton
+            key={value}
+            size="small"
+            disabled={!canDraw}
+            className={width === value ? classes.selected : null}
+            onClick={() => {
+              setWidth(value);
+              setTool('pen');
+            }}
+          >
+            <span
+              className={classes.width}
+              style={{ width: value + 4, height: value + 4 }}
+            />
+          </IconButton>
+        ))}
+
+        <div className={classes.separator} />
+
+        {isModerator && (
+          <React.Fragment>
+            <Tooltip
+              title={
+                locked
+                  ? intl.formatMessage({
+                      id: 'whiteboard.unlock',
+                      defaultMessage: 'Let everyone draw',
+                    })
+                  : intl.formatMessage({
+                      id: 'whiteboard.lock',
+                      defaultMessage: 'Only moderators can draw',
+                    })
+              }
+            >
+              <IconButton
+                size="small"
+                onClick={() => roomClient.lockWhiteboard(!locked)}
+              >
+                {locked ? <LockIcon /> : <LockOpenIcon />}
+              </IconButton>
+            </Tooltip>
+            <Tooltip
+              title={intl.formatMessage({
+                id: 'whiteboard.clear',
+                defaultMessage: 'Clear the whiteboard',
+              })}
+            >
+              <IconButton
+                size="small"
+                onClick={() => roomClient.clearWhiteboard()}
+              >
+                <DeleteIcon />
+              </IconButton>
+            </Tooltip>
+          </React.Fragment>
+        )}
+        <Button
+          size="small"
+          onClick={() => roomClient.exportWhiteboard(svgRef.current, 'png')}
+        >
+          PNG
+        </Button>
+        <Button
+          size="small"
+          onClick={() => roomClient.exportWhiteboard(svgRef.current, 'svg')}
+        >
+          SVG
+        </Button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className={classnames(classes.board, canDraw ? tool : null)}
+        viewBox={`0 0 ${BOARD_WIDTH} ${BOARD_HEIGHT}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setErasing(false)}
+      >
+        <rect width={BOARD_WIDTH} height={BOARD_HEIGHT} fill="#ffffff" />
+        {strokes.map((stroke) => (
+          <StrokeLine
+            key={stroke.id}
+            stroke={stroke}
+            // Only the moderators erase the strokes of the other peers
+            onErase={
+              isModerator || stroke.peerId === myId ? handleErase : undefined
+            }
+          />
+        ))}
+        {points && <StrokeLine stroke={{ color, width, points }} />}
+      </svg>
+    </div>
+  );
+});
+Whiteboard.displayName = 'Whiteboard';
@@ -1,6 +1,7 @@
 import { Button, Modal } from '@arco-design/web-react';
 import { useAppDispatch, useAppSelector } from '../../store/selectors';
 import React from 'react';
+import { intl } from '../../intl';
 import { ReduxProvider } from '../../store/Provider';
 import { useMemoizedFn } from 'ahooks';
 import { CollaborationInfo, roomActions } from '../../store/slices/room';
@@ -26,6 +27,11 @@ const CreateCollaborationModal: React.FC<{ onClose: () => void }> = React.memo(
         );
         props.onClose();
       }
+
+      if (type === 'whiteboard') {
+        dispatch(roomActions.openWhiteboard());
+        props.onClose();
+      }
     });
 
     return (
@@ -37,6 +43,17 @@ const CreateCollaborationModal: React.FC<{ onClose: () => void }> = React.memo(
         >
           Excalidraw
         </Button>
+        <Button
+          size="large"
+          long={true}
+          style={{ marginTop: 8 }}
+          onClick={() => handleCreate('whiteboard')}
+        >
+          {intl.formatMessage({
+            id: 'label.whiteboard',
+            defaultMessage: 'Whiteboard',
+          })}
+        </Button>
       </div>
     );
   }
@@ -164,6 +164,12 @@ export const configSchema = {
     default: false,
   },
 
+  fileSharingMode: {
+    doc: 'How the files are shared by default, over WebTorrent or uploaded to the server when the server file sharing is enabled.',
+    format: ['webtorrent', 'server'],
+    default: 'webtorrent',
+  },
+
   /**
    * White listing browsers that support audio output device selection.
    * It is not yet fully implemented in Firefox.
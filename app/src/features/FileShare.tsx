@@ -2,11 +2,12 @@ import WebTorrent, { Torrent } from 'webtorrent/webtorrent.min'; // 确保使用
 import { store } from '../store/store';
 import Logger from './Logger';
 import { intl } from '../intl';
-import { filesActions } from '../store/slices/files';
+import { filesActions, ServerFile } from '../store/slices/files';
 import createTorrent from 'create-torrent';
 import type { ChatMessage } from '../store/slices/chat';
 import type { RoomClient } from '../RoomClient';
 import { notifyAction } from '../store/slices/notifications';
+import { getServerUrl } from '../urlFactory';
 
 const logger = new Logger('FileShare');
 
@@ -26,6 +27,9 @@ export class FileShare {
         },
       });
 
+    // Only shared through the server
+    if (!this.webTorrent) return;
+
     this.webTorrent.on('error', (error) => {
       logger.error('Filesharing [error:"%o"]', error);
 
@@ -41,6 +45,29 @@ export class FileShare {
     });
   }
 
+  /**
+   * Whether the files are uploaded to the server instead of seeded, when
+   * chosen in the settings or without WebTorrent support.
+   */
+  get serverMode(): boolean {
+    const { room, settings } = store.getState();
+
+    return (
+      Boolean(room.serverFileSharing) &&
+      (!this.torrentSupport || settings.fileSharingMode === 'server')
+    );
+  }
+
+  get canShareFiles(): boolean {
+    return (
+      this.torrentSupport || Boolean(store.getState().room.serverFileSharing)
+    );
+  }
+
+  getDownloadUrl(serverFile: ServerFile) {
+    return getServerUrl(this.client._signalingUrl, serverFile.url);
+  }
+
   shareFiles(data: ChatMessage) {
     store.dispatch(
       notifyAction({
@@ -51,6 +78,12 @@ export class FileShare {
       })
     );
 
+    if (this.serverMode) {
+      this.uploadFiles(data);
+
+      return;
+    }
+
     createTorrent(data.attachment, (err, torrent) => {
       if (err) {
         store.dispatch(
@@ -114,6 +147,92 @@ export class FileShare {
     });
   }
 
+  /**
+   * Uploads the files one by one, then shares their download links.
+   */
+  private async uploadFiles({ attachment, ...data }: ChatMessage) {
+    const { maxFileSize } = store.getState().room.serverFileSharing;
+
+    for (const file of Array.from(attachment)) {
+      if (file.size > maxFileSize) {
+        store.dispatch(
+          notifyAction({
+            type: 'error',
+            text: intl.formatMessage(
+              {
+                id: 'filesharing.fileTooLarge',
+                defaultMessage: 'The file "{name}" is too large',
+              },
+              { name: file.name }
+            ),
+          })
+        );
+
+        continue;
+      }
+
+      try {
+        const { fileId, uploadUrl } = await this.client.sendRequest<{
+          fileId: string;
+          uploadUrl: string;
+        }>('createFileUpload', {
+          name: file.name,
+          size: file.size,
+          type: file.type,
+        });
+
+        // Not parsed as the body of a request by the server
+        const response = await fetch(
+          getServerUrl(this.client._signalingUrl, uploadUrl),
+          {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: file,
+          }
+        );
+
+        if (!response.ok)
+          throw new Error(`upload failed with status ${response.status}`);
+
+        // One entry per file, the entries are told apart by their time
+        const message = { ...data, time: Date.now() };
+
+        const { serverFile } = await this.client.sendRequest<{
+          serverFile: ServerFile;
+        }>('sendFile', { ...message, fileId });
+
+        const sharedFile = {
+          ...message,
+          peerId: this.client._peerId,
+          serverFile,
+        };
+
+        store.dispatch(filesActions.addFile(sharedFile));
+
+        store.dispatch(
+          notifyAction({
+            text: intl.formatMessage({
+              id: 'filesharing.successfulFileShare',
+              defaultMessage: 'File successfully shared',
+            }),
+          })
+        );
+      } catch (error) {
+        logger.error('uploadFiles() [error:"%o"]', error);
+
+        store.dispatch(
+          notifyAction({
+            type: 'error',
+            text: intl.formatMessage({
+              id: 'filesharing.unableToShare',
+              defaultMessage: 'Unable to share file',
+            }),
+          })
+        );
+      }
+    }
+  }
+
   private async sendFile(file: any) {
     logger.debug('sendFile() [magnetUri:"%o"]', file.magnetUri);
 
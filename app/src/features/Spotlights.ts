@@ -10,6 +10,9 @@ export default class Spotlights {
   _currentSpotlights = [];
   _roomClient;
   _hideNoVideoParticipants;
+  // The server picks the spotlights (server side last-N)
+  _serverDriven = false;
+  _lastNRequest = null;
 
   constructor(maxSpotlights, hideNoVideoParticipants, roomClient) {
     this._maxSpotlights = maxSpotlights;
@@ -61,6 +64,7 @@ export default class Spotlights {
     this._activeVideoConsumers = [];
     this._selectedSpotlights = [];
     this._currentSpotlights = [];
+    this._lastNRequest = null;
   }
 
   newPeer(id) {
@@ -173,6 +177,12 @@ export default class Spotlights {
   }
 
   _spotlightsUpdated() {
+    if (this._serverDriven) {
+      this._updateServerLastN();
+
+      return;
+    }
+
     let spotlights;
 
     if (this._hideNoVideoParticipants) {
@@ -206,6 +216,24 @@ export default class Spotlights {
     }
   }
 
+  // Sends our options to the server when they change
+  _updateServerLastN() {
+    const lastN = {
+      size: this._maxSpotlights,
+      pinnedPeerIds: this._selectedSpotlights,
+      videoOnly: Boolean(this._hideNoVideoParticipants),
+    };
+
+    const lastNRequest = JSON.stringify(lastN);
+
+    if (lastNRequest === this._lastNRequest) return;
+
+    logger.debug('_updateServerLastN() | options updated, sending');
+
+    this._lastNRequest = lastNRequest;
+    this._roomClient.updateLastN(lastN);
+  }
+
   _arraysEqual(arr1, arr2) {
     if (arr1.length !== arr2.length) return false;
 
@@ -229,6 +257,14 @@ export default class Spotlights {
       this._spotlightsUpdated();
   }
 
+  get serverDriven() {
+    return this._serverDriven;
+  }
+
+  set serverDriven(serverDriven) {
+    this._serverDriven = serverDriven;
+  }
+
   get maxSpotlights() {
     return this._maxSpotlights;
   }
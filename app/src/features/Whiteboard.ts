@@ -0,0 +1,209 @@
+import type * as MediasoupClient from 'mediasoup-client';
+import { store } from '../store/store';
+import Logger from './Logger';
+import type { RoomClient } from '../RoomClient';
+import {
+  whiteboardActions,
+  WhiteboardStroke,
+} from '../store/slices/whiteboard';
+
+const logger = new Logger('Whiteboard');
+
+// Label of the data producers and consumers of the whiteboard.
+const WHITEBOARD_LABEL = 'whiteboard';
+
+// Size of the board on the server, scaled to the view.
+export const BOARD_WIDTH = 1600;
+export const BOARD_HEIGHT = 900;
+
+// Operation of the op-log, numbered by the server.
+type WhiteboardOp = { seq: number; peerId: string } & (
+  | ({ type: 'stroke' } & WhiteboardStroke)
+  | { type: 'remove'; id: string }
+  | { type: 'clear' }
+);
+
+/**
+ * Shared whiteboard over the mediasoup data channels.
+ *
+ * Our operations go to the server over a data producer, the server sends
+ * the operations of everyone, ours included, over a data consumer. The
+ * board is loaded from a snapshot, the operations received meanwhile are
+ * applied after it.
+ */
+export class Whiteboard {
+  _dataProducer: MediasoupClient.types.DataProducer = null;
+
+  _dataConsumer: MediasoupClient.types.DataConsumer = null;
+
+  // Number of the last applied operation.
+  _seq = 0;
+
+  // Operations received while loading the snapshot.
+  _pendingOps: WhiteboardOp[] = null;
+
+  constructor(public client: RoomClient) {}
+
+  /**
+   * Whether our strokes can be sent, not in the audience of a webinar.
+   */
+  get canDraw() {
+    return Boolean(
+      this._dataProducer && this._dataProducer.readyState === 'open'
+    );
+  }
+
+  /**
+   * Consumes the operations and loads the current board, then produces
+   * ours. Called again when the transports are recreated.
+   */
+  async start() {
+    logger.debug('start()');
+
+    this.close();
+
+    try {
+      this._pendingOps = [];
+
+      const { id, dataProducerId, sctpStreamParameters, label, protocol } =
+        await this.client.sendRequest<MediasoupClient.types.DataConsumerOptions>(
+          'consumeData',
+          {
+            transportId: this.client._recvTransport.id,
+            label: WHITEBOARD_LABEL,
+          }
+        );
+
+      this._dataConsumer = await this.client._recvTransport.consumeData({
+        id,
+        dataProducerId,
+        sctpStreamParameters,
+        label,
+        protocol,
+      });
+
+      this._dataConsumer.on('message', (message) =>
+        this._handleMessage(message)
+      );
+
+      const { seq, strokes, locked } = await this.client.sendRequest<{
+        seq: number;
+        strokes: WhiteboardStroke[];
+        locked: boolean;
+      }>('getWhiteboard');
+
+      this._seq = seq;
+
+      store.dispatch(whiteboardActions.setWhiteboard({ strokes, locked }));
+
+      const pendingOps = this._pendingOps;
+
+      this._pendingOps = null;
+
+      for (const op of pendingOps) this._apply(op);
+
+      await this.produce();
+    } catch (error) {
+      logger.error('start() [error:"%o"]', error);
+    }
+  }
+
+  /**
+   * Produces our operations, once there is a send transport.
+   */
+  async produce() {
+    const sendTransport = this.client._sendTransport;
+
+    if (!sendTransport || this._dataProducer) return;
+
+    try {
+      this._dataProducer = await sendTransport.produceData({
+        ordered: true,
+        label: WHITEBOARD_LABEL,
+      });
+
+      this._dataProducer.on('transportclose', () => {
+        this._dataProducer = null;
+      });
+    } catch (error) {
+      logger.error('produce() [error:"%o"]', error);
+    }
+  }
+
+  close() {
+    if (this._dataProducer) this._dataProducer.close();
+
+    if (this._dataConsumer) this._dataConsumer.close();
+
+    this._dataProducer = null;
+    this._dataConsumer = null;
+    this._pendingOps = null;
+  }
+
+  draw(stroke: Omit<WhiteboardStroke, 'peerId'>) {
+    if (!this.canDraw) return;
+
+    store.dispatch(
+      whiteboardActions.addStroke({
+        ...stroke,
+        peerId: store.getState().me.id,
+      })
+    );
+
+    this._dataProducer.send(JSON.stringify({ type: 'stroke', ...stroke }));
+  }
+
+  erase(strokeId: string) {
+    if (!this.canDraw) return;
+
+    store.dispatch(whiteboardActions.removeStroke(strokeId));
+
+    this._dataProducer.send(JSON.stringify({ type: 'remove', id: strokeId }));
+  }
+
+  _handleMessage(message: string) {
+    let op: WhiteboardOp;
+
+    try {
+      op = JSON.parse(message);
+    } catch (error) {
+      logger.warn('_handleMessage() | invalid message');
+
+      return;
+    }
+
+    if (this._pendingOps) this._pendingOps.push(op);
+    else this._apply(op);
+  }
+
+  _apply(op: WhiteboardOp) {
+    // Already in the snapshot
+    if (op.seq <= this._seq) return;
+
+    this._seq = op.seq;
+
+    switch (op.type) {
+      case 'stroke': {
+        const { id, peerId, color, width, points } = op;
+
+        store.dispatch(
+          whiteboardActions.addStroke({ id, peerId, color, width, points })
+        );
+
+        break;
+      }
+
+      case 'remove': {
+        store.dispatch(whiteboardActions.removeStroke(op.id));
+
+        break;
+      }
+
+      case 'clear': {
+        store.dispatch(whiteboardActions.clearStrokes());
+
+        break;
+      }
+    }
+  }
+}
@@ -22,6 +22,7 @@ const spotlightsSelector = (state: AppState) => state.room.spotlights;
 const peersSelector = (state: AppState) => state.peers;
 const meSelector = (state: AppState) => state.me;
 const recorderSelect = (state: AppState) => state.recorder;
+const serverRecordingSelect = (state: AppState) => state.room.serverRecording;
 const lobbyPeersSelector = (state: AppState) => state.lobbyPeers;
 const getPeerConsumers = (state: AppState, id: string) =>
   state.peers[id] ? state.peers[id].consumers : null;
@@ -363,8 +364,10 @@ export const makePermissionSelector = (permission: PermissionList) => {
 export const recordingInProgressSelector = createSelector(
   peersValueSelector,
   recorderSelect,
-  (peers, recorder) => {
+  serverRecordingSelect,
+  (peers, recorder, serverRecording) => {
     if (
+      serverRecording ||
       recorder.localRecordingState.status === 'start' ||
       recorder.localRecordingState.status === 'resume' ||
       peers.findIndex(
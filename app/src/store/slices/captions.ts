@@ -0,0 +1,68 @@
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+// Time (ms) a caption stays on screen after its last update.
+const CAPTION_DURATION = 5000;
+
+export interface CaptionType {
+  // 同一句话的临时结果和最终结果 id 相同
+  id: string;
+  peerId: string;
+  displayName: string;
+  text: string;
+  final: boolean;
+  updatedAt: number;
+}
+
+export interface CaptionsState {
+  captions: CaptionType[];
+}
+
+const initialState: CaptionsState = {
+  captions: [],
+};
+
+const captionsSlice = createSlice({
+  name: 'captions',
+  initialState,
+  reducers: {
+    upsertCaption(state, action: PayloadAction<CaptionType>) {
+      const caption = action.payload;
+      const index = state.captions.findIndex(({ id }) => id === caption.id);
+
+      if (index === -1) state.captions.push(caption);
+      else state.captions[index] = caption;
+    },
+    /**
+     * 移除字幕, 之后又更新过的不移除
+     */
+    removeCaption(
+      state,
+      action: PayloadAction<Pick<CaptionType, 'id' | 'updatedAt'>>
+    ) {
+      const { id, updatedAt } = action.payload;
+
+      state.captions = state.captions.filter(
+        (caption) => caption.id !== id || caption.updatedAt !== updatedAt
+      );
+    },
+  },
+});
+
+export const captionsActions = captionsSlice.actions;
+export const captionsReducer = captionsSlice.reducer;
+
+/**
+ * 显示服务端识别出的实时字幕, 不再更新后数秒消失
+ */
+export const captionAction = createAsyncThunk(
+  'captions/caption',
+  (caption: Omit<CaptionType, 'updatedAt'>, { dispatch }) => {
+    const updatedAt = Date.now();
+
+    dispatch(captionsActions.upsertCaption({ ...caption, updatedAt }));
+
+    setTimeout(() => {
+      dispatch(captionsActions.removeCaption({ id: caption.id, updatedAt }));
+    }, CAPTION_DURATION);
+  }
+);
@@ -1,6 +1,8 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
 export interface ChatMessage {
+  // 服务器分配的 id, 发送中的消息没有 id
+  id?: string;
   type: 'message' | 'file';
   time: number;
   sender: 'response' | 'client';
@@ -10,6 +12,13 @@ export interface ChatMessage {
   picture: string;
   text: string;
   attachment?: File[];
+  // 私聊的会话, 公开消息为空
+  conversation?: string;
+  // 回复的消息 id
+  replyTo?: string | null;
+  editedAt?: number;
+  // 表情回应, 按表情记录回应者的 id
+  reactions?: Record<string, string[]>;
 }
 
 export interface ChatState {
@@ -18,6 +27,14 @@ export interface ChatState {
   messages: ChatMessage[];
   count: number;
   countUnread: number;
+  /**
+   * 当前私聊的会话, 即对方 id 排序后以逗号连接, 公开聊天为 null
+   */
+  conversation: string | null;
+  /**
+   * 正在回复的消息 id
+   */
+  replyTo: string | null;
 }
 
 const initialState: ChatState = {
@@ -26,6 +43,8 @@ const initialState: ChatState = {
   messages: [],
   count: 0,
   countUnread: 0,
+  conversation: null,
+  replyTo: null,
 };
 
 const chatSlice = createSlice({
@@ -56,6 +75,75 @@ const chatSlice = createSlice({
       state.count = 0;
       state.countUnread = 0;
     },
+    setConversation: (state, action: PayloadAction<string | null>) => {
+      state.conversation = action.payload;
+      state.replyTo = null;
+    },
+    setReplyTo: (state, action: PayloadAction<string | null>) => {
+      state.replyTo = action.payload;
+    },
+    /**
+     * 服务器确认发送后设置消息 id
+     */
+    setMessageId: (
+      state,
+      action: PayloadAction<{ time: number; id: string }>
+    ) => {
+      const { time, id } = action.payload;
+      const message = state.messages.find(
+        (message) => !message.id && message.time === time
+      );
+
+      if (message) message.id = id;
+    },
+    editMessage: (
+      state,
+      action: PayloadAction<{ id: string; text: string; editedAt: number }>
+    ) => {
+      const { id, text, editedAt } = action.payload;
+      const message = state.messages.find((message) => message.id === id);
+
+      if (message) {
+        message.text = text;
+        message.editedAt = editedAt;
+      }
+    },
+    deleteMessage: (state, action: PayloadAction<string>) => {
+      const index = state.messages.findIndex(
+        (message) => message.id === action.payload
+      );
+
+      if (index === -1) return;
+
+      if (!state.messages[index].isRead) state.countUnread--;
+
+      state.messages.splice(index, 1);
+      state.count--;
+
+      if (state.replyTo === action.payload) state.replyTo = null;
+    },
+    setReaction: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        emoji: string;
+        peerId: string;
+        reacted: boolean;
+      }>
+    ) => {
+      const { id, emoji, peerId, reacted } = action.payload;
+      const message = state.messages.find((message) => message.id === id);
+
+      if (!message) return;
+
+      const reactions = message.reactions || (message.reactions = {});
+      const peerIds = (reactions[emoji] || []).filter((id) => id !== peerId);
+
+      if (reacted) peerIds.push(peerId);
+
+      if (peerIds.length > 0) reactions[emoji] = peerIds;
+      else delete reactions[emoji];
+    },
     sortChat: (state, action: PayloadAction<'asc' | 'desc'>) => {
       state.order = action.payload;
     },
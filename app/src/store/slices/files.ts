@@ -1,12 +1,33 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
+/**
+ * 上传到服务端共享的文件
+ */
+export interface ServerFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  /**
+   * 下载地址, 相对于服务端
+   */
+  url: string;
+}
+
 export interface FileInfo {
   sender: 'client' | 'response';
   active: boolean;
   progress: number;
   files: unknown;
   attachment?: unknown;
-  magnetUri: string;
+  /**
+   * 通过 WebTorrent 共享
+   */
+  magnetUri?: string;
+  /**
+   * 通过服务端共享
+   */
+  serverFile?: ServerFile;
   timeout?: boolean;
 }
 
@@ -2,6 +2,10 @@ import { CombinedState, combineReducers, Reducer } from '@reduxjs/toolkit';
 import { intlReducer } from '../../lib/react-intl-redux/index';
 import { meReducer } from './me';
 import { chatReducer } from './chat';
+import { pollsReducer } from './polls';
+import { reactionsReducer } from './reactions';
+import { whiteboardReducer } from './whiteboard';
+import { captionsReducer } from './captions';
 import { peersReducer } from './peers';
 import { filesReducer } from './files';
 import { peerVolumesReducer } from './peerVolumes';
@@ -29,6 +33,10 @@ export const rootReducer = combineReducers({
   notifications: notificationsReducer,
   toolarea: toolareaReducer,
   chat: chatReducer,
+  polls: pollsReducer,
+  reactions: reactionsReducer,
+  whiteboard: whiteboardReducer,
+  captions: captionsReducer,
   files: filesReducer,
   recorder: recorderReducer,
   settings: settingsReducer,
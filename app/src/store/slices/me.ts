@@ -100,10 +100,7 @@ const meSlice = createSlice({
         canShareFiles?: boolean;
       }>
     ) => {
-      state = {
-        ...state,
-        ...action.payload,
-      };
+      Object.assign(state, action.payload);
     },
     setDevices: (state, action: PayloadAction<MediaDeviceInfo[]>) => {
       state.devices = action.payload;
@@ -16,6 +16,8 @@ interface PeerInfo extends Peer {
   stopPeerAudioInProgress?: boolean;
   stopPeerVideoInProgress?: boolean;
   stopPeerScreenSharingInProgress?: boolean;
+  // 外部推流源 (编码器, OBS, FFmpeg), 没有客户端
+  ingest?: boolean;
 }
 
 export interface PeersState {
@@ -0,0 +1,72 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export interface PollInfo {
+  id: string;
+  question: string;
+  options: string[];
+  // 是否多选
+  multiple: boolean;
+  // 匿名投票时 voters 为 null
+  anonymous: boolean;
+  createdAt: number;
+  // 自动结束的时间, 不限时为 null
+  endsAt: number | null;
+  closed: boolean;
+  voterCount: number;
+  // 每个选项的票数
+  counts: number[];
+  // 每个选项的投票人名称
+  voters: string[][] | null;
+  // 自己选择的选项
+  myChoices: number[];
+}
+
+export interface PollsState {
+  polls: PollInfo[];
+}
+
+const initialState: PollsState = {
+  polls: [],
+};
+
+const pollsSlice = createSlice({
+  name: 'polls',
+  initialState,
+  reducers: {
+    setPolls: (state, action: PayloadAction<PollInfo[]>) => {
+      state.polls = action.payload;
+    },
+    addPoll: (state, action: PayloadAction<PollInfo>) => {
+      state.polls.push(action.payload);
+    },
+    /**
+     * 更新投票结果, 保留自己的选择
+     */
+    updatePoll: (state, action: PayloadAction<Omit<PollInfo, 'myChoices'>>) => {
+      const index = state.polls.findIndex(
+        (poll) => poll.id === action.payload.id
+      );
+
+      if (index !== -1)
+        state.polls[index] = {
+          ...action.payload,
+          myChoices: state.polls[index].myChoices,
+        };
+    },
+    setMyChoices: (
+      state,
+      action: PayloadAction<{ pollId: string; choices: number[] }>
+    ) => {
+      const { pollId, choices } = action.payload;
+      const poll = state.polls.find((poll) => poll.id === pollId);
+
+      if (poll) poll.myChoices = choices;
+    },
+    removePoll: (state, action: PayloadAction<string>) => {
+      state.polls = state.polls.filter((poll) => poll.id !== action.payload);
+    },
+  },
+});
+
+export const pollsActions = pollsSlice.actions;
+export const pollsReducer = pollsSlice.reducer;
@@ -0,0 +1,92 @@
+import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { generateRandomString } from '../../utils';
+
+/**
+ * 可以发送的表情反应, 与服务端一致
+ */
+export const REACTIONS = ['👍', '👏', '😂', '❤️', '😮', '🎉'];
+
+// Time (ms) a reaction floats over the tile.
+const REACTION_DURATION = 4000;
+
+export interface ReactionType {
+  id: string;
+  peerId: string;
+  reaction: string;
+}
+
+export interface ReactionBurstType {
+  id: string;
+  // Count by reaction
+  reactions: Record<string, number>;
+}
+
+export interface ReactionsState {
+  reactions: ReactionType[];
+  bursts: ReactionBurstType[];
+}
+
+const initialState: ReactionsState = {
+  reactions: [],
+  bursts: [],
+};
+
+const reactionsSlice = createSlice({
+  name: 'reactions',
+  initialState,
+  reducers: {
+    addReaction(state, action: PayloadAction<ReactionType>) {
+      state.reactions.push(action.payload);
+    },
+    removeReaction(state, action: PayloadAction<string>) {
+      const reactionId = action.payload;
+
+      state.reactions = state.reactions.filter(
+        (reaction) => reaction.id !== reactionId
+      );
+    },
+    addBurst(state, action: PayloadAction<ReactionBurstType>) {
+      state.bursts.push(action.payload);
+    },
+    removeBurst(state, action: PayloadAction<string>) {
+      const burstId = action.payload;
+
+      state.bursts = state.bursts.filter((burst) => burst.id !== burstId);
+    },
+  },
+});
+
+export const reactionsActions = reactionsSlice.actions;
+export const reactionsReducer = reactionsSlice.reducer;
+
+/**
+ * 在成员画面上显示一个表情反应, 数秒后消失
+ */
+export const reactAction = createAsyncThunk(
+  'reactions/react',
+  (detail: Omit<ReactionType, 'id'>, { dispatch }) => {
+    const id = generateRandomString(6).toLowerCase();
+
+    dispatch(reactionsActions.addReaction({ id, ...detail }));
+
+    setTimeout(() => {
+      dispatch(reactionsActions.removeReaction(id));
+    }, REACTION_DURATION);
+  }
+);
+
+/**
+ * 显示大型房间中聚合后的表情反应
+ */
+export const reactionBurstAction = createAsyncThunk(
+  'reactions/burst',
+  (reactions: ReactionBurstType['reactions'], { dispatch }) => {
+    const id = generateRandomString(6).toLowerCase();
+
+    dispatch(reactionsActions.addBurst({ id, reactions }));
+
+    setTimeout(() => {
+      dispatch(reactionsActions.removeBurst(id));
+    }, REACTION_DURATION);
+  }
+);
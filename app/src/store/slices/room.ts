@@ -5,10 +5,57 @@ import { generateRandomString } from '../../utils';
 
 export type ViewLayoutType = 'auto' | 'democratic' | 'filmstrip';
 
-export type CollaborationInfo = {
-  tabId: string; // 长度为8的随机字符串
-  type: 'excalidraw';
-  url: string;
+export type CollaborationInfo =
+  | {
+      tabId: string; // 长度为8的随机字符串
+      type: 'excalidraw';
+      url: string;
+    }
+  | {
+      tabId: string;
+      type: 'whiteboard';
+    };
+
+export type BreakoutRoomInfo = {
+  id: string;
+  name: string;
+  peers: {
+    id: string;
+    displayName: string;
+  }[];
+};
+
+export type LiveStreamOutput = 'rtmp' | 'hls';
+
+export type LiveStreamInfo = {
+  output: LiveStreamOutput;
+  startedAt: number;
+  // 相对服务端的 HLS 播放地址, RTMP 直播时为 null
+  hlsUrl: string | null;
+};
+
+export type WebinarState = {
+  // 自己是否为观众(只能收看)
+  audience: boolean;
+  audienceCount: number;
+  // 被主持人邀请上台的观众
+  speakers: string[];
+  // 举手的观众, 仅主持人可见
+  raisedHands: {
+    id: string;
+    displayName: string;
+    picture?: string;
+    raisedHandTimestamp: number;
+  }[];
+};
+
+export type UserRole = {
+  id: number;
+  label: string;
+  level: number;
+  promotable: boolean;
+  // 按语言的显示名称, 如 { en: 'Interpreter', zh: '翻译' }
+  displayNames?: Record<string, string>;
 };
 
 export interface RoomState {
@@ -36,6 +83,7 @@ export interface RoomState {
   extraVideoOpen: boolean;
   hideSelfView: boolean;
   rolesManagerOpen: boolean;
+  permissionsManagerOpen: boolean;
   helpOpen: boolean;
   aboutOpen: boolean;
   leaveOpen: boolean;
@@ -49,16 +97,54 @@ export interface RoomState {
   closeMeetingInProgress: boolean;
   clearChatInProgress: boolean;
   clearFileSharingInProgress: boolean;
+  /**
+   * 服务端文件共享的限制, 未开启时为 null
+   */
+  serverFileSharing: {
+    maxFileSize: number;
+    allowedTypes: string[];
+  } | null;
+  /**
+   * 服务端录制
+   */
+  serverRecordingEnabled: boolean;
+  serverRecording: boolean;
+  serverRecordingInProgress: boolean;
+  /**
+   * 直播, 服务端可用的输出方式和进行中的直播
+   */
+  liveStreamOutputs: LiveStreamOutput[];
+  liveStream: LiveStreamInfo | null;
+  liveStreamInProgress: boolean;
+  /**
+   * 服务端是否开启了实时字幕
+   */
+  captions: boolean;
+  /**
+   * 预约会议, 会议开始前在等候室中显示
+   */
+  scheduledMeeting: {
+    title: string;
+    startAt: number;
+  } | null;
+  /**
+   * 分组讨论
+   */
+  breakoutRooms: BreakoutRoomInfo[];
+  // 所在分组的主房间, 不在分组中时为 null
+  parentRoomId: string | null;
+  breakoutName: string;
+  breakoutInProgress: boolean;
+  /**
+   * 服务器维护(drain)时房间的关闭时间, 不在维护时为 null
+   */
+  drainDeadline: number | null;
+  /**
+   * 网络研讨会状态, 不是研讨会时为 null
+   */
+  webinar: WebinarState | null;
   roomPermissions: unknown;
-  userRoles: Map<
-    number,
-    {
-      id: number;
-      label: string;
-      level: number;
-      promotable: boolean;
-    }
-  >;
+  userRoles: Map<number, UserRole>;
   allowWhenRoleMissing: string[];
   /**
    * 多人协同
@@ -90,6 +176,7 @@ const initialState: RoomState = {
   extraVideoOpen: false,
   hideSelfView: false,
   rolesManagerOpen: false,
+  permissionsManagerOpen: false,
   helpOpen: false,
   aboutOpen: false,
   leaveOpen: false,
@@ -103,6 +190,21 @@ const initialState: RoomState = {
   closeMeetingInProgress: false,
   clearChatInProgress: false,
   clearFileSharingInProgress: false,
+  serverFileSharing: null,
+  serverRecordingEnabled: false,
+  serverRecording: false,
+  serverRecordingInProgress: false,
+  liveStreamOutputs: [],
+  liveStream: null,
+  liveStreamInProgress: false,
+  captions: false,
+  scheduledMeeting: null,
+  breakoutRooms: [],
+  parentRoomId: null,
+  breakoutName: '',
+  breakoutInProgress: false,
+  drainDeadline: null,
+  webinar: null,
   roomPermissions: null,
   userRoles: null,
   allowWhenRoleMissing: null,
@@ -198,6 +300,17 @@ const roomSlice = createSlice({
         url: action.payload.url,
       });
     },
+    /**
+     * 固定房间的共享白板, 每个房间只有一个
+     */
+    openWhiteboard(state) {
+      if (!state.collaboration.some(({ type }) => type === 'whiteboard')) {
+        state.collaboration.push({
+          tabId: generateRandomString(8),
+          type: 'whiteboard',
+        });
+      }
+    },
     /**
      * 移除一个共享
      */
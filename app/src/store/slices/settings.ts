@@ -36,6 +36,7 @@ export interface SettingsState {
   notificationSounds: boolean;
   mirrorOwnVideo: boolean;
   hideNoVideoParticipants: boolean;
+  showCaptions: boolean;
   buttonControlBar: boolean;
   drawerOverlayed: boolean;
   aspectRatio: number;
@@ -60,6 +61,10 @@ export interface SettingsState {
    * 开启虚拟形象
    */
   virtualAvatarEnabled: boolean;
+  /**
+   * 文件共享方式, 服务端开启文件共享时可以上传到服务端
+   */
+  fileSharingMode: 'webtorrent' | 'server';
 }
 
 const initialState: SettingsState = {
@@ -87,6 +92,7 @@ const initialState: SettingsState = {
   notificationSounds: true,
   mirrorOwnVideo: true,
   hideNoVideoParticipants: false,
+  showCaptions: true,
   buttonControlBar: config.buttonControlBar,
   drawerOverlayed: config.drawerOverlayed,
   aspectRatio: config.aspectRatio,
@@ -108,6 +114,7 @@ const initialState: SettingsState = {
   virtualBackgroundEnabled: false,
   virtualBackgroundUrl: 'blur',
   virtualAvatarEnabled: false,
+  fileSharingMode: config.fileSharingMode,
 };
 
 const settingsSlice = createSlice({
@@ -4,7 +4,7 @@ import { filesActions } from './files';
 
 export interface ToolareaState {
   toolAreaOpen: boolean;
-  currentToolTab: 'chat' | 'users';
+  currentToolTab: 'chat' | 'users' | 'polls' | 'breakout';
   unreadMessages: number;
   unreadFiles: number;
 }
@@ -0,0 +1,60 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+export interface WhiteboardStroke {
+  id: string;
+  peerId: string;
+  color: string;
+  width: number;
+  /**
+   * 画板上的坐标 [x1, y1, x2, y2, ...]
+   */
+  points: number[];
+}
+
+export interface WhiteboardState {
+  strokes: WhiteboardStroke[];
+  /**
+   * 锁定后只有主持人可以绘制
+   */
+  locked: boolean;
+}
+
+const initialState: WhiteboardState = {
+  strokes: [],
+  locked: false,
+};
+
+const whiteboardSlice = createSlice({
+  name: 'whiteboard',
+  initialState,
+  reducers: {
+    setWhiteboard(
+      state,
+      action: PayloadAction<{ strokes: WhiteboardStroke[]; locked: boolean }>
+    ) {
+      state.strokes = action.payload.strokes;
+      state.locked = action.payload.locked;
+    },
+    addStroke(state, action: PayloadAction<WhiteboardStroke>) {
+      const stroke = action.payload;
+
+      // Our own strokes come back from the server
+      if (!state.strokes.some(({ id }) => id === stroke.id))
+        state.strokes.push(stroke);
+    },
+    removeStroke(state, action: PayloadAction<string>) {
+      const strokeId = action.payload;
+
+      state.strokes = state.strokes.filter(({ id }) => id !== strokeId);
+    },
+    clearStrokes(state) {
+      state.strokes = [];
+    },
+    setLocked(state, action: PayloadAction<boolean>) {
+      state.locked = action.payload;
+    },
+  },
+});
+
+export const whiteboardActions = whiteboardSlice.actions;
+export const whiteboardReducer = whiteboardSlice.reducer;
@@ -14,8 +14,31 @@ export function getHost() {
   return `${hostname}:${port}`;
 }
 
-export function getSignalingUrl(peerId, roomId) {
-  const url = `wss://${getHost()}/?peerId=${peerId}&roomId=${roomId}`;
+/**
+ * 服务端的 HTTP 地址, 与信令在同一节点上
+ *
+ * @param path 服务端返回的相对地址
+ */
+export function getServerUrl(signalingUrl: string, path: string) {
+  return new URL(path, signalingUrl.replace(/^ws/, 'http')).toString();
+}
+
+/**
+ * @param nodeUrl 集群模式下房间所在节点的地址
+ * @param joinToken 嵌入方签发的加入令牌 (JWT)
+ */
+export function getSignalingUrl(
+  peerId,
+  roomId,
+  nodeUrl?: string,
+  joinToken?: string
+) {
+  const base = nodeUrl ? nodeUrl.replace(/\/+$/, '') : `wss://${getHost()}`;
+  let url = `${base}/?peerId=${peerId}&roomId=${roomId}`;
+
+  if (joinToken) {
+    url += `&joinToken=${encodeURIComponent(joinToken)}`;
+  }
 
   return url;
 }
@@ -1,3 +1,5 @@
+import type { UserRole } from './store/slices/room';
+
 /**
  * Create a function which will call the callback function
  * after the given amount of milliseconds has passed since
@@ -91,3 +93,18 @@ export function generateRandomString(
 export function isDev(): boolean {
   return !!import.meta.env.DEV;
 }
+
+/**
+ * 角色的显示名称, 优先使用服务端配置的当前语言名称
+ */
+export function getRoleDisplayName(role: UserRole, locale: string): string {
+  const { displayNames } = role;
+
+  if (displayNames) {
+    return (
+      displayNames[locale] || displayNames[locale.split('-')[0]] || role.label
+    );
+  }
+
+  return role.label;
+}
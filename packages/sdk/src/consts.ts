@@ -63,4 +63,8 @@ export enum PermissionList {
   MODERATE_ROOM = 'MODERATE_ROOM',
   // The role(s) have permission to start room recording localy
   LOCAL_RECORD_ROOM = 'LOCAL_RECORD_ROOM',
+  // The role(s) have permission to record room on the server
+  SERVER_RECORD_ROOM = 'SERVER_RECORD_ROOM',
+  // The role(s) have permission to live stream room from the server
+  SERVER_LIVE_STREAM = 'SERVER_LIVE_STREAM',
 }
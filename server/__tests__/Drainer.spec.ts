@@ -0,0 +1,99 @@
+import { Drainer } from '../lib/drain/Drainer';
+import { config } from '../lib/config/config';
+
+let rooms: Map<string, any>;
+let drainer: Drainer;
+let drained: jest.Mock;
+
+function flush() {
+  return new Promise((resolve) =>
+    jest.requireActual('timers').setImmediate(resolve)
+  );
+}
+
+function createRoom(
+  id: string,
+  { empty = false, cleanup = Promise.resolve() }
+) {
+  const room = {
+    id,
+    empty,
+    setDraining: jest.fn(),
+    checkEmpty: () => room.empty,
+    lobby: { checkEmpty: () => true },
+    close: jest.fn(() => {
+      rooms.delete(id);
+
+      return cleanup;
+    }),
+  };
+
+  rooms.set(id, room);
+
+  return room;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+
+  rooms = new Map();
+  drainer = new Drainer({ rooms });
+  drained = jest.fn();
+
+  drainer.on('drained', drained);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('drains once every room is empty', async () => {
+  const room = createRoom('room', {});
+
+  expect(drainer.start(60)).toBe(true);
+  expect(drainer.start(60)).toBe(false);
+  expect(room.setDraining).toHaveBeenCalledWith(drainer.deadline);
+
+  jest.advanceTimersByTime(1000);
+  await flush();
+
+  expect(drained).not.toHaveBeenCalled();
+
+  room.empty = true;
+  jest.advanceTimersByTime(1000);
+  await flush();
+
+  expect(room.close).toHaveBeenCalled();
+  expect(drained).toHaveBeenCalledTimes(1);
+});
+
+test('closes the rooms still open at the deadline', async () => {
+  const room = createRoom('room', {});
+
+  drainer.start(60);
+
+  jest.advanceTimersByTime(59 * 1000);
+  await flush();
+
+  expect(room.close).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(1000);
+  await flush();
+
+  expect(room.close).toHaveBeenCalled();
+  expect(drained).toHaveBeenCalledTimes(1);
+});
+
+test('does not wait forever for the cleanup of the rooms', async () => {
+  createRoom('room', { empty: true, cleanup: new Promise(() => {}) });
+
+  drainer.start(60);
+  await flush();
+
+  expect(drained).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(config.drain.cleanupTimeout * 1000);
+  await flush();
+
+  expect(drained).toHaveBeenCalledTimes(1);
+});
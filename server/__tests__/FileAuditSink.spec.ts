@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileAuditSink } from '../lib/audit/FileAuditSink';
+import { AuditEntry } from '../lib/audit/AuditSink';
+import { config } from '../lib/config/config';
+
+const auditPath = config.audit.path;
+
+let directory: string;
+
+function createEntry(roomId: string, timestamp: number): AuditEntry {
+  return {
+    timestamp,
+    roomId,
+    action: 'moderator:kickPeer',
+    actor: { peerId: 'moderator', authId: null, displayName: 'Moderator' },
+    target: { peerId: 'peer', authId: null, displayName: null },
+    outcome: 'success',
+  };
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  config.audit.path = path.join(directory, 'audit.jsonl');
+});
+
+afterEach(() => {
+  config.audit.path = auditPath;
+
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test('queries the most recent entries of a room', async () => {
+  const sink = new FileAuditSink();
+
+  for (let timestamp = 1; timestamp <= 4; timestamp++)
+    await sink.write(createEntry('room', timestamp));
+
+  await sink.write(createEntry('other', 5));
+
+  const timestamps = async (query) =>
+    (await sink.query('room', query)).map((entry) => entry.timestamp);
+
+  expect(await timestamps({})).toEqual([1, 2, 3, 4]);
+  expect(await timestamps({ since: 2 })).toEqual([2, 3, 4]);
+  expect(await timestamps({ limit: 2 })).toEqual([3, 4]);
+});
+
+test('skips the invalid lines', async () => {
+  fs.writeFileSync(
+    config.audit.path,
+    `${JSON.stringify(createEntry('room', 1))}\n{"timestamp":2,"roo\n`
+  );
+
+  const entries = await new FileAuditSink().query('room', {});
+
+  expect(entries).toEqual([createEntry('room', 1)]);
+});
+
+test('finds no entries without audit log file', async () => {
+  const sink = new FileAuditSink();
+
+  config.audit.path = path.join(directory, 'missing.jsonl');
+
+  expect(await sink.query('room', {})).toEqual([]);
+});
@@ -0,0 +1,78 @@
+import { MemoryHistoryStore } from '../lib/history/MemoryHistoryStore';
+import { config } from '../lib/config/config';
+
+const history = { ...config.history };
+
+let store: MemoryHistoryStore;
+
+beforeEach(() => {
+  Object.assign(config.history, { maxEntries: 3, ttl: 60 });
+
+  store = new MemoryHistoryStore();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+
+  Object.assign(config.history, history);
+});
+
+test('keeps the last entries of each room and type', async () => {
+  for (const entry of [1, 2, 3, 4]) await store.append('room', 'chat', entry);
+
+  await store.append('room', 'file', 5);
+  await store.append('other', 'chat', 6);
+
+  expect(await store.load('room', 'chat')).toEqual([2, 3, 4]);
+  expect(await store.load('room', 'file')).toEqual([5]);
+  expect(await store.load('other', 'chat')).toEqual([6]);
+});
+
+test('replaces and clears the entries', async () => {
+  await store.append('room', 'chat', 1);
+  await store.replace('room', 'chat', [2, 3, 4, 5]);
+
+  expect(await store.load('room', 'chat')).toEqual([3, 4, 5]);
+
+  await store.clear('room', 'chat');
+
+  expect(await store.load('room', 'chat')).toEqual([]);
+});
+
+test('returns a copy of the entries', async () => {
+  await store.append('room', 'chat', 1);
+
+  (await store.load('room', 'chat')).push(2);
+
+  expect(await store.load('room', 'chat')).toEqual([1]);
+});
+
+test('updates an entry by index', async () => {
+  await store.replace('room', 'chat', [1, 2, 3]);
+
+  await store.update('room', 'chat', 0, 'a');
+  await store.update('room', 'chat', -1, 'c');
+  await store.update('room', 'chat', 3, 'x');
+  await store.update('room', 'chat', -4, 'x');
+
+  expect(await store.load('room', 'chat')).toEqual(['a', 2, 'c']);
+});
+
+test('forgets the entries after the ttl', async () => {
+  const now = Date.now();
+
+  await store.append('room', 'chat', 1);
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 59000);
+
+  // Changes extend the ttl
+  await store.append('room', 'chat', 2);
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 118000);
+
+  expect(await store.load('room', 'chat')).toEqual([1, 2]);
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+
+  expect(await store.load('room', 'chat')).toEqual([]);
+});
@@ -0,0 +1,84 @@
+import { MeetingScheduler } from '../lib/schedule/MeetingScheduler';
+import { config } from '../lib/config/config';
+
+const meetings = config.schedule.meetings;
+
+afterEach(() => {
+  config.schedule.meetings = meetings;
+});
+
+const meeting = {
+  roomId: 'room',
+  title: 'Standup',
+  startAt: '2030-01-01T10:00:00Z',
+  endAt: '2030-01-01T10:15:00Z',
+};
+
+test('schedules a meeting with ISO dates or timestamps', () => {
+  const scheduler = new MeetingScheduler();
+
+  expect(
+    scheduler.schedule({ ...meeting, hosts: [42], webinar: true })
+  ).toEqual({
+    roomId: 'room',
+    title: 'Standup',
+    startAt: Date.UTC(2030, 0, 1, 10),
+    endAt: Date.UTC(2030, 0, 1, 10, 15),
+    hosts: ['42'],
+    webinar: true,
+  });
+
+  scheduler.schedule({
+    ...meeting,
+    startAt: Date.UTC(2030, 0, 2, 10),
+    endAt: Date.UTC(2030, 0, 2, 11),
+  });
+
+  expect(scheduler.list()).toHaveLength(1);
+  expect(scheduler.get('room').startAt).toBe(Date.UTC(2030, 0, 2, 10));
+});
+
+test.each([
+  ['no room id', { roomId: '' }, '"roomId" must be a string'],
+  ['invalid hosts', { hosts: 'host' }, '"hosts" must be an array'],
+  ['an invalid date', { startAt: 'tomorrow' }, 'invalid date "tomorrow"'],
+  [
+    'an end before the start',
+    { endAt: '2030-01-01T09:00:00Z' },
+    '"endAt" must be after "startAt"',
+  ],
+  [
+    'an empty window',
+    { endAt: '2030-01-01T10:00:00Z' },
+    '"endAt" must be after "startAt"',
+  ],
+])('rejects a meeting with %s', (name, change, message) => {
+  const scheduler = new MeetingScheduler();
+
+  // As received by the admin API
+  const invalidMeeting: any = { ...meeting, ...change };
+
+  expect(() => scheduler.schedule(invalidMeeting)).toThrow(message);
+  expect(scheduler.list()).toEqual([]);
+});
+
+test('unschedules a meeting', () => {
+  const scheduler = new MeetingScheduler();
+
+  scheduler.schedule(meeting);
+
+  expect(scheduler.unschedule('room')).toBe(true);
+  expect(scheduler.unschedule('room')).toBe(false);
+  expect(scheduler.get('room')).toBeUndefined();
+});
+
+test('loads the valid meetings of the config', () => {
+  config.schedule.meetings = [
+    meeting,
+    { ...meeting, roomId: 'invalid', endAt: meeting.startAt },
+  ];
+
+  const scheduler = new MeetingScheduler();
+
+  expect(scheduler.list().map(({ roomId }) => roomId)).toEqual(['room']);
+});
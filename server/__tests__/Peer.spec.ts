@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import { Peer } from '../lib/Peer';
+import { RateLimitedError } from '../lib/helpers/errors';
+import { config } from '../lib/config/config';
+
+const rateLimit = { ...config.rateLimit };
+
+function createPeer() {
+  const socket = Object.assign(new EventEmitter(), { disconnect: jest.fn() });
+
+  jest.spyOn(socket, 'emit');
+
+  return new Peer({ id: 'peer', roomId: 'room', socket });
+}
+
+function exceedRateLimit(peer: Peer) {
+  for (let i = 0; i < 3; i++) {
+    try {
+      peer.checkRateLimit('chatMessage');
+    } catch (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+beforeEach(() => {
+  Object.assign(config.rateLimit, {
+    enabled: true,
+    limits: { chatMessage: { rate: 0.001, burst: 2 } },
+    maxViolations: 1,
+    violationWindow: 60,
+    muteDuration: 30,
+  });
+});
+
+afterEach(() => {
+  Object.assign(config.rateLimit, rateLimit);
+});
+
+test('tells a muted peer how long it is muted', () => {
+  config.rateLimit.action = 'mute';
+
+  const peer = createPeer();
+
+  expect(exceedRateLimit(peer)).toBeInstanceOf(RateLimitedError);
+  expect(peer.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'rateLimitMuted',
+    data: { duration: 30000 },
+  });
+  expect(peer.closed).toBeFalsy();
+});
+
+test('kicks a peer', () => {
+  config.rateLimit.action = 'kick';
+
+  const peer = createPeer();
+
+  expect(exceedRateLimit(peer).action).toBe('kick');
+  expect(peer.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'moderator:kick',
+    data: {},
+  });
+  expect(peer.closed).toBe(true);
+  expect(peer.socket.disconnect).toHaveBeenCalled();
+});
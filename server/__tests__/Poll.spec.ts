@@ -0,0 +1,98 @@
+import { Poll } from '../lib/polls/Poll';
+import { Peer } from '../lib/Peer';
+
+const settings = {
+  question: ' Lunch? ',
+  options: ['Pizza', ' Salad '],
+  multiple: false,
+  anonymous: false,
+  duration: 0,
+};
+
+const alice = { id: 'alice', displayName: 'Alice' } as Peer;
+const bob = { id: 'bob', displayName: 'Bob' } as Peer;
+
+test('trims the question and the options', () => {
+  const poll = new Poll(settings);
+
+  expect(poll.question).toBe('Lunch?');
+  expect(poll.options).toEqual(['Pizza', 'Salad']);
+  expect(poll.endsAt).toBeNull();
+});
+
+test('rejects invalid settings', () => {
+  expect(() => new Poll({ ...settings, question: ' ' })).toThrow(
+    'invalid poll question'
+  );
+  expect(() => new Poll({ ...settings, options: ['Pizza'] })).toThrow(
+    'a poll needs 2 to 10 options'
+  );
+  expect(
+    () => new Poll({ ...settings, options: new Array(11).fill('Pizza') })
+  ).toThrow('a poll needs 2 to 10 options');
+  expect(() => new Poll({ ...settings, options: ['Pizza', ''] })).toThrow(
+    'a poll needs 2 to 10 options'
+  );
+});
+
+test('limits the duration', () => {
+  expect(() => new Poll({ ...settings, duration: 1.5 })).toThrow(
+    'invalid poll duration'
+  );
+  expect(() => new Poll({ ...settings, duration: -1 })).toThrow(
+    'invalid poll duration'
+  );
+  expect(
+    () => new Poll({ ...settings, duration: 7 * 24 * 60 * 60 + 1 })
+  ).toThrow('invalid poll duration');
+
+  const poll = new Poll({ ...settings, duration: 60 });
+
+  expect(poll.endsAt).toBe(poll.createdAt + 60000);
+});
+
+test('counts the votes', () => {
+  const poll = new Poll(settings);
+
+  poll.vote(alice, [0]);
+  poll.vote(bob, [1]);
+  poll.vote(bob, [0]);
+
+  expect(poll.info).toMatchObject({
+    voterCount: 2,
+    counts: [2, 0],
+    voters: [['Alice', 'Bob'], []],
+  });
+  expect(poll.getInfo('bob').myChoices).toEqual([0]);
+  expect(poll.getInfo('carol').myChoices).toEqual([]);
+});
+
+test('withdraws a vote without choice', () => {
+  const poll = new Poll(settings);
+
+  poll.vote(alice, [0]);
+  poll.vote(alice, []);
+
+  expect(poll.info.voterCount).toBe(0);
+});
+
+test('rejects invalid choices', () => {
+  const poll = new Poll(settings);
+
+  expect(() => poll.vote(alice, [2])).toThrow('invalid poll choices');
+  expect(() => poll.vote(alice, [0.5])).toThrow('invalid poll choices');
+  expect(() => poll.vote(alice, [0, 1])).toThrow('single choice poll');
+
+  poll.closed = true;
+
+  expect(() => poll.vote(alice, [0])).toThrow('poll closed');
+});
+
+test('accepts several choices in a multiple choice poll', () => {
+  const poll = new Poll({ ...settings, multiple: true, anonymous: true });
+
+  poll.vote(alice, [0, 1, 1]);
+
+  expect(poll.info).toMatchObject({ counts: [1, 1], voters: null });
+  expect(poll.getInfo('alice').myChoices).toEqual([0, 1]);
+});
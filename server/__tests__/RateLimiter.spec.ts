@@ -0,0 +1,126 @@
+import { RateLimiter } from '../lib/ratelimit/RateLimiter';
+import { RateLimitedError } from '../lib/helpers/errors';
+import { config } from '../lib/config/config';
+
+const rateLimit = { ...config.rateLimit };
+
+let now: number;
+
+beforeEach(() => {
+  now = 1000000;
+
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+  Object.assign(config.rateLimit, {
+    enabled: true,
+    limits: { chatMessage: { rate: 1, burst: 2 } },
+    action: 'none',
+    maxViolations: 3,
+    violationWindow: 60,
+    muteDuration: 30,
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+
+  Object.assign(config.rateLimit, rateLimit);
+});
+
+function consumeError(rateLimiter: RateLimiter, method: string) {
+  try {
+    rateLimiter.consume(method);
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+test('accepts a burst then rejects the requests', () => {
+  const rateLimiter = new RateLimiter();
+
+  rateLimiter.consume('chatMessage');
+  rateLimiter.consume('chatMessage');
+
+  const error = consumeError(rateLimiter, 'chatMessage');
+
+  expect(error).toBeInstanceOf(RateLimitedError);
+  expect(error.method).toBe('chatMessage');
+  expect(error.retryAfter).toBe(1000);
+  expect(error.action).toBeNull();
+});
+
+test('refills the bucket over time', () => {
+  const rateLimiter = new RateLimiter();
+
+  rateLimiter.consume('chatMessage');
+  rateLimiter.consume('chatMessage');
+
+  now += 1000;
+
+  expect(consumeError(rateLimiter, 'chatMessage')).toBeNull();
+  expect(consumeError(rateLimiter, 'chatMessage')).toBeInstanceOf(
+    RateLimitedError
+  );
+});
+
+test('does not limit the methods without limit', () => {
+  const rateLimiter = new RateLimiter();
+
+  for (let i = 0; i < 10; i++) rateLimiter.consume('changeDisplayName');
+});
+
+test('does not limit when disabled', () => {
+  config.rateLimit.enabled = false;
+
+  const rateLimiter = new RateLimiter();
+
+  for (let i = 0; i < 10; i++) rateLimiter.consume('chatMessage');
+});
+
+test('mutes the peer after too many violations', () => {
+  config.rateLimit.action = 'mute';
+
+  const rateLimiter = new RateLimiter();
+
+  rateLimiter.consume('chatMessage');
+  rateLimiter.consume('chatMessage');
+
+  expect(consumeError(rateLimiter, 'chatMessage').action).toBeNull();
+  expect(consumeError(rateLimiter, 'chatMessage').action).toBeNull();
+
+  const error = consumeError(rateLimiter, 'chatMessage');
+
+  expect(error.action).toBe('mute');
+  expect(error.retryAfter).toBe(30000);
+
+  // Refilled, but still muted
+  now += 10000;
+
+  expect(consumeError(rateLimiter, 'chatMessage')).toBeInstanceOf(
+    RateLimitedError
+  );
+
+  now += 20000;
+
+  expect(consumeError(rateLimiter, 'chatMessage')).toBeNull();
+});
+
+test('forgets the violations out of the window', () => {
+  config.rateLimit.action = 'kick';
+
+  const rateLimiter = new RateLimiter();
+
+  rateLimiter.consume('chatMessage');
+  rateLimiter.consume('chatMessage');
+  consumeError(rateLimiter, 'chatMessage');
+  consumeError(rateLimiter, 'chatMessage');
+
+  now += 61000;
+
+  rateLimiter.consume('chatMessage');
+  rateLimiter.consume('chatMessage');
+
+  expect(consumeError(rateLimiter, 'chatMessage').action).toBeNull();
+});
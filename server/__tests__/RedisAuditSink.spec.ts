@@ -0,0 +1,94 @@
+import { RedisAuditSink } from '../lib/audit/RedisAuditSink';
+import { AuditEntry } from '../lib/audit/AuditSink';
+import { config } from '../lib/config/config';
+
+// Callback style client keeping the streams in memory, the ids are the
+// timestamps of the entries.
+function createRedisClient() {
+  const streams = new Map<string, [string, string[]][]>();
+  const client = {
+    streams,
+    expire: jest.fn(),
+    multi() {
+      const commands = [];
+      const multi = {
+        xadd(key: string, ...args) {
+          const fields = args.slice(-2);
+
+          commands.push(() => {
+            const stream = streams.get(key) || [];
+
+            stream.push([`${JSON.parse(fields[1]).timestamp}-0`, fields]);
+            streams.set(key, stream);
+          });
+
+          return multi;
+        },
+        expire(...args) {
+          commands.push(() => client.expire(...args));
+
+          return multi;
+        },
+        exec(callback) {
+          commands.forEach((command) => command());
+          callback(null, []);
+        },
+      };
+
+      return multi;
+    },
+    xrevrange(key: string, end: string, start: number, ...args) {
+      const callback = args.pop();
+      const count = args[0] === 'COUNT' ? args[1] : Infinity;
+
+      callback(
+        null,
+        (streams.get(key) || [])
+          .filter(([id]) => parseInt(id) >= start)
+          .reverse()
+          .slice(0, count)
+      );
+    },
+  };
+
+  return client;
+}
+
+function createEntry(roomId: string, timestamp: number): AuditEntry {
+  return {
+    timestamp,
+    roomId,
+    action: 'lockRoom',
+    actor: { peerId: 'moderator', authId: 'alice', displayName: 'Alice' },
+    target: null,
+    outcome: 'success',
+  };
+}
+
+test('keeps the entries in a stream per room', async () => {
+  const redisClient = createRedisClient();
+  const sink = new RedisAuditSink({ redisClient });
+
+  await sink.write(createEntry('room', 1));
+
+  const key = `${config.audit.redisKeyPrefix}:room`;
+
+  expect(redisClient.streams.get(key)).toHaveLength(1);
+  expect(redisClient.expire).toHaveBeenCalledWith(key, config.audit.ttl);
+});
+
+test('queries the most recent entries of a room, oldest first', async () => {
+  const sink = new RedisAuditSink({ redisClient: createRedisClient() });
+
+  for (let timestamp = 1; timestamp <= 4; timestamp++)
+    await sink.write(createEntry('room', timestamp));
+
+  await sink.write(createEntry('other', 5));
+
+  const timestamps = async (query) =>
+    (await sink.query('room', query)).map((entry) => entry.timestamp);
+
+  expect(await timestamps({})).toEqual([1, 2, 3, 4]);
+  expect(await timestamps({ since: 2 })).toEqual([2, 3, 4]);
+  expect(await timestamps({ limit: 2 })).toEqual([3, 4]);
+});
@@ -0,0 +1,482 @@
+import { EventEmitter } from 'events';
+import { Room } from '../lib/Room';
+import { Peer } from '../lib/Peer';
+import { userRoles } from '../lib/access/roles';
+import { MemoryHistoryStore } from '../lib/history/MemoryHistoryStore';
+import { config } from '../lib/config/config';
+
+const lastN = { ...config.lastN };
+const reactions = { ...config.reactions };
+const streaming = { ...config.streaming };
+const ingest = { ...config.ingest };
+
+const rooms: Room[] = [];
+
+function createRoom(roomId = 'room', options = {}) {
+  const room = new Room({
+    roomId,
+    mediasoupRouters: new Map(),
+    audioLevelObservers: new Map(),
+    mediasoupWorkers: new Map(),
+    peers: new Map(),
+    historyStore: new MemoryHistoryStore(),
+    auditSink: null,
+    fileStore: null,
+    sttEngine: null,
+    chatHistory: [],
+    fileHistory: [],
+    createBreakoutRoom: async (breakoutRoomId) => createRoom(breakoutRoomId),
+    ...options,
+  });
+
+  rooms.push(room);
+
+  return room;
+}
+
+function createSocket() {
+  const broadcast = { to: () => broadcast, emit: jest.fn() };
+  const socket = Object.assign(new EventEmitter(), {
+    disconnect: jest.fn(),
+    broadcast,
+  });
+
+  jest.spyOn(socket, 'emit');
+
+  return socket;
+}
+
+function joinPeer(room: Room, id: string) {
+  const peer = new Peer({ id, roomId: room.id, socket: createSocket() });
+
+  peer.joined = true;
+  peer.lastN = { size: 4, pinnedPeerIds: [], videoOnly: false };
+  room._peers[id] = peer;
+
+  return peer;
+}
+
+function createVideoConsumer(peerId: string) {
+  const consumer = {
+    id: `${peerId}-video`,
+    kind: 'video',
+    closed: false,
+    paused: true,
+    appData: { peerId, clientPaused: false },
+    pause: jest.fn(async () => {
+      consumer.paused = true;
+    }),
+    resume: jest.fn(async () => {
+      consumer.paused = false;
+    }),
+  };
+
+  return consumer;
+}
+
+function request(room: Room, peer: Peer, method: string, data = {}) {
+  return new Promise<any>((resolve, reject) =>
+    room
+      ._handleSocketRequest(peer, { method, data }, (error, response) =>
+        error ? reject(error) : resolve(response)
+      )
+      .catch(reject)
+  );
+}
+
+afterEach(async () => {
+  jest.useRealTimers();
+
+  Object.assign(config.lastN, lastN);
+  Object.assign(config.reactions, reactions);
+  Object.assign(config.streaming, streaming);
+  Object.assign(config.ingest, ingest);
+
+  await Promise.all(rooms.splice(0).map((room) => room.close()));
+});
+
+test('creates breakout rooms with unique ids', async () => {
+  const room = createRoom();
+
+  await room.createBreakoutRooms({ count: 2 });
+
+  const breakoutRooms = [...room._breakoutRooms.values()];
+
+  expect(breakoutRooms).toHaveLength(2);
+  expect(breakoutRooms[0].id).not.toBe(breakoutRooms[1].id);
+
+  for (const breakoutRoom of breakoutRooms) {
+    expect(breakoutRoom.id).toMatch(/^room-breakout-/);
+    expect(breakoutRoom.parentRoom).toBe(room);
+  }
+
+  expect(createRoom('room-breakout-1').parentRoom).toBe(null);
+});
+
+test('closes the breakout rooms after at most an hour', async () => {
+  jest.useFakeTimers();
+
+  const room = createRoom();
+
+  await room.createBreakoutRooms({ count: 1 });
+
+  room.closeBreakoutRooms(Number.MAX_SAFE_INTEGER);
+
+  jest.advanceTimersByTime(3600 * 1000 - 1);
+
+  expect(room._breakoutRooms.size).toBe(1);
+
+  jest.advanceTimersByTime(1);
+
+  expect(room._breakoutRooms.size).toBe(0);
+});
+
+test('moves the peers of a dead worker to a router of its replacement', async () => {
+  const audioLevelObject = {
+    audioLevelObserver: new EventEmitter(),
+    peerId: null,
+    volume: -1000,
+  };
+  const worker = {
+    pid: 2,
+    appData: { routers: new Map() },
+    createRouter: jest.fn(async () => {
+      const router = {
+        id: 'router2',
+        closed: false,
+        appData: { producers: new Map() },
+        createAudioLevelObserver: async () =>
+          Object.assign(new EventEmitter(), { close: jest.fn() }),
+        close: jest.fn(),
+      };
+
+      worker.appData.routers.set(router.id, router);
+
+      return router;
+    }),
+  };
+  const socket = createSocket();
+  const peer = new Peer({ id: 'peer', roomId: 'room', socket });
+  const peers = new Map([[peer.id, peer]]);
+  const room = createRoom('room', {
+    mediasoupRouters: new Map([['router1', { id: 'router1', closed: true }]]),
+    audioLevelObservers: new Map([['router1', audioLevelObject]]),
+    mediasoupWorkers: new Map([[worker.pid, worker]]),
+    peers,
+  });
+
+  peer.routerId = 'router1';
+  peer.addTransport('transport', { closed: true });
+  peer.addProducer('producer', { closed: true });
+  room._peers[peer.id] = peer;
+
+  await room.replaceWorker(worker as any);
+
+  expect([...room._mediasoupRouters.keys()]).toEqual(['router2']);
+  expect(peer.routerId).toBe('router2');
+  expect(peer.transports.size).toBe(0);
+  expect(peer.producers.size).toBe(0);
+  expect(socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'recreateTransports',
+    data: {},
+  });
+});
+
+test('forwards the video of the pinned peers then of the active speakers', () => {
+  const room = createRoom();
+  const peer = joinPeer(room, 'peer');
+
+  ['a', 'b', 'c', 'd'].forEach((id) => joinPeer(room, id));
+  room._peers.c.addProducer('video', { kind: 'video', paused: false });
+  room._lastN = ['peer', 'a', 'b', 'c', 'd'];
+  peer.lastN = { size: 3, pinnedPeerIds: ['d', 'gone'], videoOnly: false };
+
+  expect(room._getSpotlights(peer)).toEqual(['d', 'a', 'b']);
+
+  peer.lastN.videoOnly = true;
+
+  expect(room._getSpotlights(peer)).toEqual(['c']);
+});
+
+test('pauses the video consumers out of the last-N', async () => {
+  config.lastN.enabled = true;
+
+  const room = createRoom();
+  const peer = joinPeer(room, 'peer');
+  const consumers = ['a', 'b'].map((id) => {
+    const consumer = createVideoConsumer(id);
+
+    joinPeer(room, id);
+    peer.addConsumer(consumer.id, consumer);
+
+    return consumer;
+  });
+
+  peer.lastN.size = 1;
+  room._lastN = ['a', 'b', 'peer'];
+  room._updateSpotlights();
+
+  expect(peer.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'spotlights',
+    data: { peerIds: ['a'] },
+  });
+  expect(consumers.map((consumer) => consumer.paused)).toEqual([false, true]);
+
+  room._lastN = ['b', 'a', 'peer'];
+  room._updateSpotlights();
+
+  expect(consumers.map((consumer) => consumer.paused)).toEqual([true, false]);
+
+  // Stays paused while its client wants it paused
+  consumers[1].appData.clientPaused = true;
+  await room._applyForwarding(peer, consumers[1]);
+
+  expect(consumers[1].pause).toHaveBeenCalled();
+  expect(consumers[1].paused).toBe(true);
+});
+
+test('moves the promoted and demoted peers of a webinar', () => {
+  jest.useFakeTimers();
+
+  const room = createRoom();
+
+  room.setMeeting({
+    roomId: 'room',
+    title: 'Webinar',
+    startAt: Date.now(),
+    endAt: Date.now() + 3600 * 1000,
+    hosts: [],
+    webinar: true,
+  });
+
+  const presenter = joinPeer(room, 'presenter');
+  const peer = joinPeer(room, 'peer');
+  const producer = { close: jest.fn() };
+
+  presenter.addRole(userRoles.PRESENTER);
+  peer.addProducer('producer', producer);
+  room._updateStage(presenter);
+  room._updateStage(peer);
+
+  expect(room._audience).toEqual(new Set(['peer']));
+  expect(producer.close).toHaveBeenCalled();
+  expect(peer.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'webinar:stage',
+    data: { onStage: false },
+  });
+
+  room._speakers.add('peer');
+  room._updateStage(peer);
+
+  expect(room._audience.size).toBe(0);
+  expect(presenter.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'newPeer',
+    data: peer.peerInfo,
+  });
+
+  jest.advanceTimersByTime(1000);
+
+  expect(presenter.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'webinar:state',
+    data: expect.objectContaining({ audienceCount: 0, speakers: ['peer'] }),
+  });
+});
+
+test('audits the moderator requests', () => {
+  const room = createRoom('room', {
+    auditSink: { write: jest.fn(), query: jest.fn() },
+  });
+  const peer = joinPeer(room, 'moderator');
+
+  expect(
+    room._createAuditEntry(peer, {
+      method: 'moderator:kickPeer',
+      data: { peerId: 'gone' },
+    })
+  ).toMatchObject({
+    roomId: 'room',
+    action: 'moderator:kickPeer',
+    actor: { peerId: 'moderator' },
+    target: { peerId: 'gone', authId: null, displayName: null },
+  });
+  expect(room._createAuditEntry(peer, { method: 'chatMessage' })).toBe(null);
+
+  for (const invalid of [null, {}, { method: 42 }])
+    expect(room._createAuditEntry(peer, invalid)).toBe(null);
+});
+
+test('delivers a private message to its target only', async () => {
+  const room = createRoom();
+  const [alice, bob, carol] = ['alice', 'bob', 'carol'].map((id) =>
+    joinPeer(room, id)
+  );
+
+  await request(room, alice, 'chatMessage', {
+    chatMessage: { type: 'message', text: 'Hi Bob' },
+    toPeerIds: ['bob'],
+  });
+
+  expect(bob.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'chatMessage',
+    data: expect.objectContaining({ peerId: 'alice', toPeerIds: ['bob'] }),
+  });
+  expect(carol.socket.emit).not.toHaveBeenCalled();
+  expect(room._chatHistory).toEqual([]);
+});
+
+test('only lets the chat moderators message a group privately', async () => {
+  const room = createRoom();
+  const alice = joinPeer(room, 'alice');
+
+  joinPeer(room, 'bob');
+  joinPeer(room, 'carol');
+
+  const sendToGroup = () =>
+    request(room, alice, 'chatMessage', {
+      chatMessage: { type: 'message', text: 'Hi all' },
+      toPeerIds: ['bob', 'carol'],
+    });
+
+  await expect(sendToGroup()).rejects.toThrow('peer not authorized');
+
+  alice.addRole(userRoles.MODERATOR);
+
+  await expect(sendToGroup()).resolves.toHaveProperty('id');
+  await expect(
+    request(room, alice, 'chatMessage', {
+      chatMessage: { type: 'message', text: 'Hi' },
+      toPeerIds: ['gone'],
+    })
+  ).rejects.toThrow('peer with id "gone" not found');
+});
+
+test('lets the authors and the chat moderators edit or delete a message', async () => {
+  const room = createRoom();
+  const [alice, bob, moderator] = ['alice', 'bob', 'moderator'].map((id) =>
+    joinPeer(room, id)
+  );
+
+  moderator.addRole(userRoles.MODERATOR);
+
+  const { id } = await request(room, alice, 'chatMessage', {
+    chatMessage: { type: 'message', text: 'Hello' },
+  });
+
+  await expect(
+    request(room, bob, 'editChatMessage', { id, text: 'Bye' })
+  ).rejects.toThrow('peer not authorized');
+  await expect(
+    request(room, alice, 'editChatMessage', { id, text: '' })
+  ).rejects.toThrow('invalid chat message text');
+
+  await request(room, alice, 'editChatMessage', { id, text: 'Hello all' });
+
+  expect(room._chatHistory).toEqual([
+    expect.objectContaining({
+      id,
+      text: 'Hello all',
+      editedAt: expect.any(Number),
+    }),
+  ]);
+  expect(bob.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'chatMessageEdited',
+    data: { id, text: 'Hello all', editedAt: expect.any(Number) },
+  });
+
+  await expect(request(room, bob, 'deleteChatMessage', { id })).rejects.toThrow(
+    'peer not authorized'
+  );
+
+  await request(room, moderator, 'deleteChatMessage', { id });
+
+  expect(room._chatHistory).toEqual([]);
+  expect(alice.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'chatMessageDeleted',
+    data: { id },
+  });
+});
+
+test('aggregates the reactions of large rooms into bursts', async () => {
+  jest.useFakeTimers();
+
+  config.reactions.burstThreshold = 3;
+
+  const room = createRoom();
+  const alice = joinPeer(room, 'alice');
+  const bob = joinPeer(room, 'bob');
+
+  await request(room, alice, 'sendReaction', { reaction: '👍' });
+
+  expect(alice.socket.broadcast.emit).toHaveBeenCalledWith('notification', {
+    method: 'reaction',
+    data: { peerId: 'alice', reaction: '👍' },
+  });
+
+  joinPeer(room, 'carol');
+
+  await request(room, alice, 'sendReaction', { reaction: '👍' });
+  await request(room, bob, 'sendReaction', { reaction: '👍' });
+  await request(room, bob, 'sendReaction', { reaction: '🎉' });
+  await expect(
+    request(room, bob, 'sendReaction', { reaction: 'x' })
+  ).rejects.toThrow('invalid reaction');
+
+  jest.advanceTimersByTime(config.reactions.burstInterval);
+
+  expect(bob.socket.emit).toHaveBeenCalledWith('notification', {
+    method: 'reactionBurst',
+    data: { reactions: { '👍': 2, '🎉': 1 } },
+  });
+  expect(alice.socket.broadcast.emit).toHaveBeenCalledTimes(1);
+});
+
+test('only lets the moderators draw on a locked whiteboard', () => {
+  const room = createRoom();
+  const peer = joinPeer(room, 'peer');
+  const moderator = joinPeer(room, 'moderator');
+
+  moderator.addRole(userRoles.MODERATOR);
+
+  expect(room._canDrawOnWhiteboard(peer)).toBe(true);
+
+  room._whiteboard.locked = true;
+
+  expect(room._canDrawOnWhiteboard(peer)).toBe(false);
+  expect(room._canDrawOnWhiteboard(moderator)).toBe(true);
+});
+
+test('only lets the peers allowed to live stream start a live stream', async () => {
+  config.streaming.enabled = false;
+
+  const room = createRoom();
+  const peer = joinPeer(room, 'peer');
+  const moderator = joinPeer(room, 'moderator');
+
+  moderator.addRole(userRoles.MODERATOR);
+
+  for (const method of [
+    'moderator:startLiveStream',
+    'moderator:stopLiveStream',
+  ])
+    await expect(
+      request(room, peer, method, { output: 'rtmp' })
+    ).rejects.toThrow('peer not authorized');
+
+  await expect(
+    request(room, moderator, 'moderator:startLiveStream', { output: 'rtmp' })
+  ).rejects.toThrow('live stream output not available');
+});
+
+test('limits the ingested sources and only removes them', async () => {
+  config.ingest.maxSources = 0;
+
+  const room = createRoom();
+
+  joinPeer(room, 'peer');
+
+  await expect(room.addIngest({ displayName: 'OBS' })).rejects.toThrow(
+    'too many ingested sources'
+  );
+  expect(room.removeIngest('peer')).toBe(false);
+  expect(room.removeIngest('gone')).toBe(false);
+});
@@ -0,0 +1,235 @@
+import { Readable } from 'stream';
+import { RoomFiles } from '../lib/files/RoomFiles';
+import type { FileStore } from '../lib/files/FileStore';
+import { HttpError } from '../lib/helpers/errors';
+import { config } from '../lib/config/config';
+import { Peer } from '../lib/Peer';
+
+const fileSharing = { ...config.fileSharing };
+
+const alice = { id: 'alice' } as Peer;
+const bob = { id: 'bob' } as Peer;
+
+// Stores the files in memory.
+class MemoryFileStore implements FileStore {
+  files = new Map<string, Buffer>();
+
+  async write(roomId: string, fileId: string, content: Readable) {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of content) chunks.push(chunk);
+
+    this.files.set(`${roomId}/${fileId}`, Buffer.concat(chunks));
+  }
+
+  async read(roomId: string, fileId: string) {
+    return Readable.from([this.files.get(`${roomId}/${fileId}`)]);
+  }
+
+  async delete(roomId: string, fileIds: string[]) {
+    for (const fileId of fileIds) this.files.delete(`${roomId}/${fileId}`);
+  }
+
+  async deleteAll() {
+    this.files.clear();
+  }
+}
+
+let fileStore: MemoryFileStore;
+let roomFiles: RoomFiles;
+
+beforeEach(() => {
+  Object.assign(config.fileSharing, {
+    maxFileSize: 10,
+    maxRoomSize: 15,
+    allowedTypes: [],
+    uploadTimeout: 300,
+  });
+
+  fileStore = new MemoryFileStore();
+  roomFiles = new RoomFiles({ roomId: 'room', fileStore });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+
+  Object.assign(config.fileSharing, fileSharing);
+});
+
+function uploadToken(uploadUrl: string) {
+  return new URL(uploadUrl, 'https://localhost').searchParams.get('token');
+}
+
+async function uploadFile(peer: Peer, content: string) {
+  const { fileId, uploadUrl } = roomFiles.createUpload(peer, {
+    name: 'file.txt',
+    size: content.length,
+    type: 'text/plain',
+  });
+
+  await roomFiles.upload(
+    fileId,
+    uploadToken(uploadUrl),
+    Readable.from([Buffer.from(content)])
+  );
+
+  return fileId;
+}
+
+async function getError(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+test('checks the name, size and type of an upload', () => {
+  const upload = { name: 'file.txt', size: 5, type: 'text/plain' };
+
+  expect(() => roomFiles.createUpload(alice, { ...upload, name: '' })).toThrow(
+    'invalid file name'
+  );
+  expect(() => roomFiles.createUpload(alice, { ...upload, size: -1 })).toThrow(
+    'invalid file size'
+  );
+  expect(() => roomFiles.createUpload(alice, { ...upload, size: 11 })).toThrow(
+    'file too large'
+  );
+
+  config.fileSharing.allowedTypes = ['image/*', 'application/pdf'];
+
+  expect(() => roomFiles.createUpload(alice, upload)).toThrow(
+    'file type not allowed'
+  );
+  expect(() =>
+    roomFiles.createUpload(alice, { ...upload, type: 'image/png' })
+  ).not.toThrow();
+  expect(() =>
+    roomFiles.createUpload(alice, { ...upload, type: 'application/pdf' })
+  ).not.toThrow();
+});
+
+test('limits the total size of the files of the room', () => {
+  const upload = { name: 'file.txt', size: 10 };
+
+  roomFiles.createUpload(alice, upload);
+
+  expect(() => roomFiles.createUpload(bob, upload)).toThrow(
+    'room file quota exceeded'
+  );
+  expect(() =>
+    roomFiles.createUpload(bob, { ...upload, size: 5 })
+  ).not.toThrow();
+});
+
+test('frees the quota of the expired uploads', () => {
+  const now = Date.now();
+
+  roomFiles.createUpload(alice, { name: 'file.txt', size: 10 });
+
+  jest.spyOn(Date, 'now').mockReturnValue(now + 301000);
+
+  expect(() =>
+    roomFiles.createUpload(bob, { name: 'file.txt', size: 10 })
+  ).not.toThrow();
+});
+
+test('uploads, shares and downloads a file', async () => {
+  const fileId = await uploadFile(alice, 'hello');
+
+  expect(() => roomFiles.share(bob, fileId)).toThrow('file not uploaded');
+
+  const serverFile = roomFiles.share(alice, fileId);
+
+  expect(serverFile).toMatchObject({
+    id: fileId,
+    name: 'file.txt',
+    size: 5,
+    type: 'text/plain',
+  });
+
+  const token = uploadToken(serverFile.url);
+  const { content } = await roomFiles.download(fileId, token);
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of content) chunks.push(chunk);
+
+  expect(Buffer.concat(chunks).toString()).toBe('hello');
+
+  const error = await getError(roomFiles.download(fileId, 'x'.repeat(32)));
+
+  expect(error).toBeInstanceOf(HttpError);
+  expect(error.status).toBe(404);
+});
+
+test('rejects the invalid upload tokens', async () => {
+  const { fileId } = roomFiles.createUpload(alice, {
+    name: 'file.txt',
+    size: 5,
+  });
+
+  for (const token of [undefined, 'short', 'x'.repeat(32)]) {
+    const error = await getError(
+      roomFiles.upload(fileId, token, Readable.from([Buffer.from('hello')]))
+    );
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(403);
+  }
+});
+
+test('rejects a second upload of a file', async () => {
+  const { fileId, uploadUrl } = roomFiles.createUpload(alice, {
+    name: 'file.txt',
+    size: 5,
+  });
+
+  await roomFiles.upload(
+    fileId,
+    uploadToken(uploadUrl),
+    Readable.from([Buffer.from('hello')])
+  );
+
+  const error = await getError(
+    roomFiles.upload(
+      fileId,
+      uploadToken(uploadUrl),
+      Readable.from([Buffer.from('hello')])
+    )
+  );
+
+  expect(error.status).toBe(403);
+});
+
+test('rejects the content of another size than declared', async () => {
+  const { fileId, uploadUrl } = roomFiles.createUpload(alice, {
+    name: 'file.txt',
+    size: 5,
+  });
+  const token = uploadToken(uploadUrl);
+
+  const larger = await getError(
+    roomFiles.upload(fileId, token, Readable.from([Buffer.from('hello!')]))
+  );
+
+  expect(larger.status).toBe(413);
+
+  const smaller = await getError(
+    roomFiles.upload(fileId, token, Readable.from([Buffer.from('hell')]))
+  );
+
+  expect(smaller.status).toBe(400);
+  expect(fileStore.files.size).toBe(0);
+});
+
+test('deletes the files when cleared', async () => {
+  const fileId = await uploadFile(alice, 'hello');
+
+  await roomFiles.clear();
+
+  expect(fileStore.files.size).toBe(0);
+  expect(() => roomFiles.share(alice, fileId)).toThrow('file not uploaded');
+});
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import * as mediasoup from 'mediasoup';
+import { RoomRecorder } from '../lib/recording/RoomRecorder';
+import {
+  allocatePort,
+  createPlainConsumer,
+  releasePort,
+} from '../lib/recording/rtp';
+import { config } from '../lib/config/config';
+import { Peer } from '../lib/Peer';
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+
+jest.mock('../lib/recording/rtp', () => ({
+  ...jest.requireActual('../lib/recording/rtp'),
+  createPlainConsumer: jest.fn(),
+}));
+
+const recording = { ...config.recording };
+
+const peer = { id: 'peer', displayName: 'Alice' } as Peer;
+const router = {} as mediasoup.types.Router;
+const producer = {
+  id: 'producer',
+  kind: 'audio',
+  appData: { source: 'mic' },
+} as unknown as mediasoup.types.Producer;
+
+let directory: string;
+
+// FFmpeg writing its output file and exiting when interrupted.
+function createProcess(args: string[]) {
+  const recorderProcess = Object.assign(new EventEmitter(), {
+    stderr: new EventEmitter(),
+    exitCode: null,
+    killed: false,
+    kill: jest.fn(() => process.nextTick(() => recorderProcess.emit('close'))),
+  });
+
+  fs.writeFileSync(args[args.length - 1], '');
+
+  return recorderProcess;
+}
+
+function createPlainConsumerResult() {
+  return {
+    transport: { close: jest.fn() },
+    consumer: Object.assign(new EventEmitter(), {
+      kind: 'audio',
+      closed: true,
+      rtpParameters: {
+        codecs: [
+          {
+            mimeType: 'audio/opus',
+            payloadType: 100,
+            clockRate: 48000,
+            channels: 2,
+          },
+        ],
+      },
+      close: jest.fn(),
+    }),
+  };
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+
+  Object.assign(config.recording, {
+    path: directory,
+    composite: false,
+    rtpMinPort: 50000,
+    rtpMaxPort: 50004,
+  });
+
+  (spawn as jest.Mock).mockImplementation((command, args) =>
+    createProcess(args)
+  );
+});
+
+afterEach(() => {
+  jest.resetAllMocks();
+
+  for (let port = 50000; port < 50004; port += 2) releasePort(port);
+
+  Object.assign(config.recording, recording);
+
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test('records the producers and writes the manifest', async () => {
+  const plainConsumer = createPlainConsumerResult();
+
+  (createPlainConsumer as jest.Mock).mockResolvedValue(plainConsumer);
+
+  const recorder = new RoomRecorder({ roomId: 'room/1' });
+  const stopped = jest.fn();
+
+  recorder.on('stopped', stopped);
+
+  await recorder.start();
+  await recorder.addProducer({ router, peer, producer });
+
+  expect(recorder.directory.startsWith(path.join(directory, 'room_1'))).toBe(
+    true
+  );
+
+  const sdpFile = path.join(recorder.directory, 'peer-mic-producer.sdp');
+
+  expect(fs.readFileSync(sdpFile, 'utf8')).toContain('m=audio 50000 ');
+  expect(spawn).toHaveBeenCalledWith(
+    'ffmpeg',
+    expect.arrayContaining(['-i', sdpFile]),
+    expect.anything()
+  );
+
+  expect(await recorder.stop()).toBeNull();
+
+  expect(plainConsumer.consumer.close).toHaveBeenCalled();
+  expect(plainConsumer.transport.close).toHaveBeenCalled();
+  expect(stopped).toHaveBeenCalledWith({
+    directory: recorder.directory,
+    file: null,
+  });
+
+  const manifest = JSON.parse(
+    fs.readFileSync(path.join(recorder.directory, 'manifest.json'), 'utf8')
+  );
+
+  expect(manifest).toMatchObject({
+    roomId: 'room/1',
+    composite: null,
+    tracks: [
+      {
+        peerId: 'peer',
+        displayName: 'Alice',
+        source: 'mic',
+        kind: 'audio',
+        file: 'peer-mic-producer.mkv',
+      },
+    ],
+  });
+
+  // Released with the track
+  expect(allocatePort()).toBe(50000);
+});
+
+test('drops a producer added while stopping', async () => {
+  const plainConsumer = createPlainConsumerResult();
+  let resolveConsumer: (value: unknown) => void;
+
+  (createPlainConsumer as jest.Mock).mockReturnValue(
+    new Promise((resolve) => {
+      resolveConsumer = resolve;
+    })
+  );
+
+  const recorder = new RoomRecorder({ roomId: 'room' });
+
+  await recorder.start();
+
+  const adding = recorder.addProducer({ router, peer, producer });
+
+  await recorder.stop();
+
+  resolveConsumer(plainConsumer);
+
+  await adding;
+
+  expect(plainConsumer.transport.close).toHaveBeenCalled();
+  expect(spawn).not.toHaveBeenCalled();
+  expect(recorder._tracks.size).toBe(0);
+  expect(allocatePort()).toBe(50000);
+});
+
+test('releases the port when the transport fails', async () => {
+  (createPlainConsumer as jest.Mock).mockRejectedValue(new Error('failed'));
+
+  const recorder = new RoomRecorder({ roomId: 'room' });
+
+  await recorder.start();
+  await recorder.addProducer({ router, peer, producer });
+
+  expect(recorder._tracks.size).toBe(0);
+  expect(allocatePort()).toBe(50000);
+});
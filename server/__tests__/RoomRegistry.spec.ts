@@ -0,0 +1,152 @@
+import { RoomRegistry } from '../lib/cluster/RoomRegistry';
+import { config } from '../lib/config/config';
+
+const cluster = { ...config.cluster };
+
+// Callback style Redis client keeping the values in memory, the expiries
+// are left out.
+function createRedisClient() {
+  const values = new Map<string, string>();
+
+  const client = {
+    values,
+    get(key, callback) {
+      callback(null, values.has(key) ? values.get(key) : null);
+    },
+    set(key, value, ...args) {
+      const callback = args.pop();
+
+      if (args.includes('NX') && values.has(key)) return callback(null, null);
+
+      values.set(key, value);
+      callback(null, 'OK');
+    },
+    del(key, callback) {
+      callback(null, values.delete(key) ? 1 : 0);
+    },
+    eval(script, keyCount, key, expected, ...args) {
+      const callback = args.pop();
+
+      if (values.get(key) !== expected)
+        return callback(null, script.includes('"del"') ? 0 : null);
+
+      if (script.includes('"del"')) {
+        values.delete(key);
+        callback(null, 1);
+      } else {
+        values.set(key, args[0]);
+        callback(null, 'OK');
+      }
+    },
+    multi() {
+      const commands = [];
+      const multi = {
+        set: (key, value, ...args) => {
+          commands.push(() => client.set(key, value, ...args, () => {}));
+
+          return multi;
+        },
+        pexpire: () => multi,
+        exec(callback) {
+          commands.forEach((command) => command());
+          callback(null, []);
+        },
+      };
+
+      return multi;
+    },
+  };
+
+  return client;
+}
+
+let redisClient: ReturnType<typeof createRedisClient>;
+let registries: RoomRegistry[];
+
+function createRegistry(nodeId: string) {
+  config.cluster.nodeId = nodeId;
+  config.cluster.nodeUrl = `https://${nodeId}`;
+
+  const registry = new RoomRegistry({ redisClient });
+
+  registries.push(registry);
+
+  return registry;
+}
+
+beforeEach(() => {
+  Object.assign(config.cluster, { ttl: 30, redisKeyPrefix: 'test' });
+
+  redisClient = createRedisClient();
+  registries = [];
+});
+
+afterEach(() => {
+  for (const registry of registries) clearInterval(registry._heartbeatInterval);
+
+  Object.assign(config.cluster, cluster);
+});
+
+test('gives a room to the first claiming node', async () => {
+  const first = createRegistry('first');
+  const second = createRegistry('second');
+
+  await first.start();
+  await second.start();
+
+  expect(await first.claimRoom('room')).toBeNull();
+  // Claimed again by its owner
+  expect(await first.claimRoom('room')).toBeNull();
+  expect(await second.claimRoom('room')).toEqual({
+    id: 'first',
+    url: 'https://first',
+  });
+  expect(await second.getRoomNode('room')).toEqual({
+    id: 'first',
+    url: 'https://first',
+  });
+});
+
+test('gives a released room to another node', async () => {
+  const first = createRegistry('first');
+  const second = createRegistry('second');
+
+  await first.start();
+  await second.start();
+  await first.claimRoom('room');
+  await first.releaseRoom('room');
+
+  expect(await first.getRoomNode('room')).toBeNull();
+  expect(await second.claimRoom('room')).toBeNull();
+
+  // Only released by its owner
+  await first.releaseRoom('room');
+
+  expect(await first.getRoomNode('room')).toMatchObject({ id: 'second' });
+});
+
+test('takes over the rooms of a dead node', async () => {
+  const first = createRegistry('first');
+  const second = createRegistry('second');
+
+  await first.start();
+  await second.start();
+  await first.claimRoom('room');
+
+  // The key of the node expired
+  redisClient.values.delete('test:node:first');
+
+  expect(await second.claimRoom('room')).toBeNull();
+  expect(redisClient.values.get('test:room:room')).toBe('second');
+});
+
+test('releases its rooms when closed', async () => {
+  const first = createRegistry('first');
+
+  await first.start();
+  await first.claimRoom('room');
+  await first.claimRoom('other');
+  await first.close();
+
+  expect([...redisClient.values.keys()]).toEqual([]);
+});
@@ -0,0 +1,126 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { spawn } from 'child_process';
+import { VoskEngine } from '../lib/captions/VoskEngine';
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+
+let engineProcess;
+
+// The Python script, reading frames on stdin and writing results on stdout.
+function createProcess() {
+  return Object.assign(new EventEmitter(), {
+    stdin: Object.assign(new EventEmitter(), {
+      write: jest.fn(() => true),
+    }),
+    stdout: new PassThrough(),
+    stderr: new EventEmitter(),
+  });
+}
+
+// Session id and type of the frames written to the script.
+function writtenFrames() {
+  return engineProcess.stdin.write.mock.calls.map(([frame]) => [
+    frame.readUInt32BE(0),
+    frame.readUInt8(4),
+    frame.readUInt32BE(5),
+  ]);
+}
+
+function sendResult(result: object) {
+  engineProcess.stdout.write(`${JSON.stringify(result)}\n`);
+
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+beforeEach(() => {
+  (spawn as jest.Mock).mockImplementation(() => {
+    engineProcess = createProcess();
+
+    return engineProcess;
+  });
+});
+
+afterEach(() => {
+  jest.resetAllMocks();
+});
+
+test('sends the audio in frames and emits the results', async () => {
+  const engine = new VoskEngine();
+  const session = engine.createSession();
+  const partial = jest.fn();
+  const final = jest.fn();
+
+  session.on('partial', partial);
+  session.on('final', final);
+
+  session.write(Buffer.alloc(10000));
+
+  expect(writtenFrames()).toEqual([[1, 0, 6400]]);
+
+  await sendResult({ session: 1, partial: 'hello' });
+  await sendResult({ session: 1, partial: 'hello' });
+  await sendResult({ session: 1, text: 'hello world' });
+
+  expect(partial.mock.calls).toEqual([['hello']]);
+  expect(final).toHaveBeenCalledWith('hello world');
+
+  const ended = session.close();
+
+  expect(writtenFrames().slice(1)).toEqual([
+    [1, 0, 3600],
+    [1, 1, 0],
+  ]);
+
+  await sendResult({ session: 1, text: '', end: true });
+  await ended;
+
+  expect(engine._sessions.size).toBe(0);
+});
+
+test('drops the audio until the script catches up', async () => {
+  const engine = new VoskEngine();
+  const session = engine.createSession();
+
+  engineProcess.stdin.write.mockReturnValueOnce(false);
+
+  session.write(Buffer.alloc(6400 * 3));
+
+  expect(writtenFrames()).toEqual([[1, 0, 6400]]);
+
+  engineProcess.stdin.emit('drain');
+  session.write(Buffer.alloc(6400));
+
+  expect(writtenFrames()).toHaveLength(2);
+
+  engineProcess.stdin.write.mockReturnValueOnce(false);
+  session.write(Buffer.alloc(6400));
+
+  const ended = session.close();
+
+  // The end frame is not dropped
+  expect(writtenFrames().slice(2)).toEqual([
+    [1, 0, 6400],
+    [1, 1, 0],
+  ]);
+
+  await sendResult({ session: 1, text: '', end: true });
+  await ended;
+});
+
+test('fails the open sessions when the script exits', async () => {
+  const engine = new VoskEngine();
+  const session = engine.createSession();
+  const error = jest.fn();
+
+  session.on('error', error);
+
+  engineProcess.emit('close', 1);
+
+  expect(error).toHaveBeenCalledWith(new Error('vosk exited with code 1'));
+  expect(engine._process).toBeNull();
+
+  engine.createSession();
+
+  expect(spawn).toHaveBeenCalledTimes(2);
+});
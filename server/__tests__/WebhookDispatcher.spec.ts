@@ -0,0 +1,186 @@
+import * as path from 'path';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { EventEmitter } from 'events';
+import { WebhookDispatcher } from '../lib/webhooks/WebhookDispatcher';
+import { Room } from '../lib/Room';
+import { config } from '../lib/config/config';
+
+jest.mock('axios');
+
+const webhooks = { ...config.webhooks };
+
+const post = axios.post as jest.Mock;
+
+const endpoint = { url: 'https://example.com/all', secret: 'secret' };
+
+// Lets the pending deliveries settle.
+function flush() {
+  return new Promise((resolve) =>
+    jest.requireActual('timers').setImmediate(resolve)
+  );
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+
+  Object.assign(config.webhooks, {
+    endpoints: [
+      { url: 'https://example.com/all', secret: 'secret' },
+      {
+        url: 'https://example.com/chat',
+        secret: 'other',
+        events: ['chat.message'],
+      },
+    ],
+    maxRetries: 2,
+    retryDelay: 1000,
+    logSize: 200,
+  });
+
+  post.mockResolvedValue({ status: 204 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.resetAllMocks();
+
+  Object.assign(config.webhooks, webhooks);
+});
+
+test('signs the body with the secret of the endpoint', async () => {
+  const dispatcher = new WebhookDispatcher();
+
+  dispatcher.dispatch('chat.message', 'room', { text: 'hello' });
+
+  await flush();
+
+  expect(post).toHaveBeenCalledTimes(2);
+
+  for (const [url, body, { headers }] of post.mock.calls) {
+    const secret = url.endsWith('/all') ? 'secret' : 'other';
+
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'chat.message',
+      roomId: 'room',
+      data: { text: 'hello' },
+    });
+    expect(headers).toMatchObject({
+      'X-Tailchat-Meeting-Event': 'chat.message',
+      'X-Tailchat-Meeting-Signature': `sha256=${createHmac('sha256', secret)
+        .update(body)
+        .digest('hex')}`,
+    });
+  }
+
+  expect(dispatcher.deliveries.map(({ status }) => status)).toEqual([
+    'delivered',
+    'delivered',
+  ]);
+});
+
+test('only posts the subscribed events', async () => {
+  const dispatcher = new WebhookDispatcher();
+
+  dispatcher.dispatch('peer.joined', 'room', {});
+
+  await flush();
+
+  expect(post).toHaveBeenCalledTimes(1);
+  expect(post.mock.calls[0][0]).toBe('https://example.com/all');
+});
+
+test('retries with an exponential backoff', async () => {
+  config.webhooks.endpoints = [endpoint];
+
+  post
+    .mockRejectedValueOnce({ message: 'timeout' })
+    .mockRejectedValueOnce({ message: 'failed', response: { status: 500 } });
+
+  const dispatcher = new WebhookDispatcher();
+
+  dispatcher.dispatch('room.created', 'room', {});
+
+  await flush();
+
+  const [delivery] = dispatcher.deliveries;
+
+  expect(delivery).toMatchObject({ status: 'pending', attempts: 1 });
+
+  jest.advanceTimersByTime(1000);
+  await flush();
+
+  expect(delivery).toMatchObject({
+    status: 'pending',
+    attempts: 2,
+    responseStatus: 500,
+  });
+
+  jest.advanceTimersByTime(1999);
+  await flush();
+
+  expect(delivery.attempts).toBe(2);
+
+  jest.advanceTimersByTime(1);
+  await flush();
+
+  expect(delivery).toMatchObject({
+    status: 'delivered',
+    attempts: 3,
+    responseStatus: 204,
+    error: undefined,
+  });
+  // Same body and signature
+  expect(post.mock.calls[2]).toEqual(post.mock.calls[0]);
+});
+
+test('gives up after the retries', async () => {
+  config.webhooks.endpoints = [endpoint];
+
+  post.mockRejectedValue({ message: 'timeout' });
+
+  const dispatcher = new WebhookDispatcher();
+
+  dispatcher.dispatch('room.created', 'room', {});
+
+  for (let i = 0; i < 3; i++) {
+    await flush();
+
+    jest.runOnlyPendingTimers();
+  }
+
+  await flush();
+
+  expect(post).toHaveBeenCalledTimes(3);
+  expect(dispatcher.deliveries[0]).toMatchObject({
+    status: 'failed',
+    attempts: 3,
+    error: 'timeout',
+  });
+});
+
+test('sends the recording paths relative to the recordings', async () => {
+  config.webhooks.endpoints = [endpoint];
+
+  const room = Object.assign(new EventEmitter(), {
+    id: 'room',
+    lobby: new EventEmitter(),
+  });
+  const directory = path.resolve(config.recording.path, 'room', 'session');
+
+  new WebhookDispatcher().attachRoom(room as unknown as Room);
+
+  room.emit('recordingStopped', {
+    peer: null,
+    directory,
+    file: path.join(directory, 'composite.mp4'),
+  });
+
+  await flush();
+
+  expect(JSON.parse(post.mock.calls[1][1]).data).toEqual({
+    peerId: null,
+    directory: path.join('room', 'session'),
+    file: path.join('room', 'session', 'composite.mp4'),
+  });
+});
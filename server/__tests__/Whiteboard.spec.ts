@@ -0,0 +1,121 @@
+import { Whiteboard } from '../lib/whiteboard/Whiteboard';
+import { Peer } from '../lib/Peer';
+
+const alice = { id: 'alice' } as Peer;
+const bob = { id: 'bob' } as Peer;
+const moderator = { id: 'moderator' } as Peer;
+
+const stroke = {
+  type: 'stroke',
+  id: 'stroke-1',
+  color: '#ff0000',
+  width: 4,
+  points: [0, 0, 1600, 900],
+};
+
+function createWhiteboard() {
+  return new Whiteboard({
+    roomId: 'room',
+    canDraw: () => true,
+    canModerate: (peer) => peer === moderator,
+  });
+}
+
+test('adds the valid strokes', () => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, stroke);
+
+  expect(whiteboard.snapshot).toEqual({
+    seq: 1,
+    locked: false,
+    strokes: [
+      {
+        id: 'stroke-1',
+        peerId: 'alice',
+        color: '#ff0000',
+        width: 4,
+        points: [0, 0, 1600, 900],
+      },
+    ],
+  });
+});
+
+test.each([
+  ['an empty id', { id: '' }],
+  ['a long id', { id: 'x'.repeat(33) }],
+  ['an invalid color', { color: 'red' }],
+  ['a zero width', { width: 0 }],
+  ['a large width', { width: 41 }],
+  ['no points', { points: [] }],
+  ['an odd number of coordinates', { points: [0, 0, 1] }],
+  ['a point out of the board', { points: [0, 901] }],
+  ['a non finite point', { points: [0, NaN] }],
+  ['too many points', { points: new Array(4002).fill(0) }],
+])('ignores a stroke with %s', (name, change) => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, { ...stroke, ...change });
+
+  expect(whiteboard.snapshot.strokes).toEqual([]);
+  expect(whiteboard.snapshot.seq).toBe(0);
+});
+
+test('ignores the known stroke ids and the unknown operations', () => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, stroke);
+  whiteboard._apply(bob, { ...stroke, color: '#00ff00' });
+  whiteboard._apply(alice, { type: 'clear' });
+  whiteboard._apply(alice, null);
+
+  expect(whiteboard.snapshot.seq).toBe(1);
+  expect(whiteboard.snapshot.strokes[0].peerId).toBe('alice');
+});
+
+test('limits the points of the board', () => {
+  const whiteboard = createWhiteboard();
+  const points = new Array(4000).fill(0);
+
+  for (let i = 0; i < 101; i++)
+    whiteboard._apply(alice, { ...stroke, id: `stroke-${i}`, points });
+
+  expect(whiteboard.snapshot.strokes).toHaveLength(100);
+
+  whiteboard._apply(alice, { type: 'remove', id: 'stroke-0' });
+  whiteboard._apply(alice, { ...stroke, id: 'stroke-101', points });
+
+  expect(whiteboard.snapshot.strokes).toHaveLength(100);
+});
+
+test('removes the strokes of their owner', () => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, stroke);
+  whiteboard._apply(bob, { type: 'remove', id: 'stroke-1' });
+
+  expect(whiteboard.snapshot.strokes).toHaveLength(1);
+
+  whiteboard._apply(alice, { type: 'remove', id: 'stroke-1' });
+
+  expect(whiteboard.snapshot.strokes).toHaveLength(0);
+  expect(whiteboard.snapshot.seq).toBe(2);
+});
+
+test('lets the moderators remove any stroke', () => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, stroke);
+  whiteboard._apply(moderator, { type: 'remove', id: 'stroke-1' });
+
+  expect(whiteboard.snapshot.strokes).toHaveLength(0);
+});
+
+test('clears the board', () => {
+  const whiteboard = createWhiteboard();
+
+  whiteboard._apply(alice, stroke);
+  whiteboard.clear();
+
+  expect(whiteboard.snapshot).toEqual({ seq: 2, locked: false, strokes: [] });
+});
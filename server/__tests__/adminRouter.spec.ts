@@ -0,0 +1,194 @@
+import express from 'express';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import adminRouter from '../lib/admin/adminRouter';
+import { MeetingScheduler } from '../lib/schedule/MeetingScheduler';
+import { config } from '../lib/config/config';
+
+const adminApi = { ...config.adminApi };
+const ingest = { ...config.ingest };
+
+let server: Server;
+let room;
+let drainer;
+
+function request(
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  { data = undefined, secret = 'secret' } = {}
+) {
+  const { port } = server.address() as AddressInfo;
+
+  return axios.request({
+    method,
+    url: `http://127.0.0.1:${port}/api/admin${path}`,
+    data,
+    headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+    validateStatus: () => true,
+  });
+}
+
+beforeEach((done) => {
+  config.adminApi.secret = 'secret';
+
+  room = {
+    id: 'room',
+    lock: jest.fn(),
+    hasPeer: () => false,
+    setAccessCode: jest.fn(),
+    addIngest: jest.fn(async () => ({ peerId: 'ingest', endpoints: [] })),
+    removeIngest: jest.fn(() => false),
+  };
+  drainer = { start: jest.fn(() => true), status: () => ({ draining: true }) };
+
+  const app = express();
+
+  app.use(express.json());
+  app.use(
+    '/api/admin',
+    adminRouter({
+      rooms: new Map([['room', room]]),
+      webhookDispatcher: null,
+      meetingScheduler: new MeetingScheduler(),
+      drainer,
+      auditSink: null,
+    })
+  );
+
+  server = app.listen(0, '127.0.0.1', done);
+});
+
+afterEach((done) => {
+  Object.assign(config.adminApi, adminApi);
+  Object.assign(config.ingest, ingest);
+
+  server.close(done);
+});
+
+test.each([
+  ['without secret', null],
+  ['with another secret', 'other'],
+  ['with a longer secret', 'secret!'],
+])('rejects the requests %s', async (name, secret) => {
+  const response = await request('POST', '/rooms/room/lock', { secret });
+
+  expect(response.status).toBe(401);
+  expect(response.data).toEqual({
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'invalid or missing api secret',
+    },
+  });
+  expect(room.lock).not.toHaveBeenCalled();
+});
+
+test('locks a room', async () => {
+  const response = await request('POST', '/rooms/room/lock');
+
+  expect(response.status).toBe(200);
+  expect(response.data).toEqual({ locked: true });
+  expect(room.lock).toHaveBeenCalled();
+});
+
+test('drains the server once', async () => {
+  const response = await request('POST', '/drain', { data: { timeout: 60 } });
+
+  expect(response.status).toBe(202);
+  expect(drainer.start).toHaveBeenCalledWith(60);
+
+  drainer.start.mockReturnValue(false);
+
+  expect((await request('POST', '/drain')).status).toBe(409);
+});
+
+test.each([
+  ['an unknown room', 'POST', '/rooms/other/lock', 'ROOM_NOT_FOUND'],
+  ['an unknown peer', 'POST', '/rooms/room/peers/peer/kick', 'PEER_NOT_FOUND'],
+  ['an unknown route', 'GET', '/unknown', 'NOT_FOUND'],
+  ['an unknown meeting', 'DELETE', '/schedule/room', 'MEETING_NOT_FOUND'],
+  ['a disabled audit log', 'GET', '/rooms/room/audit', 'AUDIT_LOG_DISABLED'],
+  ['a disabled ingest', 'POST', '/rooms/room/ingests', 'INGEST_DISABLED'],
+  [
+    'an unknown ingest',
+    'DELETE',
+    '/rooms/room/ingests/peer',
+    'INGEST_NOT_FOUND',
+  ],
+] as const)('answers 404 for %s', async (name, method, path, code) => {
+  const response = await request(method, path);
+
+  expect(response.status).toBe(404);
+  expect(response.data.error.code).toBe(code);
+});
+
+test.each([
+  ['access code', 'PUT', '/rooms/room/access-code', { accessCode: 1 }],
+  ['meeting', 'PUT', '/schedule/room', { startAt: 'tomorrow' }],
+  ['drain timeout', 'POST', '/drain', { timeout: -1 }],
+  ['ingest name', 'POST', '/rooms/room/ingests', { displayName: ' ' }],
+  [
+    'ingest without media',
+    'POST',
+    '/rooms/room/ingests',
+    { displayName: 'OBS', audio: false, video: false },
+  ],
+  [
+    'ingest codec',
+    'POST',
+    '/rooms/room/ingests',
+    { displayName: 'OBS', videoCodec: 'av1' },
+  ],
+] as const)(
+  'answers 400 for an invalid %s',
+  async (name, method, path, data) => {
+    config.ingest.enabled = true;
+
+    const response = await request(method, path, { data });
+
+    expect(response.status).toBe(400);
+    expect(response.data.error.code).toBe('BAD_REQUEST');
+  }
+);
+
+test('adds an ingested source to the room', async () => {
+  config.ingest.enabled = true;
+
+  const response = await request('POST', '/rooms/room/ingests', {
+    data: { displayName: ' OBS ', audio: false },
+  });
+
+  expect(response.status).toBe(201);
+  expect(response.data).toEqual({ peerId: 'ingest', endpoints: [] });
+  expect(room.addIngest).toHaveBeenCalledWith({
+    displayName: 'OBS',
+    audio: false,
+    video: true,
+    videoCodec: 'vp8',
+  });
+
+  room.addIngest.mockRejectedValue(new Error('too many ingested sources'));
+
+  const conflict = await request('POST', '/rooms/room/ingests', {
+    data: { displayName: 'OBS' },
+  });
+
+  expect(conflict.status).toBe(409);
+  expect(conflict.data.error).toEqual({
+    code: 'INGEST_FAILED',
+    message: 'too many ingested sources',
+  });
+});
+
+test('hides the unexpected errors', async () => {
+  room.lock.mockImplementation(() => {
+    throw new Error('redis down');
+  });
+
+  const response = await request('POST', '/rooms/room/lock');
+
+  expect(response.status).toBe(500);
+  expect(response.data).toEqual({
+    error: { code: 'INTERNAL_ERROR', message: 'internal server error' },
+  });
+});
@@ -0,0 +1,94 @@
+import jwt from 'jsonwebtoken';
+import { applyJoinToken, verifyJoinToken } from '../lib/access/joinToken';
+import { userRoles } from '../lib/access/roles';
+import { RoomRejectedError } from '../lib/helpers/errors';
+import { config } from '../lib/config/config';
+import { Peer } from '../lib/Peer';
+
+const SECRET = 'secret';
+
+const auth = config.auth;
+
+beforeEach(() => {
+  config.auth = { jwt: { secret: SECRET } };
+});
+
+afterEach(() => {
+  config.auth = auth;
+});
+
+function sign(claims: object, secret = SECRET) {
+  return jwt.sign(claims, secret, { expiresIn: 60 });
+}
+
+function verifyError(token: string, roomId: string) {
+  try {
+    verifyJoinToken(token, roomId);
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+test('verifies a token of the room', () => {
+  const token = sign({ sub: 'user', roomId: 'room' });
+
+  expect(verifyJoinToken(token, 'room')).toMatchObject({
+    sub: 'user',
+    roomId: 'room',
+  });
+});
+
+test.each([
+  ['another room', { sub: 'user', roomId: 'other' }, SECRET],
+  ['no sub', { roomId: 'room' }, SECRET],
+  ['another secret', { sub: 'user', roomId: 'room' }, 'other'],
+])('rejects a token of %s', (name, claims, secret) => {
+  const error = verifyError(sign(claims, secret), 'room');
+
+  expect(error).toBeInstanceOf(RoomRejectedError);
+  expect(error.reason).toBe('invalidJoinToken');
+});
+
+test('rejects a token without expiry', () => {
+  const token = jwt.sign({ sub: 'user', roomId: 'room' }, SECRET);
+
+  expect(verifyError(token, 'room').reason).toBe('invalidJoinToken');
+});
+
+test('rejects an expired token', () => {
+  const token = jwt.sign({ sub: 'user', roomId: 'room' }, SECRET, {
+    expiresIn: -10,
+  });
+
+  expect(verifyError(token, 'room').reason).toBe('expiredJoinToken');
+});
+
+test('rejects the tokens when not enabled', () => {
+  config.auth = {};
+
+  const token = sign({ sub: 'user', roomId: 'room' });
+
+  expect(verifyError(token, 'room').reason).toBe('invalidJoinToken');
+});
+
+test('applies the claims to the peer', () => {
+  const peer = new Peer({ id: 'peer', roomId: 'room', socket: null });
+
+  applyJoinToken(peer, {
+    sub: 'user',
+    roomId: 'room',
+    name: 'Alice',
+    roles: [userRoles.MODERATOR.id, 'presenter', 'unknown'],
+  });
+
+  expect(peer.authId).toBe('user');
+  expect(peer.displayName).toBe('Alice');
+  expect(peer.authenticated).toBe(true);
+  expect(peer.roles).toEqual([
+    userRoles.NORMAL,
+    userRoles.MODERATOR,
+    userRoles.PRESENTER,
+  ]);
+});
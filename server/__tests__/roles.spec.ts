@@ -0,0 +1,62 @@
+import convict from 'convict';
+import { findRole, registerRoles, userRoles } from '../lib/access/roles';
+// Adds the formats of the config
+import '../lib/config/config';
+
+const interpreter = {
+  id: 7001,
+  label: 'interpreter',
+  level: 25,
+  promotable: true,
+  displayNames: { en: 'Interpreter' },
+};
+
+function validateRoles(roles: unknown[]) {
+  convict({ roles: { doc: 'roles', format: 'isRoleList', default: [] } })
+    .load({ roles })
+    .validate();
+}
+
+test('accepts valid custom roles', () => {
+  expect(() =>
+    validateRoles([interpreter, { ...interpreter, id: 7002, label: 'guest' }])
+  ).not.toThrow();
+});
+
+test.each([
+  ['a built-in id', { id: userRoles.MODERATOR.id }, 'duplicate role id'],
+  ['a built-in label', { label: 'Moderator' }, 'duplicate role label'],
+  ['no label', { label: '' }, 'role label must be a non empty string'],
+  ['an invalid id', { id: '7001' }, 'role id must be an integer'],
+  ['a low level', { level: 10 }, 'role level must be a number above 10'],
+  ['an invalid promotable', { promotable: 1 }, 'role promotable'],
+  ['invalid display names', { displayNames: { en: 1 } }, 'role displayNames'],
+])('rejects a role with %s', (name, change, message) => {
+  expect(() => validateRoles([{ ...interpreter, ...change }])).toThrow(message);
+});
+
+test('rejects the duplicates of the custom roles', () => {
+  expect(() =>
+    validateRoles([interpreter, { ...interpreter, label: 'guest' }])
+  ).toThrow('duplicate role id 7001');
+  expect(() =>
+    validateRoles([
+      interpreter,
+      { ...interpreter, id: 7002, label: 'INTERPRETER' },
+    ])
+  ).toThrow('duplicate role label "INTERPRETER"');
+});
+
+test('registers the custom roles', () => {
+  registerRoles([interpreter]);
+
+  expect(userRoles).toHaveProperty('INTERPRETER', interpreter);
+  expect(findRole(7001)).toBe(findRole('interpreter'));
+  expect(() => registerRoles([{ ...interpreter, id: 7002 }])).toThrow(
+    'duplicate role label "interpreter"'
+  );
+  expect(() =>
+    registerRoles([{ ...interpreter, id: 7003, label: 'Normal' }])
+  ).toThrow('duplicate role label "Normal"');
+  expect(userRoles.NORMAL.id).toBe(4261);
+});
@@ -0,0 +1,72 @@
+import * as mediasoup from 'mediasoup';
+import { allocatePort, createSdp, releasePort } from '../lib/recording/rtp';
+import { config } from '../lib/config/config';
+
+const recording = { ...config.recording };
+
+beforeEach(() => {
+  Object.assign(config.recording, {
+    rtpMinPort: 50001,
+    rtpMaxPort: 50006,
+    recorderIp: '127.0.0.1',
+  });
+});
+
+afterEach(() => {
+  Object.assign(config.recording, recording);
+});
+
+test('allocates the even ports of the range', () => {
+  const ports = [allocatePort(), allocatePort()];
+
+  expect(ports).toEqual([50002, 50004]);
+  expect(() => allocatePort()).toThrow('no free recorder port available');
+
+  releasePort(50002);
+
+  expect(allocatePort()).toBe(50002);
+
+  ports.forEach(releasePort);
+});
+
+test('describes an audio stream', () => {
+  const rtpParameters = {
+    codecs: [
+      {
+        mimeType: 'audio/opus',
+        payloadType: 100,
+        clockRate: 48000,
+        channels: 2,
+        parameters: { minptime: 10, useinbandfec: 1 },
+      },
+    ],
+  } as mediasoup.types.RtpParameters;
+
+  expect(createSdp({ rtpParameters, kind: 'audio', port: 50002 })).toBe(
+    [
+      'v=0',
+      'o=- 0 0 IN IP4 127.0.0.1',
+      's=tailchat-meeting',
+      'c=IN IP4 127.0.0.1',
+      't=0 0',
+      'm=audio 50002 RTP/AVP 100',
+      'a=rtpmap:100 opus/48000/2',
+      'a=fmtp:100 minptime=10;useinbandfec=1',
+      'a=sendonly',
+      '',
+    ].join('\n')
+  );
+});
+
+test('describes a video stream to an IPv6 receiver', () => {
+  config.recording.recorderIp = '::1';
+
+  const rtpParameters = {
+    codecs: [{ mimeType: 'video/VP8', payloadType: 101, clockRate: 90000 }],
+  } as mediasoup.types.RtpParameters;
+  const sdp = createSdp({ rtpParameters, kind: 'video', port: 50004 });
+
+  expect(sdp).toContain('c=IN IP6 ::1\n');
+  expect(sdp).toContain('m=video 50004 RTP/AVP 101\na=rtpmap:101 VP8/90000\n');
+  expect(sdp).not.toContain('a=fmtp');
+});
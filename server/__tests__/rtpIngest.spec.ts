@@ -0,0 +1,77 @@
+import * as mediasoup from 'mediasoup';
+import { createIngestProducer } from '../lib/ingest/rtpIngest';
+import { config } from '../lib/config/config';
+
+const ingest = { ...config.ingest };
+
+let transport;
+let router: mediasoup.types.Router;
+
+beforeEach(() => {
+  transport = {
+    tuple: { localIp: '10.0.0.1', localPort: 40000 },
+    rtcpTuple: { localPort: 40001 },
+    produce: jest.fn(async ({ kind }) => ({ id: 'producer', kind })),
+    close: jest.fn(),
+  };
+  router = {
+    createPlainTransport: jest.fn(async () => transport),
+  } as unknown as mediasoup.types.Router;
+});
+
+afterEach(() => {
+  Object.assign(config.ingest, ingest);
+});
+
+test('gives the endpoint the sender pushes its stream to', async () => {
+  config.ingest.announcedIp = '';
+
+  const { producer, endpoint } = await createIngestProducer({
+    router,
+    kind: 'video',
+    videoCodec: 'h264',
+    appData: { peerId: 'ingest' },
+  });
+
+  const { rtpParameters } = transport.produce.mock.calls[0][0];
+
+  expect(producer).toEqual({ id: 'producer', kind: 'video' });
+  expect(router.createPlainTransport).toHaveBeenCalledWith(
+    expect.objectContaining({ rtcpMux: false, comedia: true })
+  );
+  expect(endpoint).toEqual({
+    kind: 'video',
+    ip: '10.0.0.1',
+    port: 40000,
+    rtcpPort: 40001,
+    mimeType: 'video/H264',
+    payloadType: 102,
+    clockRate: 90000,
+    ssrc: rtpParameters.encodings[0].ssrc,
+  });
+});
+
+test('announces the configured ip', async () => {
+  config.ingest.announcedIp = '203.0.113.1';
+
+  const { endpoint } = await createIngestProducer({
+    router,
+    kind: 'audio',
+    appData: {},
+  });
+
+  expect(endpoint).toMatchObject({
+    ip: '203.0.113.1',
+    mimeType: 'audio/opus',
+    payloadType: 100,
+  });
+});
+
+test('closes the transport when the producer cannot be created', async () => {
+  transport.produce.mockRejectedValue(new Error('invalid parameters'));
+
+  await expect(
+    createIngestProducer({ router, kind: 'audio', appData: {} })
+  ).rejects.toThrow('invalid parameters');
+  expect(transport.close).toHaveBeenCalled();
+});
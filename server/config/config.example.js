@@ -22,7 +22,9 @@ const {
 	SHARE_FILE,
 	MODERATE_FILES,
 	MODERATE_ROOM,
-	LOCAL_RECORD_ROOM
+	LOCAL_RECORD_ROOM,
+	SERVER_RECORD_ROOM,
+	SERVER_LIVE_STREAM
 } = require('../lib/access/perms');
 
 // const AwaitQueue = require('awaitqueue');
@@ -41,6 +43,22 @@ module.exports =
 			consumerSecret : 'secret'
 		},
 
+		// Signed join tokens (JWT) minted by an embedding app, always enabled
+		// if configured. The token is passed as the `token` url parameter
+		// and carries the claims:
+		// { sub, roomId, exp, name, picture, email, roles: [ <role id or label> ] }
+		// Tokens without `exp` are rejected.
+		// jwt :
+		// {
+		// 	// Shared secret (HS256), use a long random one
+		// 	secret     : '<random secret>',
+		// 	// or public key (RS256)
+		// 	publicKey  : fs.readFileSync('config/jwt_public.pem', 'utf-8'),
+		// 	algorithms : [ 'HS256' ],
+		// 	issuer     : 'https://tailchat.example.com',
+		// 	audience   : 'tailchat-meeting'
+		// },
+
 		// Auth strategy to use (default oidc)
 		strategy : 'oidc',
 		oidc :
@@ -260,6 +278,17 @@ module.exports =
 			peer.email = userinfo.email;
 		}
 	},
+	// Custom roles, added to the built-in ones. They are referenced by id
+	// in the accesses and permissions below, e.g. [ { id: 7001 } ]
+	// customRoles : [
+	// 	{
+	// 		id           : 7001,
+	// 		label        : 'interpreter',
+	// 		level        : 25,
+	// 		promotable   : true,
+	// 		displayNames : { en: 'Interpreter', zh: '翻译' }
+	// 	}
+	// ],
 	// All users have the role "NORMAL" by default. Other roles need to be
 	// added in the "userMapping" function. The following accesses and
 	// permissions are arrays of roles. Roles can be changed in userRoles.js
@@ -303,7 +332,11 @@ module.exports =
 		// The role(s) have permission to moderate room (e.g. kick user)
 		[MODERATE_ROOM]     : [ userRoles.MODERATOR ],
 		// The role(s) have permission to local record room
-		[LOCAL_RECORD_ROOM] : [ userRoles.NORMAL ]
+		[LOCAL_RECORD_ROOM] : [ userRoles.NORMAL ],
+		// The role(s) have permission to record room on the server
+		[SERVER_RECORD_ROOM] : [ userRoles.MODERATOR ],
+		// The role(s) have permission to live stream room from the server
+		[SERVER_LIVE_STREAM] : [ userRoles.MODERATOR ]
 	},
 	// Array of permissions. If no peer with the permission in question
 	// is in the room, all peers are permitted to do the action. The peers
@@ -1,4 +1,5 @@
 import Logger from './logger/Logger';
+import { RateLimitedError } from './helpers/errors';
 
 const EventEmitter = require('events').EventEmitter;
 
@@ -116,7 +117,8 @@ export class Lobby extends EventEmitter {
       this._handleSocketRequest(peer, request, cb).catch((error) => {
         logger.error('request failed [error:"%o"]', error);
 
-        cb(error);
+        if (error instanceof RateLimitedError) cb(error.toResponse());
+        else cb(error);
       });
     };
 
@@ -161,6 +163,8 @@ export class Lobby extends EventEmitter {
     peer.on('close', peer.closeHandler);
 
     this._notification(peer.socket, 'enteredLobby');
+
+    this.emit('parkedPeer', peer);
   }
 
   async _handleSocketRequest(peer, request, cb) {
@@ -172,6 +176,8 @@ export class Lobby extends EventEmitter {
 
     if (this._closed) return;
 
+    peer.checkRateLimit(request.method);
+
     switch (request.method) {
       case 'changeDisplayName': {
         const { displayName } = request.data;
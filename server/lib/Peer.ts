@@ -1,5 +1,6 @@
 import Logger from './logger/Logger';
 import { userRoles } from './access/roles';
+import { RateLimiter } from './ratelimit/RateLimiter';
 
 const EventEmitter = require('events').EventEmitter;
 
@@ -20,7 +21,7 @@ export class Peer extends EventEmitter {
   _authenticated = false;
   _authenticatedTimestamp = null;
   _roles = [userRoles.NORMAL];
-  _displayName = false;
+  _displayName: string | false = false;
   _picture = null;
   from: string | null = null;
   routerId = null;
@@ -32,6 +33,17 @@ export class Peer extends EventEmitter {
   _transports = new Map();
   _producers = new Map();
   _consumers = new Map();
+  // Server side last-N options requested by the client.
+  lastN: { size: number; pinnedPeerIds: string[]; videoOnly: boolean } = null;
+  // Peers whose video is forwarded to this peer (server side last-N).
+  spotlights: string[] = [];
+  // Rate limiting of the signaling requests, kept from the lobby to the room.
+  rateLimiter = new RateLimiter();
+  // External source brought in by the ingest API, without socket.
+  ingest = false;
+  // Asked to recreate its transports after a worker died, until it
+  // restores its consumers.
+  recreatingTransports = false;
 
   constructor({ id, roomId, socket }: any) {
     super();
@@ -60,6 +72,39 @@ export class Peer extends EventEmitter {
     this.emit('close');
   }
 
+  /**
+   * Takes a token of the rate limiter of the peer, mutes or kicks the
+   * peer after too many rate limited requests.
+   */
+  checkRateLimit(method: string) {
+    try {
+      this.rateLimiter.consume(method);
+    } catch (error) {
+      if (error.action) {
+        logger.warn(
+          'checkRateLimit() | too many requests [peerId:"%s", action:"%s"]',
+          this.id,
+          error.action
+        );
+      }
+
+      if (error.action === 'mute') {
+        this._notification('rateLimitMuted', { duration: error.retryAfter });
+      } else if (error.action === 'kick') {
+        this._notification('moderator:kick');
+
+        this.close();
+      }
+
+      throw error;
+    }
+  }
+
+  _notification(method: string, data = {}) {
+    // An ingested source has no socket
+    if (this.socket) this.socket.emit('notification', { method, data });
+  }
+
   _handlePeer() {
     if (this.socket) {
       this.socket.on('disconnect', (reason) => {
@@ -282,6 +327,7 @@ export class Peer extends EventEmitter {
       raisedHandTimestamp: this.raisedHandTimestamp,
       localRecordingState: this.localRecordingState,
       recordingStateHistory: this.localRecordingStateHistory,
+      ingest: this.ingest,
     };
 
     return peerInfo;
@@ -4,13 +4,42 @@ import axios from 'axios';
 import utils from 'util';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { userRoles } from './access/roles';
+import { userRoles, findRole } from './access/roles';
 import * as mediasoup from 'mediasoup';
 import { EventEmitter } from 'events';
 import { Lobby } from './Lobby';
-import { SocketTimeoutError, NotFoundInMediasoupError } from './helpers/errors';
+import {
+  SocketTimeoutError,
+  NotFoundInMediasoupError,
+  RateLimitedError,
+} from './helpers/errors';
 import { BYPASS_ROOM_LOCK, BYPASS_LOBBY } from './access/access';
 import { Peer } from './Peer';
+import { RoomRecorder } from './recording/RoomRecorder';
+import {
+  LiveStreamer,
+  StreamLayout,
+  getLiveStreamOutputs,
+} from './streaming/LiveStreamer';
+import { Poll } from './polls/Poll';
+import { Whiteboard, WHITEBOARD_LABEL } from './whiteboard/Whiteboard';
+import type { HistoryStore, HistoryType } from './history/HistoryStore';
+import type { FileStore } from './files/FileStore';
+import { RoomFiles } from './files/RoomFiles';
+import type { SttEngine } from './captions/SttEngine';
+import { RoomCaptions } from './captions/RoomCaptions';
+import {
+  createIngestProducer,
+  IngestEndpoint,
+  IngestVideoCodec,
+} from './ingest/rtpIngest';
+import type {
+  AuditEntry,
+  AuditOutcome,
+  AuditPeer,
+  AuditSink,
+} from './audit/AuditSink';
+import type { ScheduledMeeting } from './schedule/MeetingScheduler';
 import {
   CHANGE_ROOM_LOCK,
   PROMOTE_PEER,
@@ -25,12 +54,14 @@ import {
   MODERATE_FILES,
   MODERATE_ROOM,
   LOCAL_RECORD_ROOM,
+  SERVER_RECORD_ROOM,
+  SERVER_LIVE_STREAM,
 } from './access/perms';
 import { config } from './config/config';
 
 const logger = new Logger('Room');
 
-// In case they are not configured properly
+// Defaults of every room, in case they are not configured properly
 const roomAccess = {
   [BYPASS_ROOM_LOCK]: [userRoles.ADMIN],
   [BYPASS_LOBBY]: [userRoles.NORMAL],
@@ -51,13 +82,92 @@ const roomPermissions = {
   [MODERATE_FILES]: [userRoles.MODERATOR],
   [MODERATE_ROOM]: [userRoles.MODERATOR],
   [LOCAL_RECORD_ROOM]: [userRoles.NORMAL],
+  [SERVER_RECORD_ROOM]: [userRoles.MODERATOR],
+  [SERVER_LIVE_STREAM]: [userRoles.MODERATOR],
   ...config.permissionsFromRoles,
 };
 
 const roomAllowWhenRoleMissing = config.allowWhenRoleMissing || [];
 
+function copyRoleMap(roleMap: { [key: string]: any[] }) {
+  const copy = {};
+
+  for (const key of Object.keys(roleMap)) copy[key] = [...roleMap[key]];
+
+  return copy;
+}
+
+// Fisher-Yates shuffle, in place.
+function shuffle<T>(items: T[]) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+
+  return items;
+}
+
 const ROUTER_SCALE_SIZE = config.routerScaleSize || 40;
 
+// Longest delay supported by setTimeout.
+const MAX_TIMEOUT = 2147483647;
+
+// Longest countdown before closing the breakout rooms, 1 hour.
+const MAX_BREAKOUT_CLOSE_COUNTDOWN = 3600;
+
+const MAX_BREAKOUT_ROOMS = 50;
+
+// Minimum interval (ms) between two webinar state notifications.
+const WEBINAR_STATE_INTERVAL = 1000;
+
+// Maximum number of polls kept in a room.
+const MAX_POLLS = 50;
+
+// Maximum length of a chat reaction, an emoji can be several code units.
+const MAX_REACTION_LENGTH = 16;
+
+// Maximum length of an edited chat message.
+const MAX_CHAT_MESSAGE_LENGTH = 10000;
+
+// Reactions a peer can send over its tile.
+const REACTIONS = ['👍', '👏', '😂', '❤️', '😮', '🎉'];
+
+// Requests recorded in the audit log, besides the `moderator:` ones.
+const AUDITED_REQUESTS = [
+  'lockRoom',
+  'unlockRoom',
+  'setAccessCode',
+  'setJoinByAccessCode',
+  'promotePeer',
+  'promoteAllPeers',
+];
+
+/**
+ * Creates a router of a room on the worker, with its audio level observer.
+ */
+async function createRouter(worker: mediasoup.types.Worker) {
+  // Router media codecs.
+  const mediaCodecs = config.mediasoup.router.mediaCodecs;
+
+  const router = await worker.createRouter({ mediaCodecs });
+
+  const audioLevelObserver = await router.createAudioLevelObserver({
+    maxEntries: 1,
+    threshold: -80,
+    interval: 800,
+  });
+
+  return {
+    router,
+    audioLevelObject: {
+      audioLevelObserver: audioLevelObserver,
+      peerId: null,
+      volume: -1000,
+    },
+  };
+}
+
 export class Room extends EventEmitter {
   static getLeastLoadedRouter(
     allMediasoupWorkersOnServer,
@@ -159,11 +269,21 @@ export class Room extends EventEmitter {
    *
    * @param {Map [mediasoup.Worker.pid,mediasoup.Worker]} map of mediasoupWorkers.
    * @param {String} roomId - Id of the Room instance.
+   * @param {HistoryStore} historyStore - Store of the chat and file history.
+   * @param {AuditSink} auditSink - Audit log of the moderator actions, null when disabled.
+   * @param {FileStore} fileStore - Storage of the files shared through the server, null when disabled.
+   * @param {SttEngine} sttEngine - Speech-to-text engine of the live captions, null when disabled.
+   * @param {Function} createBreakoutRoom - Creates a breakout room of this room.
    */
   static async create({
     mediasoupWorkers,
     roomId,
     peers,
+    historyStore,
+    auditSink,
+    fileStore,
+    sttEngine,
+    createBreakoutRoom,
   }: {
     mediasoupWorkers: Map<
       mediasoup.types.Worker['pid'],
@@ -171,32 +291,39 @@ export class Room extends EventEmitter {
     >;
     roomId: string;
     peers: any;
+    historyStore: HistoryStore;
+    auditSink: AuditSink | null;
+    fileStore: FileStore | null;
+    sttEngine: SttEngine | null;
+    createBreakoutRoom: (roomId: string) => Promise<Room>;
   }): Promise<Room> {
     logger.info('create() [roomId:"%s"]', roomId);
 
-    // Router media codecs.
-    const mediaCodecs = config.mediasoup.router.mediaCodecs;
-
     const mediasoupRouters = new Map<string, mediasoup.types.Router>();
 
     const audioLevelObservers = new Map();
 
     for (const worker of mediasoupWorkers.values()) {
-      const router = await worker.createRouter({ mediaCodecs });
+      const { router, audioLevelObject } = await createRouter(worker);
 
       mediasoupRouters.set(router.id, router);
 
-      const audioLevelObserver = await router.createAudioLevelObserver({
-        maxEntries: 1,
-        threshold: -80,
-        interval: 800,
-      });
+      audioLevelObservers.set(router.id, audioLevelObject);
+    }
 
-      audioLevelObservers.set(router.id, {
-        audioLevelObserver: audioLevelObserver,
-        peerId: null,
-        volume: -1000,
-      });
+    // Restore the history of a previous instance of this room.
+    let chatHistory = [];
+    let fileHistory = [];
+
+    try {
+      chatHistory = await historyStore.load(roomId, 'chat');
+      fileHistory = await historyStore.load(roomId, 'file');
+    } catch (error) {
+      logger.error(
+        'create() | loading history failed [roomId:"%s", error:"%o"]',
+        roomId,
+        error
+      );
     }
 
     return new Room({
@@ -205,6 +332,13 @@ export class Room extends EventEmitter {
       audioLevelObservers,
       mediasoupWorkers,
       peers,
+      historyStore,
+      auditSink,
+      fileStore,
+      sttEngine,
+      chatHistory,
+      fileHistory,
+      createBreakoutRoom,
     });
   }
 
@@ -223,6 +357,9 @@ export class Room extends EventEmitter {
   // Closed flag.
   _closed = false;
 
+  // Cleanup of the closed room.
+  _closing: Promise<void> = null;
+
   // Joining queue
   _queue = new AwaitQueue();
 
@@ -238,8 +375,16 @@ export class Room extends EventEmitter {
 
   _lobby = new Lobby();
 
+  _historyStore: HistoryStore;
+
+  _auditSink: AuditSink | null;
+
   _chatHistory = [];
 
+  // Private messages, by id, and the peers of their conversation (sender
+  // included). Only kept for their edits, deletions and reactions.
+  _privateMessages = new Map<string, { chatMessage: any; peerIds: string[] }>();
+
   _fileHistory = [];
 
   _lastN = [];
@@ -260,6 +405,76 @@ export class Room extends EventEmitter {
 
   _tokens = new Map();
 
+  // Server side recording, null when not recording.
+  _recorder: RoomRecorder = null;
+
+  _recorderStarting = false;
+
+  // Live stream, null when not streaming.
+  _liveStreamer: LiveStreamer = null;
+
+  // Scheduled meeting of this room, if any.
+  _meeting: ScheduledMeeting = null;
+
+  _meetingTimers = [];
+
+  // Peers waiting in the lobby for the scheduled meeting to start.
+  _waitingPeers = new Map<string, Peer>();
+
+  // When the draining server closes this room, null when not draining.
+  _drainDeadline: number = null;
+
+  // Webinar mode: only the presenters and the promoted speakers are on
+  // stage, the other peers are a receive-only audience.
+  _webinar = false;
+
+  // Joined peers of the audience, by peer id.
+  _audience = new Set<string>();
+
+  // Audience peers promoted to speaker by a moderator, by peer id.
+  _speakers = new Set<string>();
+
+  _webinarStateTimeout = null;
+
+  // Polls of the room, by id.
+  _polls = new Map<string, Poll>();
+
+  // Reactions aggregated into the next burst, count by reaction.
+  _reactionBurst: Record<string, number> = {};
+
+  _reactionBurstTimeout = null;
+
+  _whiteboard: Whiteboard;
+
+  // Files shared through the server, null when disabled.
+  _files: RoomFiles | null = null;
+
+  // Live captions, null when disabled.
+  _captions: RoomCaptions | null = null;
+
+  _createBreakoutRoom: (roomId: string) => Promise<Room>;
+
+  // Breakout rooms of this (main) room, by room id.
+  _breakoutRooms = new Map<string, Room>();
+
+  _breakoutIndex = 0;
+
+  _breakoutCloseTimeout = null;
+
+  // Main room of this breakout room.
+  _parentRoom: Room = null;
+
+  _breakoutName = '';
+
+  // Peers moved in from the main or a breakout room, they skip the lobby.
+  _admittedPeers = new Set<string>();
+
+  // Roles having each permission / access in this room.
+  _roomPermissions: { [permission: string]: any[] } =
+    copyRoleMap(roomPermissions);
+
+  _roomAccess: { [access: string]: any[] } = copyRoleMap(roomAccess);
+
   /**
    * 房间创建时间
    */
@@ -278,6 +493,13 @@ export class Room extends EventEmitter {
     audioLevelObservers,
     mediasoupWorkers,
     peers,
+    historyStore,
+    auditSink,
+    fileStore,
+    sttEngine,
+    chatHistory,
+    fileHistory,
+    createBreakoutRoom,
   }) {
     logger.info('constructor() [roomId:"%s"]', roomId);
 
@@ -291,6 +513,18 @@ export class Room extends EventEmitter {
       config.roomsUnlocked.length && !config.roomsUnlocked.includes(roomId);
     this._mediasoupRouters = mediasoupRouters;
     this._audioLevelObservers = audioLevelObservers;
+    this._historyStore = historyStore;
+    this._auditSink = auditSink;
+    this._chatHistory = chatHistory;
+    this._fileHistory = fileHistory;
+    this._createBreakoutRoom = createBreakoutRoom;
+    this._whiteboard = new Whiteboard({
+      roomId,
+      canDraw: (peer) => this._canDrawOnWhiteboard(peer),
+      canModerate: (peer) => this._hasPermission(peer, MODERATE_ROOM),
+    });
+    if (fileStore) this._files = new RoomFiles({ roomId, fileStore });
+    if (sttEngine) this._handleCaptions(sttEngine);
     this._handleLobby();
     this._handleAudioLevelObservers();
   }
@@ -299,11 +533,34 @@ export class Room extends EventEmitter {
     return this._locked;
   }
 
-  close() {
+  get lobby() {
+    return this._lobby;
+  }
+
+  get files() {
+    return this._files;
+  }
+
+  /**
+   * Main room of this room if it is a breakout room.
+   */
+  get parentRoom() {
+    return this._parentRoom;
+  }
+
+  /**
+   * Closes the room, resolves once its asynchronous cleanup (recording,
+   * live stream, shared files, transcript) is done.
+   */
+  close(): Promise<void> {
+    if (this._closed) return this._closing;
+
     logger.debug('close()');
 
     this._closed = true;
 
+    const cleanups: Promise<void>[] = [];
+
     this._queue.close();
 
     this._queue = null;
@@ -312,6 +569,34 @@ export class Room extends EventEmitter {
 
     this._selfDestructTimeout = null;
 
+    this._clearMeetingTimers();
+
+    this._waitingPeers.clear();
+
+    if (this._webinarStateTimeout) clearTimeout(this._webinarStateTimeout);
+
+    if (this._reactionBurstTimeout) clearTimeout(this._reactionBurstTimeout);
+
+    for (const poll of this._polls.values()) clearTimeout(poll.closeTimeout);
+
+    if (this._breakoutCloseTimeout) clearTimeout(this._breakoutCloseTimeout);
+
+    for (const breakoutRoom of [...this._breakoutRooms.values()])
+      cleanups.push(breakoutRoom.closeMeeting());
+
+    if (this._files) {
+      cleanups.push(this._files.clear());
+
+      // Their download links are gone with the files
+      if (this._fileHistory.some((file) => file.serverFile)) {
+        this._fileHistory = this._fileHistory.filter(
+          (file) => !file.serverFile
+        );
+
+        this._replaceHistory('file');
+      }
+    }
+
     this._chatHistory = null;
 
     this._fileHistory = null;
@@ -320,6 +605,18 @@ export class Room extends EventEmitter {
 
     this._lobby = null;
 
+    if (this._recorder) cleanups.push(this._stopServerRecording());
+
+    if (this._liveStreamer) cleanups.push(this._stopLiveStream());
+
+    if (this._captions) {
+      cleanups.push(
+        this._captions.close().catch((error) => {
+          logger.error('close() | closing captions failed [error:"%o"]', error);
+        })
+      );
+    }
+
     // Close the peers.
     for (const peer in this._peers) {
       if (!this._peers[peer].closed) this._peers[peer].close();
@@ -327,6 +624,8 @@ export class Room extends EventEmitter {
 
     this._peers = null;
 
+    this._whiteboard.close();
+
     // Close the mediasoup Routers.
     for (const router of this._mediasoupRouters.values()) {
       this._audioLevelObservers.get(router.id).audioLevelObserver.close();
@@ -346,8 +645,12 @@ export class Room extends EventEmitter {
 
     this.endAt = Date.now();
 
+    this._closing = Promise.all(cleanups).then(() => undefined);
+
     // Emit 'close' event.
     this.emit('close');
+
+    return this._closing;
   }
 
   getToken(peerId) {
@@ -392,9 +695,30 @@ export class Room extends EventEmitter {
     if (returning) {
       this._peerJoining(peer, true);
     }
+    // Moved in from the main or a breakout room
+    else if (this._admittedPeers.has(peer.id)) {
+      this._admittedPeers.delete(peer.id);
+
+      this._peerJoining(peer);
+    }
+    // Breakout rooms are entered from their main room, or directly by the
+    // peers that would enter the main room without waiting
+    else if (this._parentRoom && !this._parentRoom._canEnterDirectly(peer)) {
+      this._rejectPeer(peer, 'breakoutNotAdmitted');
+    }
     // Has a role that is allowed to bypass room lock
     else if (this._hasAccess(peer, BYPASS_ROOM_LOCK)) {
       this._peerJoining(peer);
+    }
+    // Hosts of the scheduled meeting join anytime as moderators
+    else if (this._isMeetingHost(peer)) {
+      peer.addRole(userRoles.MODERATOR);
+
+      this._peerJoining(peer);
+    }
+    // Scheduled meeting not started yet
+    else if (!this._isMeetingStarted()) {
+      this._parkWaitingPeer(peer);
     } else if (
       config.maxUsersPerRoom &&
       Object.keys(this._peers).length + this._lobby.peerList().length >=
@@ -410,194 +734,1026 @@ export class Room extends EventEmitter {
     }
   }
 
-  _handleOverRoomLimit(peer) {
-    this._notification(peer.socket, 'overRoomLimit');
-  }
+  /**
+   * Applies the schedule of a meeting to the room: peers wait in the lobby
+   * until the start, are warned before the end and the room is closed at
+   * the end. `null` removes the schedule.
+   */
+  setMeeting(meeting: ScheduledMeeting) {
+    logger.info(
+      'setMeeting() [roomId:"%s", meeting:"%o"]',
+      this._roomId,
+      meeting
+    );
 
-  _handleGuest(peer) {
-    if (config.activateOnHostJoin && !this.checkEmpty()) {
-      this._peerJoining(peer);
-    } else {
-      this._parkPeer(peer);
-      this._notification(peer.socket, 'signInRequired');
-    }
-  }
+    this._clearMeetingTimers();
 
-  _handleLobby() {
-    this._lobby.on('promotePeer', (promotedPeer) => {
-      logger.info('promotePeer() [promotedPeer:"%s"]', promotedPeer.id);
+    this._meeting = meeting;
 
-      const { id } = promotedPeer;
+    // The webinar mode can't change while peers are in the room
+    if (this.checkEmpty()) this._webinar = Boolean(meeting && meeting.webinar);
 
-      this._peerJoining(promotedPeer);
+    if (!this._isMeetingStarted())
+      this._setMeetingTimer(meeting.startAt, () => this._startMeeting());
+    else this._startMeeting();
 
-      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
-        this._notification(peer.socket, 'lobby:promotedPeer', { peerId: id });
+    if (!meeting) return;
+
+    this._setMeetingTimer(
+      meeting.endAt - config.schedule.endWarningMinutes * 60 * 1000,
+      () => {
+        this._notifyPeers('meetingEndingSoon', { endAt: meeting.endAt });
       }
+    );
+
+    this._setMeetingTimer(meeting.endAt, () => {
+      logger.info('scheduled meeting ended [roomId:"%s"]', this._roomId);
+
+      this.closeMeeting();
     });
+  }
 
-    this._lobby.on('peerRolesChanged', (peer) => {
-      // Has a role that is allowed to bypass room lock
-      if (this._hasAccess(peer, BYPASS_ROOM_LOCK)) {
-        this._lobby.promotePeer(peer.id);
+  /**
+   * The server is draining, tells the peers when the room will be closed.
+   */
+  setDraining(deadline: number) {
+    logger.info(
+      'setDraining() [roomId:"%s", deadline:"%s"]',
+      this._roomId,
+      new Date(deadline).toISOString()
+    );
 
-        return;
-      }
+    this._drainDeadline = deadline;
 
-      if (
-        // Has a role that is allowed to bypass lobby
-        !this._locked &&
-        this._hasAccess(peer, BYPASS_LOBBY)
-      ) {
-        this._lobby.promotePeer(peer.id);
+    this._notifyPeers('serverDraining', { timeLeft: deadline - Date.now() });
+  }
 
-        return;
-      }
-    });
+  /**
+   * Only the moderators draw on a locked whiteboard, the operations are
+   * rate limited like the requests.
+   */
+  _canDrawOnWhiteboard(peer: Peer) {
+    if (!peer.joined || this._audience.has(peer.id)) return false;
 
-    this._lobby.on('changeDisplayName', (changedPeer) => {
-      const { id, displayName } = changedPeer;
+    if (this._whiteboard.locked && !this._hasPermission(peer, MODERATE_ROOM))
+      return false;
 
-      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
-        this._notification(peer.socket, 'lobby:changeDisplayName', {
-          peerId: id,
-          displayName,
-        });
-      }
-    });
+    try {
+      peer.checkRateLimit('whiteboard');
+    } catch (error) {
+      return false;
+    }
 
-    this._lobby.on('changePicture', (changedPeer) => {
-      const { id, picture } = changedPeer;
+    return true;
+  }
 
-      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
-        this._notification(peer.socket, 'lobby:changePicture', {
-          peerId: id,
-          picture,
-        });
-      }
+  /**
+   * Audit entry of a moderator or security request, null when the request
+   * isn't audited or the audit log is disabled.
+   */
+  _createAuditEntry(peer: Peer, request): AuditEntry {
+    if (
+      !this._auditSink ||
+      // Malformed requests are rejected by the request handler
+      !request ||
+      typeof request.method !== 'string' ||
+      !(
+        request.method.startsWith('moderator:') ||
+        AUDITED_REQUESTS.includes(request.method)
+      )
+    )
+      return null;
+
+    const auditPeer = (target: Peer): AuditPeer => ({
+      peerId: target.id,
+      authId: target.authId || null,
+      displayName: target.displayName || null,
     });
 
-    this._lobby.on('peerClosed', (closedPeer) => {
-      logger.info('peerClosed() [closedPeer:"%s"]', closedPeer.id);
+    const targetId = request.data && request.data.peerId;
+    let target: AuditPeer = null;
 
-      const { id } = closedPeer;
+    if (targetId) {
+      // Also the lobby peers
+      const targetPeer = this._allPeers && this._allPeers.get(targetId);
 
-      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
-        this._notification(peer.socket, 'lobby:peerClosed', { peerId: id });
-      }
-    });
+      target = targetPeer
+        ? auditPeer(targetPeer)
+        : { peerId: targetId, authId: null, displayName: null };
+    }
 
-    // If nobody left in lobby we should check if room is empty too and initiating
-    // rooms selfdestruction sequence
-    this._lobby.on('lobbyEmpty', () => {
-      if (this.checkEmpty()) {
-        this.selfDestructCountdown();
-      }
-    });
+    return {
+      timestamp: Date.now(),
+      roomId: this._roomId,
+      action: request.method,
+      actor: auditPeer(peer),
+      target,
+      outcome: null,
+    };
   }
 
-  _sendActiveSpeakerInfo() {
-    let peerId = null;
+  _writeAuditEntry(entry: AuditEntry, outcome: AuditOutcome, error?: Error) {
+    if (!entry) return;
 
-    let maxVolume = -1000;
+    entry.outcome = outcome;
 
-    this._audioLevelObservers.forEach((audioLevelObject) => {
-      const tmpPeerId = audioLevelObject.peerId;
+    if (error) entry.error = error.message;
 
-      if (tmpPeerId && audioLevelObject.volume > maxVolume) {
-        maxVolume = audioLevelObject.volume;
-        peerId = tmpPeerId;
-      }
+    this._auditSink.write(entry).catch((writeError) => {
+      logger.error(
+        '_writeAuditEntry() failed [roomId:"%s", error:"%o"]',
+        this._roomId,
+        writeError
+      );
     });
-
-    if (!peerId || Date.now() > this._lastActiveSpeakerUpdateTimestamp + 1000) {
-      if (peerId) {
-        this._lastActiveSpeakerUpdateTimestamp = Date.now();
-      }
-
-      // Notify all Peers.
-      for (const peer of this.getJoinedPeers()) {
-        this._notification(peer.socket, 'activeSpeaker', {
-          peerId: peerId,
-          volume: maxVolume,
-        });
-      }
-    }
   }
 
-  _handleAudioLevelObservers() {
-    this._audioLevelObservers.forEach((audioLevelObject, routerId) => {
-      // Set audioLevelObserver events.
-      audioLevelObject.audioLevelObserver.on('volumes', (volumes) => {
-        const { producer, volume } = volumes[0];
+  _closePoll(poll: Poll) {
+    if (poll.closed) return;
 
-        const audioLevelObj = this._audioLevelObservers.get(routerId);
+    clearTimeout(poll.closeTimeout);
 
-        audioLevelObj.peerId = producer.appData.peerId;
-        audioLevelObj.volume = volume;
-        this._sendActiveSpeakerInfo();
-      });
+    poll.closed = true;
 
-      audioLevelObject.audioLevelObserver.on('silence', () => {
-        const audioLevelObj = this._audioLevelObservers.get(routerId);
+    logger.info(
+      '_closePoll() [roomId:"%s", pollId:"%s"]',
+      this._roomId,
+      poll.id
+    );
 
-        audioLevelObj.peerId = null;
-        audioLevelObj.volume = -1000;
-        this._sendActiveSpeakerInfo();
-      });
-    });
+    this._notifyPeers('poll:updated', { poll: poll.info });
   }
 
-  logStatus() {
+  _isOnStage(peer: Peer) {
+    return (
+      !this._webinar ||
+      this._speakers.has(peer.id) ||
+      peer.roles.some((role) => role.level >= userRoles.PRESENTER.level)
+    );
+  }
+
+  /**
+   * Moves a joined peer between the audience and the stage of the webinar
+   * after its roles or its speaker promotion changed.
+   */
+  _updateStage(peer: Peer) {
+    if (!this._webinar || !peer.joined) return;
+
+    const onStage = this._isOnStage(peer);
+
+    if (onStage === !this._audience.has(peer.id)) return;
+
     logger.info(
-      'logStatus() [room id:"%s", peers:"%s"]',
+      '_updateStage() [roomId:"%s", peerId:"%s", onStage:%s]',
       this._roomId,
-      Object.keys(this._peers).length
+      peer.id,
+      onStage
     );
+
+    if (onStage) {
+      this._audience.delete(peer.id);
+
+      peer.raisedHand = false;
+
+      for (const otherPeer of this.getJoinedPeers(peer)) {
+        this._notification(otherPeer.socket, 'newPeer', peer.peerInfo);
+      }
+    } else {
+      this._audience.add(peer.id);
+
+      // Its consumers are closed with the producers
+      for (const producer of peer.producers.values()) producer.close();
+
+      peer.producers.clear();
+
+      this._notification(peer.socket, 'peerClosed', { peerId: peer.id }, true);
+    }
+
+    this._notification(peer.socket, 'webinar:stage', { onStage });
+
+    this._notifyWebinarState();
   }
 
-  dump() {
+  _getWebinarState(peer: Peer) {
     return {
-      roomId: this._roomId,
-      peers: Object.keys(this._peers).length,
+      audience: this._audience.has(peer.id),
+      audienceCount: this._audience.size,
+      speakers: [...this._speakers],
+      // Only the moderators see the raised hands of the audience
+      raisedHands: this._hasPermission(peer, MODERATE_ROOM)
+        ? [...this._audience]
+            .map((peerId) => this._peers[peerId])
+            .filter((audiencePeer) => audiencePeer && audiencePeer.raisedHand)
+            .map((audiencePeer) => ({
+              id: audiencePeer.id,
+              displayName: audiencePeer.displayName,
+              picture: audiencePeer.picture,
+              raisedHandTimestamp: audiencePeer.raisedHandTimestamp,
+            }))
+        : [],
     };
   }
 
-  get id() {
-    return this._roomId;
-  }
+  /**
+   * Sends the webinar state to the joined peers, at most once per
+   * `WEBINAR_STATE_INTERVAL` to limit the fan-out of large audiences.
+   */
+  _notifyWebinarState() {
+    if (!this._webinar || this._webinarStateTimeout) return;
 
-  selfDestructCountdown() {
-    logger.debug('selfDestructCountdown() started');
+    this._webinarStateTimeout = setTimeout(() => {
+      this._webinarStateTimeout = null;
+
+      if (this._closed) return;
+
+      for (const peer of this.getJoinedPeers()) {
+        this._notification(
+          peer.socket,
+          'webinar:state',
+          this._getWebinarState(peer)
+        );
+      }
+    }, WEBINAR_STATE_INTERVAL);
+  }
+
+  /**
+   * Adds a reaction to the next burst, sent to the joined peers every
+   * `reactions.burstInterval` ms instead of one notification per reaction.
+   */
+  _addReactionToBurst(reaction: string) {
+    this._reactionBurst[reaction] = (this._reactionBurst[reaction] || 0) + 1;
+
+    if (this._reactionBurstTimeout) return;
+
+    this._reactionBurstTimeout = setTimeout(() => {
+      const reactions = this._reactionBurst;
+
+      this._reactionBurst = {};
+      this._reactionBurstTimeout = null;
+
+      if (this._closed) return;
+
+      this._notifyPeers('reactionBurst', { reactions });
+    }, config.reactions.burstInterval);
+  }
+
+  _isMeetingStarted() {
+    return !this._meeting || Date.now() >= this._meeting.startAt;
+  }
+
+  /**
+   * Whether the peer enters this room without waiting in the lobby.
+   */
+  _canEnterDirectly(peer: Peer) {
+    if (this._hasAccess(peer, BYPASS_ROOM_LOCK) || this._isMeetingHost(peer))
+      return true;
+
+    return (
+      this._isMeetingStarted() &&
+      !this._locked &&
+      this._hasAccess(peer, BYPASS_LOBBY)
+    );
+  }
+
+  _rejectPeer(peer: Peer, reason: string) {
+    logger.info('_rejectPeer() [peerId:"%s", reason:"%s"]', peer.id, reason);
+
+    this._notification(peer.socket, 'roomRejected', { reason });
+
+    peer.close();
+  }
+
+  _isMeetingHost(peer: Peer) {
+    return Boolean(
+      this._meeting && peer.authId && this._meeting.hosts.includes(peer.authId)
+    );
+  }
+
+  _parkWaitingPeer(peer: Peer) {
+    this._waitingPeers.set(peer.id, peer);
+
+    peer.once('close', () => this._waitingPeers.delete(peer.id));
+
+    this._parkPeer(peer);
+
+    this._notification(peer.socket, 'meetingNotStarted', {
+      title: this._meeting.title,
+      startAt: this._meeting.startAt,
+    });
+  }
+
+  /**
+   * Lets the waiting peers in, unless the room rules keep them in the lobby.
+   */
+  _startMeeting() {
+    for (const peer of this._waitingPeers.values()) {
+      if (!this._lobby.hasPeer(peer.id)) continue;
+
+      this._notification(peer.socket, 'meetingStarted');
+
+      if (!this._locked && this._hasAccess(peer, BYPASS_LOBBY))
+        this._lobby.promotePeer(peer.id);
+    }
+
+    this._waitingPeers.clear();
+  }
+
+  _setMeetingTimer(at: number, callback: () => void) {
+    const delay = at - Date.now();
+
+    if (delay <= 0) return;
+
+    this._meetingTimers.push(
+      setTimeout(() => {
+        if (Date.now() < at) this._setMeetingTimer(at, callback);
+        else callback();
+      }, Math.min(delay, MAX_TIMEOUT))
+    );
+  }
+
+  _clearMeetingTimers() {
+    this._meetingTimers.forEach((timer) => clearTimeout(timer));
+
+    this._meetingTimers = [];
+  }
+
+  _handleOverRoomLimit(peer) {
+    this._notification(peer.socket, 'overRoomLimit');
+  }
+
+  _handleGuest(peer) {
+    if (config.activateOnHostJoin && !this.checkEmpty()) {
+      this._peerJoining(peer);
+    } else {
+      this._parkPeer(peer);
+      this._notification(peer.socket, 'signInRequired');
+    }
+  }
+
+  _handleLobby() {
+    this._lobby.on('promotePeer', (promotedPeer) => {
+      logger.info('promotePeer() [promotedPeer:"%s"]', promotedPeer.id);
+
+      const { id } = promotedPeer;
+
+      this._peerJoining(promotedPeer);
+
+      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
+        this._notification(peer.socket, 'lobby:promotedPeer', { peerId: id });
+      }
+    });
+
+    this._lobby.on('peerRolesChanged', (peer) => {
+      // Has a role that is allowed to bypass room lock
+      if (this._hasAccess(peer, BYPASS_ROOM_LOCK)) {
+        this._lobby.promotePeer(peer.id);
+
+        return;
+      }
+
+      if (
+        // Has a role that is allowed to bypass lobby
+        !this._locked &&
+        this._hasAccess(peer, BYPASS_LOBBY)
+      ) {
+        this._lobby.promotePeer(peer.id);
+
+        return;
+      }
+    });
+
+    this._lobby.on('changeDisplayName', (changedPeer) => {
+      const { id, displayName } = changedPeer;
+
+      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
+        this._notification(peer.socket, 'lobby:changeDisplayName', {
+          peerId: id,
+          displayName,
+        });
+      }
+    });
+
+    this._lobby.on('changePicture', (changedPeer) => {
+      const { id, picture } = changedPeer;
+
+      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
+        this._notification(peer.socket, 'lobby:changePicture', {
+          peerId: id,
+          picture,
+        });
+      }
+    });
+
+    this._lobby.on('peerClosed', (closedPeer) => {
+      logger.info('peerClosed() [closedPeer:"%s"]', closedPeer.id);
+
+      const { id } = closedPeer;
+
+      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
+        this._notification(peer.socket, 'lobby:peerClosed', { peerId: id });
+      }
+    });
+
+    // If nobody left in lobby we should check if room is empty too and initiating
+    // rooms selfdestruction sequence
+    this._lobby.on('lobbyEmpty', () => {
+      if (this.checkEmpty()) {
+        this.selfDestructCountdown();
+      }
+    });
+  }
+
+  _sendActiveSpeakerInfo() {
+    let peerId = null;
+
+    let maxVolume = -1000;
+
+    this._audioLevelObservers.forEach((audioLevelObject) => {
+      const tmpPeerId = audioLevelObject.peerId;
+
+      if (tmpPeerId && audioLevelObject.volume > maxVolume) {
+        maxVolume = audioLevelObject.volume;
+        peerId = tmpPeerId;
+      }
+    });
+
+    if (!peerId || Date.now() > this._lastActiveSpeakerUpdateTimestamp + 1000) {
+      if (peerId) {
+        this._lastActiveSpeakerUpdateTimestamp = Date.now();
+
+        // Move the active speaker to the front of lastN
+        if (this._lastN[0] !== peerId && this._lastN.includes(peerId)) {
+          this._lastN = [peerId, ...this._lastN.filter((id) => id !== peerId)];
+
+          this._updateSpotlights();
+        }
+      }
+
+      // Notify all Peers.
+      for (const peer of this.getJoinedPeers()) {
+        this._notification(peer.socket, 'activeSpeaker', {
+          peerId: peerId,
+          volume: maxVolume,
+        });
+      }
+    }
+  }
+
+  _handleCaptions(sttEngine: SttEngine) {
+    this._captions = new RoomCaptions({
+      roomId: this._roomId,
+      engine: sttEngine,
+    });
+
+    this._captions.on('caption', (segment) =>
+      this._notifyPeers('caption', segment)
+    );
+  }
+
+  _handleAudioLevelObservers() {
+    this._audioLevelObservers.forEach((audioLevelObject, routerId) =>
+      this._handleAudioLevelObserver(audioLevelObject, routerId)
+    );
+  }
+
+  _handleAudioLevelObserver(audioLevelObject, routerId) {
+    // Set audioLevelObserver events.
+    audioLevelObject.audioLevelObserver.on('volumes', (volumes) => {
+      const { producer, volume } = volumes[0];
+
+      const audioLevelObj = this._audioLevelObservers.get(routerId);
+
+      audioLevelObj.peerId = producer.appData.peerId;
+      audioLevelObj.volume = volume;
+      this._sendActiveSpeakerInfo();
+    });
+
+    audioLevelObject.audioLevelObserver.on('silence', () => {
+      const audioLevelObj = this._audioLevelObservers.get(routerId);
+
+      audioLevelObj.peerId = null;
+      audioLevelObj.volume = -1000;
+      this._sendActiveSpeakerInfo();
+    });
+  }
+
+  /**
+   * Called when a mediasoup Worker died and was replaced by `worker`. The
+   * closed routers of the room are dropped, a router is created on the new
+   * Worker and the peers of the closed routers are moved to a healthy one,
+   * they are asked to recreate their transports.
+   */
+  async replaceWorker(worker: mediasoup.types.Worker) {
+    if (this._closed) return;
+
+    await this._queue.push(async () => {
+      if (this._closed) return;
+
+      const closedRouterIds = [...this._mediasoupRouters.values()]
+        .filter((router) => router.closed)
+        .map((router) => router.id);
+
+      for (const routerId of closedRouterIds) {
+        this._mediasoupRouters.delete(routerId);
+        this._audioLevelObservers.delete(routerId);
+      }
+
+      const hasRouterOnWorker = [...worker.appData.routers.keys()].some(
+        (routerId) => this._mediasoupRouters.has(routerId)
+      );
+
+      if (!hasRouterOnWorker) {
+        const { router, audioLevelObject } = await createRouter(worker);
+
+        this._mediasoupRouters.set(router.id, router);
+        this._audioLevelObservers.set(router.id, audioLevelObject);
+        this._handleAudioLevelObserver(audioLevelObject, router.id);
+      }
+
+      // The ingested sources send to the transports of the closed router
+      for (const peer of Object.values(this._peers) as Peer[]) {
+        if (peer.ingest && closedRouterIds.includes(peer.routerId))
+          peer.close();
+      }
+
+      const movedPeers = Object.values(this._peers).filter((peer: Peer) =>
+        closedRouterIds.includes(peer.routerId)
+      ) as Peer[];
+
+      // Their transports, and so producers and consumers, died with the
+      // router.
+      for (const peer of movedPeers) {
+        peer.routerId = null;
+
+        for (const [id, transport] of peer.transports) {
+          if (transport.closed) peer.removeTransport(id);
+        }
+
+        for (const [id, producer] of peer.producers) {
+          if (producer.closed) peer.removeProducer(id);
+        }
+      }
+
+      for (const peer of movedPeers) {
+        peer.routerId = await this._getRouterId();
+
+        logger.info(
+          'replaceWorker() | peer moved [roomId:"%s", peerId:"%s", routerId:"%s"]',
+          this._roomId,
+          peer.id,
+          peer.routerId
+        );
+
+        peer.recreatingTransports = true;
+
+        this._notification(peer.socket, 'recreateTransports');
+      }
+    });
+  }
+
+  logStatus() {
+    logger.info(
+      'logStatus() [room id:"%s", peers:"%s"]',
+      this._roomId,
+      Object.keys(this._peers).length
+    );
+  }
+
+  dump() {
+    return {
+      roomId: this._roomId,
+      peers: Object.keys(this._peers).length,
+    };
+  }
+
+  get id() {
+    return this._roomId;
+  }
+
+  selfDestructCountdown() {
+    logger.debug('selfDestructCountdown() started');
 
     if (this._selfDestructTimeout) clearTimeout(this._selfDestructTimeout);
 
-    this._selfDestructTimeout = setTimeout(() => {
-      if (this._closed) return;
+    this._selfDestructTimeout = setTimeout(() => {
+      if (this._closed) return;
+
+      // Everybody may be in the breakout rooms
+      if (this._breakoutRooms.size > 0) {
+        logger.debug('selfDestructCountdown() aborted; breakout rooms open');
+
+        return;
+      }
+
+      if (this.checkEmpty() && this._lobby.checkEmpty()) {
+        logger.info(
+          'Room deserted for some time, closing the room [roomId:"%s"]',
+          this._roomId
+        );
+        this.close();
+      } else if (
+        this.checkEmpty() &&
+        !this._lobby.checkEmpty() &&
+        this.isLocked()
+      ) {
+        logger.info(
+          'Room deserted for some time, closing the room [roomId:"%s"] and kick peers from the lobby',
+          this._roomId
+        );
+        this.close();
+      } else
+        logger.debug('selfDestructCountdown() aborted; room is not empty!');
+    }, 10000);
+  }
+
+  // The ingested sources do not keep the room open.
+  checkEmpty() {
+    return Object.values<Peer>(this._peers).every((peer) => peer.ingest);
+  }
+
+  hasPeer(peerId) {
+    return Boolean(this._peers[peerId]);
+  }
+
+  hasLobbyPeer(peerId) {
+    return this._lobby.hasPeer(peerId);
+  }
+
+  /**
+   * 房间内成员详情, 包含角色与媒体流
+   */
+  getPeersInfo() {
+    return this.getJoinedPeers().map((peer) => ({
+      ...peer.peerInfo,
+      roles: peer.roles.map(({ id, label, level }) => ({ id, label, level })),
+      producers: [...peer.producers.values()].map((producer) => ({
+        id: producer.id,
+        kind: producer.kind,
+        source: producer.appData.source,
+        paused: producer.paused,
+      })),
+    }));
+  }
+
+  getLobbyPeersInfo() {
+    return this._lobby.peerList();
+  }
+
+  lock() {
+    this._locked = true;
+
+    this._notifyPeers('lockRoom', { peerId: null });
+  }
+
+  unlock() {
+    this._locked = false;
+
+    this._notifyPeers('unlockRoom', { peerId: null });
+  }
+
+  setAccessCode(accessCode: string) {
+    this._accessCode = accessCode;
+
+    this._notifyPeers('setAccessCode', { peerId: null, accessCode });
+  }
+
+  get permissions() {
+    return this._roomPermissions;
+  }
+
+  /**
+   * Gives a permission of this room to the given roles (ids or labels)
+   * only, and tells the peers.
+   */
+  setPermission(permission: string, roles: (number | string)[]) {
+    if (
+      !Object.prototype.hasOwnProperty.call(this._roomPermissions, permission)
+    )
+      throw new Error(`unknown permission "${permission}"`);
+
+    if (!Array.isArray(roles)) throw new Error('"roles" must be an array');
+
+    const permissionRoles = roles.map((idOrLabel) => {
+      const role = findRole(idOrLabel);
+
+      if (!role) throw new Error(`unknown role "${idOrLabel}"`);
+
+      return role;
+    });
+
+    logger.info(
+      'setPermission() [roomId:"%s", permission:"%s", roles:"%o"]',
+      this._roomId,
+      permission,
+      permissionRoles.map(({ label }) => label)
+    );
+
+    this._roomPermissions[permission] = permissionRoles;
+
+    this._notifyPermissions(permission);
+  }
+
+  /**
+   * Restores the permissions of the configuration.
+   */
+  resetPermissions() {
+    this._roomPermissions = copyRoleMap(roomPermissions);
+
+    this._notifyPermissions(PROMOTE_PEER);
+  }
+
+  _notifyPermissions(changedPermission: string) {
+    this._notifyPeers('roomPermissions', {
+      roomPermissions: this._roomPermissions,
+    });
+
+    // Peers allowed to promote now need the lobby
+    if (changedPermission === PROMOTE_PEER && !this._lobby.checkEmpty()) {
+      const lobbyPeers = this._lobby.peerList();
+
+      for (const peer of this._getAllowedPeers(PROMOTE_PEER)) {
+        this._notification(peer.socket, 'parkedPeers', { lobbyPeers });
+      }
+    }
+  }
+
+  kickPeer(peerId) {
+    const kickPeer = this._peers[peerId];
+
+    if (!kickPeer) throw new Error(`peer with id "${peerId}" not found`);
+
+    this._notification(kickPeer.socket, 'moderator:kick');
+
+    kickPeer.close();
+  }
+
+  /**
+   * Brings an external RTP source into the room as a participant without
+   * socket, the peers receive its producers like the ones of a browser.
+   *
+   * Resolves with the endpoints the source sends its streams to.
+   */
+  async addIngest({
+    displayName,
+    audio = true,
+    video = true,
+    videoCodec = 'vp8',
+  }: {
+    displayName: string;
+    audio?: boolean;
+    video?: boolean;
+    videoCodec?: IngestVideoCodec;
+  }): Promise<{ peerId: string; endpoints: IngestEndpoint[] }> {
+    if (this._closed) throw new Error('room closed');
+
+    if (
+      this.getJoinedPeers().filter((peer) => peer.ingest).length >=
+      config.ingest.maxSources
+    )
+      throw new Error('too many ingested sources');
+
+    const peer = new Peer({
+      id: `ingest-${uuidv4()}`,
+      roomId: this._roomId,
+      socket: null,
+    });
+
+    peer.ingest = true;
+    peer.displayName = displayName;
+    peer.routerId = await this._getRouterId();
+
+    if (this._closed) throw new Error('room closed');
+
+    const router = this._mediasoupRouters.get(peer.routerId);
+    const producers: mediasoup.types.Producer[] = [];
+    const endpoints: IngestEndpoint[] = [];
+
+    try {
+      for (const kind of ['audio', 'video'] as mediasoup.types.MediaKind[]) {
+        if (kind === 'audio' ? !audio : !video) continue;
+
+        const { transport, producer, endpoint } = await createIngestProducer({
+          router,
+          kind,
+          videoCodec,
+          appData: {
+            source: kind === 'audio' ? 'mic' : 'webcam',
+            peerId: peer.id,
+          },
+        });
+
+        peer.addTransport(transport.id, transport);
+        producers.push(producer);
+        endpoints.push(endpoint);
+
+        if (this._closed) throw new Error('room closed');
+      }
+    } catch (error) {
+      peer.close();
 
-      if (this.checkEmpty() && this._lobby.checkEmpty()) {
-        logger.info(
-          'Room deserted for some time, closing the room [roomId:"%s"]',
-          this._roomId
-        );
-        this.close();
-      } else if (
-        this.checkEmpty() &&
-        !this._lobby.checkEmpty() &&
-        this.isLocked()
-      ) {
-        logger.info(
-          'Room deserted for some time, closing the room [roomId:"%s"] and kick peers from the lobby',
-          this._roomId
-        );
-        this.close();
-      } else
-        logger.debug('selfDestructCountdown() aborted; room is not empty!');
-    }, 10000);
+      throw error;
+    }
+
+    logger.info(
+      'addIngest() [roomId:"%s", peerId:"%s", displayName:"%s"]',
+      this._roomId,
+      peer.id,
+      displayName
+    );
+
+    this._peers[peer.id] = peer;
+    this._lastN.push(peer.id);
+
+    peer.on('close', () => {
+      this._handlePeerClose(peer);
+    });
+
+    peer.joined = true;
+
+    this.emit('peerJoined', peer);
+
+    this._notifyPeers('newPeer', { ...peer.peerInfo, returning: false });
+
+    for (const producer of producers) await this._addProducer(peer, producer);
+
+    return { peerId: peer.id, endpoints };
   }
 
-  checkEmpty() {
-    return Object.keys(this._peers).length === 0;
+  /**
+   * Removes an ingested source, false if there is none with this id.
+   */
+  removeIngest(peerId: string) {
+    const peer = this._peers[peerId];
+
+    if (!peer || !peer.ingest) return false;
+
+    peer.close();
+
+    return true;
+  }
+
+  muteAll() {
+    this._notifyPeers('moderator:mute');
+  }
+
+  closeMeeting() {
+    this._notifyPeers('moderator:kick');
+
+    return this.close();
+  }
+
+  /**
+   * Creates breakout rooms, when `random` is set the joined peers
+   * (moderators excepted) are spread over them.
+   */
+  async createBreakoutRooms({
+    count,
+    random = false,
+  }: {
+    count: number;
+    random?: boolean;
+  }) {
+    const breakoutRooms: Room[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const index = ++this._breakoutIndex;
+      // Unique, a user may have opened a room with any other id
+      const breakoutRoom = await this._createBreakoutRoom(
+        `${this._roomId}-breakout-${uuidv4()}`
+      );
+
+      breakoutRoom._parentRoom = this;
+      breakoutRoom._breakoutName = String(index);
+      breakoutRoom._roomPermissions = copyRoleMap(this._roomPermissions);
+
+      this._breakoutRooms.set(breakoutRoom.id, breakoutRoom);
+
+      breakoutRoom.on('peerJoined', () => this._notifyBreakoutRooms());
+      breakoutRoom.on('peerLeft', () => this._notifyBreakoutRooms());
+      breakoutRoom.on('close', () => {
+        this._breakoutRooms.delete(breakoutRoom.id);
+
+        if (this._closed) return;
+
+        this._notifyBreakoutRooms();
+
+        if (this._breakoutRooms.size === 0 && this.checkEmpty())
+          this.selfDestructCountdown();
+      });
+
+      breakoutRooms.push(breakoutRoom);
+    }
+
+    if (random) {
+      const peers = this.getJoinedPeers().filter(
+        (peer) => !peer.ingest && !this._hasPermission(peer, MODERATE_ROOM)
+      );
+
+      shuffle(peers).forEach((peer, i) =>
+        this._movePeer(peer, breakoutRooms[i % breakoutRooms.length])
+      );
+    }
+
+    this._notifyBreakoutRooms();
+  }
+
+  /**
+   * Moves a peer of the main room or of a breakout room to another of them.
+   */
+  moveBreakoutPeer(peerId: string, roomId: string) {
+    const rooms = [this, ...this._breakoutRooms.values()];
+    const source = rooms.find((room) => room.hasPeer(peerId));
+    const target = rooms.find((room) => room.id === roomId);
+
+    if (!source) throw new Error(`peer with id "${peerId}" not found`);
+
+    if (!target) throw new Error(`room with id "${roomId}" not found`);
+
+    if (source._peers[peerId].ingest)
+      throw new Error('an ingested source cannot be moved');
+
+    if (source !== target) source._movePeer(source._peers[peerId], target);
+  }
+
+  broadcastToBreakoutRooms(peer: Peer, text: string) {
+    for (const breakoutRoom of this._breakoutRooms.values()) {
+      breakoutRoom._notifyPeers('breakout:broadcast', {
+        displayName: peer.displayName,
+        text,
+      });
+    }
+  }
+
+  /**
+   * Brings everybody back to the main room after `countdown` seconds and
+   * closes the breakout rooms.
+   */
+  closeBreakoutRooms(countdown: number) {
+    countdown = Math.min(countdown, MAX_BREAKOUT_CLOSE_COUNTDOWN);
+
+    if (this._breakoutCloseTimeout) clearTimeout(this._breakoutCloseTimeout);
+
+    for (const breakoutRoom of this._breakoutRooms.values())
+      breakoutRoom._notifyPeers('breakout:closing', { countdown });
+
+    this._breakoutCloseTimeout = setTimeout(() => {
+      this._breakoutCloseTimeout = null;
+
+      for (const breakoutRoom of [...this._breakoutRooms.values()]) {
+        for (const peer of breakoutRoom.getJoinedPeers())
+          breakoutRoom._movePeer(peer, this);
+
+        breakoutRoom.close();
+      }
+    }, countdown * 1000);
+  }
+
+  _getBreakoutRoomsInfo() {
+    return [...this._breakoutRooms.values()].map((breakoutRoom) => ({
+      id: breakoutRoom.id,
+      name: breakoutRoom._breakoutName,
+      peers: breakoutRoom.getJoinedPeers().map((peer) => ({
+        id: peer.id,
+        displayName: peer.displayName,
+      })),
+    }));
+  }
+
+  _notifyBreakoutRooms() {
+    for (const peer of this._getAllowedPeers(MODERATE_ROOM)) {
+      this._notification(peer.socket, 'breakout:rooms', {
+        rooms: this._getBreakoutRoomsInfo(),
+      });
+    }
+  }
+
+  /**
+   * Sends the peer to another room, the client reconnects to it.
+   */
+  _movePeer(peer: Peer, target: Room) {
+    logger.info(
+      '_movePeer() [peerId:"%s", from:"%s", to:"%s"]',
+      peer.id,
+      this._roomId,
+      target.id
+    );
+
+    target._admittedPeers.add(peer.id);
+
+    this._notification(peer.socket, 'breakout:move', {
+      roomId: target.id,
+      name: target._breakoutName,
+    });
+
+    peer.close();
+  }
+
+  /**
+   * Promotes a lobby peer, or all of them if no peerId is given.
+   */
+  promoteLobbyPeers(peerId?: string) {
+    if (peerId) this._lobby.promotePeer(peerId);
+    else this._lobby.promoteAllPeers();
   }
 
   _parkPeer(parkPeer) {
@@ -624,7 +1780,9 @@ export class Room extends EventEmitter {
         this._handlePeer(peer);
 
         if (returning) {
-          this._notification(peer.socket, 'roomBack');
+          this._notification(peer.socket, 'roomBack', {
+            webinarAudience: !this._isOnStage(peer),
+          });
         } else {
           const token = jwt.sign({ id: peer.id }, this._uuid, {
             noTimestamp: true,
@@ -666,7 +1824,10 @@ export class Room extends EventEmitter {
             turnServers = config.backupTurnServers;
           }
 
-          this._notification(peer.socket, 'roomReady', { turnServers });
+          this._notification(peer.socket, 'roomReady', {
+            turnServers,
+            webinarAudience: !this._isOnStage(peer),
+          });
 
           if (
             config.activateOnHostJoin &&
@@ -741,9 +1902,17 @@ export class Room extends EventEmitter {
         true
       );
 
+      this.emit('gotRole', { peer, role: newRole });
+
+      this._updateStage(peer);
+
       // Got permission to promote peers, notify peer of
       // peers in lobby
-      if (roomPermissions.PROMOTE_PEER.some((role) => role.id === newRole.id)) {
+      if (
+        this._roomPermissions[PROMOTE_PEER].some(
+          (role) => role.id === newRole.id
+        )
+      ) {
         const lobbyPeers = this._lobby.peerList();
 
         lobbyPeers.length > 0 &&
@@ -768,24 +1937,41 @@ export class Room extends EventEmitter {
         true,
         true
       );
+
+      this.emit('lostRole', { peer, role: oldRole });
+
+      this._updateStage(peer);
     });
 
     peer.socket.on('request', (request, cb) => {
       logger.debug(
         'Peer "request" event [method:"%s", peerId:"%s"]',
-        request.method,
+        request && request.method,
         peer.id
       );
 
-      this._handleSocketRequest(peer, request, cb).catch((error) => {
-        logger.error('"request" failed [error:"%o"]', error);
+      // Taken before the request, a kicked target is gone afterwards
+      const auditEntry = this._createAuditEntry(peer, request);
 
-        if (error instanceof NotFoundInMediasoupError) {
-          cb({ notFoundInMediasoupError: true });
-        } else {
-          cb(error);
-        }
-      });
+      this._handleSocketRequest(peer, request, cb)
+        .then(() => this._writeAuditEntry(auditEntry, 'success'))
+        .catch((error) => {
+          this._writeAuditEntry(
+            auditEntry,
+            error.message === 'peer not authorized' ? 'denied' : 'error',
+            error
+          );
+
+          logger.error('"request" failed [error:"%o"]', error);
+
+          if (error instanceof NotFoundInMediasoupError) {
+            cb({ notFoundInMediasoupError: true });
+          } else if (error instanceof RateLimitedError) {
+            cb(error.toResponse());
+          } else {
+            cb(error);
+          }
+        });
     });
 
     // Peer left before we were done joining
@@ -798,19 +1984,40 @@ export class Room extends EventEmitter {
     if (this._closed) return;
 
     // If the Peer was joined, notify all Peers.
-    if (peer.joined)
-      this._notification(peer.socket, 'peerClosed', { peerId: peer.id }, true);
+    if (peer.joined) {
+      // The audience was never announced
+      if (!this._audience.has(peer.id))
+        this._notification(
+          peer.socket,
+          'peerClosed',
+          { peerId: peer.id },
+          true
+        );
+
+      this.emit('peerLeft', peer);
+    }
+
+    if (this._webinar) {
+      this._audience.delete(peer.id);
+      this._speakers.delete(peer.id);
+
+      this._notifyWebinarState();
+    }
 
     // Remove from lastN
     this._lastN = this._lastN.filter((id) => id !== peer.id);
 
     // Need this to know if this peer was the last with PROMOTE_PEER
     const hasPromotePeer = peer.roles.some((role) =>
-      roomPermissions[PROMOTE_PEER].some((roomRole) => role.id === roomRole.id)
+      this._roomPermissions[PROMOTE_PEER].some(
+        (roomRole) => role.id === roomRole.id
+      )
     );
 
     delete this._peers[peer.id];
 
+    this._updateSpotlights();
+
     // No peers left with PROMOTE_PEER, might need to give
     // lobbyPeers to peers that are left.
     if (
@@ -843,6 +2050,8 @@ export class Room extends EventEmitter {
   }
 
   async _handleSocketRequest(peer: Peer, request, cb) {
+    peer.checkRateLimit(request.method);
+
     const router = this._mediasoupRouters.get(peer.routerId);
 
     switch (request.method) {
@@ -866,13 +2075,25 @@ export class Room extends EventEmitter {
         peer.picture = picture;
         peer.from = from;
         peer.rtpCapabilities = rtpCapabilities;
+        peer.lastN = {
+          size: config.lastN.size,
+          pinnedPeerIds: [],
+          videoOnly: false,
+        };
 
         // Tell the new Peer about already joined Peers.
         // And also create Consumers for existing Producers.
 
         const joinedPeers = this.getJoinedPeers(peer);
 
-        const peerInfos = joinedPeers.map((joinedPeer) => joinedPeer.peerInfo);
+        // In a webinar only the peers on stage are listed
+        const peerInfos = joinedPeers
+          .filter((joinedPeer) => !this._audience.has(joinedPeer.id))
+          .map((joinedPeer) => joinedPeer.peerInfo);
+
+        const audience = !this._isOnStage(peer);
+
+        if (audience) this._audience.add(peer.id);
 
         let lobbyPeers = [];
 
@@ -885,7 +2106,7 @@ export class Room extends EventEmitter {
           peers: peerInfos,
           tracker: config.fileTracker,
           authenticated: peer.authenticated,
-          roomPermissions: roomPermissions,
+          roomPermissions: this._roomPermissions,
           userRoles: userRoles,
           allowWhenRoleMissing: roomAllowWhenRoleMissing,
           chatHistory: this._chatHistory,
@@ -894,11 +2115,27 @@ export class Room extends EventEmitter {
           locked: this._locked,
           lobbyPeers,
           accessCode: this._accessCode,
+          serverRecordingEnabled: config.recording.enabled,
+          serverRecording: Boolean(this._recorder),
+          liveStreamOutputs: getLiveStreamOutputs(),
+          liveStream: this._liveStreamer && this._liveStreamer.status,
+          breakoutRooms: this._getBreakoutRoomsInfo(),
+          parentRoomId: this._parentRoom && this._parentRoom.id,
+          breakoutName: this._breakoutName,
+          serverLastN: config.lastN.enabled,
+          webinar: this._webinar ? this._getWebinarState(peer) : null,
+          polls: [...this._polls.values()].map((poll) => poll.getInfo(peer.id)),
+          fileSharing: this._files ? this._files.options : null,
+          captions: Boolean(this._captions),
         });
 
         // Mark the new Peer as joined.
         peer.joined = true;
 
+        this._updateSpotlights();
+
+        this.emit('peerJoined', peer);
+
         for (const joinedPeer of joinedPeers) {
           // Create Consumers for existing Producers.
           for (const producer of joinedPeer.producers.values()) {
@@ -910,14 +2147,23 @@ export class Room extends EventEmitter {
           }
         }
 
-        // Notify the new Peer to all other Peers.
-        for (const otherPeer of this.getJoinedPeers(peer)) {
-          this._notification(otherPeer.socket, 'newPeer', {
-            ...peer.peerInfo,
-            returning,
-          });
+        // Notify the new Peer to all other Peers, the audience is only
+        // counted.
+        if (audience) this._notifyWebinarState();
+        else {
+          for (const otherPeer of this.getJoinedPeers(peer)) {
+            this._notification(otherPeer.socket, 'newPeer', {
+              ...peer.peerInfo,
+              returning,
+            });
+          }
         }
 
+        if (this._drainDeadline)
+          this._notification(peer.socket, 'serverDraining', {
+            timeLeft: this._drainDeadline - Date.now(),
+          });
+
         logger.debug(
           'peer joined [peer: "%s", displayName: "%s", picture: "%s"]',
           peer.id,
@@ -932,10 +2178,19 @@ export class Room extends EventEmitter {
         // NOTE: Don't require that the Peer is joined here, so the client can
         // initiate mediasoup Transports and be ready when he later joins.
 
-        const { forceTcp, producing, consuming } = request.data;
+        const { forceTcp, producing, consuming, sctpCapabilities } =
+          request.data;
+
+        if (producing && !this._isOnStage(peer))
+          throw new Error('peer not authorized');
 
+        // SCTP for the data channels of the whiteboard
         const webRtcTransportOptions = {
           ...config.mediasoup.webRtcTransport,
+          enableSctp: Boolean(sctpCapabilities),
+          numSctpStreams: sctpCapabilities
+            ? sctpCapabilities.numStreams
+            : undefined,
           appData: { producing, consuming },
         };
 
@@ -967,6 +2222,7 @@ export class Room extends EventEmitter {
           iceParameters: transport.iceParameters,
           iceCandidates: transport.iceCandidates,
           dtlsParameters: transport.dtlsParameters,
+          sctpParameters: transport.sctpParameters,
         });
 
         const { maxIncomingBitrate } = config.mediasoup.webRtcTransport;
@@ -986,17 +2242,154 @@ export class Room extends EventEmitter {
           }
         }
 
-        break;
-      }
-
-      case 'connectWebRtcTransport': {
-        const { transportId, dtlsParameters } = request.data;
-        const transport = peer.getTransport(transportId);
-
-        if (!transport)
-          throw new Error(`transport with id "${transportId}" not found`);
-
-        await transport.connect({ dtlsParameters });
+        break;
+      }
+
+      case 'connectWebRtcTransport': {
+        const { transportId, dtlsParameters } = request.data;
+        const transport = peer.getTransport(transportId);
+
+        if (!transport)
+          throw new Error(`transport with id "${transportId}" not found`);
+
+        await transport.connect({ dtlsParameters });
+
+        cb();
+
+        break;
+      }
+
+      case 'produceData': {
+        // Ensure the Peer is joined.
+        if (!peer.joined) throw new Error('Peer not yet joined');
+
+        if (this._audience.has(peer.id)) throw new Error('peer not authorized');
+
+        const { transportId, sctpStreamParameters, label, protocol } =
+          request.data;
+
+        if (label !== WHITEBOARD_LABEL)
+          throw new Error(`invalid data producer label "${label}"`);
+
+        const transport = peer.getTransport(transportId);
+
+        if (!transport)
+          throw new Error(`transport with id "${transportId}" not found`);
+
+        const dataProducer = await transport.produceData({
+          sctpStreamParameters,
+          label,
+          protocol,
+          appData: { peerId: peer.id },
+        });
+
+        await this._whiteboard.addDataProducer({ router, peer, dataProducer });
+
+        cb(null, { id: dataProducer.id });
+
+        break;
+      }
+
+      case 'consumeData': {
+        // Ensure the Peer is joined.
+        if (!peer.joined) throw new Error('Peer not yet joined');
+
+        const { transportId, label } = request.data;
+
+        if (label !== WHITEBOARD_LABEL)
+          throw new Error(`invalid data consumer label "${label}"`);
+
+        const transport = peer.getTransport(transportId);
+
+        if (!transport)
+          throw new Error(`transport with id "${transportId}" not found`);
+
+        const dataConsumer = await this._whiteboard.consume({
+          router,
+          transport,
+        });
+
+        cb(null, {
+          id: dataConsumer.id,
+          dataProducerId: dataConsumer.dataProducerId,
+          sctpStreamParameters: dataConsumer.sctpStreamParameters,
+          label: dataConsumer.label,
+          protocol: dataConsumer.protocol,
+        });
+
+        break;
+      }
+
+      case 'getWhiteboard': {
+        // Ensure the Peer is joined.
+        if (!peer.joined) throw new Error('Peer not yet joined');
+
+        cb(null, this._whiteboard.snapshot);
+
+        break;
+      }
+
+      case 'moderator:clearWhiteboard': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        this._whiteboard.clear();
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:lockWhiteboard': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        const { locked } = request.data;
+
+        this._whiteboard.locked = Boolean(locked);
+
+        this._notifyPeers('whiteboard:locked', { locked: Boolean(locked) });
+
+        cb();
+
+        break;
+      }
+
+      case 'restoreConsumers': {
+        // Ensure the Peer is joined.
+        if (!peer.joined) throw new Error('Peer not yet joined');
+
+        // Only after the server asked the Peer to recreate its transports
+        if (!peer.recreatingTransports)
+          throw new Error('transports not being recreated');
+
+        peer.recreatingTransports = false;
+
+        const consumedProducerIds = new Set(
+          [...peer.consumers.values()]
+            .filter((consumer) => !consumer.closed)
+            .map((consumer) => consumer.producerId)
+        );
+
+        // Create Consumers for the existing Producers after the Peer
+        // recreated its transports.
+        const consumers = [];
+
+        for (const joinedPeer of this.getJoinedPeers(peer)) {
+          for (const producer of joinedPeer.producers.values()) {
+            if (consumedProducerIds.has(producer.id)) continue;
+
+            consumers.push(
+              this._createConsumer({
+                consumerPeer: peer,
+                producerPeer: joinedPeer,
+                producer,
+              })
+            );
+          }
+        }
+
+        await Promise.all(consumers);
 
         cb();
 
@@ -1050,6 +2443,8 @@ export class Room extends EventEmitter {
         // Ensure the Peer is joined.
         if (!peer.joined) throw new Error('Peer not yet joined');
 
+        if (this._audience.has(peer.id)) throw new Error('peer not authorized');
+
         const { transportId, kind, rtpParameters } = request.data;
         const transport = peer.getTransport(transportId);
 
@@ -1076,64 +2471,10 @@ export class Room extends EventEmitter {
           );
         }
 
-        const pipeRouters = this._getRoutersToPipeTo(peer.routerId);
-
-        for (const [routerId, destinationRouter] of this._mediasoupRouters) {
-          if (pipeRouters.includes(routerId)) {
-            await router.pipeToRouter({
-              producerId: producer.id,
-              router: destinationRouter,
-            });
-          }
-        }
-
-        // Store the Producer into the Peer data Object.
-        peer.addProducer(producer.id, producer);
-
-        // Set Producer events.
-        producer.on('score', (score) => {
-          this._notification(peer.socket, 'producerScore', {
-            producerId: producer.id,
-            score,
-          });
-        });
-
-        producer.on('videoorientationchange', (videoOrientation) => {
-          logger.debug(
-            'producer "videoorientationchange" event [producerId:"%s", videoOrientation:"%o"]',
-            producer.id,
-            videoOrientation
-          );
-        });
+        await this._addProducer(peer, producer);
 
         cb(null, { id: producer.id });
 
-        // Optimization: Create a server-side Consumer for each Peer.
-        for (const otherPeer of this.getJoinedPeers(peer)) {
-          this._createConsumer({
-            consumerPeer: otherPeer,
-            producerPeer: peer,
-            producer,
-          });
-        }
-
-        // Add into the audioLevelObserver.
-        if (kind === 'audio') {
-          this._audioLevelObservers
-            .get(peer.routerId)
-            .audioLevelObserver.addProducer({ producerId: producer.id })
-            .catch((error) => {
-              logger.error(
-                'audioLevelObserver addProducer ERROR [roomId:"%s", peerId:"%s", routerId:"%s", producerId:"%s", error:"%o"]',
-                this._roomId,
-                peer.id,
-                peer.routerId,
-                producer.id,
-                error
-              );
-            });
-        }
-
         break;
       }
 
@@ -1168,6 +2509,8 @@ export class Room extends EventEmitter {
 
         cb();
 
+        if (producer.kind === 'video') this._updateSpotlights();
+
         break;
       }
 
@@ -1185,6 +2528,8 @@ export class Room extends EventEmitter {
 
         cb();
 
+        if (producer.kind === 'video') this._updateSpotlights();
+
         break;
       }
 
@@ -1202,6 +2547,8 @@ export class Room extends EventEmitter {
 
         cb();
 
+        if (producer.kind === 'video') this._updateSpotlights();
+
         break;
       }
 
@@ -1217,6 +2564,8 @@ export class Room extends EventEmitter {
             `consumer with id "${consumerId}" not found`
           );
 
+        consumer.appData.clientPaused = true;
+
         await consumer.pause();
 
         cb();
@@ -1236,7 +2585,34 @@ export class Room extends EventEmitter {
             `consumer with id "${consumerId}" not found`
           );
 
-        await consumer.resume();
+        consumer.appData.clientPaused = false;
+
+        await this._applyForwarding(peer, consumer);
+
+        cb();
+
+        break;
+      }
+
+      case 'setLastN': {
+        // Ensure the Peer is joined.
+        if (!peer.joined) throw new Error('Peer not yet joined');
+
+        const { size, pinnedPeerIds, videoOnly } = request.data;
+
+        if (!Number.isInteger(size) || size < 0)
+          throw new Error('invalid lastN size');
+
+        if (!Array.isArray(pinnedPeerIds))
+          throw new Error('invalid pinned peers');
+
+        peer.lastN = {
+          size: Math.min(size, config.lastN.maxSize),
+          pinnedPeerIds: pinnedPeerIds.map(String),
+          videoOnly: Boolean(videoOnly),
+        };
+
+        this._updateSpotlights();
 
         cb();
 
@@ -1390,9 +2766,59 @@ export class Room extends EventEmitter {
           throw new Error('peer not authorized');
         }
 
-        const { chatMessage } = request.data;
+        const { chatMessage, toPeerIds } = request.data;
+
+        // Referenced by the edits, deletions, reactions and replies
+        chatMessage.id = uuidv4();
+        chatMessage.peerId = peer.id;
+        chatMessage.reactions = {};
+
+        if (typeof chatMessage.replyTo !== 'string') chatMessage.replyTo = null;
+
+        // Private message, only delivered to the target peers
+        if (toPeerIds && toPeerIds.length > 0) {
+          const targetIds: string[] = [...new Set<string>(toPeerIds)];
+
+          // Only the moderators message a group privately
+          if (targetIds.length > 1 && !this._hasPermission(peer, MODERATE_CHAT))
+            throw new Error('peer not authorized');
+
+          const targetPeers = targetIds.map((targetId) => {
+            const targetPeer = this._peers[targetId];
+
+            if (!targetPeer || !targetPeer.joined || targetPeer === peer)
+              throw new Error(`peer with id "${targetId}" not found`);
+
+            return targetPeer;
+          });
+
+          for (const targetPeer of targetPeers) {
+            this._notification(targetPeer.socket, 'chatMessage', {
+              peerId: peer.id,
+              chatMessage,
+              toPeerIds: targetIds,
+            });
+          }
+
+          this._privateMessages.set(chatMessage.id, {
+            chatMessage,
+            peerIds: [peer.id, ...targetIds],
+          });
+
+          if (this._privateMessages.size > config.history.maxEntries) {
+            this._privateMessages.delete(
+              this._privateMessages.keys().next().value
+            );
+          }
+
+          cb(null, { id: chatMessage.id });
+
+          break;
+        }
+
+        this._addHistory('chat', chatMessage);
 
-        this._chatHistory.push(chatMessage);
+        this.emit('chatMessage', { peer, chatMessage });
 
         // Spread to others
         this._notification(
@@ -1406,6 +2832,98 @@ export class Room extends EventEmitter {
         );
 
         // Return no error
+        cb(null, { id: chatMessage.id });
+
+        break;
+      }
+
+      case 'editChatMessage':
+      case 'deleteChatMessage': {
+        if (!this._hasPermission(peer, SEND_CHAT))
+          throw new Error('peer not authorized');
+
+        const { id, text } = request.data;
+        const { chatMessage, peerIds } = this._findChatMessage(peer, id);
+
+        // Own messages, or any message for the chat moderators
+        if (
+          chatMessage.peerId !== peer.id &&
+          !this._hasPermission(peer, MODERATE_CHAT)
+        )
+          throw new Error('peer not authorized');
+
+        if (request.method === 'editChatMessage') {
+          if (
+            typeof text !== 'string' ||
+            !text ||
+            text.length > MAX_CHAT_MESSAGE_LENGTH
+          )
+            throw new Error('invalid chat message text');
+
+          chatMessage.text = text;
+          chatMessage.editedAt = Date.now();
+
+          this._notifyChatMessagePeers(peerIds, 'chatMessageEdited', {
+            id,
+            text,
+            editedAt: chatMessage.editedAt,
+          });
+
+          if (!peerIds) this._updateHistory('chat', chatMessage);
+        } else {
+          this._notifyChatMessagePeers(peerIds, 'chatMessageDeleted', { id });
+
+          if (peerIds) {
+            this._privateMessages.delete(id);
+          } else {
+            this._chatHistory.splice(this._chatHistory.indexOf(chatMessage), 1);
+
+            this._replaceHistory('chat');
+          }
+        }
+
+        cb();
+
+        break;
+      }
+
+      case 'chatReaction': {
+        if (!this._hasPermission(peer, SEND_CHAT))
+          throw new Error('peer not authorized');
+
+        const { id, emoji, reacted } = request.data;
+
+        if (
+          typeof emoji !== 'string' ||
+          !emoji ||
+          emoji.length > MAX_REACTION_LENGTH
+        )
+          throw new Error('invalid reaction');
+
+        const { chatMessage, peerIds: messagePeerIds } = this._findChatMessage(
+          peer,
+          id
+        );
+
+        const reactions = chatMessage.reactions || (chatMessage.reactions = {});
+        const peerIds: string[] = (reactions[emoji] || []).filter(
+          (peerId) => peerId !== peer.id
+        );
+
+        if (reacted) peerIds.push(peer.id);
+
+        if (peerIds.length > 0) reactions[emoji] = peerIds;
+        else delete reactions[emoji];
+
+        this._notifyChatMessagePeers(messagePeerIds, 'chatReaction', {
+          id,
+          emoji,
+          peerId: peer.id,
+          reacted: Boolean(reacted),
+        });
+
+        if (!messagePeerIds) this._updateHistory('chat', chatMessage);
+
         cb();
 
         break;
@@ -1440,85 +2958,264 @@ export class Room extends EventEmitter {
         break;
       }
 
-      case 'moderator:removeRole': {
-        if (!this._hasPermission(peer, MODIFY_ROLE))
+      case 'moderator:removeRole': {
+        if (!this._hasPermission(peer, MODIFY_ROLE))
+          throw new Error('peer not authorized');
+
+        const { peerId, roleId } = request.data;
+
+        const userRole: any = Object.values(userRoles).find(
+          (role: any) => role.id === roleId
+        );
+
+        if (!userRole || !userRole.promotable) throw new Error('no such role');
+
+        if (!peer.roles.some((role) => role.level >= userRole.level))
+          throw new Error('peer not authorized for this level');
+
+        const removeRolePeer = this._peers[peerId];
+
+        if (!removeRolePeer)
+          throw new Error(`peer with id "${peerId}" not found`);
+
+        // This will propagate the event automatically
+        removeRolePeer.removeRole(userRole);
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'moderator:clearChat': {
+        if (!this._hasPermission(peer, MODERATE_CHAT))
+          throw new Error('peer not authorized');
+
+        if (!this._hasPermission(peer, MODERATE_FILES))
+          throw new Error('peer not authorized');
+
+        this._clearHistory('chat');
+
+        this._clearHistory('file');
+
+        this._privateMessages.clear();
+
+        if (this._files) this._files.clear();
+
+        // Spread to others
+        this._notification(peer.socket, 'moderator:clearChat', null, true);
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'setLocalRecording': {
+        if (!this._hasPermission(peer, LOCAL_RECORD_ROOM))
+          throw new Error('peer not authorized');
+
+        const { localRecordingState } = request.data;
+
+        logger.debug(
+          'Recoding State changed to state: %O',
+          localRecordingState
+        );
+
+        peer.localRecordingState = localRecordingState;
+
+        try {
+          // Spread to others
+          this._notification(
+            peer.socket,
+            'setLocalRecording',
+            {
+              peerId: peer.id,
+              localRecordingState,
+            },
+            true
+          );
+        } catch (error) {
+          logger.error(
+            'Unable to send setLocalRecording notification %O',
+            error
+          );
+        }
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'moderator:startRecording': {
+        if (!this._hasPermission(peer, SERVER_RECORD_ROOM))
+          throw new Error('peer not authorized');
+
+        if (!config.recording.enabled)
+          throw new Error('server recording not enabled');
+
+        if (this._recorder || this._recorderStarting)
+          throw new Error('recording already in progress');
+
+        const recorder = new RoomRecorder({ roomId: this._roomId });
+
+        this._recorderStarting = true;
+
+        try {
+          await recorder.start();
+        } finally {
+          this._recorderStarting = false;
+        }
+
+        if (this._closed) {
+          recorder.stop().catch(() => {});
+
+          throw new Error('room closed');
+        }
+
+        // Only once its directory exists, the producers are added to it
+        this._recorder = recorder;
+
+        for (const joinedPeer of this.getJoinedPeers()) {
+          for (const producer of joinedPeer.producers.values()) {
+            recorder.addProducer({
+              router: this._mediasoupRouters.get(joinedPeer.routerId),
+              peer: joinedPeer,
+              producer,
+            });
+          }
+        }
+
+        this.emit('recordingStarted', { peer });
+
+        // Spread to everyone, recording needs the consent of all peers
+        this._notification(
+          peer.socket,
+          'serverRecording',
+          {
+            peerId: peer.id,
+            recording: true,
+          },
+          true,
+          true
+        );
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'moderator:stopRecording': {
+        if (!this._hasPermission(peer, SERVER_RECORD_ROOM))
+          throw new Error('peer not authorized');
+
+        if (!this._recorder) throw new Error('no recording in progress');
+
+        this._stopServerRecording(peer);
+
+        // Spread to everyone
+        this._notification(
+          peer.socket,
+          'serverRecording',
+          {
+            peerId: peer.id,
+            recording: false,
+          },
+          true,
+          true
+        );
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'moderator:startLiveStream': {
+        if (!this._hasPermission(peer, SERVER_LIVE_STREAM))
           throw new Error('peer not authorized');
 
-        const { peerId, roleId } = request.data;
+        const { output } = request.data;
 
-        const userRole: any = Object.values(userRoles).find(
-          (role: any) => role.id === roleId
-        );
+        if (!getLiveStreamOutputs().includes(output))
+          throw new Error('live stream output not available');
 
-        if (!userRole || !userRole.promotable) throw new Error('no such role');
+        if (this._liveStreamer)
+          throw new Error('live stream already in progress');
 
-        if (!peer.roles.some((role) => role.level >= userRole.level))
-          throw new Error('peer not authorized for this level');
+        const liveStreamer = new LiveStreamer({
+          roomId: this._roomId,
+          output,
+          getLayout: () => this._getLiveStreamLayout(),
+        });
 
-        const removeRolePeer = this._peers[peerId];
+        this._liveStreamer = liveStreamer;
 
-        if (!removeRolePeer)
-          throw new Error(`peer with id "${peerId}" not found`);
+        liveStreamer.on('failed', () => {
+          if (this._liveStreamer !== liveStreamer) return;
 
-        // This will propagate the event automatically
-        removeRolePeer.removeRole(userRole);
+          logger.warn('live stream failed [roomId:"%s"]', this._roomId);
 
-        // Return no error
-        cb();
+          this._stopLiveStream();
 
-        break;
-      }
+          this._notifyPeers('liveStream', {
+            peerId: null,
+            liveStream: null,
+            failed: true,
+          });
+        });
 
-      case 'moderator:clearChat': {
-        if (!this._hasPermission(peer, MODERATE_CHAT))
-          throw new Error('peer not authorized');
+        try {
+          await liveStreamer.start();
+        } catch (error) {
+          // Unless stopped or failed meanwhile
+          if (this._liveStreamer === liveStreamer) this._liveStreamer = null;
 
-        if (!this._hasPermission(peer, MODERATE_FILES))
-          throw new Error('peer not authorized');
+          liveStreamer.stop().catch(() => {});
 
-        this._chatHistory = [];
+          throw error;
+        }
 
-        this._fileHistory = [];
+        this.emit('liveStreamStarted', { peer, output });
 
-        // Spread to others
-        this._notification(peer.socket, 'moderator:clearChat', null, true);
+        // Spread to everyone, the meeting goes public
+        this._notification(
+          peer.socket,
+          'liveStream',
+          {
+            peerId: peer.id,
+            liveStream: liveStreamer.status,
+          },
+          true,
+          true
+        );
 
-        // Return no error
-        cb();
+        cb(null, liveStreamer.status);
 
         break;
       }
 
-      case 'setLocalRecording': {
-        if (!this._hasPermission(peer, LOCAL_RECORD_ROOM))
+      case 'moderator:stopLiveStream': {
+        if (!this._hasPermission(peer, SERVER_LIVE_STREAM))
           throw new Error('peer not authorized');
 
-        const { localRecordingState } = request.data;
-
-        logger.debug(
-          'Recoding State changed to state: %O',
-          localRecordingState
-        );
+        if (!this._liveStreamer) throw new Error('no live stream in progress');
 
-        peer.localRecordingState = localRecordingState;
+        this._stopLiveStream(peer);
 
-        try {
-          // Spread to others
-          this._notification(
-            peer.socket,
-            'setLocalRecording',
-            {
-              peerId: peer.id,
-              localRecordingState,
-            },
-            true
-          );
-        } catch (error) {
-          logger.error(
-            'Unable to send setLocalRecording notification %O',
-            error
-          );
-        }
+        // Spread to everyone
+        this._notification(
+          peer.socket,
+          'liveStream',
+          {
+            peerId: peer.id,
+            liveStream: null,
+          },
+          true,
+          true
+        );
 
         // Return no error
         cb();
@@ -1667,163 +3364,427 @@ export class Room extends EventEmitter {
           throw new Error('peer not authorized');
 
         // const { magnetUri, time } = request.data;
-        const file = request.data;
+        const { fileId, ...file } = request.data;
+
+        // Uploaded to the server, shared with its download link
+        if (fileId) {
+          if (!this._files)
+            throw new Error('file sharing through the server disabled');
+
+          file.serverFile = this._files.share(peer, fileId);
+        }
 
-        this._fileHistory.push({ ...file });
+        this._addHistory('file', { ...file });
 
         // Spread to others
         this._notification(peer.socket, 'sendFile', { ...file }, true);
 
-        // Return no error
+        cb(null, { serverFile: file.serverFile });
+
+        break;
+      }
+
+      case 'createFileUpload': {
+        if (!this._hasPermission(peer, SHARE_FILE))
+          throw new Error('peer not authorized');
+
+        if (!this._files)
+          throw new Error('file sharing through the server disabled');
+
+        cb(null, this._files.createUpload(peer, request.data));
+
+        break;
+      }
+
+      case 'moderator:clearFileSharing': {
+        if (!this._hasPermission(peer, MODERATE_FILES))
+          throw new Error('peer not authorized');
+
+        this._clearHistory('file');
+
+        if (this._files) this._files.clear();
+
+        // Spread to others
+        this._notification(
+          peer.socket,
+          'moderator:clearFileSharing',
+          null,
+          true
+        );
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'raisedHand': {
+        const { raisedHand } = request.data;
+
+        peer.raisedHand = raisedHand;
+
+        // The moderators see the raised hands of the audience in the
+        // webinar state
+        if (this._audience.has(peer.id)) this._notifyWebinarState();
+        // Spread to others
+        else
+          this._notification(
+            peer.socket,
+            'raisedHand',
+            {
+              peerId: peer.id,
+              raisedHand: raisedHand,
+              raisedHandTimestamp: peer.raisedHandTimestamp,
+            },
+            true
+          );
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'sendReaction': {
+        const { reaction } = request.data;
+
+        if (!REACTIONS.includes(reaction)) throw new Error('invalid reaction');
+
+        const { burstThreshold } = config.reactions;
+
+        // The audience has no tile to show the reaction over, and the
+        // reactions of large rooms are aggregated
+        if (
+          this._audience.has(peer.id) ||
+          (burstThreshold && this.getJoinedPeers().length >= burstThreshold)
+        )
+          this._addReactionToBurst(reaction);
+        else
+          this._notification(
+            peer.socket,
+            'reaction',
+            { peerId: peer.id, reaction },
+            true
+          );
+
+        // Return no error
+        cb();
+
+        break;
+      }
+
+      case 'moderator:mute': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        const { peerId } = request.data;
+
+        const mutePeer = this._peers[peerId];
+
+        if (!mutePeer) throw new Error(`peer with id "${peerId}" not found`);
+
+        this._notification(mutePeer.socket, 'moderator:mute');
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:muteAll': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        // Spread to others
+        this._notification(peer.socket, 'moderator:mute', null, true);
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:stopVideo': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        const { peerId } = request.data;
+
+        const stopVideoPeer = this._peers[peerId];
+
+        if (!stopVideoPeer)
+          throw new Error(`peer with id "${peerId}" not found`);
+
+        this._notification(stopVideoPeer.socket, 'moderator:stopVideo');
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:stopAllVideo': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        // Spread to others
+        this._notification(peer.socket, 'moderator:stopVideo', null, true);
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:stopAllScreenSharing': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        // Spread to others
+        this._notification(
+          peer.socket,
+          'moderator:stopScreenSharing',
+          null,
+          true
+        );
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:stopScreenSharing': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        const { peerId } = request.data;
+
+        const stopVideoPeer = this._peers[peerId];
+
+        if (!stopVideoPeer)
+          throw new Error(`peer with id "${peerId}" not found`);
+
+        this._notification(stopVideoPeer.socket, 'moderator:stopScreenSharing');
+
+        cb();
+
+        break;
+      }
+
+      case 'moderator:closeMeeting': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        this._notification(peer.socket, 'moderator:kick', null, true);
+
+        cb();
+
+        // Close the room
+        this.close();
+
+        break;
+      }
+
+      case 'moderator:setPermission': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
+
+        const { permission, roles } = request.data;
+
+        this.setPermission(permission, roles);
+
         cb();
 
         break;
       }
 
-      case 'raisedHand': {
-        const { raisedHand } = request.data;
-
-        peer.raisedHand = raisedHand;
+      case 'moderator:resetPermissions': {
+        if (!this._hasPermission(peer, MODERATE_ROOM))
+          throw new Error('peer not authorized');
 
-        // Spread to others
-        this._notification(
-          peer.socket,
-          'raisedHand',
-          {
-            peerId: peer.id,
-            raisedHand: raisedHand,
-            raisedHandTimestamp: peer.raisedHandTimestamp,
-          },
-          true
-        );
+        this.resetPermissions();
 
-        // Return no error
         cb();
 
         break;
       }
 
-      case 'moderator:mute': {
+      case 'moderator:breakoutCreate': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        const { peerId } = request.data;
+        if (this._parentRoom) throw new Error('room is a breakout room');
 
-        const mutePeer = this._peers[peerId];
+        const { count, random } = request.data;
 
-        if (!mutePeer) throw new Error(`peer with id "${peerId}" not found`);
+        if (
+          !Number.isInteger(count) ||
+          count < 1 ||
+          this._breakoutRooms.size + count > MAX_BREAKOUT_ROOMS
+        )
+          throw new Error('invalid breakout room count');
 
-        this._notification(mutePeer.socket, 'moderator:mute');
+        await this.createBreakoutRooms({ count, random: Boolean(random) });
 
         cb();
 
         break;
       }
 
-      case 'moderator:muteAll': {
+      case 'moderator:breakoutMovePeer': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        // Spread to others
-        this._notification(peer.socket, 'moderator:mute', null, true);
+        const { peerId, roomId } = request.data;
+
+        // Moderators may visit the breakout rooms
+        (this._parentRoom || this).moveBreakoutPeer(peerId, roomId);
 
         cb();
 
         break;
       }
 
-      case 'moderator:stopVideo': {
+      case 'moderator:breakoutBroadcast': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        const { peerId } = request.data;
-
-        const stopVideoPeer = this._peers[peerId];
+        const { text } = request.data;
 
-        if (!stopVideoPeer)
-          throw new Error(`peer with id "${peerId}" not found`);
+        if (!text || typeof text !== 'string')
+          throw new Error('invalid broadcast text');
 
-        this._notification(stopVideoPeer.socket, 'moderator:stopVideo');
+        (this._parentRoom || this).broadcastToBreakoutRooms(peer, text);
 
         cb();
 
         break;
       }
 
-      case 'moderator:stopAllVideo': {
+      case 'moderator:breakoutClose': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        // Spread to others
-        this._notification(peer.socket, 'moderator:stopVideo', null, true);
+        const { countdown = 0 } = request.data;
+
+        (this._parentRoom || this).closeBreakoutRooms(
+          Math.max(0, Number(countdown) || 0)
+        );
 
         cb();
 
         break;
       }
 
-      case 'moderator:stopAllScreenSharing': {
+      case 'breakout:return': {
+        if (!this._parentRoom) throw new Error('room is not a breakout room');
+
+        cb();
+
+        this._movePeer(peer, this._parentRoom);
+
+        break;
+      }
+
+      case 'moderator:kickPeer': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        // Spread to others
-        this._notification(
-          peer.socket,
-          'moderator:stopScreenSharing',
-          null,
-          true
-        );
+        const { peerId } = request.data;
+
+        const kickPeer = this._peers[peerId];
+
+        if (!kickPeer) throw new Error(`peer with id "${peerId}" not found`);
+
+        this._notification(kickPeer.socket, 'moderator:kick');
+
+        kickPeer.close();
 
         cb();
 
         break;
       }
 
-      case 'moderator:stopScreenSharing': {
+      case 'moderator:webinarPromote':
+      case 'moderator:webinarDemote': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
+        if (!this._webinar) throw new Error('room is not a webinar');
+
         const { peerId } = request.data;
 
-        const stopVideoPeer = this._peers[peerId];
+        const speakerPeer = this._peers[peerId];
 
-        if (!stopVideoPeer)
+        if (!speakerPeer || !speakerPeer.joined)
           throw new Error(`peer with id "${peerId}" not found`);
 
-        this._notification(stopVideoPeer.socket, 'moderator:stopScreenSharing');
+        if (request.method === 'moderator:webinarPromote')
+          this._speakers.add(peerId);
+        else this._speakers.delete(peerId);
+
+        this._updateStage(speakerPeer);
 
         cb();
 
         break;
       }
 
-      case 'moderator:closeMeeting': {
+      case 'moderator:createPoll': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        this._notification(peer.socket, 'moderator:kick', null, true);
+        if (this._polls.size >= MAX_POLLS)
+          throw new Error('too many polls, delete some first');
 
-        cb();
+        const poll = new Poll(request.data);
 
-        // Close the room
-        this.close();
+        this._polls.set(poll.id, poll);
+
+        if (poll.endsAt)
+          poll.closeTimeout = setTimeout(
+            () => this._closePoll(poll),
+            poll.endsAt - Date.now()
+          );
+
+        this._notifyPeers('poll:created', { poll: poll.getInfo(null) });
+
+        cb(null, { pollId: poll.id });
 
         break;
       }
 
-      case 'moderator:kickPeer': {
+      case 'moderator:closePoll':
+      case 'moderator:deletePoll': {
         if (!this._hasPermission(peer, MODERATE_ROOM))
           throw new Error('peer not authorized');
 
-        const { peerId } = request.data;
+        const { pollId } = request.data;
 
-        const kickPeer = this._peers[peerId];
+        const poll = this._polls.get(pollId);
 
-        if (!kickPeer) throw new Error(`peer with id "${peerId}" not found`);
+        if (!poll) throw new Error(`poll with id "${pollId}" not found`);
 
-        this._notification(kickPeer.socket, 'moderator:kick');
+        if (request.method === 'moderator:closePoll') this._closePoll(poll);
+        else {
+          clearTimeout(poll.closeTimeout);
 
-        kickPeer.close();
+          this._polls.delete(pollId);
+
+          this._notifyPeers('poll:deleted', { pollId });
+        }
+
+        cb();
+
+        break;
+      }
+
+      case 'votePoll': {
+        const { pollId, choices } = request.data;
+
+        const poll = this._polls.get(pollId);
+
+        if (!poll) throw new Error(`poll with id "${pollId}" not found`);
+
+        poll.vote(peer, choices);
+
+        this._notifyPeers('poll:updated', { poll: poll.info });
 
         cb();
 
@@ -1855,6 +3816,278 @@ export class Room extends EventEmitter {
     }
   }
 
+  _getHistory(type: HistoryType) {
+    return type === 'chat' ? this._chatHistory : this._fileHistory;
+  }
+
+  /**
+   * Adds an entry to the chat or file history, dropping the oldest entries
+   * above the retention count, and saves it into the history store.
+   */
+  _addHistory(type: HistoryType, entry) {
+    const history = this._getHistory(type);
+
+    history.push(entry);
+
+    if (history.length > config.history.maxEntries)
+      history.splice(0, history.length - config.history.maxEntries);
+
+    this._historyStore.append(this._roomId, type, entry).catch((error) => {
+      logger.error(
+        '_addHistory() [roomId:"%s", type:"%s", error:"%o"]',
+        this._roomId,
+        type,
+        error
+      );
+    });
+  }
+
+  _replaceHistory(type: HistoryType) {
+    this._historyStore
+      .replace(this._roomId, type, this._getHistory(type))
+      .catch((error) => {
+        logger.error(
+          '_replaceHistory() [roomId:"%s", type:"%s", error:"%o"]',
+          this._roomId,
+          type,
+          error
+        );
+      });
+  }
+
+  /**
+   * Saves a changed entry of the history.
+   */
+  _updateHistory(type: HistoryType, entry) {
+    const history = this._getHistory(type);
+    const index = history.indexOf(entry);
+
+    if (index === -1) return;
+
+    // Counted from the end, the stored history may be longer
+    this._historyStore
+      .update(this._roomId, type, index - history.length, entry)
+      .catch((error) => {
+        logger.error(
+          '_updateHistory() [roomId:"%s", type:"%s", error:"%o"]',
+          this._roomId,
+          type,
+          error
+        );
+      });
+  }
+
+  /**
+   * Finds a chat message of the room, or a private message of a
+   * conversation of the peer. `peerIds` are the peers of the conversation,
+   * null for a room message.
+   */
+  _findChatMessage(
+    peer: Peer,
+    id: string
+  ): { chatMessage: any; peerIds: string[] | null } {
+    const chatMessage = this._chatHistory.find((message) => message.id === id);
+
+    if (chatMessage) return { chatMessage, peerIds: null };
+
+    const privateMessage = this._privateMessages.get(id);
+
+    if (privateMessage && privateMessage.peerIds.includes(peer.id))
+      return privateMessage;
+
+    throw new Error(`chat message "${id}" not found`);
+  }
+
+  /**
+   * Notifies the peers of a private conversation, or everyone when
+   * `peerIds` is null.
+   */
+  _notifyChatMessagePeers(peerIds: string[] | null, method: string, data) {
+    if (!peerIds) {
+      this._notifyPeers(method, data);
+
+      return;
+    }
+
+    for (const peerId of peerIds) {
+      const conversationPeer = this._peers[peerId];
+
+      if (conversationPeer && conversationPeer.joined)
+        this._notification(conversationPeer.socket, method, data);
+    }
+  }
+
+  _clearHistory(type: HistoryType) {
+    this._getHistory(type).splice(0);
+
+    this._historyStore.clear(this._roomId, type).catch((error) => {
+      logger.error(
+        '_clearHistory() [roomId:"%s", type:"%s", error:"%o"]',
+        this._roomId,
+        type,
+        error
+      );
+    });
+  }
+
+  _stopServerRecording(peer: Peer = null): Promise<void> {
+    const recorder = this._recorder;
+
+    this._recorder = null;
+
+    return recorder
+      .stop()
+      .then((file) => {
+        logger.info(
+          'server recording stopped [roomId:"%s", directory:"%s", file:"%s"]',
+          this._roomId,
+          recorder.directory,
+          file
+        );
+
+        this.emit('recordingStopped', {
+          peer,
+          directory: recorder.directory,
+          file,
+        });
+      })
+      .catch((error) => {
+        logger.error('_stopServerRecording() [error:"%o"]', error);
+      });
+  }
+
+  _stopLiveStream(peer: Peer = null): Promise<void> {
+    const liveStreamer = this._liveStreamer;
+
+    this._liveStreamer = null;
+
+    return liveStreamer
+      .stop()
+      .then(() => {
+        logger.info('live stream stopped [roomId:"%s"]', this._roomId);
+
+        this.emit('liveStreamStopped', { peer, output: liveStreamer.output });
+      })
+      .catch((error) => {
+        logger.error('_stopLiveStream() [error:"%o"]', error);
+      });
+  }
+
+  /**
+   * The first screen share, the webcam of the most recent active speaker
+   * and the microphones sorted by producer id, the paused producers left
+   * out.
+   */
+  _getLiveStreamLayout(): StreamLayout {
+    const layout: StreamLayout = { screen: null, speaker: null, audio: [] };
+
+    if (this._closed) return layout;
+
+    // Most recent active speakers first
+    const rank = (peer: Peer) => {
+      const index = this._lastN.indexOf(peer.id);
+
+      return index === -1 ? Infinity : index;
+    };
+    const peers = [...this.getJoinedPeers()].sort((a, b) => rank(a) - rank(b));
+
+    for (const peer of peers) {
+      const router = this._mediasoupRouters.get(peer.routerId);
+
+      if (!router) continue;
+
+      for (const producer of peer.producers.values()) {
+        if (producer.closed || producer.paused) continue;
+
+        const { source } = producer.appData;
+
+        if (producer.kind === 'audio') {
+          if (layout.audio.length < config.streaming.maxAudioInputs)
+            layout.audio.push({ router, producer });
+        } else if (source === 'screen' && !layout.screen) {
+          layout.screen = { router, producer };
+        } else if (source === 'webcam' && !layout.speaker) {
+          layout.speaker = { router, producer };
+        }
+      }
+    }
+
+    // Mixed in the same order whoever speaks
+    layout.audio.sort((a, b) => (a.producer.id < b.producer.id ? -1 : 1));
+
+    return layout;
+  }
+
+  /**
+   * Pipes a new producer to the other routers of the room and creates its
+   * consumers, the producers of the ingested sources included.
+   */
+  async _addProducer(peer: Peer, producer: mediasoup.types.Producer) {
+    const router = this._mediasoupRouters.get(peer.routerId);
+    const pipeRouters = this._getRoutersToPipeTo(peer.routerId);
+
+    for (const [routerId, destinationRouter] of this._mediasoupRouters) {
+      if (pipeRouters.includes(routerId)) {
+        await router.pipeToRouter({
+          producerId: producer.id,
+          router: destinationRouter,
+        });
+      }
+    }
+
+    // Store the Producer into the Peer data Object.
+    peer.addProducer(producer.id, producer);
+
+    // Set Producer events.
+    producer.on('score', (score) => {
+      this._notification(peer.socket, 'producerScore', {
+        producerId: producer.id,
+        score,
+      });
+    });
+
+    producer.on('videoorientationchange', (videoOrientation) => {
+      logger.debug(
+        'producer "videoorientationchange" event [producerId:"%s", videoOrientation:"%o"]',
+        producer.id,
+        videoOrientation
+      );
+    });
+
+    if (producer.kind === 'video') this._updateSpotlights();
+
+    // Optimization: Create a server-side Consumer for each Peer.
+    for (const otherPeer of this.getJoinedPeers(peer)) {
+      this._createConsumer({
+        consumerPeer: otherPeer,
+        producerPeer: peer,
+        producer,
+      });
+    }
+
+    if (this._recorder) this._recorder.addProducer({ router, peer, producer });
+
+    if (this._captions && producer.appData.source === 'mic')
+      this._captions.addProducer({ router, peer, producer });
+
+    // Add into the audioLevelObserver.
+    if (producer.kind === 'audio') {
+      this._audioLevelObservers
+        .get(peer.routerId)
+        .audioLevelObserver.addProducer({ producerId: producer.id })
+        .catch((error) => {
+          logger.error(
+            'audioLevelObserver addProducer ERROR [roomId:"%s", peerId:"%s", routerId:"%s", producerId:"%s", error:"%o"]',
+            this._roomId,
+            peer.id,
+            peer.routerId,
+            producer.id,
+            error
+          );
+        });
+    }
+  }
+
   /**
    * Creates a mediasoup Consumer for the given mediasoup Producer.
    *
@@ -1906,6 +4139,11 @@ export class Room extends EventEmitter {
         producerId: producer.id,
         rtpCapabilities: consumerPeer.rtpCapabilities,
         paused: producer.kind === 'video',
+        // Video is paused until the client resumes it.
+        appData: {
+          peerId: producerPeer.id,
+          clientPaused: producer.kind === 'video',
+        },
       });
 
       if (producer.kind === 'audio') await consumer.setPriority(255);
@@ -1982,9 +4220,86 @@ export class Room extends EventEmitter {
     }
   }
 
+  /**
+   * Server side last-N: the peers whose video is forwarded to the peer, its
+   * pinned peers first then the most recent active speakers.
+   */
+  _getSpotlights(peer: Peer) {
+    const { size, pinnedPeerIds, videoOnly } = peer.lastN;
+
+    const hasVideo = (peerId) =>
+      [...this._peers[peerId].producers.values()].some(
+        (producer) => producer.kind === 'video' && !producer.paused
+      );
+
+    const peerIds = [...pinnedPeerIds.slice(-size), ...this._lastN].filter(
+      (peerId, index, self) =>
+        peerId !== peer.id &&
+        this._peers[peerId] &&
+        self.indexOf(peerId) === index &&
+        (!videoOnly || hasVideo(peerId))
+    );
+
+    return peerIds.slice(0, size);
+  }
+
+  /**
+   * Server side last-N: updates the peers whose video is forwarded to every
+   * peer, and pauses or resumes their video consumers.
+   */
+  _updateSpotlights() {
+    if (!config.lastN.enabled) return;
+
+    for (const peer of this.getJoinedPeers()) {
+      // The ingested sources do not consume
+      if (peer.ingest) continue;
+
+      const spotlights = this._getSpotlights(peer);
+
+      if (
+        spotlights.length === peer.spotlights.length &&
+        spotlights.every((peerId, index) => peerId === peer.spotlights[index])
+      )
+        continue;
+
+      peer.spotlights = spotlights;
+
+      this._notification(peer.socket, 'spotlights', { peerIds: spotlights });
+
+      for (const consumer of peer.consumers.values()) {
+        this._applyForwarding(peer, consumer).catch((error) => {
+          logger.warn(
+            '_updateSpotlights() | [consumerId:"%s", error:"%o"]',
+            consumer.id,
+            error
+          );
+        });
+      }
+    }
+  }
+
+  /**
+   * Resumes a consumer if its client did not pause it and, with the server
+   * side last-N, if its video is in the spotlights of the peer.
+   */
+  async _applyForwarding(peer: Peer, consumer) {
+    if (consumer.closed) return;
+
+    const forward =
+      !consumer.appData.clientPaused &&
+      (consumer.kind !== 'video' ||
+        !config.lastN.enabled ||
+        peer.spotlights.includes(consumer.appData.peerId));
+
+    if (forward && consumer.paused) await consumer.resume();
+    else if (!forward && !consumer.paused) await consumer.pause();
+  }
+
   _hasPermission(peer, permission) {
     const hasPermission = peer.roles.some((role) =>
-      roomPermissions[permission].some((roomRole) => role.id === roomRole.id)
+      this._roomPermissions[permission].some(
+        (roomRole) => role.id === roomRole.id
+      )
     );
 
     if (hasPermission) return true;
@@ -2001,7 +4316,7 @@ export class Room extends EventEmitter {
 
   _hasAccess(peer, access) {
     return peer.roles.some((role) =>
-      roomAccess[access].some((roomRole) => role.id === roomRole.id)
+      this._roomAccess[access].some((roomRole) => role.id === roomRole.id)
     );
   }
 
@@ -2042,7 +4357,7 @@ export class Room extends EventEmitter {
         peer.joined === joined &&
         peer !== excludePeer &&
         peer.roles.some((role) =>
-          roomPermissions[permission].some(
+          this._roomPermissions[permission].some(
             (roomRole) => role.id === roomRole.id
           )
         )
@@ -2099,6 +4414,15 @@ export class Room extends EventEmitter {
     }
   }
 
+  /**
+   * Sends a notification to every joined peer.
+   */
+  _notifyPeers(method, data = {}) {
+    for (const peer of this.getJoinedPeers()) {
+      this._notification(peer.socket, method, data);
+    }
+  }
+
   _notification(
     socket,
     method,
@@ -2106,6 +4430,13 @@ export class Room extends EventEmitter {
     broadcast = false,
     includeSender = false
   ) {
+    // An ingested source, its broadcasts go to everyone else
+    if (!socket) {
+      if (broadcast) this._notifyPeers(method, data);
+
+      return;
+    }
+
     if (broadcast) {
       socket.broadcast.to(this._roomId).emit('notification', { method, data });
 
@@ -0,0 +1,94 @@
+import jwt from 'jsonwebtoken';
+import { Peer } from '../Peer';
+import { findRole } from './roles';
+import { RoomRejectedError } from '../helpers/errors';
+import { config } from '../config/config';
+
+/**
+ * Claims of a join token minted by the embedding app.
+ */
+export interface JoinTokenClaims {
+  // User id, becomes `peer.authId`.
+  sub: string;
+  roomId: string;
+  name?: string;
+  picture?: string;
+  email?: string;
+  // Role ids or labels given to the peer.
+  roles?: (number | string)[];
+}
+
+export function joinTokenEnabled() {
+  return Boolean(config.auth && config.auth.jwt);
+}
+
+/**
+ * Verifies a join token with `config.auth.jwt`, a shared `secret` (HS256)
+ * or a `publicKey` (RS256). Tokens of a room are also valid in its breakout
+ * rooms, `roomId` is the id of the main room.
+ *
+ * Tokens must expire, a leaked token without `exp` would be valid forever.
+ */
+export function verifyJoinToken(
+  token: string,
+  roomId: string
+): JoinTokenClaims {
+  if (!joinTokenEnabled())
+    throw new RoomRejectedError(
+      'invalidJoinToken',
+      'join tokens are not enabled'
+    );
+
+  const { secret, publicKey, algorithms, issuer, audience } = config.auth.jwt;
+  let claims;
+
+  try {
+    claims = jwt.verify(token, publicKey || secret, {
+      algorithms: algorithms || [publicKey ? 'RS256' : 'HS256'],
+      issuer,
+      audience,
+    });
+  } catch (error) {
+    throw new RoomRejectedError(
+      error instanceof jwt.TokenExpiredError
+        ? 'expiredJoinToken'
+        : 'invalidJoinToken',
+      error.message
+    );
+  }
+
+  if (!claims.sub)
+    throw new RoomRejectedError('invalidJoinToken', 'join token without sub');
+
+  if (!claims.exp)
+    throw new RoomRejectedError('invalidJoinToken', 'join token without exp');
+
+  if (claims.roomId !== roomId)
+    throw new RoomRejectedError(
+      'invalidJoinToken',
+      `join token for another room [roomId:"${claims.roomId}"]`
+    );
+
+  return claims;
+}
+
+/**
+ * Maps the claims of a verified join token onto the peer.
+ */
+export function applyJoinToken(peer: Peer, claims: JoinTokenClaims) {
+  peer.authId = String(claims.sub);
+
+  if (claims.name) peer.displayName = claims.name;
+
+  if (claims.picture) peer.picture = claims.picture;
+
+  if (claims.email) peer.email = claims.email;
+
+  peer.authenticated = true;
+
+  for (const roleIdOrLabel of claims.roles || []) {
+    const role = findRole(roleIdOrLabel);
+
+    if (role) peer.addRole(role);
+  }
+}
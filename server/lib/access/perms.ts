@@ -24,3 +24,7 @@ export const MODERATE_FILES = 'MODERATE_FILES';
 export const MODERATE_ROOM = 'MODERATE_ROOM';
 // The role(s) have permission to local record room
 export const LOCAL_RECORD_ROOM = 'LOCAL_RECORD_ROOM';
+// The role(s) have permission to record room on the server
+export const SERVER_RECORD_ROOM = 'SERVER_RECORD_ROOM';
+// The role(s) have permission to live stream room from the server
+export const SERVER_LIVE_STREAM = 'SERVER_LIVE_STREAM';
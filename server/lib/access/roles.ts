@@ -1,5 +1,15 @@
+export interface UserRole {
+  id: number;
+  label: string;
+  level: number;
+  promotable: boolean;
+  // Display names by locale, e.g. { "en": "Interpreter", "zh": "翻译" }
+  displayNames?: { [locale: string]: string };
+}
+
 export const userRoles = {
   // These can be changed, id must be unique.
+  // Custom roles are defined in `config.customRoles`.
 
   // A person can give other peers any role that is promotable: true
   // with a level up to and including their own highest role.
@@ -19,3 +29,28 @@ export const userRoles = {
   // All users have this role by default, do not change or remove this role
   NORMAL: { id: 4261, label: 'normal', level: 10, promotable: false },
 };
+
+/**
+ * Adds the custom roles of the config, keyed by their upper case label.
+ */
+export function registerRoles(roles: UserRole[]) {
+  for (const { id, label, level, promotable, displayNames } of roles) {
+    const key = label.toUpperCase();
+
+    // Never replace a built-in or an already registered role
+    if (key in userRoles) throw new Error(`duplicate role label "${label}"`);
+
+    Object.assign(userRoles, {
+      [key]: { id, label, level, promotable, displayNames },
+    });
+  }
+}
+
+/**
+ * Finds a role by id or label.
+ */
+export function findRole(idOrLabel: number | string) {
+  return Object.values(userRoles).find(
+    ({ id, label }) => id === idOrLabel || label === idOrLabel
+  );
+}
@@ -0,0 +1,421 @@
+import express from 'express';
+import { timingSafeEqual } from 'crypto';
+import Logger from '../logger/Logger';
+import { Room } from '../Room';
+import { HttpError, handle, httpErrorHandler } from '../helpers/errors';
+import { WebhookDispatcher } from '../webhooks/WebhookDispatcher';
+import { MeetingScheduler } from '../schedule/MeetingScheduler';
+import { Drainer } from '../drain/Drainer';
+import type { AuditSink } from '../audit/AuditSink';
+import { config } from '../config/config';
+
+const logger = new Logger('AdminApi');
+
+// Default and maximum number of audit entries returned by a query.
+const AUDIT_DEFAULT_LIMIT = 100;
+const AUDIT_MAX_LIMIT = 1000;
+
+/**
+ * Checks the `Authorization: Bearer <secret>` header.
+ */
+function authenticate(req, res, next) {
+  const expected = Buffer.from(`Bearer ${config.adminApi.secret}`);
+  const received = Buffer.from(req.get('Authorization') || '');
+
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    next(new HttpError(401, 'UNAUTHORIZED', 'invalid or missing api secret'));
+
+    return;
+  }
+
+  next();
+}
+
+/**
+ * 管理接口
+ *
+ * HTTP equivalents of the moderator requests of a room, protected by
+ * `config.adminApi.secret`.
+ */
+export default function adminRouter({
+  rooms,
+  webhookDispatcher,
+  meetingScheduler,
+  drainer,
+  auditSink,
+}: {
+  rooms: Map<string, Room>;
+  webhookDispatcher: WebhookDispatcher;
+  meetingScheduler: MeetingScheduler;
+  drainer: Drainer;
+  auditSink: AuditSink | null;
+}) {
+  const router = express.Router();
+
+  function getRoom(roomId: string): Room {
+    const room = rooms.get(roomId);
+
+    if (!room)
+      throw new HttpError(
+        404,
+        'ROOM_NOT_FOUND',
+        `room with id "${roomId}" not found`
+      );
+
+    return room;
+  }
+
+  router.use(authenticate);
+
+  router.get(
+    '/rooms',
+    handle((req, res) => {
+      res.json({
+        rooms: [...rooms.values()].map((room) => ({
+          id: room.id,
+          peers: room.getJoinedPeers().length,
+          lobbyPeers: room.getLobbyPeersInfo().length,
+          locked: room.isLocked(),
+          startAt: room.startAt,
+        })),
+      });
+    })
+  );
+
+  router.get(
+    '/rooms/:roomId/peers',
+    handle((req, res) => {
+      const room = getRoom(req.params.roomId);
+
+      res.json({
+        peers: room.getPeersInfo(),
+        lobbyPeers: room.getLobbyPeersInfo(),
+      });
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/lock',
+    handle((req, res) => {
+      getRoom(req.params.roomId).lock();
+
+      res.json({ locked: true });
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/unlock',
+    handle((req, res) => {
+      getRoom(req.params.roomId).unlock();
+
+      res.json({ locked: false });
+    })
+  );
+
+  router.put(
+    '/rooms/:roomId/access-code',
+    handle((req, res) => {
+      const { accessCode } = req.body || {};
+
+      if (typeof accessCode !== 'string')
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          '"accessCode" must be a string'
+        );
+
+      getRoom(req.params.roomId).setAccessCode(accessCode);
+
+      res.json({ accessCode });
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/peers/:peerId/kick',
+    handle((req, res) => {
+      const room = getRoom(req.params.roomId);
+      const { peerId } = req.params;
+
+      if (!room.hasPeer(peerId))
+        throw new HttpError(
+          404,
+          'PEER_NOT_FOUND',
+          `peer with id "${peerId}" not found`
+        );
+
+      room.kickPeer(peerId);
+
+      res.json({ peerId });
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/mute-all',
+    handle((req, res) => {
+      getRoom(req.params.roomId).muteAll();
+
+      res.json({});
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/lobby/promote',
+    handle((req, res) => {
+      const room = getRoom(req.params.roomId);
+      const { peerId } = req.body || {};
+
+      if (peerId && !room.hasLobbyPeer(peerId))
+        throw new HttpError(
+          404,
+          'PEER_NOT_FOUND',
+          `lobby peer with id "${peerId}" not found`
+        );
+
+      room.promoteLobbyPeers(peerId);
+
+      res.json({ peerId: peerId || null });
+    })
+  );
+
+  router.get(
+    '/rooms/:roomId/permissions',
+    handle((req, res) => {
+      res.json({ permissions: getRoom(req.params.roomId).permissions });
+    })
+  );
+
+  router.put(
+    '/rooms/:roomId/permissions/:permission',
+    handle((req, res) => {
+      const room = getRoom(req.params.roomId);
+      const { roles } = req.body || {};
+
+      try {
+        room.setPermission(req.params.permission, roles);
+      } catch (error) {
+        throw new HttpError(400, 'BAD_REQUEST', error.message);
+      }
+
+      res.json({ permissions: room.permissions });
+    })
+  );
+
+  router.delete(
+    '/rooms/:roomId/permissions',
+    handle((req, res) => {
+      const room = getRoom(req.params.roomId);
+
+      room.resetPermissions();
+
+      res.json({ permissions: room.permissions });
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/close',
+    handle((req, res) => {
+      getRoom(req.params.roomId).closeMeeting();
+
+      res.json({});
+    })
+  );
+
+  router.post(
+    '/rooms/:roomId/ingests',
+    handle(async (req, res) => {
+      if (!config.ingest.enabled)
+        throw new HttpError(
+          404,
+          'INGEST_DISABLED',
+          'the ingest is not enabled'
+        );
+
+      const room = getRoom(req.params.roomId);
+      const {
+        displayName,
+        audio = true,
+        video = true,
+        videoCodec = 'vp8',
+      } = req.body || {};
+
+      if (typeof displayName !== 'string' || !displayName.trim())
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          '"displayName" must be a non empty string'
+        );
+
+      if (typeof audio !== 'boolean' || typeof video !== 'boolean')
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          '"audio" and "video" must be booleans'
+        );
+
+      if (!audio && !video)
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          'at least one of "audio" and "video" is required'
+        );
+
+      if (!['vp8', 'h264'].includes(videoCodec))
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          '"videoCodec" must be "vp8" or "h264"'
+        );
+
+      let ingest;
+
+      try {
+        ingest = await room.addIngest({
+          displayName: displayName.trim(),
+          audio,
+          video,
+          videoCodec,
+        });
+      } catch (error) {
+        throw new HttpError(409, 'INGEST_FAILED', error.message);
+      }
+
+      res.status(201).json(ingest);
+    })
+  );
+
+  router.delete(
+    '/rooms/:roomId/ingests/:peerId',
+    handle((req, res) => {
+      const { peerId } = req.params;
+
+      if (!getRoom(req.params.roomId).removeIngest(peerId))
+        throw new HttpError(
+          404,
+          'INGEST_NOT_FOUND',
+          `ingested source with id "${peerId}" not found`
+        );
+
+      res.json({ peerId });
+    })
+  );
+
+  // Also the rooms which are closed
+  router.get(
+    '/rooms/:roomId/audit',
+    handle(async (req, res) => {
+      if (!auditSink)
+        throw new HttpError(
+          404,
+          'AUDIT_LOG_DISABLED',
+          'the audit log is not enabled'
+        );
+
+      const since = req.query.since === undefined ? 0 : Number(req.query.since);
+      const limit =
+        req.query.limit === undefined
+          ? AUDIT_DEFAULT_LIMIT
+          : Number(req.query.limit);
+
+      if (!Number.isInteger(since) || since < 0)
+        throw new HttpError(400, 'BAD_REQUEST', 'invalid since');
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_LIMIT)
+        throw new HttpError(400, 'BAD_REQUEST', 'invalid limit');
+
+      res.json({
+        entries: await auditSink.query(req.params.roomId, { since, limit }),
+      });
+    })
+  );
+
+  router.get(
+    '/schedule',
+    handle((req, res) => {
+      res.json({ meetings: meetingScheduler.list() });
+    })
+  );
+
+  router.put(
+    '/schedule/:roomId',
+    handle((req, res) => {
+      const { roomId } = req.params;
+      let meeting;
+
+      try {
+        meeting = meetingScheduler.schedule({ ...req.body, roomId });
+      } catch (error) {
+        throw new HttpError(400, 'BAD_REQUEST', error.message);
+      }
+
+      const room = rooms.get(roomId);
+
+      if (room) room.setMeeting(meeting);
+
+      res.json({ meeting });
+    })
+  );
+
+  router.delete(
+    '/schedule/:roomId',
+    handle((req, res) => {
+      const { roomId } = req.params;
+
+      if (!meetingScheduler.unschedule(roomId))
+        throw new HttpError(
+          404,
+          'MEETING_NOT_FOUND',
+          `meeting of room "${roomId}" not found`
+        );
+
+      const room = rooms.get(roomId);
+
+      if (room) room.setMeeting(null);
+
+      res.json({ roomId });
+    })
+  );
+
+  router.get(
+    '/webhooks/deliveries',
+    handle((req, res) => {
+      res.json({ deliveries: webhookDispatcher.deliveries });
+    })
+  );
+
+  router.get(
+    '/drain',
+    handle((req, res) => {
+      res.json(drainer.status());
+    })
+  );
+
+  router.post(
+    '/drain',
+    handle((req, res) => {
+      const { timeout } = req.body || {};
+
+      if (timeout !== undefined && (!Number.isInteger(timeout) || timeout < 0))
+        throw new HttpError(
+          400,
+          'BAD_REQUEST',
+          '"timeout" must be a positive integer'
+        );
+
+      if (!drainer.start(timeout))
+        throw new HttpError(409, 'ALREADY_DRAINING', 'server is draining');
+
+      res.status(202).json(drainer.status());
+    })
+  );
+
+  router.use((req, res, next) => {
+    next(new HttpError(404, 'NOT_FOUND', `cannot ${req.method} ${req.path}`));
+  });
+
+  router.use(httpErrorHandler(logger));
+
+  return router;
+}
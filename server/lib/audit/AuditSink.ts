@@ -0,0 +1,58 @@
+import { config } from '../config/config';
+import { FileAuditSink } from './FileAuditSink';
+import { RedisAuditSink } from './RedisAuditSink';
+
+export type AuditOutcome = 'success' | 'denied' | 'error';
+
+export interface AuditPeer {
+  peerId: string;
+  authId: string;
+  displayName: string;
+}
+
+/**
+ * One moderator or security action of a peer.
+ */
+export interface AuditEntry {
+  timestamp: number;
+  roomId: string;
+  // Method of the socket request, e.g. `moderator:kickPeer`.
+  action: string;
+  actor: AuditPeer;
+  // The peer the action applies to, null for room wide actions.
+  target: AuditPeer | null;
+  outcome: AuditOutcome;
+  // Message of the error when the action was denied or failed.
+  error?: string;
+}
+
+export interface AuditQuery {
+  // Only the entries recorded from this time (ms).
+  since?: number;
+  // The most recent entries are kept.
+  limit?: number;
+}
+
+/**
+ * Storage of the audit log, queried per room.
+ */
+export interface AuditSink {
+  write(entry: AuditEntry): Promise<void>;
+  // Oldest first.
+  query(roomId: string, query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+/**
+ * Creates the audit sink configured in `config.audit.sink`, null when the
+ * audit log is disabled.
+ */
+export function createAuditSink({ redisClient }): AuditSink | null {
+  switch (config.audit.sink) {
+    case 'file':
+      return new FileAuditSink();
+    case 'redis':
+      return new RedisAuditSink({ redisClient });
+    default:
+      return null;
+  }
+}
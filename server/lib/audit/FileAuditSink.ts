@@ -0,0 +1,66 @@
+import fs from 'fs';
+import readline from 'readline';
+import Logger from '../logger/Logger';
+import { config } from '../config/config';
+import type { AuditEntry, AuditQuery, AuditSink } from './AuditSink';
+
+const logger = new Logger('FileAuditSink');
+
+/**
+ * Audit log appended to a JSON lines file, one entry per line. Queries
+ * scan the whole file.
+ */
+export class FileAuditSink implements AuditSink {
+  _stream: fs.WriteStream;
+
+  constructor() {
+    this._stream = fs.createWriteStream(config.audit.path, { flags: 'a' });
+
+    // The writes fail with the same error
+    this._stream.on('error', (error) =>
+      logger.error('audit log file error [error:"%o"]', error)
+    );
+  }
+
+  async write(entry: AuditEntry) {
+    await new Promise<void>((resolve, reject) =>
+      this._stream.write(`${JSON.stringify(entry)}\n`, (error) =>
+        error ? reject(error) : resolve()
+      )
+    );
+  }
+
+  async query(roomId: string, { since = 0, limit }: AuditQuery) {
+    const entries: AuditEntry[] = [];
+
+    if (!fs.existsSync(config.audit.path)) return entries;
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(config.audit.path),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line) continue;
+
+      let entry: AuditEntry;
+
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        // A line cut by a crash of the server
+        logger.warn('query() | invalid entry [line:"%s"]', line);
+
+        continue;
+      }
+
+      if (entry.roomId !== roomId || entry.timestamp < since) continue;
+
+      entries.push(entry);
+
+      if (limit && entries.length > limit) entries.shift();
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,43 @@
+import { promisify } from 'util';
+import { config } from '../config/config';
+import type { AuditEntry, AuditQuery, AuditSink } from './AuditSink';
+
+/**
+ * Audit log kept in one Redis stream per room, capped to about
+ * `config.audit.maxEntries` entries.
+ */
+export class RedisAuditSink implements AuditSink {
+  _redisClient;
+
+  constructor({ redisClient }) {
+    this._redisClient = redisClient;
+  }
+
+  async write(entry: AuditEntry) {
+    const { maxEntries, ttl } = config.audit;
+    const key = this._key(entry.roomId);
+    const multi = this._redisClient
+      .multi()
+      .xadd(key, 'MAXLEN', '~', maxEntries, '*', 'entry', JSON.stringify(entry))
+      .expire(key, ttl);
+
+    await promisify(multi.exec).call(multi);
+  }
+
+  async query(roomId: string, { since = 0, limit }: AuditQuery) {
+    const args = [this._key(roomId), '+', since];
+
+    if (limit) args.push('COUNT', limit);
+
+    // Newest first, [[id, ['entry', json]], ...]
+    const messages: [string, string[]][] = await promisify(
+      this._redisClient.xrevrange
+    ).apply(this._redisClient, args);
+
+    return messages.reverse().map(([, fields]) => JSON.parse(fields[1]));
+  }
+
+  _key(roomId: string) {
+    return `${config.audit.redisKeyPrefix}:${roomId}`;
+  }
+}
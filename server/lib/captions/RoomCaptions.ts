@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as mediasoup from 'mediasoup';
+import Logger from '../logger/Logger';
+import { Peer } from '../Peer';
+import { config } from '../config/config';
+import { roomDirectory } from '../files/FileStore';
+import {
+  allocatePort,
+  releasePort,
+  createPlainConsumer,
+  createSdp,
+} from '../recording/rtp';
+import { STT_SAMPLE_RATE, SttEngine, SttSession } from './SttEngine';
+
+const logger = new Logger('RoomCaptions');
+
+// Time given to FFmpeg to open the SDP and bind its ports before RTP flows.
+const RECEIVER_READY_DELAY = 1000;
+
+export interface CaptionSegment {
+  // Same id for the partial and final results of a segment.
+  id: string;
+  peerId: string;
+  displayName: Peer['displayName'];
+  text: string;
+  final: boolean;
+}
+
+interface CaptionedTrack {
+  producerId: string;
+  port: number;
+  transport: mediasoup.types.PlainTransport;
+  consumer: mediasoup.types.Consumer;
+  process: ChildProcess;
+  session: SttSession;
+  // Number of the segment being spoken.
+  segment: number;
+}
+
+interface TranscriptLine {
+  time: number;
+  displayName: Peer['displayName'];
+  text: string;
+}
+
+/**
+ * Live captions of a room.
+ *
+ * Every microphone is sent through a PlainTransport to an FFmpeg process
+ * decoding it to PCM, which is given to a session of the speech-to-text
+ * engine.
+ *
+ * @emits caption - CaptionSegment
+ */
+export class RoomCaptions extends EventEmitter {
+  _roomId: string;
+
+  _engine: SttEngine;
+
+  _closed = false;
+
+  // Tracks being captioned, keyed by producer id.
+  _tracks = new Map<string, CaptionedTrack>();
+
+  // Final segments, written as the transcript when the room closes.
+  _transcript: TranscriptLine[] = [];
+
+  constructor({ roomId, engine }: { roomId: string; engine: SttEngine }) {
+    logger.info('constructor() [roomId:"%s"]', roomId);
+
+    super();
+
+    this._roomId = roomId;
+    this._engine = engine;
+  }
+
+  async addProducer({
+    router,
+    peer,
+    producer,
+  }: {
+    router: mediasoup.types.Router;
+    peer: Peer;
+    producer: mediasoup.types.Producer;
+  }) {
+    if (this._closed || this._tracks.has(producer.id)) return;
+
+    logger.debug(
+      'addProducer() [peerId:"%s", producerId:"%s"]',
+      peer.id,
+      producer.id
+    );
+
+    let port: number = null;
+    let transport: mediasoup.types.PlainTransport = null;
+
+    try {
+      port = allocatePort();
+
+      const plainConsumer = await createPlainConsumer({
+        router,
+        producer,
+        port,
+      });
+      const { consumer } = plainConsumer;
+
+      transport = plainConsumer.transport;
+
+      if (this._closed) throw new Error('captions closed');
+
+      const decoderProcess = spawn(
+        config.recording.ffmpegPath,
+        [
+          '-loglevel',
+          'warning',
+          '-protocol_whitelist',
+          'pipe,udp,rtp',
+          '-f',
+          'sdp',
+          '-i',
+          'pipe:0',
+          '-vn',
+          '-ac',
+          '1',
+          '-ar',
+          String(STT_SAMPLE_RATE),
+          '-f',
+          's16le',
+          'pipe:1',
+        ],
+        { stdio: ['pipe', 'pipe', 'pipe'] }
+      );
+
+      decoderProcess.stderr.on('data', (data) =>
+        logger.debug('ffmpeg [producerId:"%s"] %s', producer.id, data)
+      );
+
+      decoderProcess.on('error', (error) =>
+        logger.error(
+          'ffmpeg process error [producerId:"%s", error:"%o"]',
+          producer.id,
+          error
+        )
+      );
+
+      decoderProcess.stdin.end(
+        createSdp({
+          rtpParameters: consumer.rtpParameters,
+          kind: consumer.kind,
+          port,
+        })
+      );
+
+      const session = this._engine.createSession();
+
+      const track: CaptionedTrack = {
+        producerId: producer.id,
+        port,
+        transport,
+        consumer,
+        process: decoderProcess,
+        session,
+        segment: 0,
+      };
+
+      this._tracks.set(producer.id, track);
+
+      decoderProcess.stdout.on('data', (pcm: Buffer) => session.write(pcm));
+
+      session.on('partial', (text: string) =>
+        this._handleResult(track, peer, text, false)
+      );
+
+      session.on('final', (text: string) =>
+        this._handleResult(track, peer, text, true)
+      );
+
+      session.on('error', (error) =>
+        logger.warn(
+          'stt session error [producerId:"%s", error:"%o"]',
+          producer.id,
+          error
+        )
+      );
+
+      consumer.on('producerclose', () => this.removeProducer(producer.id));
+
+      setTimeout(async () => {
+        if (consumer.closed) return;
+
+        try {
+          await consumer.resume();
+        } catch (error) {
+          logger.warn('addProducer() | resume failed [error:"%o"]', error);
+        }
+      }, RECEIVER_READY_DELAY);
+    } catch (error) {
+      if (transport) transport.close();
+
+      if (port !== null) releasePort(port);
+
+      // Closed meanwhile
+      if (this._closed) return;
+
+      logger.error(
+        'addProducer() [producerId:"%s", error:"%o"]',
+        producer.id,
+        error
+      );
+    }
+  }
+
+  /**
+   * Stops the captions of a producer, resolves once its last segment was
+   * emitted.
+   */
+  async removeProducer(producerId: string) {
+    const track = this._tracks.get(producerId);
+
+    if (!track) return;
+
+    logger.debug('removeProducer() [producerId:"%s"]', producerId);
+
+    this._tracks.delete(producerId);
+
+    track.consumer.close();
+    track.transport.close();
+    track.process.kill('SIGKILL');
+
+    releasePort(track.port);
+
+    await track.session.close();
+  }
+
+  /**
+   * Stops every track and writes the transcript of the meeting, if
+   * `config.captions.transcriptPath` is set.
+   */
+  async close() {
+    if (this._closed) return;
+
+    logger.info('close() [roomId:"%s"]', this._roomId);
+
+    this._closed = true;
+
+    // The last segments are still added to the transcript
+    await Promise.all(
+      [...this._tracks.keys()].map((producerId) =>
+        this.removeProducer(producerId)
+      )
+    );
+
+    const { transcriptPath } = config.captions;
+
+    if (!transcriptPath || this._transcript.length === 0) return;
+
+    const directory = path.resolve(transcriptPath, roomDirectory(this._roomId));
+    const file = path.join(
+      directory,
+      `transcript-${new Date().toISOString().replace(/[:.]/g, '-')}.txt`
+    );
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(
+      file,
+      this._transcript
+        .map(
+          ({ time, displayName, text }) =>
+            `[${new Date(time).toISOString()}] ${displayName}: ${text}\n`
+        )
+        .join('')
+    );
+
+    logger.info('close() | transcript written [file:"%s"]', file);
+  }
+
+  _handleResult(
+    track: CaptionedTrack,
+    peer: Peer,
+    text: string,
+    final: boolean
+  ) {
+    const segment: CaptionSegment = {
+      id: `${track.producerId}-${track.segment}`,
+      peerId: peer.id,
+      displayName: peer.displayName,
+      text,
+      final,
+    };
+
+    if (final) {
+      track.segment++;
+
+      this._transcript.push({
+        time: Date.now(),
+        displayName: peer.displayName,
+        text,
+      });
+    }
+
+    // Nobody left to show it to
+    if (!this._closed) this.emit('caption', segment);
+  }
+}
@@ -0,0 +1,39 @@
+import type { EventEmitter } from 'events';
+import { config } from '../config/config';
+import { VoskEngine } from './VoskEngine';
+
+// Audio given to the engines: 16 kHz mono signed 16 bit little endian PCM.
+export const STT_SAMPLE_RATE = 16000;
+
+/**
+ * Recognition of one audio stream.
+ *
+ * @emits partial - The current guess of the segment being spoken.
+ * @emits final - The text of a segment once it ended.
+ * @emits error
+ */
+export interface SttSession extends EventEmitter {
+  write(pcm: Buffer): void;
+  // Ends the audio, resolves once the last segment was emitted.
+  close(): Promise<void>;
+}
+
+/**
+ * Speech-to-text engine of the live captions.
+ */
+export interface SttEngine {
+  createSession(): SttSession;
+}
+
+/**
+ * Creates the engine configured in `config.captions.engine`, null when
+ * the captions are disabled.
+ */
+export function createSttEngine(): SttEngine | null {
+  switch (config.captions.engine) {
+    case 'vosk':
+      return new VoskEngine();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,229 @@
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as readline from 'readline';
+import Logger from '../logger/Logger';
+import { config } from '../config/config';
+import { STT_SAMPLE_RATE, SttEngine, SttSession } from './SttEngine';
+
+const logger = new Logger('VoskEngine');
+
+// Time given to the script to emit the last segment of a session.
+const SESSION_STOP_TIMEOUT = 5000;
+
+// Audio sent to the script at once, 0.2 s.
+const FRAME_SIZE = 6400;
+
+// Frames of the script: session id, frame type and payload length.
+const HEADER_SIZE = 9;
+
+const FRAME_AUDIO = 0;
+const FRAME_END = 1;
+
+class VoskSession extends EventEmitter implements SttSession {
+  _id: number;
+
+  _engine: VoskEngine;
+
+  _closed = false;
+
+  _lastPartial = '';
+
+  // Audio not sent yet, less than a frame.
+  _pending = Buffer.alloc(0);
+
+  // Resolved once the last segment was emitted.
+  _ended: Promise<void>;
+
+  _resolveEnded: () => void;
+
+  constructor({ id, engine }: { id: number; engine: VoskEngine }) {
+    super();
+
+    this._id = id;
+    this._engine = engine;
+    this._ended = new Promise<void>((resolve) => {
+      this._resolveEnded = resolve;
+    });
+  }
+
+  write(pcm: Buffer) {
+    if (this._closed) return;
+
+    this._pending = Buffer.concat([this._pending, pcm]);
+
+    while (this._pending.length >= FRAME_SIZE) {
+      this._engine._send(
+        this._id,
+        FRAME_AUDIO,
+        this._pending.subarray(0, FRAME_SIZE)
+      );
+
+      this._pending = this._pending.subarray(FRAME_SIZE);
+    }
+  }
+
+  close() {
+    if (this._closed) return this._ended;
+
+    this._closed = true;
+
+    if (this._pending.length > 0)
+      this._engine._send(this._id, FRAME_AUDIO, this._pending);
+
+    this._pending = Buffer.alloc(0);
+
+    // The script emits the last segment at the end of the session.
+    this._engine._send(this._id, FRAME_END);
+
+    const timeout = setTimeout(() => this._end(), SESSION_STOP_TIMEOUT);
+
+    this._ended.then(() => clearTimeout(timeout));
+
+    return this._ended;
+  }
+
+  _end() {
+    this._engine._sessions.delete(this._id);
+
+    this._resolveEnded();
+  }
+
+  /**
+   * Handles a result of the recognizer, `{ "partial": "..." }` while the
+   * segment is spoken and `{ "text": "..." }` when it ended.
+   */
+  _handleResult(result: any) {
+    if (typeof result.partial === 'string') {
+      if (result.partial && result.partial !== this._lastPartial)
+        this.emit('partial', result.partial);
+
+      this._lastPartial = result.partial;
+    } else if (typeof result.text === 'string') {
+      this._lastPartial = '';
+
+      if (result.text) this.emit('final', result.text);
+    }
+
+    if (result.end) this._end();
+  }
+}
+
+/**
+ * Local CPU engine, a single Python script loads the Vosk model and runs
+ * the recognizer of every stream of the server.
+ *
+ * The script is started with the first session and started again with the
+ * next one if it exits.
+ */
+export class VoskEngine implements SttEngine {
+  _process: ChildProcess = null;
+
+  // Sessions by id.
+  _sessions = new Map<number, VoskSession>();
+
+  _nextId = 0;
+
+  // The script is behind, the audio is dropped until its input drains.
+  _draining = false;
+
+  createSession(): SttSession {
+    if (!this._process) this._startProcess();
+
+    // Ids are uint32 in the frames
+    this._nextId = (this._nextId + 1) % 0x100000000;
+
+    const session = new VoskSession({ id: this._nextId, engine: this });
+
+    this._sessions.set(session._id, session);
+
+    return session;
+  }
+
+  _startProcess() {
+    const { python, script, model } = config.captions.vosk;
+
+    logger.info('_startProcess() [model:"%s"]', model);
+
+    const engineProcess = spawn(
+      python,
+      [script, model, String(STT_SAMPLE_RATE)],
+      { stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+
+    this._process = engineProcess;
+    this._draining = false;
+
+    readline
+      .createInterface({ input: engineProcess.stdout })
+      .on('line', (line) => this._handleLine(line));
+
+    engineProcess.stderr.on('data', (data) => logger.debug('vosk %s', data));
+
+    engineProcess.stdin.on('drain', () => {
+      if (this._process === engineProcess) this._draining = false;
+    });
+
+    // Written after the script exited
+    engineProcess.stdin.on('error', () => {});
+
+    engineProcess.on('error', (error) =>
+      logger.error('vosk process error [error:"%o"]', error)
+    );
+
+    engineProcess.on('close', (code) => {
+      logger.warn('vosk exited [code:%s]', code);
+
+      this._process = null;
+
+      const sessions = [...this._sessions.values()];
+
+      this._sessions.clear();
+
+      for (const session of sessions) {
+        if (!session._closed)
+          session.emit('error', new Error(`vosk exited with code ${code}`));
+
+        session._end();
+      }
+    });
+  }
+
+  _send(sessionId: number, type: number, payload = Buffer.alloc(0)) {
+    if (!this._process || !this._sessions.has(sessionId)) return;
+
+    // Late captions are useless, the end frames still get through.
+    if (type === FRAME_AUDIO && this._draining) return;
+
+    const header = Buffer.alloc(HEADER_SIZE);
+
+    header.writeUInt32BE(sessionId, 0);
+    header.writeUInt8(type, 4);
+    header.writeUInt32BE(payload.length, 5);
+
+    if (!this._process.stdin.write(Buffer.concat([header, payload]))) {
+      if (!this._draining)
+        logger.warn('_send() | vosk is behind, dropping the audio');
+
+      this._draining = true;
+    }
+  }
+
+  _handleLine(line: string) {
+    let result;
+
+    try {
+      result = JSON.parse(line);
+    } catch (error) {
+      logger.warn('_handleLine() | invalid result [line:"%s"]', line);
+
+      return;
+    }
+
+    const session = this._sessions.get(result.session);
+
+    // Ended by its timeout
+    if (!session) return;
+
+    session._handleResult(result);
+  }
+}
@@ -0,0 +1,180 @@
+import { hostname } from 'os';
+import { promisify } from 'util';
+import Logger from '../logger/Logger';
+import { config } from '../config/config';
+
+const logger = new Logger('RoomRegistry');
+
+// Deletes a key only if it still holds the given value.
+const RELEASE_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end';
+
+// Replaces the owner of a room only if it is still the given (dead) node.
+const TAKEOVER_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("set", KEYS[1], ARGV[2], "PX", ARGV[3]) else return nil end';
+
+export interface ClusterNode {
+  id: string;
+  url: string;
+}
+
+/**
+ * Redis backed registry of the cluster nodes and of the node owning each
+ * room, so a room only lives on one node.
+ *
+ * Every node keeps its own key and the keys of its rooms alive with a
+ * heartbeat, keys of a crashed node expire after `config.cluster.ttl`.
+ */
+export class RoomRegistry {
+  _redisClient;
+
+  _node: ClusterNode;
+
+  // Rooms owned by this node.
+  _rooms = new Set<string>();
+
+  _heartbeatInterval = null;
+
+  constructor({ redisClient }) {
+    this._redisClient = redisClient;
+    this._node = {
+      id: config.cluster.nodeId || hostname(),
+      url: config.cluster.nodeUrl,
+    };
+
+    logger.info('constructor() [nodeId:"%s"]', this._node.id);
+  }
+
+  get nodeId() {
+    return this._node.id;
+  }
+
+  async start() {
+    await this._heartbeat();
+
+    this._heartbeatInterval = setInterval(() => {
+      this._heartbeat().catch((error) => {
+        logger.error('heartbeat failed [error:"%o"]', error);
+      });
+    }, (config.cluster.ttl * 1000) / 3);
+  }
+
+  async close() {
+    clearInterval(this._heartbeatInterval);
+
+    await Promise.all(
+      [...this._rooms].map((roomId) => this.releaseRoom(roomId))
+    );
+
+    await this._command('del', this._nodeKey(this._node.id));
+  }
+
+  /**
+   * Claims the ownership of a room for this node.
+   *
+   * Resolves with null when this node owns the room, otherwise with the
+   * node owning it.
+   */
+  async claimRoom(roomId: string): Promise<ClusterNode | null> {
+    const key = this._roomKey(roomId);
+    const ttl = config.cluster.ttl * 1000;
+
+    const claimed = await this._command(
+      'set',
+      key,
+      this._node.id,
+      'PX',
+      ttl,
+      'NX'
+    );
+
+    if (claimed || (await this._command('get', key)) === this._node.id) {
+      this._rooms.add(roomId);
+
+      return null;
+    }
+
+    const owner = await this.getRoomNode(roomId);
+
+    if (owner) return owner;
+
+    // The owner died, take the room over
+    const ownerId = await this._command('get', key);
+    const takenOver = await this._command(
+      'eval',
+      TAKEOVER_SCRIPT,
+      1,
+      key,
+      ownerId,
+      this._node.id,
+      ttl
+    );
+
+    if (takenOver) {
+      logger.info(
+        'room taken over [roomId:"%s", deadNodeId:"%s"]',
+        roomId,
+        ownerId
+      );
+
+      this._rooms.add(roomId);
+
+      return null;
+    }
+
+    return this.claimRoom(roomId);
+  }
+
+  async releaseRoom(roomId: string) {
+    this._rooms.delete(roomId);
+
+    await this._command(
+      'eval',
+      RELEASE_SCRIPT,
+      1,
+      this._roomKey(roomId),
+      this._node.id
+    );
+  }
+
+  /**
+   * Returns the alive node owning a room, if any.
+   */
+  async getRoomNode(roomId: string): Promise<ClusterNode | null> {
+    const nodeId = await this._command('get', this._roomKey(roomId));
+
+    if (!nodeId) return null;
+
+    if (nodeId === this._node.id) return this._node;
+
+    const node = await this._command('get', this._nodeKey(nodeId));
+
+    return node ? JSON.parse(node) : null;
+  }
+
+  async _heartbeat() {
+    const ttl = config.cluster.ttl * 1000;
+    const multi = this._redisClient
+      .multi()
+      .set(this._nodeKey(this._node.id), JSON.stringify(this._node), 'PX', ttl);
+
+    for (const roomId of this._rooms) multi.pexpire(this._roomKey(roomId), ttl);
+
+    await promisify(multi.exec).call(multi);
+  }
+
+  _command(command: string, ...args): Promise<any> {
+    return promisify(this._redisClient[command]).call(
+      this._redisClient,
+      ...args
+    );
+  }
+
+  _nodeKey(nodeId: string) {
+    return `${config.cluster.redisKeyPrefix}:node:${nodeId}`;
+  }
+
+  _roomKey(roomId: string) {
+    return `${config.cluster.redisKeyPrefix}:room:${roomId}`;
+  }
+}
@@ -6,7 +6,7 @@ import json5 from 'json5';
 import yaml from 'yaml';
 import toml from 'toml';
 import { cpus, networkInterfaces } from 'os';
-import { userRoles } from '../access/roles';
+import { userRoles, registerRoles } from '../access/roles';
 import Logger from '../logger/Logger';
 import { BYPASS_ROOM_LOCK, BYPASS_LOBBY } from '../access/access';
 import {
@@ -22,6 +22,8 @@ import {
   SHARE_FILE,
   MODERATE_FILES,
   MODERATE_ROOM,
+  SERVER_RECORD_ROOM,
+  SERVER_LIVE_STREAM,
 } from '../access/perms';
 
 const logger = new Logger('config');
@@ -78,7 +80,108 @@ const isFloat = {
   validate: (v: number) => assert(Number.isFinite(v), 'must be a number'),
 };
 
-convict.addFormats({ ipaddress, url, isFloat });
+const isRoleList = {
+  name: 'roles',
+  validate: (roles: any[]) => {
+    assert(Array.isArray(roles), 'must be an array');
+
+    const ids = new Set(Object.values(userRoles).map(({ id }) => id));
+    // The roles are keyed by their upper case label
+    const labels = new Set(
+      Object.values(userRoles).map(({ label }) => label.toUpperCase())
+    );
+
+    for (const role of roles) {
+      assert(Number.isInteger(role.id), 'role id must be an integer');
+      assert(
+        typeof role.label === 'string' && role.label.length > 0,
+        'role label must be a non empty string'
+      );
+      assert(!ids.has(role.id), `duplicate role id ${role.id}`);
+      assert(
+        !labels.has(role.label.toUpperCase()),
+        `duplicate role label "${role.label}"`
+      );
+      assert(
+        Number.isFinite(role.level) && role.level > userRoles.NORMAL.level,
+        `role level must be a number above ${userRoles.NORMAL.level}`
+      );
+      assert(
+        typeof role.promotable === 'boolean',
+        'role promotable must be a boolean'
+      );
+      assert(
+        role.displayNames === undefined ||
+          (typeof role.displayNames === 'object' &&
+            Object.values(role.displayNames).every(
+              (displayName) => typeof displayName === 'string'
+            )),
+        'role displayNames must be an object of strings'
+      );
+
+      ids.add(role.id);
+      labels.add(role.label.toUpperCase());
+    }
+  },
+};
+
+const isRateLimits = {
+  name: 'rateLimits',
+  validate: (limits: Record<string, { rate: number; burst: number }>) => {
+    assert(
+      limits && typeof limits === 'object' && !Array.isArray(limits),
+      'must be an object'
+    );
+
+    for (const [method, limit] of Object.entries(limits)) {
+      assert(
+        Number.isFinite(limit.rate) && limit.rate > 0,
+        `rate of "${method}" must be a positive number`
+      );
+      assert(
+        Number.isFinite(limit.burst) && limit.burst >= 1,
+        `burst of "${method}" must be at least 1`
+      );
+    }
+  },
+};
+
+const isWebhookEndpoints = {
+  name: 'webhookEndpoints',
+  validate: (endpoints: any[]) => {
+    assert(Array.isArray(endpoints), 'must be an array');
+
+    for (const endpoint of endpoints) {
+      assert(
+        endpoint && typeof endpoint === 'object',
+        'endpoint must be an object'
+      );
+      assert(
+        typeof endpoint.url === 'string' && /^https?:\/\//.test(endpoint.url),
+        'endpoint url must be a http(s) url'
+      );
+      assert(
+        typeof endpoint.secret === 'string' && endpoint.secret.length > 0,
+        `secret of "${endpoint.url}" must be a non empty string`
+      );
+      assert(
+        endpoint.events === undefined ||
+          (Array.isArray(endpoint.events) &&
+            endpoint.events.every((event) => typeof event === 'string')),
+        `events of "${endpoint.url}" must be an array of strings`
+      );
+    }
+  },
+};
+
+convict.addFormats({
+  ipaddress,
+  url,
+  isFloat,
+  isRoleList,
+  isRateLimits,
+  isWebhookEndpoints,
+});
 
 // config schema
 const configSchema = convict({
@@ -382,6 +485,460 @@ const configSchema = convict({
       default: '',
     },
   },
+  // Admin REST API
+  adminApi: {
+    secret: {
+      doc: 'The admin API authorization header: `Bearer <secret>` required to call `/api/admin/*`. The admin API is disabled when empty.',
+      format: String,
+      default: '',
+    },
+  },
+  // Scheduled meetings
+  schedule: {
+    meetings: {
+      doc: 'The scheduled meetings `[{ "roomId": "...", "title": "...", "startAt": "2022-01-01T10:00:00Z", "endAt": "2022-01-01T11:00:00Z", "hosts": ["<authId>"], "webinar": false }]`. Peers joining before the start wait in the lobby, hosts can join anytime. In a webinar only the presenters produce media, the other peers join as a receive-only audience.',
+      format: Array,
+      default: [],
+    },
+    rejectUnknownRooms: {
+      doc: 'Rejects the connections to rooms which are not scheduled instead of creating them.',
+      format: 'Boolean',
+      default: false,
+    },
+    endWarningMinutes: {
+      doc: 'Minutes before the end of a scheduled meeting when the peers are warned.',
+      format: 'nat',
+      default: 5,
+    },
+  },
+  // Outbound webhooks
+  webhooks: {
+    endpoints: {
+      doc: 'The webhook endpoints `[{ "url": "https://...", "secret": "...", "events": ["room.created", ...] }]`, `events` defaults to all events. The body is signed with the secret in the `X-Tailchat-Meeting-Signature: sha256=<hex hmac>` header.',
+      format: 'isWebhookEndpoints',
+      default: [],
+    },
+    timeout: {
+      doc: 'The webhook request timeout (ms).',
+      format: 'nat',
+      default: 5000,
+    },
+    maxRetries: {
+      doc: 'Retries of a failed webhook delivery.',
+      format: 'nat',
+      default: 5,
+    },
+    retryDelay: {
+      doc: 'Delay (ms) before the first retry, doubled on every retry.',
+      format: 'nat',
+      default: 1000,
+    },
+    logSize: {
+      doc: 'Number of webhook deliveries kept in the delivery log.',
+      format: 'nat',
+      default: 200,
+    },
+  },
+  // Cluster mode
+  cluster: {
+    enabled: {
+      doc: 'Enables the cluster mode, a Redis room registry makes every room live on a single server instance.',
+      format: 'Boolean',
+      default: false,
+    },
+    nodeId: {
+      doc: 'The unique id of this server instance. Defaults to the hostname.',
+      format: String,
+      default: '',
+    },
+    nodeUrl: {
+      doc: 'The public URL clients use to reach this server instance (e.g. `wss://node-1.example.com`), clients of rooms owned by this instance are redirected there.',
+      format: String,
+      default: '',
+    },
+    ttl: {
+      doc: 'Time (seconds) after which the rooms of an unresponsive instance can be taken over.',
+      format: 'nat',
+      default: 30,
+    },
+    redisKeyPrefix: {
+      doc: 'Prefix of the Redis keys used by the room registry.',
+      format: String,
+      default: 'tailchat-meeting:cluster',
+    },
+  },
+  // Drain mode
+  drain: {
+    timeout: {
+      doc: 'Time (seconds) a draining server waits for its rooms to empty before closing them and exiting.',
+      format: 'nat',
+      default: 600,
+    },
+    cleanupTimeout: {
+      doc: 'Time (seconds) given to the closed rooms to finish their recordings, transcripts and shared files cleanup before the server exits.',
+      format: 'nat',
+      default: 60,
+    },
+  },
+  // Server side last-N
+  lastN: {
+    enabled: {
+      doc: 'Enables the server side last-N, the video of a peer is only forwarded to the peers who have it in their last-N (recent active speakers and pinned peers).',
+      format: 'Boolean',
+      default: false,
+    },
+    size: {
+      doc: 'Number of videos forwarded to a peer until its client requests another number.',
+      format: 'nat',
+      default: 4,
+    },
+    maxSize: {
+      doc: 'Maximum number of videos forwarded to a peer.',
+      format: 'nat',
+      default: 25,
+    },
+  },
+  // Chat and file history
+  history: {
+    store: {
+      doc: 'Where the chat and file history is stored, `redis` keeps it across room re-creations and server restarts.',
+      format: ['memory', 'redis'],
+      default: 'memory',
+    },
+    maxEntries: {
+      doc: 'Maximum number of chat messages (and files) kept per room.',
+      format: 'nat',
+      default: 200,
+    },
+    ttl: {
+      doc: 'Time (seconds) the history of a room is kept after its last change.',
+      format: 'nat',
+      default: 86400,
+    },
+    redisKeyPrefix: {
+      doc: 'Prefix of the Redis keys used by the history store.',
+      format: String,
+      default: 'tailchat-meeting:history',
+    },
+  },
+  // Files shared through the server instead of WebTorrent
+  fileSharing: {
+    backend: {
+      doc: 'Where the shared files are stored, `local` in `fileSharing.path`, `s3` in an S3 compatible bucket (e.g. MinIO). The clients then choose between WebTorrent and the server. Disabled with `none`. The files left by an earlier run are deleted at startup, except in cluster mode where the nodes may share the store.',
+      format: ['none', 'local', 's3'],
+      default: 'none',
+    },
+    maxFileSize: {
+      doc: 'Maximum size (bytes) of a file shared through the server.',
+      format: 'nat',
+      default: 104857600,
+    },
+    maxRoomSize: {
+      doc: 'Maximum total size (bytes) of the files shared through the server in a room, including the pending uploads.',
+      format: 'nat',
+      default: 1073741824,
+    },
+    allowedTypes: {
+      doc: 'The MIME types of the files that can be shared through the server `["image/*", "application/pdf"]`. Any type is allowed when empty.',
+      format: Array,
+      default: [],
+    },
+    uploadTimeout: {
+      doc: 'Time (seconds) an upload link is valid.',
+      format: 'nat',
+      default: 300,
+    },
+    path: {
+      doc: 'The directory of the `local` backend, one sub directory per room.',
+      format: String,
+      default: './files',
+    },
+    s3: {
+      endpoint: {
+        doc: 'The endpoint of the `s3` backend, e.g. `http://localhost:9000` for a local MinIO.',
+        format: String,
+        default: 'https://s3.amazonaws.com',
+      },
+      region: {
+        doc: 'The region of the `s3` backend.',
+        format: String,
+        default: 'us-east-1',
+      },
+      bucket: {
+        doc: 'The bucket of the `s3` backend, the files are stored under one key prefix per room.',
+        format: String,
+        default: '',
+      },
+      accessKeyId: {
+        doc: 'The access key id of the `s3` backend.',
+        format: String,
+        default: '',
+      },
+      secretAccessKey: {
+        doc: 'The secret access key of the `s3` backend.',
+        format: String,
+        default: '',
+      },
+      forcePathStyle: {
+        doc: 'Addresses the bucket in the path of the URLs instead of the host name, as MinIO expects.',
+        format: 'Boolean',
+        default: true,
+      },
+    },
+  },
+  // Audit log of the moderator and security actions
+  audit: {
+    sink: {
+      doc: 'Where the audit log is written, `file` appends JSON lines to `audit.path`, `redis` keeps one stream per room. Disabled with `none`.',
+      format: ['none', 'file', 'redis'],
+      default: 'none',
+    },
+    path: {
+      doc: 'The audit log file of the `file` sink.',
+      format: String,
+      default: './audit.jsonl',
+    },
+    maxEntries: {
+      doc: 'Maximum number of audit entries kept per room by the `redis` sink.',
+      format: 'nat',
+      default: 10000,
+    },
+    ttl: {
+      doc: 'Time (seconds) the audit log of a room is kept after its last entry by the `redis` sink.',
+      format: 'nat',
+      default: 2592000,
+    },
+    redisKeyPrefix: {
+      doc: 'Prefix of the Redis keys used by the audit log.',
+      format: String,
+      default: 'tailchat-meeting:audit',
+    },
+  },
+  // Rate limiting of the signaling requests
+  rateLimit: {
+    enabled: {
+      doc: 'Enables the per peer rate limiting of the signaling requests.',
+      format: 'Boolean',
+      default: true,
+    },
+    limits: {
+      doc: 'The token bucket of each limited request method `{ "chatMessage": { "rate": 1, "burst": 5 } }`, `rate` tokens are refilled per second up to `burst` tokens. The operations on the whiteboard are limited with `whiteboard`. The other methods are not limited.',
+      format: 'isRateLimits',
+      default: {
+        chatMessage: { rate: 1, burst: 5 },
+        editChatMessage: { rate: 0.5, burst: 5 },
+        deleteChatMessage: { rate: 0.5, burst: 5 },
+        chatReaction: { rate: 2, burst: 10 },
+        changeDisplayName: { rate: 0.2, burst: 3 },
+        changePicture: { rate: 0.2, burst: 3 },
+        raisedHand: { rate: 0.5, burst: 4 },
+        sendFile: { rate: 0.2, burst: 3 },
+        createFileUpload: { rate: 0.2, burst: 3 },
+        votePoll: { rate: 1, burst: 5 },
+        sendReaction: { rate: 1, burst: 5 },
+        whiteboard: { rate: 20, burst: 100 },
+      },
+    },
+    action: {
+      doc: 'Action taken against a peer with too many rate limited requests, `mute` rejects all its limited requests for `rateLimit.muteDuration` seconds.',
+      format: ['none', 'mute', 'kick'],
+      default: 'none',
+    },
+    maxViolations: {
+      doc: 'Rate limited requests of a peer within `rateLimit.violationWindow` seconds before the action is taken.',
+      format: 'nat',
+      default: 20,
+    },
+    violationWindow: {
+      doc: 'Time (seconds) the rate limited requests of a peer are counted.',
+      format: 'nat',
+      default: 60,
+    },
+    muteDuration: {
+      doc: 'Time (seconds) a peer is muted by the `mute` action.',
+      format: 'nat',
+      default: 60,
+    },
+  },
+  // Emoji reactions over the video tiles
+  reactions: {
+    burstThreshold: {
+      doc: 'Number of joined peers from which the reactions of a room are aggregated into bursts instead of shown over the tiles. Disabled with 0.',
+      format: 'nat',
+      default: 30,
+    },
+    burstInterval: {
+      doc: 'Interval (ms) of the aggregated reaction bursts.',
+      format: 'nat',
+      default: 1000,
+    },
+  },
+  // Server side recording
+  recording: {
+    enabled: {
+      doc: 'Enables the server side recording.',
+      format: 'Boolean',
+      default: false,
+    },
+    path: {
+      doc: 'The directory where the recordings are stored, one sub directory per room.',
+      format: String,
+      default: './recordings',
+    },
+    ffmpegPath: {
+      doc: 'The FFmpeg executable used to record and compose the tracks.',
+      format: String,
+      default: 'ffmpeg',
+    },
+    listenIp: {
+      doc: 'The Mediasoup PlainTransport listen IP used to send RTP to the recorder.',
+      format: String,
+      default: '127.0.0.1',
+    },
+    recorderIp: {
+      doc: 'The IP address where the recorder process receives RTP.',
+      format: String,
+      default: '127.0.0.1',
+    },
+    rtpMinPort: {
+      doc: 'The recorder start listening port number.',
+      format: 'port',
+      default: 50000,
+    },
+    rtpMaxPort: {
+      doc: 'The recorder end listening port number.',
+      format: 'port',
+      default: 50999,
+    },
+    composite: {
+      doc: 'Composes the recorded tracks into one file per meeting when the recording stops.',
+      format: 'Boolean',
+      default: true,
+    },
+    compositeWidth: {
+      doc: 'The composite recording video width.',
+      format: 'nat',
+      default: 1280,
+    },
+    compositeHeight: {
+      doc: 'The composite recording video height.',
+      format: 'nat',
+      default: 720,
+    },
+  },
+  streaming: {
+    enabled: {
+      doc: 'Enables the live streaming of the meetings, FFmpeg and the RTP ports and IPs are the ones of the recording.',
+      format: 'Boolean',
+      default: false,
+    },
+    rtmpUrl: {
+      doc: 'The RTMP URL the meetings are pushed to, `{roomId}` is replaced by the room id. Empty disables the RTMP output.',
+      format: String,
+      default: '',
+    },
+    hls: {
+      doc: 'Enables the HLS output, the playlists are served under `/api/live`.',
+      format: 'Boolean',
+      default: true,
+    },
+    path: {
+      doc: 'The directory of the SDP files and HLS segments, one sub directory per stream.',
+      format: String,
+      default: './live',
+    },
+    width: {
+      doc: 'The live stream video width.',
+      format: 'nat',
+      default: 1280,
+    },
+    height: {
+      doc: 'The live stream video height.',
+      format: 'nat',
+      default: 720,
+    },
+    frameRate: {
+      doc: 'The live stream video frame rate.',
+      format: 'nat',
+      default: 30,
+    },
+    videoBitrate: {
+      doc: 'The live stream video bitrate (kbps).',
+      format: 'nat',
+      default: 2500,
+    },
+    audioBitrate: {
+      doc: 'The live stream audio bitrate (kbps).',
+      format: 'nat',
+      default: 128,
+    },
+    maxAudioInputs: {
+      doc: 'Maximum number of microphones mixed into the live stream.',
+      format: 'nat',
+      default: 8,
+    },
+    layoutInterval: {
+      doc: 'Minimum time (ms) between two layout changes, each one restarts the encoder.',
+      format: 'nat',
+      default: 3000,
+    },
+  },
+  ingest: {
+    enabled: {
+      doc: 'Enables the ingest of external RTP sources (hardware encoders, OBS, FFmpeg) through the admin API, they join the rooms as participants.',
+      format: 'Boolean',
+      default: false,
+    },
+    listenIp: {
+      doc: 'The Mediasoup PlainTransport listen IP receiving the RTP of the sources. The sources are not authenticated, whoever sends the first packet to a port becomes its source, so only listen on a loopback or private network.',
+      format: String,
+      default: '127.0.0.1',
+    },
+    announcedIp: {
+      doc: 'The IP address the sources send to, the listen IP when empty.',
+      format: String,
+      default: '',
+    },
+    maxSources: {
+      doc: 'Maximum number of ingested sources per room.',
+      format: 'nat',
+      default: 4,
+    },
+  },
+  captions: {
+    engine: {
+      doc: 'The speech-to-text engine of the live captions, every microphone is transcribed. FFmpeg and the RTP ports and IPs are the ones of the recording. Disabled with `none`.',
+      format: ['none', 'vosk'],
+      default: 'none',
+    },
+    transcriptPath: {
+      doc: 'The directory where the transcripts are saved when the rooms close, one sub directory per room. Empty disables the transcripts.',
+      format: String,
+      default: '',
+    },
+    vosk: {
+      python: {
+        doc: 'The Python executable running the Vosk script.',
+        format: String,
+        default: 'python3',
+      },
+      script: {
+        doc: 'The script running Vosk, a single process per server loads the model once and recognizes every microphone, multiplexed on its stdin. It writes the Vosk results as JSON lines.',
+        format: String,
+        default: './utils/vosk-stt.py',
+      },
+      model: {
+        doc: 'The Vosk model directory, its language is the one of the captions.',
+        format: String,
+        default: './models/vosk-model-small-en-us-0.15',
+      },
+    },
+  },
+  customRoles: {
+    doc: 'Custom user roles added to the built-in ones `[{ "id": 7001, "label": "interpreter", "level": 25, "promotable": true, "displayNames": { "en": "Interpreter", "zh": "翻译" } }]`. Ids and case insensitive labels must be unique and differ from the built-in roles, the roles are referenced by id in the permissions.',
+    format: 'isRoleList',
+    default: [],
+  },
   // User roles
   // All users have the role "NORMAL" by default. Other roles need to be
   // added in the "userMapping" function. The following accesses and
@@ -432,6 +989,10 @@ const configSchema = convict({
       [MODERATE_FILES]: [userRoles.MODERATOR],
       // The role(s) have permission to moderate room (e.g. kick user)
       [MODERATE_ROOM]: [userRoles.MODERATOR],
+      // The role(s) have permission to record room on the server
+      [SERVER_RECORD_ROOM]: [userRoles.MODERATOR],
+      // The role(s) have permission to live stream room from the server
+      [SERVER_LIVE_STREAM]: [userRoles.MODERATOR],
     },
   },
   // Array of permissions. If no peer with the permission in question
@@ -534,6 +1095,13 @@ if (fs.existsSync(configModuleFilepath)) {
   }
 }
 
+// Custom roles, after the config module which may define them too
+try {
+  registerRoles(config.customRoles || []);
+} catch (error) {
+  configError = error.message;
+}
+
 // eslint-disable-next-line
 logger.debug('Using config:', config);
 
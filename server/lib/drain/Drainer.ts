@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+import Logger from '../logger/Logger';
+import { Room } from '../Room';
+import { config } from '../config/config';
+
+const logger = new Logger('Drainer');
+
+// Interval (ms) of the checks for empty rooms.
+const CHECK_INTERVAL = 1000;
+
+/**
+ * Drain mode for rolling deployments. While draining no new room is
+ * accepted, the peers are told when their room will be closed, and
+ * `drained` is emitted once every room (lobby included) is empty or the
+ * deadline passed, and the closed rooms finished their cleanup.
+ *
+ * @emits drained
+ */
+export class Drainer extends EventEmitter {
+  _rooms: Map<string, Room>;
+
+  // When the remaining rooms are closed, null when not draining.
+  _deadline: number = null;
+
+  _checkInterval = null;
+
+  constructor({ rooms }: { rooms: Map<string, Room> }) {
+    super();
+
+    this._rooms = rooms;
+  }
+
+  get draining() {
+    return this._deadline !== null;
+  }
+
+  get deadline() {
+    return this._deadline;
+  }
+
+  /**
+   * Starts draining, the rooms still open after `timeout` seconds are
+   * closed. Returns false if already draining.
+   */
+  start(timeout: number = config.drain.timeout) {
+    if (this.draining) return false;
+
+    logger.info('start() [timeout:%ds, rooms:%d]', timeout, this._rooms.size);
+
+    this._deadline = Date.now() + timeout * 1000;
+
+    for (const room of this._rooms.values()) room.setDraining(this._deadline);
+
+    this._checkInterval = setInterval(() => this._check(), CHECK_INTERVAL);
+
+    this._check();
+
+    return true;
+  }
+
+  status() {
+    return {
+      draining: this.draining,
+      deadline: this._deadline,
+      rooms: this._rooms.size,
+    };
+  }
+
+  async _check() {
+    if (this._checkInterval === null) return;
+
+    const empty = [...this._rooms.values()].every(
+      (room) => room.checkEmpty() && room.lobby.checkEmpty()
+    );
+
+    if (!empty && Date.now() < this._deadline) return;
+
+    clearInterval(this._checkInterval);
+
+    this._checkInterval = null;
+
+    // Closing a room removes it from the map.
+    const closing = [...this._rooms.values()].map((room) => room.close());
+
+    let timeout = null;
+
+    const cleanedUp = await Promise.race([
+      Promise.all(closing).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timeout = setTimeout(
+          () => resolve(false),
+          config.drain.cleanupTimeout * 1000
+        );
+      }),
+    ]);
+
+    clearTimeout(timeout);
+
+    logger.info('drained [deadlinePassed:%s, cleanedUp:%s]', !empty, cleanedUp);
+
+    this.emit('drained');
+  }
+}
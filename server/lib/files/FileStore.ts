@@ -0,0 +1,48 @@
+import type { Readable } from 'stream';
+import { config } from '../config/config';
+import { LocalFileStore } from './LocalFileStore';
+import { S3FileStore } from './S3FileStore';
+
+/**
+ * Storage of the files shared through the server, kept per room until the
+ * room closes or a moderator clears them.
+ */
+export interface FileStore {
+  // Stores the `size` bytes of `content`.
+  write(
+    roomId: string,
+    fileId: string,
+    content: Readable,
+    size: number
+  ): Promise<void>;
+  read(roomId: string, fileId: string): Promise<Readable>;
+  delete(roomId: string, fileIds: string[]): Promise<void>;
+  // Deletes the files of every room, left by an earlier run of the server.
+  deleteAll(): Promise<void>;
+}
+
+// Files are named by their uuid, under the directory of their room.
+export const STORED_FILE_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Name of the directory or key prefix of a room.
+ */
+export function roomDirectory(roomId: string) {
+  return String(roomId).replace(/[^\w-]/g, '_');
+}
+
+/**
+ * Creates the file store configured in `config.fileSharing.backend`, null
+ * when the files are only shared over WebTorrent.
+ */
+export function createFileStore(): FileStore | null {
+  switch (config.fileSharing.backend) {
+    case 'local':
+      return new LocalFileStore();
+    case 's3':
+      return new S3FileStore();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline, Readable } from 'stream';
+import { promisify } from 'util';
+import { config } from '../config/config';
+import { FileStore, roomDirectory, STORED_FILE_PATTERN } from './FileStore';
+
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * Files stored on the local disk, in one sub directory of
+ * `config.fileSharing.path` per room.
+ */
+export class LocalFileStore implements FileStore {
+  async write(roomId: string, fileId: string, content: Readable) {
+    const directory = this._directory(roomId);
+
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const file = path.join(directory, fileId);
+
+    try {
+      await pipelineAsync(content, fs.createWriteStream(file));
+    } catch (error) {
+      await fs.promises.unlink(file).catch(() => {});
+
+      throw error;
+    }
+  }
+
+  async read(roomId: string, fileId: string) {
+    const file = path.join(this._directory(roomId), fileId);
+
+    // Fails before the response starts when the file is missing
+    await fs.promises.access(file);
+
+    return fs.createReadStream(file);
+  }
+
+  async delete(roomId: string, fileIds: string[]) {
+    const directory = this._directory(roomId);
+
+    for (const fileId of fileIds) {
+      await fs.promises.unlink(path.join(directory, fileId)).catch((error) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+
+    // Kept while other files are left in it
+    await fs.promises.rmdir(directory).catch(() => {});
+  }
+
+  async deleteAll() {
+    const root = path.resolve(config.fileSharing.path);
+
+    let directories: fs.Dirent[];
+
+    try {
+      directories = await fs.promises.readdir(root, { withFileTypes: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+
+      throw error;
+    }
+
+    for (const directory of directories) {
+      if (!directory.isDirectory()) continue;
+
+      const roomPath = path.join(root, directory.name);
+
+      for (const file of await fs.promises.readdir(roomPath)) {
+        if (STORED_FILE_PATTERN.test(file))
+          await fs.promises.unlink(path.join(roomPath, file));
+      }
+
+      // Kept when it holds anything else
+      await fs.promises.rmdir(roomPath).catch(() => {});
+    }
+  }
+
+  _directory(roomId: string) {
+    return path.resolve(config.fileSharing.path, roomDirectory(roomId));
+  }
+}
@@ -0,0 +1,273 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { pipeline, Readable, Transform } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import Logger from '../logger/Logger';
+import { Peer } from '../Peer';
+import { HttpError } from '../helpers/errors';
+import { config } from '../config/config';
+import type { FileStore } from './FileStore';
+
+const logger = new Logger('RoomFiles');
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+const DEFAULT_FILE_TYPE = 'application/octet-stream';
+
+/**
+ * A file shared through the server, as sent in the `sendFile` notifications
+ * and kept in the file history.
+ */
+export interface ServerFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  // Download link, relative to the server.
+  url: string;
+}
+
+interface StoredFile {
+  id: string;
+  peerId: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadToken: string;
+  // Until when the file can be uploaded.
+  uploadExpires: number;
+  uploading: boolean;
+  uploaded: boolean;
+  downloadToken: string;
+}
+
+function createToken() {
+  return randomBytes(16).toString('hex');
+}
+
+function isToken(expected: string, received: unknown) {
+  return (
+    typeof received === 'string' &&
+    received.length === expected.length &&
+    timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+  );
+}
+
+function isAllowedType(type: string) {
+  const { allowedTypes } = config.fileSharing;
+
+  return (
+    allowedTypes.length === 0 ||
+    allowedTypes.some((allowed) =>
+      allowed.endsWith('/*')
+        ? type.startsWith(allowed.slice(0, -1))
+        : type === allowed
+    )
+  );
+}
+
+/**
+ * Files of a room shared through the server.
+ *
+ * A peer asks for an upload link over the socket, uploads the file over
+ * HTTP, then shares it with `sendFile`. The download links hold a random
+ * token and only work while the room is open, its files are deleted when
+ * it closes.
+ */
+export class RoomFiles {
+  _roomId: string;
+
+  _fileStore: FileStore;
+
+  _files = new Map<string, StoredFile>();
+
+  constructor({ roomId, fileStore }: { roomId: string; fileStore: FileStore }) {
+    this._roomId = roomId;
+    this._fileStore = fileStore;
+  }
+
+  /**
+   * Limits told to the clients.
+   */
+  get options() {
+    return {
+      maxFileSize: config.fileSharing.maxFileSize,
+      allowedTypes: config.fileSharing.allowedTypes,
+    };
+  }
+
+  createUpload(
+    peer: Peer,
+    { name, size, type }: { name: string; size: number; type?: string }
+  ) {
+    if (typeof name !== 'string' || !name || name.length > MAX_FILE_NAME_LENGTH)
+      throw new Error('invalid file name');
+
+    if (!Number.isInteger(size) || size < 0)
+      throw new Error('invalid file size');
+
+    if (size > config.fileSharing.maxFileSize)
+      throw new Error('file too large');
+
+    const fileType =
+      typeof type === 'string' && type ? type : DEFAULT_FILE_TYPE;
+
+    if (!isAllowedType(fileType)) throw new Error('file type not allowed');
+
+    this._dropExpiredUploads();
+
+    // The pending uploads count as well
+    let roomSize = size;
+
+    for (const stored of this._files.values()) roomSize += stored.size;
+
+    if (roomSize > config.fileSharing.maxRoomSize)
+      throw new Error('room file quota exceeded');
+
+    const file: StoredFile = {
+      id: uuidv4(),
+      peerId: peer.id,
+      name,
+      size,
+      type: fileType,
+      uploadToken: createToken(),
+      uploadExpires: Date.now() + config.fileSharing.uploadTimeout * 1000,
+      uploading: false,
+      uploaded: false,
+      downloadToken: createToken(),
+    };
+
+    this._files.set(file.id, file);
+
+    return {
+      fileId: file.id,
+      uploadUrl: `${this._fileUrl(file)}?token=${file.uploadToken}`,
+    };
+  }
+
+  /**
+   * Stores the uploaded content of a file, which must be exactly the size
+   * given when the upload was created.
+   */
+  async upload(fileId: string, token: unknown, content: Readable) {
+    const file = this._files.get(fileId);
+
+    if (
+      !file ||
+      file.uploading ||
+      file.uploaded ||
+      file.uploadExpires < Date.now() ||
+      !isToken(file.uploadToken, token)
+    )
+      throw new HttpError(403, 'FORBIDDEN', 'invalid or expired upload link');
+
+    file.uploading = true;
+
+    let received = 0;
+
+    const counter = new Transform({
+      transform(chunk, encoding, callback) {
+        received += chunk.length;
+
+        if (received > file.size)
+          callback(
+            new HttpError(413, 'TOO_LARGE', 'file larger than declared')
+          );
+        else callback(null, chunk);
+      },
+    });
+
+    try {
+      await this._fileStore.write(
+        this._roomId,
+        file.id,
+        pipeline(content, counter, () => {}),
+        file.size
+      );
+
+      if (received !== file.size) {
+        await this._fileStore.delete(this._roomId, [file.id]);
+
+        throw new HttpError(400, 'INCOMPLETE', 'file smaller than declared');
+      }
+    } catch (error) {
+      // Cleared or closed meanwhile
+      if (this._files.get(file.id) === file) file.uploading = false;
+
+      throw error;
+    }
+
+    // Cleared or closed meanwhile
+    if (this._files.get(file.id) !== file) {
+      await this._fileStore.delete(this._roomId, [file.id]);
+
+      throw new HttpError(410, 'GONE', 'file sharing cleared');
+    }
+
+    file.uploading = false;
+    file.uploaded = true;
+
+    logger.debug(
+      'upload() [roomId:"%s", fileId:"%s", size:%d]',
+      this._roomId,
+      file.id,
+      file.size
+    );
+  }
+
+  /**
+   * The shared file of an upload of the peer.
+   */
+  share(peer: Peer, fileId: unknown): ServerFile {
+    const file = typeof fileId === 'string' && this._files.get(fileId);
+
+    if (!file || !file.uploaded || file.peerId !== peer.id)
+      throw new Error('file not uploaded');
+
+    return {
+      id: file.id,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      url: `${this._fileUrl(file)}?token=${file.downloadToken}`,
+    };
+  }
+
+  async download(fileId: string, token: unknown) {
+    const file = this._files.get(fileId);
+
+    if (!file || !file.uploaded || !isToken(file.downloadToken, token))
+      throw new HttpError(404, 'FILE_NOT_FOUND', 'file not found');
+
+    const content = await this._fileStore.read(this._roomId, file.id);
+
+    return { name: file.name, size: file.size, type: file.type, content };
+  }
+
+  /**
+   * Deletes every file of the room.
+   */
+  async clear() {
+    const fileIds = [...this._files.keys()];
+
+    this._files.clear();
+
+    if (fileIds.length === 0) return;
+
+    await this._fileStore.delete(this._roomId, fileIds).catch((error) => {
+      logger.error('clear() [roomId:"%s", error:"%o"]', this._roomId, error);
+    });
+  }
+
+  _fileUrl(file: StoredFile) {
+    return `/api/files/${encodeURIComponent(this._roomId)}/${file.id}`;
+  }
+
+  _dropExpiredUploads() {
+    const now = Date.now();
+
+    for (const file of [...this._files.values()]) {
+      if (!file.uploaded && !file.uploading && file.uploadExpires < now)
+        this._files.delete(file.id);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { Readable } from 'stream';
+import { config } from '../config/config';
+import { FileStore, roomDirectory, STORED_FILE_PATTERN } from './FileStore';
+
+// The payloads are streamed, their hash is not signed.
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function hmac(key: crypto.BinaryLike, data: string) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256(data: string) {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// URI encoding of the signed query strings (RFC 3986).
+function uriEncode(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+async function readText(stream: Readable) {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+
+  return Buffer.concat(chunks).toString();
+}
+
+/**
+ * Files stored in an S3 compatible bucket, under one key prefix per room.
+ *
+ * The requests are signed with AWS Signature Version 4, which MinIO and the
+ * other S3 compatible stores accept as well.
+ */
+export class S3FileStore implements FileStore {
+  async write(roomId: string, fileId: string, content: Readable, size: number) {
+    const { data } = await this._request('PUT', this._key(roomId, fileId), {
+      data: content,
+      headers: { 'content-length': String(size) },
+    });
+
+    data.resume();
+  }
+
+  async read(roomId: string, fileId: string) {
+    const { data } = await this._request('GET', this._key(roomId, fileId));
+
+    return data as Readable;
+  }
+
+  async delete(roomId: string, fileIds: string[]) {
+    for (const fileId of fileIds) {
+      const { data } = await this._request('DELETE', this._key(roomId, fileId));
+
+      data.resume();
+    }
+  }
+
+  async deleteAll() {
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2' };
+
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const { data } = await this._request('GET', '', { query });
+      const listing = await readText(data);
+
+      const keys = (listing.match(/<Key>[^<]*<\/Key>/g) || []).map((tag) =>
+        tag.slice('<Key>'.length, -'</Key>'.length)
+      );
+
+      // The bucket may hold other objects
+      for (const key of keys) {
+        const [directory, fileId, ...rest] = key.split('/');
+
+        if (
+          rest.length > 0 ||
+          directory !== roomDirectory(directory) ||
+          !STORED_FILE_PATTERN.test(fileId || '')
+        )
+          continue;
+
+        const { data: deleted } = await this._request('DELETE', key);
+
+        deleted.resume();
+      }
+
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(listing);
+      const next = listing.match(
+        /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/
+      );
+
+      continuationToken = truncated && next ? next[1] : undefined;
+    } while (continuationToken);
+  }
+
+  _key(roomId: string, fileId: string) {
+    return `${roomDirectory(roomId)}/${fileId}`;
+  }
+
+  _request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    {
+      data,
+      headers = {},
+      query = {},
+    }: {
+      data?: Readable;
+      headers?: Record<string, string>;
+      query?: Record<string, string>;
+    } = {}
+  ) {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } =
+      config.fileSharing.s3;
+
+    const url = new URL(endpoint);
+
+    if (config.fileSharing.s3.forcePathStyle) {
+      url.pathname = `/${bucket}/${key}`;
+    } else {
+      url.hostname = `${bucket}.${url.hostname}`;
+      url.pathname = `/${key}`;
+    }
+
+    // e.g. 20240101T120000Z
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const signedHeaders = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(signedHeaders).sort();
+
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${uriEncode(name)}=${uriEncode(query[name])}`)
+      .join('&');
+
+    url.search = canonicalQuery;
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      names.map((name) => `${name}:${signedHeaders[name]}\n`).join(''),
+      names.join(';'),
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'),
+      'aws4_request'
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return axios.request({
+      method,
+      url: url.toString(),
+      data,
+      headers: {
+        ...signedHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(
+          ';'
+        )}, Signature=${signature}`,
+      },
+      responseType: 'stream',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import express from 'express';
+import { pipeline } from 'stream';
+import Logger from '../logger/Logger';
+import { Room } from '../Room';
+import { HttpError, handle, httpErrorHandler } from '../helpers/errors';
+
+const logger = new Logger('FileApi');
+
+/**
+ * 文件共享接口
+ *
+ * Uploads and downloads of the files shared through the server. The links
+ * are handed out by the rooms and hold their own token.
+ */
+export default function fileRouter({ rooms }: { rooms: Map<string, Room> }) {
+  const router = express.Router();
+
+  function getFiles(roomId: string) {
+    const room = rooms.get(roomId);
+
+    if (!room || !room.files)
+      throw new HttpError(404, 'FILE_NOT_FOUND', 'file not found');
+
+    return room.files;
+  }
+
+  // The raw body is the content of the file, sent as
+  // `application/octet-stream` so that no body parser reads it.
+  router.put(
+    '/:roomId/:fileId',
+    handle(async (req, res) => {
+      const { roomId, fileId } = req.params;
+
+      await getFiles(roomId).upload(fileId, req.query.token, req);
+
+      res.status(204).end();
+    })
+  );
+
+  router.get(
+    '/:roomId/:fileId',
+    handle(async (req, res) => {
+      const { roomId, fileId } = req.params;
+
+      const { name, size, type, content } = await getFiles(roomId).download(
+        fileId,
+        req.query.token
+      );
+
+      res.attachment(name);
+      res.set({
+        'Content-Type': type,
+        'Content-Length': String(size),
+        'X-Content-Type-Options': 'nosniff',
+      });
+
+      pipeline(content, res, (error) => {
+        if (error)
+          logger.warn(
+            'download failed [roomId:"%s", fileId:"%s", error:"%s"]',
+            roomId,
+            fileId,
+            error.message
+          );
+      });
+    })
+  );
+
+  router.use(httpErrorHandler(logger));
+
+  return router;
+}
@@ -1,3 +1,5 @@
+import Logger from '../logger/Logger';
+
 /**
  * Error produced when a socket request has a timeout.
  */
@@ -21,3 +23,99 @@ export class NotFoundInMediasoupError extends Error {
     this.name = 'NotFoundInMediasoupError';
   }
 }
+
+/**
+ * Error produced when a peer sends a request method too often, answered to
+ * the client as `{ rateLimited: true, method, retryAfter }`.
+ */
+export class RateLimitedError extends Error {
+  method: string;
+
+  // Time (ms) until the method is accepted again.
+  retryAfter: number;
+
+  // Action to take against the peer after too many violations.
+  action: 'mute' | 'kick' | null = null;
+
+  constructor(method: string, retryAfter: number) {
+    super(`request "${method}" rate limited`);
+
+    this.name = 'RateLimitedError';
+    this.method = method;
+    this.retryAfter = retryAfter;
+  }
+
+  toResponse() {
+    return {
+      rateLimited: true,
+      method: this.method,
+      retryAfter: this.retryAfter,
+    };
+  }
+}
+
+/**
+ * Error answered by the HTTP APIs as `{ error: { code, message } }`.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Wraps an express handler so thrown errors reach the error middleware.
+ */
+export function handle(fn: (req, res) => any) {
+  return async (req, res, next) => {
+    try {
+      await fn(req, res);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Error middleware of the HTTP APIs, the errors other than `HttpError` are
+ * logged and answered as an internal error.
+ */
+export function httpErrorHandler(logger: Logger) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  return (error, req, res, next) => {
+    if (!(error instanceof HttpError)) {
+      logger.error('request failed [error:"%o"]', error);
+
+      error = new HttpError(500, 'INTERNAL_ERROR', 'internal server error');
+    }
+
+    res.status(error.status).json({
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    });
+  };
+}
+
+/**
+ * Error produced when a socket is not allowed to create or join a room.
+ */
+export class RoomRejectedError extends Error {
+  reason: string;
+
+  constructor(reason: string, message: string) {
+    super(message);
+
+    this.name = 'RoomRejectedError';
+    this.reason = reason;
+  }
+}
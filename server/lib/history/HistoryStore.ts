@@ -0,0 +1,37 @@
+import { config } from '../config/config';
+import { MemoryHistoryStore } from './MemoryHistoryStore';
+import { RedisHistoryStore } from './RedisHistoryStore';
+
+export type HistoryType = 'chat' | 'file';
+
+/**
+ * Storage of the chat and file history of the rooms.
+ *
+ * Keeps at most `config.history.maxEntries` entries per room and type,
+ * forgotten `config.history.ttl` seconds after the last change.
+ */
+export interface HistoryStore {
+  load(roomId: string, type: HistoryType): Promise<any[]>;
+  append(roomId: string, type: HistoryType, entry: any): Promise<void>;
+  replace(roomId: string, type: HistoryType, entries: any[]): Promise<void>;
+  // Replaces the entry at `index`, negative indexes count from the end.
+  update(
+    roomId: string,
+    type: HistoryType,
+    index: number,
+    entry: any
+  ): Promise<void>;
+  clear(roomId: string, type: HistoryType): Promise<void>;
+}
+
+/**
+ * Creates the history store configured in `config.history.store`.
+ */
+export function createHistoryStore({ redisClient }): HistoryStore {
+  switch (config.history.store) {
+    case 'redis':
+      return new RedisHistoryStore({ redisClient });
+    default:
+      return new MemoryHistoryStore();
+  }
+}
@@ -0,0 +1,60 @@
+import { config } from '../config/config';
+import type { HistoryStore, HistoryType } from './HistoryStore';
+
+/**
+ * History kept in the server process, lost on restart.
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  _histories = new Map<string, { entries: any[]; expiresAt: number }>();
+
+  async load(roomId: string, type: HistoryType) {
+    const key = this._key(roomId, type);
+    const history = this._histories.get(key);
+
+    if (!history) return [];
+
+    if (history.expiresAt <= Date.now()) {
+      this._histories.delete(key);
+
+      return [];
+    }
+
+    return [...history.entries];
+  }
+
+  async append(roomId: string, type: HistoryType, entry: any) {
+    const entries = await this.load(roomId, type);
+
+    entries.push(entry);
+
+    await this.replace(roomId, type, entries);
+  }
+
+  async replace(roomId: string, type: HistoryType, entries: any[]) {
+    const { maxEntries, ttl } = config.history;
+
+    this._histories.set(this._key(roomId, type), {
+      entries: entries.slice(-maxEntries),
+      expiresAt: Date.now() + ttl * 1000,
+    });
+  }
+
+  async update(roomId: string, type: HistoryType, index: number, entry: any) {
+    const entries = await this.load(roomId, type);
+    const position = index < 0 ? entries.length + index : index;
+
+    if (position < 0 || position >= entries.length) return;
+
+    entries[position] = entry;
+
+    await this.replace(roomId, type, entries);
+  }
+
+  async clear(roomId: string, type: HistoryType) {
+    this._histories.delete(this._key(roomId, type));
+  }
+
+  _key(roomId: string, type: HistoryType) {
+    return `${roomId}:${type}`;
+  }
+}
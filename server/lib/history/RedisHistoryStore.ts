@@ -0,0 +1,77 @@
+import { promisify } from 'util';
+import { config } from '../config/config';
+import type { HistoryStore, HistoryType } from './HistoryStore';
+
+/**
+ * History kept in Redis lists, survives restarts and is shared between
+ * server instances using the same Redis.
+ */
+export class RedisHistoryStore implements HistoryStore {
+  _redisClient;
+
+  constructor({ redisClient }) {
+    this._redisClient = redisClient;
+  }
+
+  async load(roomId: string, type: HistoryType) {
+    const entries: string[] = await promisify(this._redisClient.lrange).call(
+      this._redisClient,
+      this._key(roomId, type),
+      0,
+      -1
+    );
+
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  async append(roomId: string, type: HistoryType, entry: any) {
+    const { maxEntries, ttl } = config.history;
+    const key = this._key(roomId, type);
+    const multi = this._redisClient
+      .multi()
+      .rpush(key, JSON.stringify(entry))
+      .ltrim(key, -maxEntries, -1)
+      .expire(key, ttl);
+
+    await promisify(multi.exec).call(multi);
+  }
+
+  async replace(roomId: string, type: HistoryType, entries: any[]) {
+    const { maxEntries, ttl } = config.history;
+    const key = this._key(roomId, type);
+    const multi = this._redisClient.multi().del(key);
+
+    if (entries.length > 0) {
+      multi
+        .rpush(
+          key,
+          entries.slice(-maxEntries).map((entry) => JSON.stringify(entry))
+        )
+        .expire(key, ttl);
+    }
+
+    await promisify(multi.exec).call(multi);
+  }
+
+  async update(roomId: string, type: HistoryType, index: number, entry: any) {
+    const { ttl } = config.history;
+    const key = this._key(roomId, type);
+    const multi = this._redisClient
+      .multi()
+      .lset(key, index, JSON.stringify(entry))
+      .expire(key, ttl);
+
+    await promisify(multi.exec).call(multi);
+  }
+
+  async clear(roomId: string, type: HistoryType) {
+    await promisify(this._redisClient.del).call(
+      this._redisClient,
+      this._key(roomId, type)
+    );
+  }
+
+  _key(roomId: string, type: HistoryType) {
+    return `${config.history.redisKeyPrefix}:${roomId}:${type}`;
+  }
+}
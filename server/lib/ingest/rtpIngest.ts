@@ -0,0 +1,102 @@
+import { randomInt } from 'crypto';
+import * as mediasoup from 'mediasoup';
+import { config } from '../config/config';
+
+export type IngestVideoCodec = 'vp8' | 'h264';
+
+// Codecs the senders must use, with fixed payload types so that they can
+// be given to FFmpeg (`-payload_type`).
+const CODECS: Record<
+  'opus' | IngestVideoCodec,
+  mediasoup.types.RtpCodecParameters
+> = {
+  opus: {
+    mimeType: 'audio/opus',
+    payloadType: 100,
+    clockRate: 48000,
+    channels: 2,
+    parameters: { 'sprop-stereo': 1 },
+  },
+  vp8: {
+    mimeType: 'video/VP8',
+    payloadType: 101,
+    clockRate: 90000,
+  },
+  h264: {
+    mimeType: 'video/H264',
+    payloadType: 102,
+    clockRate: 90000,
+    parameters: {
+      'packetization-mode': 1,
+      'profile-level-id': '42e01f',
+      'level-asymmetry-allowed': 1,
+    },
+  },
+};
+
+/**
+ * Where and how a sender pushes one RTP stream.
+ */
+export interface IngestEndpoint {
+  kind: mediasoup.types.MediaKind;
+  ip: string;
+  port: number;
+  rtcpPort: number;
+  mimeType: string;
+  payloadType: number;
+  clockRate: number;
+  ssrc: number;
+}
+
+/**
+ * Creates a PlainTransport receiving one RTP stream from an external
+ * sender and the producer of the stream. The sender address is learned
+ * from its first packet (comedia).
+ */
+export async function createIngestProducer({
+  router,
+  kind,
+  videoCodec = 'vp8',
+  appData,
+}: {
+  router: mediasoup.types.Router;
+  kind: mediasoup.types.MediaKind;
+  videoCodec?: IngestVideoCodec;
+  appData: Record<string, unknown>;
+}) {
+  const { listenIp, announcedIp } = config.ingest;
+  const codec = CODECS[kind === 'audio' ? 'opus' : videoCodec];
+  const ssrc = randomInt(1, 0x7fffffff);
+
+  const transport = await router.createPlainTransport({
+    listenIp: { ip: listenIp, announcedIp: announcedIp || undefined },
+    rtcpMux: false,
+    // The first sender of the port owns it, see `ingest.listenIp`
+    comedia: true,
+  });
+
+  try {
+    const producer = await transport.produce({
+      kind,
+      rtpParameters: { codecs: [codec], encodings: [{ ssrc }] },
+      appData,
+    });
+
+    const endpoint: IngestEndpoint = {
+      kind,
+      ip: announcedIp || transport.tuple.localIp,
+      port: transport.tuple.localPort,
+      rtcpPort: transport.rtcpTuple.localPort,
+      mimeType: codec.mimeType,
+      payloadType: codec.payloadType,
+      clockRate: codec.clockRate,
+      ssrc,
+    };
+
+    return { transport, producer, endpoint };
+  } catch (error) {
+    transport.close();
+
+    throw error;
+  }
+}
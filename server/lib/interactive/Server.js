@@ -75,6 +75,7 @@ class Interactive
 						this.log('- logTags [tag] [tag]         : changes logTags in all mediasoup Workers (values separated by space)');
 						this.log('- dumpRooms                   : dump all rooms');
 						this.log('- dumpPeers                   : dump all peers');
+						this.log('- drain [seconds]             : stop accepting new rooms and exit once the rooms are empty');
 						this.log('- dw, dumpWorkers             : dump mediasoup Workers');
 						this.log('- dr, dumpRouter [id]         : dump mediasoup Router with given id (or the latest created one)');
 						this.log('- dt, dumpTransport [id]      : dump mediasoup Transport with given id (or the latest created one)');
@@ -166,6 +167,25 @@ class Interactive
 						break;
 					}
 
+					case 'drain':
+					{
+						const timeout = params[0] ? Number(params[0]) : undefined;
+
+						if (timeout !== undefined && !(timeout >= 0))
+						{
+							this.error('invalid timeout');
+
+							break;
+						}
+
+						if (global.drainer.start(timeout))
+							this.log(`draining, deadline: ${new Date(global.drainer.deadline).toISOString()}`);
+						else
+							this.error('already draining');
+
+						break;
+					}
+
 					case 'dumpRooms':
 					{
 						for (const room of global.rooms.values())
@@ -661,7 +681,7 @@ function runMediasoupObserver()
 	});
 }
 
-module.exports = async function(rooms, peers)
+module.exports = async function(rooms, peers, drainer)
 {
 	try
 	{
@@ -671,6 +691,7 @@ module.exports = async function(rooms, peers)
 		// Make maps global so they can be used during the REPL terminal.
 		global.rooms = rooms;
 		global.peers = peers;
+		global.drainer = drainer;
 		global.workers = workers;
 		global.routers = routers;
 		global.transports = transports;
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Peer } from '../Peer';
+
+// Limits of a poll.
+const MAX_OPTIONS = 10;
+const MAX_TEXT_LENGTH = 500;
+// A week (seconds), far below the longest setTimeout delay.
+const MAX_DURATION = 7 * 24 * 60 * 60;
+
+export interface PollSettings {
+  question: string;
+  options: string[];
+  // Several choices per voter.
+  multiple: boolean;
+  // The voters are not shown in the results.
+  anonymous: boolean;
+  // Time (seconds) after which the poll is closed, 0 for no limit.
+  duration: number;
+}
+
+/**
+ * Poll of a room, the moderators create and close it, the peers vote.
+ */
+export class Poll {
+  id = uuidv4();
+  question: string;
+  options: string[];
+  multiple: boolean;
+  anonymous: boolean;
+  createdAt = Date.now();
+  // When the poll is closed automatically, null without duration.
+  endsAt: number = null;
+  closed = false;
+  closeTimeout = null;
+
+  // Choices by peer id.
+  _votes = new Map<string, { displayName: string; choices: number[] }>();
+
+  constructor({
+    question,
+    options,
+    multiple,
+    anonymous,
+    duration,
+  }: PollSettings) {
+    if (typeof question !== 'string' || !question.trim())
+      throw new Error('invalid poll question');
+
+    if (
+      !Array.isArray(options) ||
+      options.length < 2 ||
+      options.length > MAX_OPTIONS ||
+      !options.every((option) => typeof option === 'string' && option.trim())
+    )
+      throw new Error(`a poll needs 2 to ${MAX_OPTIONS} options`);
+
+    if (
+      duration &&
+      (!Number.isInteger(duration) || duration < 0 || duration > MAX_DURATION)
+    )
+      throw new Error('invalid poll duration');
+
+    this.question = question.trim().slice(0, MAX_TEXT_LENGTH);
+    this.options = options.map((option) =>
+      option.trim().slice(0, MAX_TEXT_LENGTH)
+    );
+    this.multiple = Boolean(multiple);
+    this.anonymous = Boolean(anonymous);
+
+    if (duration) this.endsAt = this.createdAt + duration * 1000;
+  }
+
+  /**
+   * Replaces the choices of the peer, no choice withdraws its vote.
+   */
+  vote(peer: Peer, choices: number[]) {
+    if (this.closed) throw new Error('poll closed');
+
+    if (
+      !Array.isArray(choices) ||
+      !choices.every(
+        (choice) =>
+          Number.isInteger(choice) &&
+          choice >= 0 &&
+          choice < this.options.length
+      )
+    )
+      throw new Error('invalid poll choices');
+
+    const uniqueChoices = [...new Set(choices)];
+
+    if (!this.multiple && uniqueChoices.length > 1)
+      throw new Error('single choice poll');
+
+    if (uniqueChoices.length === 0) this._votes.delete(peer.id);
+    else
+      this._votes.set(peer.id, {
+        displayName: peer.displayName || '',
+        choices: uniqueChoices,
+      });
+  }
+
+  /**
+   * The poll and its results, as seen by every peer.
+   */
+  get info() {
+    const votes = [...this._votes.values()];
+
+    return {
+      id: this.id,
+      question: this.question,
+      options: this.options,
+      multiple: this.multiple,
+      anonymous: this.anonymous,
+      createdAt: this.createdAt,
+      endsAt: this.endsAt,
+      closed: this.closed,
+      voterCount: votes.length,
+      counts: this.options.map(
+        (option, index) =>
+          votes.filter(({ choices }) => choices.includes(index)).length
+      ),
+      // Display names of the voters of each option
+      voters: this.anonymous
+        ? null
+        : this.options.map((option, index) =>
+            votes
+              .filter(({ choices }) => choices.includes(index))
+              .map(({ displayName }) => displayName)
+          ),
+    };
+  }
+
+  /**
+   * The poll with the choices of the peer.
+   */
+  getInfo(peerId: string) {
+    const vote = this._votes.get(peerId);
+
+    return { ...this.info, myChoices: vote ? vote.choices : [] };
+  }
+}
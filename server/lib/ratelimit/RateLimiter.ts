@@ -0,0 +1,107 @@
+import { config } from '../config/config';
+import { RateLimitedError } from '../helpers/errors';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type RateLimitAction = 'mute' | 'kick';
+
+/**
+ * Counts of the rejected requests by method and of the actions taken,
+ * exported by the aggregated Prometheus metrics.
+ */
+export const rateLimitMetrics = {
+  rejected: new Map<string, number>(),
+  actions: new Map<RateLimitAction, number>(),
+};
+
+function countMetric<T>(counts: Map<T, number>, key: T) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Token buckets of the signaling requests of one peer, per method.
+ *
+ * A request takes one token of the bucket of its method, refilled with
+ * `rate` tokens per second up to `burst` tokens. The methods missing in
+ * `config.rateLimit.limits` are not limited.
+ */
+export class RateLimiter {
+  _buckets = new Map<string, TokenBucket>();
+
+  // Times of the rejected requests in the violation window.
+  _violations: number[] = [];
+
+  _mutedUntil = 0;
+
+  /**
+   * Takes a token for the method, throws a `RateLimitedError` when the
+   * bucket is empty. The error has the `action` to take against the peer
+   * once it has too many violations.
+   */
+  consume(method: string) {
+    const { enabled, limits, maxViolations, violationWindow, action } =
+      config.rateLimit;
+    const limit = enabled && limits[method];
+
+    if (!limit) return;
+
+    const now = Date.now();
+
+    if (now < this._mutedUntil) {
+      countMetric(rateLimitMetrics.rejected, method);
+
+      throw new RateLimitedError(method, this._mutedUntil - now);
+    }
+
+    let bucket = this._buckets.get(method);
+
+    if (!bucket) {
+      bucket = { tokens: limit.burst, updatedAt: now };
+
+      this._buckets.set(method, bucket);
+    }
+
+    bucket.tokens = Math.min(
+      limit.burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.rate
+    );
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+
+      return;
+    }
+
+    countMetric(rateLimitMetrics.rejected, method);
+
+    const error = new RateLimitedError(
+      method,
+      Math.ceil(((1 - bucket.tokens) / limit.rate) * 1000)
+    );
+
+    this._violations = this._violations.filter(
+      (time) => time > now - violationWindow * 1000
+    );
+    this._violations.push(now);
+
+    if (action !== 'none' && this._violations.length >= maxViolations) {
+      this._violations = [];
+
+      if (action === 'mute') {
+        this._mutedUntil = now + config.rateLimit.muteDuration * 1000;
+
+        error.retryAfter = this._mutedUntil - now;
+      }
+
+      error.action = action;
+
+      countMetric(rateLimitMetrics.actions, action);
+    }
+
+    throw error;
+  }
+}
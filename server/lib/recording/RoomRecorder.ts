@@ -0,0 +1,440 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as mediasoup from 'mediasoup';
+import Logger from '../logger/Logger';
+import { Peer } from '../Peer';
+import { config } from '../config/config';
+import {
+  allocatePort,
+  releasePort,
+  createPlainConsumer,
+  createSdp,
+} from './rtp';
+
+const logger = new Logger('RoomRecorder');
+
+// Time given to FFmpeg to open the SDP and bind its ports before RTP flows.
+const RECEIVER_READY_DELAY = 1000;
+
+// Time given to FFmpeg to finalize a file before it gets killed.
+const RECEIVER_STOP_TIMEOUT = 5000;
+
+interface RecordedTrack {
+  producerId: string;
+  peerId: string;
+  displayName: Peer['displayName'];
+  source: string;
+  kind: mediasoup.types.MediaKind;
+  file: string;
+  port: number;
+  // Offsets (ms) relative to the recording start.
+  startOffset: number;
+  endOffset?: number;
+  transport: mediasoup.types.PlainTransport;
+  consumer: mediasoup.types.Consumer;
+  process: ChildProcess;
+}
+
+/**
+ * Server side recording of a room.
+ *
+ * Every producer is sent through a PlainTransport to its own FFmpeg process
+ * which writes one file per track. When the recording stops all tracks are
+ * composed into a single file for the whole meeting.
+ */
+export class RoomRecorder extends EventEmitter {
+  _roomId: string;
+
+  // Directory of this recording session.
+  _directory: string;
+
+  _startedAt: number;
+
+  _stopped = false;
+
+  // Tracks being recorded, keyed by producer id.
+  _tracks = new Map<string, RecordedTrack>();
+
+  // Tracks already finished.
+  _finishedTracks: RecordedTrack[] = [];
+
+  constructor({ roomId }: { roomId: string }) {
+    logger.info('constructor() [roomId:"%s"]', roomId);
+
+    super();
+
+    this._roomId = roomId;
+    this._startedAt = Date.now();
+    this._directory = path.resolve(
+      config.recording.path,
+      String(roomId).replace(/[^\w-]/g, '_'),
+      new Date(this._startedAt).toISOString().replace(/[:.]/g, '-')
+    );
+  }
+
+  get directory() {
+    return this._directory;
+  }
+
+  get startedAt() {
+    return this._startedAt;
+  }
+
+  get stopped() {
+    return this._stopped;
+  }
+
+  async start() {
+    logger.debug('start() [directory:"%s"]', this._directory);
+
+    await fs.promises.mkdir(this._directory, { recursive: true });
+  }
+
+  async addProducer({
+    router,
+    peer,
+    producer,
+  }: {
+    router: mediasoup.types.Router;
+    peer: Peer;
+    producer: mediasoup.types.Producer;
+  }) {
+    if (this._stopped || this._tracks.has(producer.id)) return;
+
+    logger.debug(
+      'addProducer() [peerId:"%s", producerId:"%s"]',
+      peer.id,
+      producer.id
+    );
+
+    let port: number = null;
+    let transport: mediasoup.types.PlainTransport = null;
+
+    try {
+      port = allocatePort();
+
+      const plainConsumer = await createPlainConsumer({
+        router,
+        producer,
+        port,
+      });
+
+      transport = plainConsumer.transport;
+
+      // Stopped while the transport was being created
+      if (this._stopped) throw new Error('recorder stopped');
+
+      const { consumer } = plainConsumer;
+      const name = `${peer.id}-${producer.appData.source}-${producer.id}`;
+      const sdpFile = path.join(this._directory, `${name}.sdp`);
+      const file = path.join(this._directory, `${name}.mkv`);
+
+      await fs.promises.writeFile(
+        sdpFile,
+        createSdp({
+          rtpParameters: consumer.rtpParameters,
+          kind: consumer.kind,
+          port,
+        })
+      );
+
+      if (this._stopped) throw new Error('recorder stopped');
+
+      const recorderProcess = spawn(
+        config.recording.ffmpegPath,
+        [
+          '-loglevel',
+          'warning',
+          '-protocol_whitelist',
+          'file,udp,rtp',
+          '-fflags',
+          '+genpts',
+          '-i',
+          sdpFile,
+          '-map',
+          '0',
+          '-c',
+          'copy',
+          '-y',
+          file,
+        ],
+        { stdio: ['ignore', 'ignore', 'pipe'] }
+      );
+
+      recorderProcess.stderr.on('data', (data) =>
+        logger.debug('ffmpeg [producerId:"%s"] %s', producer.id, data)
+      );
+
+      recorderProcess.on('error', (error) =>
+        logger.error(
+          'ffmpeg process error [producerId:"%s", error:"%o"]',
+          producer.id,
+          error
+        )
+      );
+
+      const track: RecordedTrack = {
+        producerId: producer.id,
+        peerId: peer.id,
+        displayName: peer.displayName,
+        source: producer.appData.source,
+        kind: producer.kind,
+        file,
+        port,
+        startOffset: Date.now() - this._startedAt,
+        transport,
+        consumer,
+        process: recorderProcess,
+      };
+
+      this._tracks.set(producer.id, track);
+
+      consumer.on('producerclose', () => {
+        this.removeProducer(producer.id).catch(() => {});
+      });
+
+      setTimeout(async () => {
+        if (consumer.closed) return;
+
+        try {
+          await consumer.resume();
+
+          track.startOffset = Date.now() - this._startedAt;
+
+          if (consumer.kind === 'video') await consumer.requestKeyFrame();
+        } catch (error) {
+          logger.warn('addProducer() | resume failed [error:"%o"]', error);
+        }
+      }, RECEIVER_READY_DELAY);
+    } catch (error) {
+      if (transport) transport.close();
+
+      if (port !== null) releasePort(port);
+
+      if (this._stopped) return;
+
+      logger.error(
+        'addProducer() [producerId:"%s", error:"%o"]',
+        producer.id,
+        error
+      );
+    }
+  }
+
+  async removeProducer(producerId: string) {
+    const track = this._tracks.get(producerId);
+
+    if (!track) return;
+
+    logger.debug('removeProducer() [producerId:"%s"]', producerId);
+
+    this._tracks.delete(producerId);
+
+    await this._stopTrack(track);
+
+    this._finishedTracks.push(track);
+  }
+
+  /**
+   * Stops every track and composes the meeting file.
+   *
+   * Resolves with the path of the composed file (if any).
+   */
+  async stop(): Promise<string | null> {
+    if (this._stopped) return null;
+
+    logger.info('stop() [roomId:"%s"]', this._roomId);
+
+    this._stopped = true;
+
+    await Promise.all(
+      [...this._tracks.keys()].map((producerId) =>
+        this.removeProducer(producerId)
+      )
+    );
+
+    const stoppedAt = Date.now();
+    const tracks = this._finishedTracks.filter((track) =>
+      fs.existsSync(track.file)
+    );
+
+    let compositeFile = null;
+
+    if (config.recording.composite && tracks.length > 0) {
+      try {
+        compositeFile = await this._composite(tracks);
+      } catch (error) {
+        logger.error('stop() | composite failed [error:"%o"]', error);
+      }
+    }
+
+    await fs.promises.writeFile(
+      path.join(this._directory, 'manifest.json'),
+      JSON.stringify(
+        {
+          roomId: this._roomId,
+          startedAt: this._startedAt,
+          stoppedAt,
+          composite: compositeFile && path.basename(compositeFile),
+          tracks: tracks.map((track) => ({
+            peerId: track.peerId,
+            displayName: track.displayName,
+            source: track.source,
+            kind: track.kind,
+            file: path.basename(track.file),
+            startOffset: track.startOffset,
+            endOffset: track.endOffset,
+          })),
+        },
+        null,
+        2
+      )
+    );
+
+    this.emit('stopped', {
+      directory: this._directory,
+      file: compositeFile,
+    });
+
+    return compositeFile;
+  }
+
+  async _stopTrack(track: RecordedTrack) {
+    track.endOffset = Date.now() - this._startedAt;
+
+    track.consumer.close();
+    track.transport.close();
+
+    await new Promise<void>((resolve) => {
+      if (track.process.exitCode !== null || track.process.killed) {
+        resolve();
+
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        track.process.kill('SIGKILL');
+      }, RECEIVER_STOP_TIMEOUT);
+
+      track.process.once('close', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+
+      // SIGINT lets FFmpeg write the file trailer.
+      track.process.kill('SIGINT');
+    });
+
+    releasePort(track.port);
+  }
+
+  /**
+   * Mixes all the audio tracks and tiles all the video tracks into a grid,
+   * each track delayed by its start offset.
+   */
+  async _composite(tracks: RecordedTrack[]): Promise<string> {
+    const { compositeWidth: width, compositeHeight: height } = config.recording;
+    const file = path.join(this._directory, 'composite.mp4');
+    const args = ['-loglevel', 'warning', '-y'];
+    const filters = [];
+    const audioLabels = [];
+    const videoLabels = [];
+
+    tracks.forEach((track) => args.push('-i', track.file));
+
+    const videoTracks = tracks.filter((track) => track.kind === 'video');
+    const columns = Math.ceil(Math.sqrt(videoTracks.length));
+    const rows = Math.ceil(videoTracks.length / columns);
+    const cellWidth = Math.floor(width / columns / 2) * 2;
+    const cellHeight = Math.floor(height / rows / 2) * 2;
+
+    tracks.forEach((track, index) => {
+      if (track.kind === 'audio') {
+        const delay = track.startOffset;
+
+        filters.push(`[${index}:a]adelay=${delay}|${delay}[a${index}]`);
+        audioLabels.push(`[a${index}]`);
+      } else {
+        filters.push(
+          `[${index}:v]scale=${cellWidth}:${cellHeight}:force_original_aspect_ratio=decrease,` +
+            `pad=${cellWidth}:${cellHeight}:(ow-iw)/2:(oh-ih)/2,setsar=1,` +
+            `tpad=start_duration=${
+              track.startOffset / 1000
+            }:color=black[v${index}]`
+        );
+        videoLabels.push(`[v${index}]`);
+      }
+    });
+
+    if (audioLabels.length > 0) {
+      filters.push(
+        `${audioLabels.join('')}amix=inputs=${
+          audioLabels.length
+        }:duration=longest[aout]`
+      );
+    }
+
+    if (videoLabels.length === 1) {
+      filters.push(
+        `${videoLabels[0]}pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2[vout]`
+      );
+    } else if (videoLabels.length > 1) {
+      const layout = videoLabels
+        .map(
+          (_, index) =>
+            `${(index % columns) * cellWidth}_${
+              Math.floor(index / columns) * cellHeight
+            }`
+        )
+        .join('|');
+
+      filters.push(
+        `${videoLabels.join('')}xstack=inputs=${
+          videoLabels.length
+        }:layout=${layout}:fill=black[vstack]`,
+        `[vstack]pad=${width}:${height}[vout]`
+      );
+    }
+
+    args.push('-filter_complex', filters.join(';'));
+
+    if (videoLabels.length > 0)
+      args.push(
+        '-map',
+        '[vout]',
+        '-c:v',
+        'libx264',
+        '-preset',
+        'veryfast',
+        '-pix_fmt',
+        'yuv420p'
+      );
+
+    if (audioLabels.length > 0) args.push('-map', '[aout]', '-c:a', 'aac');
+
+    args.push(file);
+
+    logger.debug('_composite() [file:"%s"]', file);
+
+    await new Promise<void>((resolve, reject) => {
+      const compositeProcess = spawn(config.recording.ffmpegPath, args, {
+        stdio: ['ignore', 'ignore', 'pipe'],
+      });
+
+      compositeProcess.stderr.on('data', (data) =>
+        logger.debug('ffmpeg [composite] %s', data)
+      );
+
+      compositeProcess.on('error', reject);
+
+      compositeProcess.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`ffmpeg exited with code ${code}`));
+      });
+    });
+
+    return file;
+  }
+}
@@ -0,0 +1,105 @@
+import * as mediasoup from 'mediasoup';
+import { config } from '../config/config';
+
+// Ports currently used by the local RTP receivers (FFmpeg and friends).
+const usedPorts = new Set<number>();
+
+/**
+ * Reserves a free even port (RTP) and its following odd port (RTCP)
+ * from the configured recorder port range.
+ */
+export function allocatePort(): number {
+  const { rtpMinPort, rtpMaxPort } = config.recording;
+
+  for (let port = rtpMinPort + (rtpMinPort % 2); port < rtpMaxPort; port += 2) {
+    if (!usedPorts.has(port)) {
+      usedPorts.add(port);
+
+      return port;
+    }
+  }
+
+  throw new Error('no free recorder port available');
+}
+
+export function releasePort(port: number) {
+  usedPorts.delete(port);
+}
+
+/**
+ * Creates a PlainTransport sending the given producer to a local RTP
+ * receiver listening on `port` (RTP) and `port + 1` (RTCP).
+ *
+ * The returned consumer is paused, resume it once the receiver is ready.
+ */
+export async function createPlainConsumer({
+  router,
+  producer,
+  port,
+}: {
+  router: mediasoup.types.Router;
+  producer: mediasoup.types.Producer;
+  port: number;
+}) {
+  const transport = await router.createPlainTransport({
+    listenIp: config.recording.listenIp,
+    rtcpMux: false,
+    comedia: false,
+  });
+
+  await transport.connect({
+    ip: config.recording.recorderIp,
+    port,
+    rtcpPort: port + 1,
+  });
+
+  const consumer = await transport.consume({
+    producerId: producer.id,
+    rtpCapabilities: router.rtpCapabilities,
+    paused: true,
+  });
+
+  return { transport, consumer };
+}
+
+/**
+ * Builds the SDP description FFmpeg needs to receive a single RTP stream.
+ */
+export function createSdp({
+  rtpParameters,
+  kind,
+  port,
+}: {
+  rtpParameters: mediasoup.types.RtpParameters;
+  kind: mediasoup.types.MediaKind;
+  port: number;
+}): string {
+  const codec = rtpParameters.codecs[0];
+  const codecName = codec.mimeType.split('/')[1];
+  const ip = config.recording.recorderIp;
+  const ipVersion = ip.includes(':') ? 'IP6' : 'IP4';
+
+  let rtpmap = `a=rtpmap:${codec.payloadType} ${codecName}/${codec.clockRate}`;
+
+  if (codec.channels > 1) rtpmap += `/${codec.channels}`;
+
+  const lines = [
+    'v=0',
+    `o=- 0 0 IN ${ipVersion} ${ip}`,
+    's=tailchat-meeting',
+    `c=IN ${ipVersion} ${ip}`,
+    't=0 0',
+    `m=${kind} ${port} RTP/AVP ${codec.payloadType}`,
+    rtpmap,
+  ];
+
+  const fmtp = Object.entries(codec.parameters || {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(';');
+
+  if (fmtp) lines.push(`a=fmtp:${codec.payloadType} ${fmtp}`);
+
+  lines.push('a=sendonly', '');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,98 @@
+import Logger from '../logger/Logger';
+import { config } from '../config/config';
+
+const logger = new Logger('MeetingScheduler');
+
+export interface ScheduledMeeting {
+  roomId: string;
+  title: string;
+  // Timestamps (ms).
+  startAt: number;
+  endAt: number;
+  // authId of the hosts, they can join before the start.
+  hosts: string[];
+  // Only the presenters produce media, the others join as audience.
+  webinar: boolean;
+}
+
+function toTimestamp(value: string | number) {
+  const timestamp = new Date(value).getTime();
+
+  if (!Number.isFinite(timestamp)) throw new Error(`invalid date "${value}"`);
+
+  return timestamp;
+}
+
+/**
+ * Registry of the scheduled meetings, loaded from `config.schedule.meetings`
+ * and changed at runtime by the admin API.
+ */
+export class MeetingScheduler {
+  _meetings = new Map<string, ScheduledMeeting>();
+
+  constructor() {
+    for (const meeting of config.schedule.meetings) {
+      try {
+        this.schedule(meeting);
+      } catch (error) {
+        logger.error(
+          'invalid scheduled meeting in config [roomId:"%s", error:"%s"]',
+          meeting.roomId,
+          error.message
+        );
+      }
+    }
+  }
+
+  /**
+   * Registers (or replaces) a meeting. Dates are timestamps or ISO strings.
+   */
+  schedule({
+    roomId,
+    title = '',
+    startAt,
+    endAt,
+    hosts = [],
+    webinar = false,
+  }): ScheduledMeeting {
+    if (!roomId || typeof roomId !== 'string')
+      throw new Error('"roomId" must be a string');
+
+    if (!Array.isArray(hosts)) throw new Error('"hosts" must be an array');
+
+    const meeting: ScheduledMeeting = {
+      roomId,
+      title: String(title),
+      startAt: toTimestamp(startAt),
+      endAt: toTimestamp(endAt),
+      hosts: hosts.map(String),
+      webinar: Boolean(webinar),
+    };
+
+    if (meeting.endAt <= meeting.startAt)
+      throw new Error('"endAt" must be after "startAt"');
+
+    logger.info(
+      'schedule() [roomId:"%s", startAt:"%s", endAt:"%s"]',
+      roomId,
+      new Date(meeting.startAt).toISOString(),
+      new Date(meeting.endAt).toISOString()
+    );
+
+    this._meetings.set(roomId, meeting);
+
+    return meeting;
+  }
+
+  unschedule(roomId: string) {
+    return this._meetings.delete(roomId);
+  }
+
+  get(roomId: string) {
+    return this._meetings.get(roomId);
+  }
+
+  list() {
+    return [...this._meetings.values()];
+  }
+}
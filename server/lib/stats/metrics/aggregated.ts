@@ -2,6 +2,7 @@ import Logger from '../../logger/Logger';
 import promClient from 'prom-client';
 import pidusage from 'pidusage';
 import { Stats } from 'fast-stats';
+import { rateLimitMetrics } from '../../ratelimit/RateLimiter';
 
 const logger = new Logger('metrics:aggregated');
 
@@ -507,5 +508,31 @@ export default function (workers, rooms_, peers_, config) {
     });
   });
 
+  // eslint-disable-next-line no-new
+  new promClient.Counter({
+    name: 'mediasoup_rate_limited_requests',
+    help: 'Rate limited signaling requests',
+    labelNames: ['method'],
+    registers: [register],
+    collect() {
+      this.reset();
+      for (const [method, count] of rateLimitMetrics.rejected)
+        this.inc({ method }, count);
+    },
+  });
+
+  // eslint-disable-next-line no-new
+  new promClient.Counter({
+    name: 'mediasoup_rate_limit_actions',
+    help: 'Peers muted or kicked for too many rate limited requests',
+    labelNames: ['action'],
+    registers: [register],
+    collect() {
+      this.reset();
+      for (const [action, count] of rateLimitMetrics.actions)
+        this.inc({ action }, count);
+    },
+  });
+
   return register;
 }
@@ -0,0 +1,478 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as mediasoup from 'mediasoup';
+import { v4 as uuidv4 } from 'uuid';
+import Logger from '../logger/Logger';
+import { config } from '../config/config';
+import {
+  allocatePort,
+  releasePort,
+  createPlainConsumer,
+  createSdp,
+} from '../recording/rtp';
+
+const logger = new Logger('LiveStreamer');
+
+// Interval (ms) of the checks for a new layout.
+const LAYOUT_CHECK_INTERVAL = 1000;
+
+// Time given to FFmpeg to open the SDP and bind its ports before RTP flows.
+const RECEIVER_READY_DELAY = 1000;
+
+// Time given to FFmpeg to flush the output before it gets killed.
+const RECEIVER_STOP_TIMEOUT = 5000;
+
+// FFmpeg exits in a row, each within FAILURE_WINDOW ms of its start,
+// before the stream is given up.
+const MAX_FAILURES = 3;
+const FAILURE_WINDOW = 30000;
+
+export type LiveStreamOutput = 'rtmp' | 'hls';
+
+export interface LayoutSource {
+  router: mediasoup.types.Router;
+  producer: mediasoup.types.Producer;
+}
+
+/**
+ * What the stream shows: the screen share with the active speaker in a
+ * corner, or the active speaker alone, and the mixed microphones.
+ */
+export interface StreamLayout {
+  screen: LayoutSource | null;
+  speaker: LayoutSource | null;
+  audio: LayoutSource[];
+}
+
+interface StreamInput {
+  producerId: string;
+  kind: mediasoup.types.MediaKind;
+  port: number;
+  sdpFile: string;
+  transport: mediasoup.types.PlainTransport;
+  consumer: mediasoup.types.Consumer;
+}
+
+/**
+ * The outputs enabled in the configuration.
+ */
+export function getLiveStreamOutputs(): LiveStreamOutput[] {
+  const outputs: LiveStreamOutput[] = [];
+
+  if (!config.streaming.enabled) return outputs;
+
+  if (config.streaming.rtmpUrl) outputs.push('rtmp');
+
+  if (config.streaming.hls) outputs.push('hls');
+
+  return outputs;
+}
+
+function layoutKey(layout: StreamLayout) {
+  return [layout.screen, layout.speaker, ...layout.audio]
+    .map((source) => (source ? source.producer.id : '-'))
+    .join(',');
+}
+
+/**
+ * Live stream of a room to an RTMP server or as HLS segments.
+ *
+ * The producers of the layout are sent through PlainTransports to a single
+ * FFmpeg process which composes and encodes them. FFmpeg cannot change its
+ * inputs, so it is restarted when the layout changes, at most once every
+ * `layoutInterval`, the getter keeps the order of the sources stable.
+ *
+ * @emits failed
+ */
+export class LiveStreamer extends EventEmitter {
+  _roomId: string;
+
+  _output: LiveStreamOutput;
+
+  _getLayout: () => StreamLayout;
+
+  _id = uuidv4();
+
+  // Directory of this stream, the SDP files and the HLS segments.
+  _directory: string;
+
+  _startedAt: number;
+
+  _stopped = false;
+
+  // Key of the layout FFmpeg was started with.
+  _layoutKey: string = null;
+
+  _lastSwitch = 0;
+
+  _switching: Promise<void> = null;
+
+  _inputs: StreamInput[] = [];
+
+  _process: ChildProcess = null;
+
+  _failures = 0;
+
+  _checkInterval = null;
+
+  constructor({
+    roomId,
+    output,
+    getLayout,
+  }: {
+    roomId: string;
+    output: LiveStreamOutput;
+    getLayout: () => StreamLayout;
+  }) {
+    logger.info('constructor() [roomId:"%s", output:"%s"]', roomId, output);
+
+    super();
+
+    this._roomId = roomId;
+    this._output = output;
+    this._getLayout = getLayout;
+    this._startedAt = Date.now();
+    this._directory = path.resolve(config.streaming.path, this._id);
+  }
+
+  get output() {
+    return this._output;
+  }
+
+  /**
+   * Path of the HLS playlist, relative to the server.
+   */
+  get hlsUrl() {
+    return this._output === 'hls' ? `/api/live/${this._id}/index.m3u8` : null;
+  }
+
+  get status() {
+    return {
+      output: this._output,
+      startedAt: this._startedAt,
+      hlsUrl: this.hlsUrl,
+    };
+  }
+
+  async start() {
+    logger.debug('start() [directory:"%s"]', this._directory);
+
+    await fs.promises.mkdir(this._directory, { recursive: true });
+
+    if (this._stopped) throw new Error('live stream stopped');
+
+    await this._switchLayout();
+
+    if (this._stopped) throw new Error('live stream stopped');
+
+    this._checkInterval = setInterval(
+      () => this._check(),
+      LAYOUT_CHECK_INTERVAL
+    );
+  }
+
+  async stop() {
+    if (this._stopped) return;
+
+    logger.info('stop() [roomId:"%s"]', this._roomId);
+
+    this._stopped = true;
+
+    clearInterval(this._checkInterval);
+
+    if (this._switching) await this._switching.catch(() => {});
+
+    await this._stopProcess();
+
+    await fs.promises.rm(this._directory, { recursive: true, force: true });
+  }
+
+  _check() {
+    if (this._stopped || this._switching) return;
+
+    if (Date.now() - this._lastSwitch < config.streaming.layoutInterval) return;
+
+    const layout = this._getLayout();
+
+    if (this._process && layoutKey(layout) === this._layoutKey) return;
+
+    this._switchLayout(layout).catch((error) =>
+      logger.error('_check() | layout switch failed [error:"%o"]', error)
+    );
+  }
+
+  _switchLayout(layout = this._getLayout()) {
+    this._lastSwitch = Date.now();
+    this._layoutKey = layoutKey(layout);
+
+    this._switching = (async () => {
+      await this._stopProcess();
+
+      if (!this._stopped) await this._startProcess(layout);
+    })().finally(() => {
+      this._switching = null;
+    });
+
+    return this._switching;
+  }
+
+  async _startProcess(layout: StreamLayout) {
+    logger.debug('_startProcess() [layout:"%s"]', this._layoutKey);
+
+    const inputs: StreamInput[] = [];
+
+    for (const { router, producer } of [
+      layout.screen,
+      layout.speaker,
+      ...layout.audio,
+    ].filter(Boolean)) {
+      let port: number = null;
+
+      try {
+        port = allocatePort();
+
+        const { transport, consumer } = await createPlainConsumer({
+          router,
+          producer,
+          port,
+        });
+
+        const sdpFile = path.join(this._directory, `${producer.id}.sdp`);
+
+        inputs.push({
+          producerId: producer.id,
+          kind: consumer.kind,
+          port,
+          sdpFile,
+          transport,
+          consumer,
+        });
+
+        await fs.promises.writeFile(
+          sdpFile,
+          createSdp({
+            rtpParameters: consumer.rtpParameters,
+            kind: consumer.kind,
+            port,
+          })
+        );
+      } catch (error) {
+        if (port !== null && !inputs.some((input) => input.port === port))
+          releasePort(port);
+
+        logger.error(
+          '_startProcess() [producerId:"%s", error:"%o"]',
+          producer.id,
+          error
+        );
+      }
+    }
+
+    this._inputs = inputs;
+
+    const startedAt = Date.now();
+    const streamProcess = spawn(
+      config.recording.ffmpegPath,
+      this._buildArgs(layout, inputs),
+      { stdio: ['ignore', 'ignore', 'pipe'] }
+    );
+
+    this._process = streamProcess;
+
+    streamProcess.stderr.on('data', (data) =>
+      logger.debug('ffmpeg [roomId:"%s"] %s', this._roomId, data)
+    );
+
+    streamProcess.on('error', (error) =>
+      logger.error('ffmpeg process error [error:"%o"]', error)
+    );
+
+    streamProcess.on('close', (code) => {
+      // Stopped on purpose
+      if (this._process !== streamProcess) return;
+
+      logger.warn('ffmpeg exited [roomId:"%s", code:%s]', this._roomId, code);
+
+      this._process = null;
+
+      if (Date.now() - startedAt > FAILURE_WINDOW) this._failures = 0;
+
+      if (++this._failures >= MAX_FAILURES) this.emit('failed');
+    });
+
+    setTimeout(async () => {
+      for (const { consumer } of inputs) {
+        if (consumer.closed) continue;
+
+        try {
+          await consumer.resume();
+
+          if (consumer.kind === 'video') await consumer.requestKeyFrame();
+        } catch (error) {
+          logger.warn('_startProcess() | resume failed [error:"%o"]', error);
+        }
+      }
+    }, RECEIVER_READY_DELAY);
+  }
+
+  async _stopProcess() {
+    const streamProcess = this._process;
+    const inputs = this._inputs;
+
+    this._process = null;
+    this._inputs = [];
+
+    for (const { transport } of inputs) transport.close();
+
+    if (streamProcess && streamProcess.exitCode === null) {
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(() => {
+          streamProcess.kill('SIGKILL');
+        }, RECEIVER_STOP_TIMEOUT);
+
+        streamProcess.once('close', () => {
+          clearTimeout(timeout);
+          resolve();
+        });
+
+        // SIGINT lets FFmpeg flush the output.
+        streamProcess.kill('SIGINT');
+      });
+    }
+
+    for (const { port } of inputs) releasePort(port);
+  }
+
+  /**
+   * Draws the screen share, or else the speaker, over a black canvas and
+   * the speaker in the bottom right corner of the screen share. The
+   * microphones are mixed with silence so that the stream always has an
+   * audio track, and the canvas and the silence are paced in real time so
+   * that the stream does not run ahead without inputs.
+   */
+  _buildArgs(layout: StreamLayout, inputs: StreamInput[]) {
+    const { width, height, frameRate, videoBitrate, audioBitrate } =
+      config.streaming;
+    const args = ['-loglevel', 'warning'];
+    const filters = [];
+
+    inputs.forEach(({ sdpFile }) =>
+      args.push(
+        '-protocol_whitelist',
+        'file,udp,rtp',
+        '-fflags',
+        '+genpts',
+        '-i',
+        sdpFile
+      )
+    );
+
+    const indexOf = (source: LayoutSource) =>
+      source
+        ? inputs.findIndex((input) => input.producerId === source.producer.id)
+        : -1;
+    const screen = indexOf(layout.screen);
+    const speaker = indexOf(layout.speaker);
+    const main = screen !== -1 ? screen : speaker;
+
+    filters.push(
+      `color=c=black:s=${width}x${height}:r=${frameRate},realtime[v]`
+    );
+
+    let video = '[v]';
+
+    if (main !== -1) {
+      filters.push(
+        `[${main}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease[main]`,
+        `${video}[main]overlay=(W-w)/2:(H-h)/2:eof_action=pass[vmain]`
+      );
+      video = '[vmain]';
+    }
+
+    if (screen !== -1 && speaker !== -1) {
+      const pipWidth = Math.floor(width / 4 / 2) * 2;
+      const pipHeight = Math.floor(height / 4 / 2) * 2;
+      const margin = Math.floor(height / 40);
+
+      filters.push(
+        `[${speaker}:v]scale=${pipWidth}:${pipHeight}:force_original_aspect_ratio=decrease[pip]`,
+        `${video}[pip]overlay=W-w-${margin}:H-h-${margin}:eof_action=pass[vpip]`
+      );
+      video = '[vpip]';
+    }
+
+    filters.push(`${video}format=yuv420p[vout]`);
+
+    const audioLabels = inputs
+      .map((input, index) => (input.kind === 'audio' ? `[${index}:a]` : null))
+      .filter(Boolean);
+
+    filters.push(
+      'anullsrc=r=48000:cl=stereo,arealtime[silence]',
+      `[silence]${audioLabels.join('')}amix=inputs=${
+        audioLabels.length + 1
+      }:duration=first[aout]`
+    );
+
+    args.push(
+      '-filter_complex',
+      filters.join(';'),
+      '-map',
+      '[vout]',
+      '-map',
+      '[aout]',
+      '-c:v',
+      'libx264',
+      '-preset',
+      'veryfast',
+      '-tune',
+      'zerolatency',
+      '-r',
+      String(frameRate),
+      '-g',
+      String(frameRate * 2),
+      '-b:v',
+      `${videoBitrate}k`,
+      '-maxrate',
+      `${videoBitrate}k`,
+      '-bufsize',
+      `${videoBitrate * 2}k`,
+      '-c:a',
+      'aac',
+      '-b:a',
+      `${audioBitrate}k`,
+      '-ar',
+      '48000'
+    );
+
+    if (this._output === 'rtmp') {
+      args.push(
+        '-f',
+        'flv',
+        config.streaming.rtmpUrl.replace(
+          '{roomId}',
+          encodeURIComponent(this._roomId)
+        )
+      );
+    } else {
+      // Appended to the playlist of the previous layout
+      args.push(
+        '-f',
+        'hls',
+        '-hls_time',
+        '4',
+        '-hls_list_size',
+        '6',
+        '-hls_flags',
+        'delete_segments+append_list+discont_start+independent_segments',
+        '-hls_segment_filename',
+        path.join(this._directory, 'segment-%d.ts'),
+        path.join(this._directory, 'index.m3u8')
+      );
+    }
+
+    return args;
+  }
+}
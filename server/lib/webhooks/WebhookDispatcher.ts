@@ -0,0 +1,246 @@
+import axios from 'axios';
+import * as path from 'path';
+import { createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import Logger from '../logger/Logger';
+import { Room } from '../Room';
+import { Peer } from '../Peer';
+import { config } from '../config/config';
+
+const logger = new Logger('WebhookDispatcher');
+
+export type WebhookEvent =
+  | 'room.created'
+  | 'room.closed'
+  | 'peer.joined'
+  | 'peer.left'
+  | 'lobby.entered'
+  | 'lobby.promoted'
+  | 'role.given'
+  | 'role.removed'
+  | 'recording.started'
+  | 'recording.stopped'
+  | 'liveStream.started'
+  | 'liveStream.stopped'
+  | 'chat.message';
+
+interface WebhookEndpoint {
+  url: string;
+  secret: string;
+  // Subscribed events, all events when missing.
+  events?: WebhookEvent[];
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  // HTTP status of the last attempt.
+  responseStatus?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function peerData(peer: Peer) {
+  return peer
+    ? {
+        peerId: peer.id,
+        authId: peer.authId,
+        displayName: peer.displayName,
+      }
+    : { peerId: null };
+}
+
+/**
+ * Path of a recording relative to `config.recording.path`, the endpoints
+ * are not told where the files are on the server.
+ */
+function recordingPath(file: string | null) {
+  return file && path.relative(path.resolve(config.recording.path), file);
+}
+
+/**
+ * Posts the room and peer lifecycle events to the configured endpoints.
+ *
+ * The body is signed with the endpoint secret in the
+ * `X-Tailchat-Meeting-Signature: sha256=<hex hmac>` header. Failed
+ * deliveries are retried with an exponential backoff and the last
+ * deliveries are kept in a log.
+ */
+export class WebhookDispatcher {
+  _deliveries: WebhookDelivery[] = [];
+
+  get enabled() {
+    return config.webhooks.endpoints.length > 0;
+  }
+
+  get deliveries() {
+    return this._deliveries;
+  }
+
+  /**
+   * Subscribes to the events of a newly created room.
+   */
+  attachRoom(room: Room) {
+    if (!this.enabled) return;
+
+    const roomId = room.id;
+
+    this.dispatch('room.created', roomId, {});
+
+    room.on('peerJoined', (peer) =>
+      this.dispatch('peer.joined', roomId, peerData(peer))
+    );
+
+    room.on('peerLeft', (peer) =>
+      this.dispatch('peer.left', roomId, peerData(peer))
+    );
+
+    room.on('gotRole', ({ peer, role }) =>
+      this.dispatch('role.given', roomId, {
+        ...peerData(peer),
+        roleId: role.id,
+        roleLabel: role.label,
+      })
+    );
+
+    room.on('lostRole', ({ peer, role }) =>
+      this.dispatch('role.removed', roomId, {
+        ...peerData(peer),
+        roleId: role.id,
+        roleLabel: role.label,
+      })
+    );
+
+    room.on('recordingStarted', ({ peer }) =>
+      this.dispatch('recording.started', roomId, peerData(peer))
+    );
+
+    room.on('recordingStopped', ({ peer, directory, file }) =>
+      this.dispatch('recording.stopped', roomId, {
+        ...peerData(peer),
+        directory: recordingPath(directory),
+        file: recordingPath(file),
+      })
+    );
+
+    room.on('liveStreamStarted', ({ peer, output }) =>
+      this.dispatch('liveStream.started', roomId, { ...peerData(peer), output })
+    );
+
+    room.on('liveStreamStopped', ({ peer, output }) =>
+      this.dispatch('liveStream.stopped', roomId, { ...peerData(peer), output })
+    );
+
+    room.on('chatMessage', ({ peer, chatMessage }) =>
+      this.dispatch('chat.message', roomId, {
+        ...peerData(peer),
+        chatMessage,
+      })
+    );
+
+    room.lobby.on('parkedPeer', (peer) =>
+      this.dispatch('lobby.entered', roomId, peerData(peer))
+    );
+
+    room.lobby.on('promotePeer', (peer) =>
+      this.dispatch('lobby.promoted', roomId, peerData(peer))
+    );
+
+    room.on('close', () =>
+      this.dispatch('room.closed', roomId, {
+        startAt: room.startAt,
+        endAt: room.endAt,
+      })
+    );
+  }
+
+  dispatch(event: WebhookEvent, roomId: string, data: any) {
+    const endpoints: WebhookEndpoint[] = config.webhooks.endpoints;
+
+    const body = JSON.stringify({
+      id: uuidv4(),
+      event,
+      roomId,
+      timestamp: Date.now(),
+      data,
+    });
+
+    for (const endpoint of endpoints) {
+      if (endpoint.events && !endpoint.events.includes(event)) continue;
+
+      const delivery: WebhookDelivery = {
+        id: uuidv4(),
+        event,
+        url: endpoint.url,
+        status: 'pending',
+        attempts: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+
+      this._deliveries.push(delivery);
+
+      if (this._deliveries.length > config.webhooks.logSize)
+        this._deliveries.shift();
+
+      this._deliver(endpoint, delivery, body);
+    }
+  }
+
+  async _deliver(
+    endpoint: WebhookEndpoint,
+    delivery: WebhookDelivery,
+    body: string
+  ) {
+    const { timeout, maxRetries, retryDelay } = config.webhooks;
+    const signature = createHmac('sha256', endpoint.secret)
+      .update(body)
+      .digest('hex');
+
+    delivery.attempts++;
+    delivery.updatedAt = Date.now();
+
+    try {
+      const response = await axios.post(endpoint.url, body, {
+        timeout,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Tailchat-Meeting-Event': delivery.event,
+          'X-Tailchat-Meeting-Delivery': delivery.id,
+          'X-Tailchat-Meeting-Signature': `sha256=${signature}`,
+        },
+      });
+
+      delivery.status = 'delivered';
+      delivery.responseStatus = response.status;
+      delivery.error = undefined;
+    } catch (error) {
+      delivery.responseStatus = error.response && error.response.status;
+      delivery.error = error.message;
+
+      if (delivery.attempts > maxRetries) {
+        delivery.status = 'failed';
+
+        logger.warn(
+          'delivery failed [event:"%s", url:"%s", error:"%s"]',
+          delivery.event,
+          delivery.url,
+          error.message
+        );
+
+        return;
+      }
+
+      setTimeout(
+        () => this._deliver(endpoint, delivery, body),
+        retryDelay * 2 ** (delivery.attempts - 1)
+      );
+    } finally {
+      delivery.updatedAt = Date.now();
+    }
+  }
+}
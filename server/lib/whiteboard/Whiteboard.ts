@@ -0,0 +1,284 @@
+import * as mediasoup from 'mediasoup';
+import Logger from '../logger/Logger';
+import { Peer } from '../Peer';
+
+const logger = new Logger('Whiteboard');
+
+// Label of the data producers and consumers of the whiteboard.
+export const WHITEBOARD_LABEL = 'whiteboard';
+
+// Size of the board, the clients scale it to their view.
+const BOARD_WIDTH = 1600;
+const BOARD_HEIGHT = 900;
+
+const MAX_STROKES = 5000;
+
+const MAX_STROKE_POINTS = 2000;
+
+// Points of all the strokes of a board, kept in memory and sent to every
+// joining peer.
+const MAX_POINTS = 200000;
+
+const MAX_STROKE_WIDTH = 40;
+
+const MAX_ID_LENGTH = 32;
+
+export interface Stroke {
+  id: string;
+  peerId: string;
+  color: string;
+  width: number;
+  // Flattened x, y coordinates on the board.
+  points: number[];
+}
+
+// Operation of the op-log, numbered by the server in the order applied.
+export type WhiteboardOp = { seq?: number; peerId?: string } & (
+  | ({ type: 'stroke' } & Stroke)
+  | { type: 'remove'; id: string }
+  | { type: 'clear' }
+);
+
+// Channel of a router, the whiteboard consumes the data producers of the
+// peers on the router and sends the applied operations to its consumers.
+interface Channel {
+  transport: mediasoup.types.DirectTransport;
+  dataProducer: mediasoup.types.DataProducer;
+}
+
+function isValidStroke(op: any) {
+  return (
+    typeof op.id === 'string' &&
+    op.id.length > 0 &&
+    op.id.length <= MAX_ID_LENGTH &&
+    typeof op.color === 'string' &&
+    /^#[0-9a-f]{6}$/i.test(op.color) &&
+    Number.isFinite(op.width) &&
+    op.width > 0 &&
+    op.width <= MAX_STROKE_WIDTH &&
+    Array.isArray(op.points) &&
+    op.points.length >= 2 &&
+    op.points.length <= MAX_STROKE_POINTS * 2 &&
+    op.points.length % 2 === 0 &&
+    op.points.every(
+      (value, index) =>
+        Number.isFinite(value) &&
+        value >= 0 &&
+        value <= (index % 2 === 0 ? BOARD_WIDTH : BOARD_HEIGHT)
+    )
+  );
+}
+
+/**
+ * Shared whiteboard of a room, an op-log of strokes kept on the server so
+ * that late joiners get the current board.
+ *
+ * The peers send their operations over a mediasoup data producer, they are
+ * validated and numbered here, then sent to every peer over the data
+ * consumers of the whiteboard.
+ */
+export class Whiteboard {
+  _roomId: string;
+
+  _canDraw: (peer: Peer) => boolean;
+
+  _canModerate: (peer: Peer) => boolean;
+
+  _strokes = new Map<string, Stroke>();
+
+  // Number of points of the strokes.
+  _points = 0;
+
+  // Number of the last applied operation.
+  _seq = 0;
+
+  // Only the moderators can draw on a locked board.
+  locked = false;
+
+  // Channels by router id.
+  _channels = new Map<string, Promise<Channel>>();
+
+  _closed = false;
+
+  constructor({
+    roomId,
+    canDraw,
+    canModerate,
+  }: {
+    roomId: string;
+    canDraw: (peer: Peer) => boolean;
+    canModerate: (peer: Peer) => boolean;
+  }) {
+    this._roomId = roomId;
+    this._canDraw = canDraw;
+    this._canModerate = canModerate;
+  }
+
+  /**
+   * The current board, the operations with a higher `seq` come after it.
+   */
+  get snapshot() {
+    return {
+      seq: this._seq,
+      locked: this.locked,
+      strokes: [...this._strokes.values()],
+    };
+  }
+
+  close() {
+    this._closed = true;
+
+    for (const channel of this._channels.values())
+      channel.then(({ transport }) => transport.close()).catch(() => {});
+
+    this._channels.clear();
+  }
+
+  /**
+   * Receives the operations of the data producer of a peer.
+   */
+  async addDataProducer({
+    router,
+    peer,
+    dataProducer,
+  }: {
+    router: mediasoup.types.Router;
+    peer: Peer;
+    dataProducer: mediasoup.types.DataProducer;
+  }) {
+    const { transport } = await this._getChannel(router);
+
+    const dataConsumer = await transport.consumeData({
+      dataProducerId: dataProducer.id,
+    });
+
+    dataConsumer.on('message', (message: Buffer) => {
+      let op;
+
+      try {
+        op = JSON.parse(message.toString());
+      } catch (error) {
+        logger.warn(
+          'invalid message [roomId:"%s", peerId:"%s"]',
+          this._roomId,
+          peer.id
+        );
+
+        return;
+      }
+
+      if (!this._canDraw(peer)) return;
+
+      this._apply(peer, op);
+    });
+  }
+
+  /**
+   * Creates a data consumer of the whiteboard on the transport of a peer.
+   */
+  async consume({
+    router,
+    transport,
+  }: {
+    router: mediasoup.types.Router;
+    transport: mediasoup.types.Transport;
+  }) {
+    const { dataProducer } = await this._getChannel(router);
+
+    return transport.consumeData({ dataProducerId: dataProducer.id });
+  }
+
+  clear() {
+    this._strokes.clear();
+    this._points = 0;
+
+    this._send({ type: 'clear' });
+  }
+
+  _apply(peer: Peer, op: any) {
+    switch (op && op.type) {
+      case 'stroke': {
+        if (!isValidStroke(op) || this._strokes.has(op.id)) return;
+
+        if (
+          this._strokes.size >= MAX_STROKES ||
+          this._points + op.points.length / 2 > MAX_POINTS
+        ) {
+          logger.warn('_apply() | board full [roomId:"%s"]', this._roomId);
+
+          return;
+        }
+
+        const { id, color, width, points } = op;
+
+        this._strokes.set(id, { id, peerId: peer.id, color, width, points });
+        this._points += points.length / 2;
+
+        this._send({
+          type: 'stroke',
+          id,
+          peerId: peer.id,
+          color,
+          width,
+          points,
+        });
+
+        break;
+      }
+
+      case 'remove': {
+        const stroke = this._strokes.get(op.id);
+
+        // Only the moderators remove the strokes of the other peers
+        if (!stroke || (stroke.peerId !== peer.id && !this._canModerate(peer)))
+          return;
+
+        this._strokes.delete(op.id);
+        this._points -= stroke.points.length / 2;
+
+        this._send({ type: 'remove', id: op.id, peerId: peer.id });
+
+        break;
+      }
+    }
+  }
+
+  _send(op: WhiteboardOp) {
+    const message = JSON.stringify({ ...op, seq: ++this._seq });
+
+    for (const channel of this._channels.values()) {
+      channel
+        .then(({ dataProducer }) => {
+          if (!dataProducer.closed) dataProducer.send(message);
+        })
+        .catch(() => {});
+    }
+  }
+
+  _getChannel(router: mediasoup.types.Router) {
+    if (this._closed) throw new Error('whiteboard closed');
+
+    let channel = this._channels.get(router.id);
+
+    if (!channel) {
+      channel = (async () => {
+        const transport = await router.createDirectTransport();
+        const dataProducer = await transport.produceData({
+          label: WHITEBOARD_LABEL,
+        });
+
+        // The router was closed with its worker
+        transport.on('routerclose', () => this._channels.delete(router.id));
+
+        return { transport, dataProducer };
+      })();
+
+      // Retried on the next use
+      channel.catch(() => this._channels.delete(router.id));
+
+      this._channels.set(router.id, channel);
+    }
+
+    return channel;
+  }
+}
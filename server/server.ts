@@ -20,6 +20,18 @@ import { Server as SocketIOServer } from 'socket.io';
 import { loginHelper, logoutHelper } from './lib/helpers/httpHelper';
 import { config, configError } from './lib/config/config';
 import promExporter from './lib/stats/promExporter';
+import { createHistoryStore } from './lib/history/HistoryStore';
+import { createAuditSink } from './lib/audit/AuditSink';
+import { RoomRegistry } from './lib/cluster/RoomRegistry';
+import adminRouter from './lib/admin/adminRouter';
+import { createFileStore } from './lib/files/FileStore';
+import { createSttEngine } from './lib/captions/SttEngine';
+import fileRouter from './lib/files/fileRouter';
+import { WebhookDispatcher } from './lib/webhooks/WebhookDispatcher';
+import { MeetingScheduler } from './lib/schedule/MeetingScheduler';
+import { Drainer } from './lib/drain/Drainer';
+import { RoomRejectedError } from './lib/helpers/errors';
+import { verifyJoinToken, applyJoinToken } from './lib/access/joinToken';
 const interactiveServer = require('./lib/interactive/Server');
 
 let spdy;
@@ -67,6 +79,29 @@ if (configError) {
 
 const redisClient = redis.createClient(config.redisOptions);
 
+// Chat and file history of the rooms.
+const historyStore = createHistoryStore({ redisClient });
+
+// Audit log of the moderator actions, null when disabled.
+const auditSink = createAuditSink({ redisClient });
+
+// Files shared through the server, null when only WebTorrent is used.
+const fileStore = createFileStore();
+
+// Speech-to-text engine of the live captions, null when disabled.
+const sttEngine = createSttEngine();
+
+// Registry of the rooms owned by each node in cluster mode.
+const roomRegistry = config.cluster.enabled
+  ? new RoomRegistry({ redisClient })
+  : null;
+
+// Outbound webhooks of the room events.
+const webhookDispatcher = new WebhookDispatcher();
+
+// Scheduled meetings, by room id.
+const meetingScheduler = new MeetingScheduler();
+
 /* eslint-disable no-console */
 console.log('- process.env.DEBUG:', process.env.DEBUG);
 console.log(
@@ -96,6 +131,17 @@ const rooms = new Map<string, Room>();
 // Map of Peer instances indexed by peerId.
 const peers = new Map<string, Peer>();
 
+// Drain mode, stops the server once its rooms are empty.
+const drainer = new Drainer({ rooms });
+
+drainer.on('drained', () => shutdown());
+
+process.on('SIGTERM', () => {
+  logger.info('SIGTERM received, draining...');
+
+  drainer.start();
+});
+
 const app = express();
 
 app.use(helmet.hsts());
@@ -143,7 +189,7 @@ let localStrategy;
 async function run() {
   try {
     // Open the interactive server.
-    await interactiveServer(rooms, peers);
+    await interactiveServer(rooms, peers, drainer);
 
     if (typeof config.auth === 'undefined') {
       logger.warn('Auth is not configured properly!');
@@ -153,9 +199,21 @@ async function run() {
 
     await setupRoute();
 
+    // Files of the rooms alive when the server last exited.
+    if (fileStore && !config.cluster.enabled) {
+      await fileStore.deleteAll().catch((error) => {
+        logger.error('deleting the stored files failed [error:"%o"]', error);
+      });
+    }
+
     // Run a mediasoup Worker.
     await runMediasoupWorkers();
 
+    // Join the cluster.
+    if (roomRegistry) {
+      await roomRegistry.start();
+    }
+
     // Run HTTPS server.
     await runHttpsServer();
 
@@ -558,14 +616,41 @@ async function setupRoute() {
         worker.getResourceUsage()
       )
     );
-    res.json({ usages });
+    // Unhealthy while draining, so the load balancer stops routing here
+    res
+      .status(drainer.draining ? 503 : 200)
+      .json({ status: drainer.draining ? 'draining' : 'ok', usages });
   });
 
   // 房间状态
-  app.get('/api/room-status', (req, res) => {
+  app.get('/api/room-status', async (req, res) => {
     const roomId = (req.query as any).roomId;
 
     const room = rooms.get(roomId);
+    if (!room && roomRegistry) {
+      let node;
+
+      try {
+        node = await roomRegistry.getRoomNode(roomId);
+      } catch (error) {
+        logger.error(
+          'room status lookup failed [roomId:"%s", error:"%o"]',
+          roomId,
+          error
+        );
+
+        res.status(500).json({ msg: 'Room status unavailable' });
+        return;
+      }
+
+      if (node) {
+        res.json({
+          msg: 'Room on another node',
+          node,
+        });
+        return;
+      }
+    }
     if (!room) {
       res.json({
         count: 0,
@@ -585,6 +670,43 @@ async function setupRoute() {
       endAt: room.endAt,
     });
   });
+
+  /**
+   * 文件共享接口
+   */
+  if (fileStore) app.use('/api/files', fileRouter({ rooms }));
+
+  /**
+   * 直播 HLS 播放列表和分片, 不暴露 SDP 文件
+   */
+  if (config.streaming.enabled && config.streaming.hls) {
+    app.use(
+      '/api/live',
+      (req, res, next) => {
+        if (/\.(m3u8|ts)$/.test(req.path)) next();
+        else res.sendStatus(404);
+      },
+      express.static(config.streaming.path, {
+        setHeaders: (res) => res.setHeader('Cache-Control', 'no-cache'),
+      })
+    );
+  }
+
+  /**
+   * 管理接口
+   */
+  if (config.adminApi.secret) {
+    app.use(
+      '/api/admin',
+      adminRouter({
+        rooms,
+        webhookDispatcher,
+        meetingScheduler,
+        drainer,
+        auditSink,
+      })
+    );
+  }
 }
 
 async function runHttpsServer() {
@@ -734,7 +856,7 @@ async function runWebSocketServer() {
 
   // Handle connections from clients.
   io.on('connection', (socket) => {
-    const { roomId, peerId } = socket.handshake.query;
+    const { roomId, peerId, joinToken } = socket.handshake.query;
 
     if (!roomId || !peerId) {
       logger.warn('connection request without roomId and/or peerId');
@@ -752,6 +874,35 @@ async function runWebSocketServer() {
 
     queue
       .push(async () => {
+        if (roomRegistry) {
+          const node = await roomRegistry.claimRoom(roomId);
+
+          // The room lives on another node, send the client there.
+          if (node) {
+            logger.info(
+              'room owned by another node, redirecting [roomId:"%s", peerId:"%s", nodeId:"%s"]',
+              roomId,
+              peerId,
+              node.id
+            );
+
+            if (!node.url) throw new Error(`node "${node.id}" has no url`);
+
+            socket.emit('notification', {
+              method: 'redirect',
+              data: { url: node.url },
+            });
+
+            return;
+          }
+        }
+
+        // Signed join token of an embedding app, after the redirect as the
+        // main room of a breakout room is only known on its node
+        const joinTokenClaims = joinToken
+          ? verifyJoinToken(String(joinToken), getMainRoomId(roomId))
+          : null;
+
         const room = await getOrCreateRoom({ roomId });
         let token = null;
 
@@ -786,7 +937,26 @@ async function runWebSocketServer() {
           statusLog();
         });
 
-        if (
+        if (joinTokenClaims) {
+          applyJoinToken(peer, joinTokenClaims);
+
+          if (typeof config.userMapping === 'function') {
+            await config.userMapping({
+              peer,
+              room,
+              roomId,
+              userinfo: joinTokenClaims,
+            });
+          }
+
+          socket.emit('notification', {
+            method: 'joinTokenAccepted',
+            data: {
+              displayName: peer.displayName,
+              picture: peer.picture,
+            },
+          });
+        } else if (
           Boolean(socket.handshake.session.passport) &&
           Boolean(socket.handshake.session.passport.user)
         ) {
@@ -818,10 +988,35 @@ async function runWebSocketServer() {
         statusLog();
       })
       .catch((error) => {
-        logger.error(
-          'room creation or room joining failed [error:"%o"]',
-          error
-        );
+        if (error instanceof RoomRejectedError) {
+          logger.info(
+            'room rejected [roomId:"%s", peerId:"%s", reason:"%s"]',
+            roomId,
+            peerId,
+            error.reason
+          );
+
+          socket.emit('notification', {
+            method: 'roomRejected',
+            data: { reason: error.reason },
+          });
+        } else {
+          logger.error(
+            'room creation or room joining failed [error:"%o"]',
+            error
+          );
+        }
+
+        // Don't keep the claim of a room that was not created
+        if (roomRegistry && !rooms.has(roomId)) {
+          roomRegistry.releaseRoom(roomId).catch((releaseError) => {
+            logger.error(
+              'releasing room failed [roomId:"%s", error:"%o"]',
+              roomId,
+              releaseError
+            );
+          });
+        }
 
         if (socket) socket.disconnect(true);
 
@@ -931,54 +1126,189 @@ async function runMediasoupWorkers() {
 
   logger.info('running %d mediasoup Workers...', numWorkers);
 
-  const { logLevel, logTags, rtcMinPort, rtcMaxPort } = config.mediasoup.worker;
+  const { rtcMinPort, rtcMaxPort } = config.mediasoup.worker;
   const portInterval = Math.floor((rtcMaxPort - rtcMinPort) / numWorkers);
 
   for (let i = 0; i < numWorkers; i++) {
-    const worker = await mediasoup.createWorker({
-      logLevel,
-      logTags,
-      rtcMinPort: rtcMinPort + i * portInterval,
-      rtcMaxPort:
-        i === numWorkers - 1
-          ? rtcMaxPort
-          : rtcMinPort + (i + 1) * portInterval - 1,
-    });
+    await createMediasoupWorker(
+      rtcMinPort + i * portInterval,
+      i === numWorkers - 1
+        ? rtcMaxPort
+        : rtcMinPort + (i + 1) * portInterval - 1
+    );
+  }
+}
 
-    worker.on('died', () => {
-      logger.error(
-        'mediasoup Worker died, exiting  in 2 seconds... [pid:%d]',
-        worker.pid
-      );
+/**
+ * Launch a mediasoup Worker on the given RTC port range, it is replaced by a
+ * new one on the same ports if it dies.
+ */
+async function createMediasoupWorker(rtcMinPort: number, rtcMaxPort: number) {
+  const { logLevel, logTags } = config.mediasoup.worker;
+
+  const worker = await mediasoup.createWorker({
+    logLevel,
+    logTags,
+    rtcMinPort,
+    rtcMaxPort,
+  });
+
+  worker.on('died', () => {
+    logger.error('mediasoup Worker died, replacing it... [pid:%d]', worker.pid);
+
+    mediasoupWorkers.delete(worker.pid);
+
+    replaceMediasoupWorker(rtcMinPort, rtcMaxPort);
+  });
+
+  mediasoupWorkers.set(worker.pid, worker);
+
+  return worker;
+}
+
+/**
+ * Launch a Worker in place of a dead one and move the rooms' routers and
+ * peers that were on it. Only the peers of the dead Worker rebuild their
+ * transports.
+ */
+async function replaceMediasoupWorker(rtcMinPort: number, rtcMaxPort: number) {
+  let worker: mediasoup.types.Worker;
+
+  try {
+    worker = await createMediasoupWorker(rtcMinPort, rtcMaxPort);
+  } catch (error) {
+    logger.error('replacing mediasoup Worker failed [error:"%o"]', error);
+
+    if (mediasoupWorkers.size === 0) {
+      logger.error('no mediasoup Worker left, exiting in 2 seconds...');
 
       setTimeout(() => process.exit(1), 2000);
-    });
+    }
+
+    return;
+  }
 
-    mediasoupWorkers.set(worker.pid, worker);
+  logger.info('mediasoup Worker replaced [pid:%d]', worker.pid);
+
+  for (const room of rooms.values()) {
+    try {
+      await room.replaceWorker(worker);
+    } catch (error) {
+      logger.error(
+        'moving room to new mediasoup Worker failed [roomId:"%s", error:"%o"]',
+        room.id,
+        error
+      );
+    }
+  }
+}
+
+/**
+ * Leaves the cluster and exits, called once the server is drained.
+ */
+async function shutdown() {
+  logger.info('shutting down...');
+
+  if (roomRegistry) {
+    try {
+      await roomRegistry.close();
+    } catch (error) {
+      logger.error('leaving the cluster failed [error:"%o"]', error);
+    }
   }
+
+  process.exit(0);
+}
+
+/**
+ * Id of the main room of a breakout room, or the id itself.
+ */
+function getMainRoomId(roomId: string) {
+  const room = rooms.get(roomId);
+
+  return room && room.parentRoom ? room.parentRoom.id : roomId;
 }
 
 /**
  * Get a Room instance (or create one if it does not exist).
  */
-async function getOrCreateRoom({ roomId }) {
+async function getOrCreateRoom({
+  roomId,
+  parentRoom = null,
+}: {
+  roomId: string;
+  parentRoom?: Room;
+}) {
   let room: Room = rooms.get(roomId);
 
+  // A breakout room is always a new room
+  if (room && parentRoom)
+    throw new Error(`breakout room "${roomId}" already exists`);
+
   // If the Room does not exist create a new one.
   if (!room) {
+    if (drainer.draining && !parentRoom)
+      throw new RoomRejectedError(
+        'serverDraining',
+        `server is draining, room "${roomId}" not created`
+      );
+
+    const meeting = meetingScheduler.get(roomId);
+
+    if (!meeting && !parentRoom && config.schedule.rejectUnknownRooms)
+      throw new RoomRejectedError(
+        'unknownRoom',
+        `room "${roomId}" is not scheduled`
+      );
+
+    if (meeting && meeting.endAt <= Date.now())
+      throw new RoomRejectedError(
+        'meetingEnded',
+        `meeting of room "${roomId}" has ended`
+      );
+
     logger.info('creating a new Room [roomId:"%s"]', roomId);
 
+    // Breakout rooms live on the node of their main room
+    if (parentRoom && roomRegistry) await roomRegistry.claimRoom(roomId);
+
     // const mediasoupWorker = getMediasoupWorker();
 
-    room = await Room.create({ mediasoupWorkers, roomId, peers });
+    room = await Room.create({
+      mediasoupWorkers,
+      roomId,
+      peers,
+      historyStore,
+      auditSink,
+      fileStore,
+      sttEngine,
+      createBreakoutRoom: (breakoutRoomId) =>
+        getOrCreateRoom({ roomId: breakoutRoomId, parentRoom: room }),
+    });
 
     rooms.set(roomId, room);
 
+    webhookDispatcher.attachRoom(room);
+
+    if (meeting) room.setMeeting(meeting);
+
+    if (drainer.draining) room.setDraining(drainer.deadline);
+
     statusLog();
 
     room.on('close', () => {
       rooms.delete(roomId);
 
+      if (roomRegistry) {
+        roomRegistry.releaseRoom(roomId).catch((error) => {
+          logger.error(
+            'releasing room failed [roomId:"%s", error:"%o"]',
+            roomId,
+            error
+          );
+        });
+      }
+
       statusLog();
     });
   }
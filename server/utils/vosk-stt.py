@@ -0,0 +1,92 @@
+#!/usr/bin/env python3
+# Live captions engine of the server (captions.engine = "vosk").
+#
+# Loads the model once and runs one recognizer per audio stream. The streams
+# are multiplexed on stdin as frames of a header, the session id (uint32),
+# the frame type (uint8) and the payload length (uint32), big endian, then
+# the payload:
+#   0 - mono signed 16 bit little endian PCM of the session
+#   1 - end of the session, its last result is written with "end": true
+#
+# The Vosk results are written as JSON lines on stdout, with the "session"
+# they belong to.
+#
+# Usage: vosk-stt.py <model directory> <sample rate>
+# Requires: pip install vosk
+
+import json
+import struct
+import sys
+
+from vosk import KaldiRecognizer, Model, SetLogLevel
+
+HEADER = struct.Struct('>IBI')
+
+AUDIO = 0
+END = 1
+
+
+def read_exactly(stream, size):
+    data = b''
+
+    while len(data) < size:
+        chunk = stream.read(size - len(data))
+
+        if not chunk:
+            return None
+
+        data += chunk
+
+    return data
+
+
+def send(session, result, **extra):
+    message = json.loads(result)
+    message['session'] = session
+    message.update(extra)
+
+    print(json.dumps(message), flush=True)
+
+
+def main():
+    model_path, sample_rate = sys.argv[1], int(sys.argv[2])
+
+    SetLogLevel(-1)
+
+    model = Model(model_path)
+    recognizers = {}
+
+    while True:
+        header = read_exactly(sys.stdin.buffer, HEADER.size)
+
+        if header is None:
+            break
+
+        session, frame_type, length = HEADER.unpack(header)
+        payload = read_exactly(sys.stdin.buffer, length)
+
+        if payload is None:
+            break
+
+        if frame_type == AUDIO:
+            recognizer = recognizers.get(session)
+
+            if recognizer is None:
+                recognizer = KaldiRecognizer(model, sample_rate)
+                recognizers[session] = recognizer
+
+            if recognizer.AcceptWaveform(payload):
+                send(session, recognizer.Result())
+            else:
+                send(session, recognizer.PartialResult())
+        elif frame_type == END:
+            recognizer = recognizers.pop(session, None)
+
+            if recognizer is None:
+                send(session, '{"text": ""}', end=True)
+            else:
+                send(session, recognizer.FinalResult(), end=True)
+
+
+if __name__ == '__main__':
+    main()